@@ -12,7 +12,7 @@ import pkg from "./package.json";
 export default defineManifest({
   manifest_version: 3,
   name: "Live Folders",
-  description: "Sync your GitHub PRs and Jira issues as browser bookmarks for quick access",
+  description: "Sync your GitHub PRs, GitLab MRs and Jira issues as browser bookmarks for quick access",
   version: pkg.version,
   icons: {
     16: "public/icon-16.png",
@@ -40,12 +40,18 @@ export default defineManifest({
     "alarms",
     "identity",
     "notifications",
+    "activeTab", // Popup reads the current tab's URL to pin it
+    "idle", // Auto-lock of the optional passphrase lock
   ],
   host_permissions: [
     "https://api.github.com/*",
+    "https://github.com/login/*", // OAuth token and device code endpoints
+    "https://gitlab.com/*",
     "https://*.atlassian.net/*", // Jira Cloud instances
     "https://*.jira.com/*", // Alternative Jira domains
   ],
+  // Requested at runtime for self-hosted instances (e.g. GitLab, GitHub Enterprise)
+  optional_host_permissions: ["https://*/*"],
   // Note: side_panel removed - not supported in Firefox
   // Workaround: Open sidepanel content in a new tab instead
 });
@@ -5,13 +5,56 @@
  * Handles extension lifecycle events and initializes background services.
  */
 
+import { authManager } from "../services/auth-manager";
+import { ConflictResolver } from "../services/conflict-resolver";
 import { notificationService } from "../services/notification-service";
 import { ProviderRegistry } from "../services/provider-registry";
+import { rateLimiter } from "../services/rate-limiter";
+import { storageManager } from "../services/storage";
+import { SyncEngine } from "../services/sync-engine";
 import { Logger } from "../utils/logger";
 import { BackgroundScheduler } from "./scheduler";
 
 const logger = new Logger("Background");
 
+/** Services every event handler needs, set up once per worker */
+let servicesPrepared: Promise<void> | null = null;
+
+/**
+ * Set up storage, rate limits and the providers (with their OAuth configs)
+ * Runs once per worker. An alarm can wake the worker without onStartup or
+ * onInstalled firing, so event handlers await this too.
+ */
+function prepareServices(): Promise<void> {
+  if (!servicesPrepared) {
+    servicesPrepared = (async () => {
+      // Initialize Logger with debug mode from settings
+      await Logger.initialize();
+
+      // Initialize storage (creates defaults and runs schema migrations)
+      await storageManager.initialize();
+
+      // Queue conflicts still waiting for the user
+      ConflictResolver.getInstance().restoreConflicts(
+        Object.values(await storageManager.getConflicts()),
+      );
+
+      // Restore rate limiter state so quotas survive service worker restarts
+      await rateLimiter.initialize();
+
+      // Register and initialize all providers
+      await ProviderRegistry.getInstance().initialize();
+    })().catch((error) => {
+      // Let the next event try again
+      servicesPrepared = null;
+      throw error;
+    });
+  }
+  return servicesPrepared;
+}
+
+authManager.setPrepare(prepareServices);
+
 /**
  * Initialize background services
  */
@@ -19,26 +62,121 @@ async function initializeBackgroundServices(): Promise<void> {
   try {
     logger.info("Initializing background services");
 
-    // Initialize Logger with debug mode from settings
-    await Logger.initialize();
-
-    // Initialize notification service (for event handlers)
+    // Initialize notification service
     await notificationService.initialize();
 
-    // Initialize provider registry first (registers and initializes all providers)
-    const registry = ProviderRegistry.getInstance();
-    await registry.initialize();
+    await prepareServices();
+
+    // Schedule token refreshes and resume device sign-ins
+    await authManager.initialize();
 
     // Initialize scheduler
     const scheduler = BackgroundScheduler.getInstance();
     await scheduler.initialize();
 
+    // Lock credentials again when the user is away
+    await configureAutoLock();
+
     logger.info("Background services initialized successfully");
   } catch (error) {
     logger.error("Failed to initialize background services", error as Error);
   }
 }
 
+/**
+ * Set the idle time after which the passphrase lock engages
+ */
+async function configureAutoLock(): Promise<void> {
+  const { autoLockMinutes } = await storageManager.getSettings();
+  if (autoLockMinutes > 0) {
+    // Chrome doesn't accept intervals under 15 seconds
+    chrome.idle.setDetectionInterval(Math.max(15, autoLockMinutes * 60));
+  }
+}
+
+/**
+ * Alarm handler for token refreshes, device sign-ins and syncs
+ * Registered synchronously at the top level, so alarms that wake the worker are delivered.
+ */
+chrome.alarms.onAlarm.addListener((alarm) => {
+  void prepareServices()
+    .then(() =>
+      Promise.all([
+        authManager.handleAlarm(alarm),
+        BackgroundScheduler.getInstance().handleAlarm(alarm),
+      ]),
+    )
+    .catch((error) => {
+      logger.error(`Failed to handle alarm ${alarm.name}`, error as Error);
+    });
+});
+
+/**
+ * Notification click and button handlers
+ * Registered at the top level: a click on a notification shown by an earlier worker wakes this one.
+ */
+chrome.notifications.onClicked.addListener((notificationId) => {
+  notificationService.handleNotificationClick(notificationId);
+});
+
+chrome.notifications.onButtonClicked?.addListener((notificationId, buttonIndex) => {
+  notificationService.handleButtonClick(notificationId, buttonIndex);
+});
+
+/**
+ * Track the focused window, so notification clicks open the sidepanel without awaiting a lookup
+ */
+chrome.windows.onFocusChanged.addListener((windowId) => {
+  if (windowId !== chrome.windows.WINDOW_ID_NONE) {
+    notificationService.trackFocusedWindow(windowId);
+  }
+});
+
+void chrome.windows
+  .getLastFocused()
+  .then((window) => {
+    if (window.id !== undefined) {
+      // A focus change seen meanwhile is newer
+      notificationService.trackFocusedWindow(window.id, true);
+    }
+  })
+  .catch(() => {
+    // No window yet; onFocusChanged catches the first one
+  });
+
+/**
+ * Lock credentials when the user goes idle or locks the screen
+ */
+chrome.idle.onStateChanged.addListener((state) => {
+  if (state === "active") {
+    return;
+  }
+
+  void (async () => {
+    // Nothing to do without a lock, with auto-lock off, or when already locked
+    const { autoLockMinutes } = await storageManager.getSettings();
+    const lock = await storageManager.getPassphraseLock();
+    if (!lock || autoLockMinutes === 0 || (await storageManager.isLocked())) {
+      return;
+    }
+
+    await storageManager.lockCredentials();
+    await ProviderRegistry.getInstance().refreshAllStatuses();
+    logger.info("Credentials locked after inactivity", { state });
+  })().catch((error) => {
+    logger.error("Auto-lock failed", error as Error);
+  });
+});
+
+/**
+ * Follow auto-lock setting changes
+ */
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName === "local" && changes.settings) {
+    void configureAutoLock();
+  }
+});
+
 /**
  * Extension install handler
  */
@@ -112,6 +250,191 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   }
 
+  if (message.type === "SYNC_LIVE_FOLDER") {
+    // Trigger sync for a single live folder
+    const { liveFolderId } = message;
+    const scheduler = BackgroundScheduler.getInstance();
+    scheduler
+      .syncLiveFolder(liveFolderId)
+      .then(() => {
+        sendResponse({ success: true });
+      })
+      .catch((error) => {
+        logger.error(`Manual sync failed for live folder ${liveFolderId}`, error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "PREVIEW_SYNC") {
+    // Dry run for a provider or a single live folder, without touching bookmarks
+    const { providerId, liveFolderId } = message;
+    const syncEngine = SyncEngine.getInstance();
+    const preview = liveFolderId
+      ? syncEngine.syncLiveFolder(liveFolderId, { dryRun: true }).then((result) => [result])
+      : syncEngine.syncProvider(providerId, { dryRun: true });
+
+    preview
+      .then((results) => {
+        sendResponse({ success: true, results });
+      })
+      .catch((error) => {
+        logger.error("Sync preview failed", error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "UNDO_LAST_SYNC") {
+    // Revert the last sync of a provider and pause its scheduled syncs
+    const { providerId } = message;
+    SyncEngine.getInstance()
+      .undoLastSync(providerId)
+      .then((result) => {
+        sendResponse({ success: true, result });
+      })
+      .catch((error) => {
+        logger.error(`Undo last sync failed for ${providerId}`, error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "SET_ITEM_PINNED") {
+    // Pin or unpin a synced item so sync never removes its bookmark
+    const { liveFolderId, itemId, pinned } = message;
+    SyncEngine.getInstance()
+      .setItemPinned(liveFolderId, itemId, pinned)
+      .then(() => {
+        sendResponse({ success: true });
+      })
+      .catch((error) => {
+        logger.error(`Failed to update pin for ${itemId}`, error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "RESOLVE_CONFLICT") {
+    // Apply the user's decision on a conflict from the conflicts view
+    const { conflictId, action } = message;
+    SyncEngine.getInstance()
+      .resolveConflict(conflictId, { action })
+      .then(() => {
+        sendResponse({ success: true });
+      })
+      .catch((error) => {
+        logger.error(`Failed to resolve conflict ${conflictId}`, error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "UNLOCK_CREDENTIALS") {
+    // Unlock credentials with the passphrase, then catch up on skipped syncs
+    const { passphrase } = message;
+    storageManager
+      .unlockCredentials(passphrase)
+      .then(async (result) => {
+        if (result.success) {
+          await ProviderRegistry.getInstance().refreshAllStatuses();
+          void BackgroundScheduler.getInstance()
+            .syncAll()
+            .catch((error) => {
+              logger.error("Sync after unlock failed", error as Error);
+            });
+        }
+        sendResponse(result);
+      })
+      .catch((error) => {
+        logger.error("Unlock failed", error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "LOCK_CREDENTIALS") {
+    // Lock credentials until the passphrase is entered again
+    storageManager
+      .lockCredentials()
+      .then(() => ProviderRegistry.getInstance().refreshAllStatuses())
+      .then(() => {
+        sendResponse({ success: true });
+      })
+      .catch((error) => {
+        logger.error("Lock failed", error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "START_DEVICE_AUTH") {
+    // Start a device flow sign-in; respond with the user code. AuthManager keeps polling
+    // from alarms, so the sign-in finishes even if this worker is suspended meanwhile
+    const { providerId } = message;
+    const registry = ProviderRegistry.getInstance();
+    const provider = registry.getProvider(providerId);
+
+    if (!provider?.authenticateWithDeviceFlow) {
+      sendResponse({ success: false, error: `Device sign-in not supported: ${providerId}` });
+      return true;
+    }
+
+    let responded = false;
+    provider
+      .authenticateWithDeviceFlow((authorization) => {
+        responded = true;
+        sendResponse({ success: true, authorization });
+      })
+      .then(async (result) => {
+        if (result.success) {
+          await registry.refreshProviderStatus(providerId);
+        }
+        if (!responded) {
+          sendResponse(result);
+        }
+      })
+      .catch((error) => {
+        logger.error("Device sign-in failed", error as Error);
+        if (!responded) {
+          sendResponse({ success: false, error: (error as Error).message });
+        }
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
+  if (message.type === "CANCEL_DEVICE_AUTH") {
+    // Stop polling for a device flow sign-in
+    authManager
+      .cancelDeviceFlow(message.providerId)
+      .then(() => {
+        sendResponse({ success: true });
+      })
+      .catch((error) => {
+        logger.error("Cancel device sign-in failed", error as Error);
+        sendResponse({ success: false, error: (error as Error).message });
+      });
+
+    // Return true to indicate async response
+    return true;
+  }
+
   if (message.type === "GET_SYNC_STATUS") {
     // Get current sync status
     const scheduler = BackgroundScheduler.getInstance();
@@ -8,14 +8,17 @@
  * Features:
  * - Periodic sync scheduling with browser.alarms
  * - Manual sync triggers from popup/sidepanel
- * - Per-provider sync control
+ * - Per-provider and per-live-folder sync control
  * - Configurable sync intervals via extension settings
+ * - Skips syncs while credentials are locked by the passphrase lock
  * - Extension lifecycle hooks (install, startup)
  * - Error handling and retry logic
  */
 
+import { ProviderErrorType } from "../providers/provider-error";
+import { type RetryOptions, RetryStrategy, retryService } from "../services/retry-service";
 import { StorageManager } from "../services/storage";
-import { SyncEngine } from "../services/sync-engine";
+import { SyncEngine, type SyncResult } from "../services/sync-engine";
 import { Logger } from "../utils/logger";
 
 const logger = new Logger("BackgroundScheduler");
@@ -32,7 +35,31 @@ const ALARM_NAMES = {
  * Retry configuration constants
  */
 const MAX_RETRIES = 3;
-const RETRY_DELAY_MINUTES = 5;
+
+/**
+ * storage.session key prefix for each live folder's retry count
+ * The service worker may be stopped between retry alarms, so counts can't live in memory.
+ */
+const RETRY_COUNT_KEY_PREFIX = "syncRetryCount-";
+
+/**
+ * Backoff between retry alarms: about 1, 2 then 4 minutes (with jitter)
+ */
+const SYNC_RETRY_OPTIONS: RetryOptions = {
+  initialDelay: 60000,
+  maxDelay: 30 * 60000,
+  strategy: RetryStrategy.EXPONENTIAL,
+  backoffMultiplier: 2,
+  useJitter: true,
+};
+
+/**
+ * Failures that need the user (reconnect, fix settings); retrying would fail again
+ */
+const NON_RETRYABLE_ERROR_TYPES = new Set([
+  ProviderErrorType.AUTH_EXPIRED,
+  ProviderErrorType.CONFIG,
+]);
 
 /**
  * Background Scheduler
@@ -47,7 +74,6 @@ export class BackgroundScheduler {
   private storage: StorageManager;
   private isInitialized = false;
   private syncInProgress = false;
-  private retryCount = new Map<string, number>();
 
   private constructor() {
     this.syncEngine = SyncEngine.getInstance();
@@ -68,7 +94,7 @@ export class BackgroundScheduler {
   /**
    * Initialize the scheduler
    *
-   * Sets up alarm listeners and schedules initial sync if configured.
+   * Schedules the periodic sync and syncs once.
    * Should be called when the background service worker starts.
    */
   public async initialize(): Promise<void> {
@@ -80,9 +106,6 @@ export class BackgroundScheduler {
     try {
       logger.info("Initializing scheduler");
 
-      // Set up alarm listener
-      this.setupAlarmListener();
-
       // Schedule periodic sync
       await this.schedulePeriodicSync();
 
@@ -110,31 +133,22 @@ export class BackgroundScheduler {
   }
 
   /**
-   * Set up alarm listener
+   * Run a periodic or retry sync when its alarm fires
+   * The background worker listens for alarms; other alarms are ignored.
    */
-  private setupAlarmListener(): void {
-    chrome.alarms.onAlarm.addListener((alarm) => {
-      logger.debug("Alarm triggered", {
-        name: alarm.name,
+  public async handleAlarm(alarm: { name: string }): Promise<void> {
+    if (alarm.name === ALARM_NAMES.PERIODIC_SYNC) {
+      logger.debug("Alarm triggered", { name: alarm.name });
+      await this.syncAll().catch((error) => {
+        logger.error("Periodic sync failed", error as Error);
       });
-
-      if (alarm.name === ALARM_NAMES.PERIODIC_SYNC) {
-        void this.syncAll().catch((error) => {
-          logger.error("Periodic sync failed", error as Error);
-        });
-      } else if (alarm.name.startsWith(ALARM_NAMES.RETRY_SYNC)) {
-        const providerId = alarm.name.replace(`${ALARM_NAMES.RETRY_SYNC}-`, "");
-        void this.syncProvider(providerId).catch((error) => {
-          logger.error(
-            "BackgroundScheduler",
-            `Retry sync failed for ${providerId}`,
-            error as Error,
-          );
-        });
-      }
-    });
-
-    logger.debug("Alarm listener registered");
+    } else if (alarm.name.startsWith(ALARM_NAMES.RETRY_SYNC)) {
+      logger.debug("Alarm triggered", { name: alarm.name });
+      const liveFolderId = alarm.name.replace(`${ALARM_NAMES.RETRY_SYNC}-`, "");
+      await this.syncLiveFolder(liveFolderId).catch((error) => {
+        logger.error(`Retry sync failed for ${liveFolderId}`, error as Error);
+      });
+    }
   }
 
   /**
@@ -158,25 +172,25 @@ export class BackgroundScheduler {
   }
 
   /**
-   * Schedule a retry sync for a specific provider
+   * Schedule a retry sync for a specific live folder
    */
-  private async scheduleRetrySyncProvider(providerId: string): Promise<void> {
-    const alarmName = `${ALARM_NAMES.RETRY_SYNC}-${providerId}`;
+  private async scheduleRetrySyncLiveFolder(liveFolderId: string, delayMs: number): Promise<void> {
+    const alarmName = `${ALARM_NAMES.RETRY_SYNC}-${liveFolderId}`;
 
     await chrome.alarms.create(alarmName, {
-      delayInMinutes: RETRY_DELAY_MINUTES,
+      when: Date.now() + delayMs,
     });
 
     logger.info("Retry sync scheduled", {
-      providerId,
-      delayMinutes: RETRY_DELAY_MINUTES,
+      liveFolderId,
+      delaySeconds: Math.round(delayMs / 1000),
     });
   }
 
   /**
-   * Sync all providers
+   * Sync all live folders
    *
-   * Triggers sync for all registered providers (only enabled ones).
+   * Triggers sync for every enabled live folder whose provider is enabled.
    * Runs syncs in parallel for better performance.
    */
   public async syncAll(): Promise<void> {
@@ -185,27 +199,40 @@ export class BackgroundScheduler {
       return;
     }
 
+    if (await this.storage.isLocked()) {
+      logger.info("Credentials locked, skipping sync");
+      return;
+    }
+
     this.syncInProgress = true;
-    logger.info("Starting sync for all providers");
+    logger.info("Starting sync for all live folders");
 
     try {
-      // Get all provider configs
-      const providersRecord = await this.storage.getProviders();
-      const providers = Object.entries(providersRecord);
-
-      // Filter to only enabled providers with folders configured
-      const providersToSync = providers.filter(([, data]) => data.config.enabled && data.folderId);
+      // Get all provider configs and live folders
+      const providers = await this.storage.getProviders();
+      const liveFolders = Object.values(await this.storage.getLiveFolders());
+      const authStates = await this.storage.getAllAuth();
+
+      // Filter to enabled live folders with a bookmark folder and an enabled provider
+      // whose credentials weren't rejected (those wait for the user to reconnect)
+      const foldersToSync = liveFolders.filter(
+        (liveFolder) =>
+          liveFolder.enabled &&
+          liveFolder.folderId &&
+          providers[liveFolder.providerId]?.config.enabled &&
+          !authStates[liveFolder.providerId]?.needsReauth,
+      );
 
-      if (providersToSync.length === 0) {
-        logger.info("No providers to sync (none enabled or configured)");
+      if (foldersToSync.length === 0) {
+        logger.info("No live folders to sync (none enabled or configured)");
         return;
       }
 
-      logger.info(`Syncing ${providersToSync.length} providers`);
+      logger.info(`Syncing ${foldersToSync.length} live folders`);
 
-      // Sync all providers in parallel
+      // Sync all live folders in parallel
       const results = await Promise.allSettled(
-        providersToSync.map(([providerId]) => this.syncProvider(providerId)),
+        foldersToSync.map((liveFolder) => this.syncLiveFolder(liveFolder.id)),
       );
 
       // Log results
@@ -213,7 +240,7 @@ export class BackgroundScheduler {
       const failed = results.filter((r) => r.status === "rejected").length;
 
       logger.info("Sync completed", {
-        total: providersToSync.length,
+        total: foldersToSync.length,
         successful,
         failed,
       });
@@ -228,52 +255,105 @@ export class BackgroundScheduler {
   /**
    * Sync a specific provider
    *
-   * Triggers sync for a single provider with retry logic.
+   * Triggers sync for every enabled live folder of the provider.
    */
   public async syncProvider(providerId: string): Promise<void> {
-    try {
-      logger.info(`Syncing provider: ${providerId}`);
+    logger.info(`Syncing provider: ${providerId}`);
 
-      // Perform sync
-      const result = await this.syncEngine.syncProvider(providerId);
+    const liveFolders = await this.storage.getLiveFoldersForProvider(providerId);
+    const foldersToSync = liveFolders.filter(
+      (liveFolder) => liveFolder.enabled && liveFolder.folderId,
+    );
 
-      // Reset retry count on success
-      this.retryCount.delete(providerId);
+    const results = await Promise.allSettled(
+      foldersToSync.map((liveFolder) => this.syncLiveFolder(liveFolder.id)),
+    );
 
-      logger.info(`Provider synced: ${providerId}`, {
-        result,
-      });
+    const failure = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+    if (failure) {
+      throw failure.reason;
+    }
+  }
+
+  /**
+   * Sync a specific live folder
+   *
+   * Triggers sync for a single live folder with retry logic.
+   */
+  public async syncLiveFolder(liveFolderId: string): Promise<void> {
+    let result: SyncResult;
+
+    // Tokens are unavailable; the next sync after unlocking catches up
+    if (await this.storage.isLocked()) {
+      logger.info(`Credentials locked, skipping sync of ${liveFolderId}`);
+      await this.clearRetryCount(liveFolderId);
+      return;
+    }
+
+    try {
+      logger.info(`Syncing live folder: ${liveFolderId}`);
+
+      // Perform sync
+      result = await this.syncEngine.syncLiveFolder(liveFolderId);
     } catch (error) {
-      logger.error(`Provider sync failed: ${providerId}`, error as Error);
+      logger.error(`Live folder sync failed: ${liveFolderId}`, error as Error);
 
       // Handle retries
-      await this.handleSyncFailure(providerId, error as Error);
+      await this.handleSyncFailure(liveFolderId, {});
       throw error;
     }
+
+    if (!result.success) {
+      logger.error(`Live folder sync failed: ${liveFolderId}`, { error: result.error });
+      await this.handleSyncFailure(liveFolderId, result);
+      throw new Error(result.error || `Sync failed for live folder ${liveFolderId}`);
+    }
+
+    // Reset retry count on success
+    await this.clearRetryCount(liveFolderId);
+
+    logger.info(`Live folder synced: ${liveFolderId}`, {
+      result,
+    });
   }
 
   /**
    * Handle sync failure with retry logic
+   * Retries back off exponentially and never come sooner than the provider asked for
    */
-  private async handleSyncFailure(providerId: string, error: Error): Promise<void> {
-    const retries = this.retryCount.get(providerId) ?? 0;
+  private async handleSyncFailure(
+    liveFolderId: string,
+    failure: Pick<SyncResult, "errorType" | "retryAfter">,
+  ): Promise<void> {
+    if (failure.errorType && NON_RETRYABLE_ERROR_TYPES.has(failure.errorType)) {
+      await this.clearRetryCount(liveFolderId);
+      logger.info(`Not retrying ${liveFolderId}`, { errorType: failure.errorType });
+      return;
+    }
+
+    const retries = await this.getRetryCount(liveFolderId);
 
     if (retries < MAX_RETRIES) {
       // Increment retry count
-      this.retryCount.set(providerId, retries + 1);
+      await this.setRetryCount(liveFolderId, retries + 1);
 
       // Schedule retry
-      await this.scheduleRetrySyncProvider(providerId);
+      const backoff = retryService.getDelay(retries + 1, SYNC_RETRY_OPTIONS);
+      await this.scheduleRetrySyncLiveFolder(
+        liveFolderId,
+        Math.max(backoff, failure.retryAfter ?? 0),
+      );
 
-      logger.info(`Scheduled retry for ${providerId}`, {
+      logger.info(`Scheduled retry for ${liveFolderId}`, {
         attempt: retries + 1,
         maxRetries: MAX_RETRIES,
+        errorType: failure.errorType,
       });
     } else {
       // Max retries reached
-      this.retryCount.delete(providerId);
+      await this.clearRetryCount(liveFolderId);
 
-      logger.error(`Max retries reached for ${providerId}`, error);
+      logger.error(`Max retries reached for ${liveFolderId}`);
 
       // TODO: Notify user of sync failure
       // This could be done via browser notifications or badge
@@ -285,10 +365,36 @@ export class BackgroundScheduler {
    */
   public async cancelAll(): Promise<void> {
     await chrome.alarms.clearAll();
-    this.retryCount.clear();
+    const stored = await chrome.storage.session.get(null);
+    await chrome.storage.session.remove(
+      Object.keys(stored).filter((key) => key.startsWith(RETRY_COUNT_KEY_PREFIX)),
+    );
     logger.info("All scheduled syncs cancelled");
   }
 
+  /**
+   * Get how often a live folder's sync has been retried
+   */
+  private async getRetryCount(liveFolderId: string): Promise<number> {
+    const key = `${RETRY_COUNT_KEY_PREFIX}${liveFolderId}`;
+    const stored = await chrome.storage.session.get(key);
+    return (stored[key] as number | undefined) ?? 0;
+  }
+
+  /**
+   * Record how often a live folder's sync has been retried
+   */
+  private async setRetryCount(liveFolderId: string, retries: number): Promise<void> {
+    await chrome.storage.session.set({ [`${RETRY_COUNT_KEY_PREFIX}${liveFolderId}`]: retries });
+  }
+
+  /**
+   * Forget a live folder's retry count
+   */
+  private async clearRetryCount(liveFolderId: string): Promise<void> {
+    await chrome.storage.session.remove(`${RETRY_COUNT_KEY_PREFIX}${liveFolderId}`);
+  }
+
   /**
    * Get status of scheduled syncs
    */
@@ -1,8 +1,8 @@
-import { CheckCircle, Error as ErrorIcon, Warning } from "@mui/icons-material";
+import { CheckCircle, Error as ErrorIcon, LinkOff, Lock, Warning } from "@mui/icons-material";
 import { Box, Chip, type ChipProps, CircularProgress } from "@mui/material";
 
 export interface StatusBadgeProps {
-  status: "connected" | "disconnected" | "error" | "loading";
+  status: "connected" | "disconnected" | "error" | "loading" | "locked" | "reauth";
   label?: string;
   size?: ChipProps["size"];
 }
@@ -34,6 +34,18 @@ export function StatusBadge({ status, label, size = "small" }: StatusBadgeProps)
           icon: <ErrorIcon />,
           label: label || "Error",
         };
+      case "locked":
+        return {
+          color: "warning",
+          icon: <Lock />,
+          label: label || "Locked",
+        };
+      case "reauth":
+        return {
+          color: "warning",
+          icon: <LinkOff />,
+          label: label || "Reconnect",
+        };
       case "loading":
         return {
           color: "info",
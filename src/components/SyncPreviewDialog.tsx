@@ -0,0 +1,175 @@
+import { Add, Delete, Edit, EditNote } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  ListSubheader,
+  Typography,
+} from "@mui/material";
+import type { SyncPreview } from "@/services/sync-engine";
+
+export interface SyncPreviewDialogProps {
+  open: boolean;
+  preview: SyncPreview | null;
+  loading: boolean;
+  applying: boolean;
+  error: string | null;
+  onApply: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Sync Preview Dialog
+ *
+ * Lists the bookmarks a sync would add, update and remove so the user can
+ * review a dry run before applying it. Applying runs a real sync, which fetches
+ * the items again, so the result may differ from the preview.
+ */
+export function SyncPreviewDialog({
+  open,
+  preview,
+  loading,
+  applying,
+  error,
+  onApply,
+  onClose,
+}: SyncPreviewDialogProps) {
+  const totalChanges = preview
+    ? preview.toAdd.length +
+      preview.toUpdate.length +
+      preview.toDelete.length +
+      preview.localEdits.length
+    : 0;
+
+  return (
+    <Dialog open={open} onClose={applying ? undefined : onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Sync Preview{preview ? `: ${preview.liveFolderName}` : ""}</DialogTitle>
+      <DialogContent dividers>
+        {loading && (
+          <Box display="flex" justifyContent="center" py={3}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {preview && !loading && (
+          <>
+            <Typography variant="body2" color="text.secondary" gutterBottom>
+              {preview.toAdd.length} to add • {preview.toUpdate.length} to update •{" "}
+              {preview.toDelete.length} to remove • {preview.unchanged} unchanged
+              {preview.localEdits.length > 0 && ` • ${preview.localEdits.length} edited locally`}
+            </Typography>
+
+            {totalChanges > 0 && (
+              <Alert severity="info" sx={{ mt: 1 }}>
+                Apply fetches the items again, so the changes it makes may differ from this preview.
+              </Alert>
+            )}
+
+            {totalChanges === 0 && (
+              <Alert severity="success" sx={{ mt: 1 }}>
+                This folder is already up to date.
+              </Alert>
+            )}
+
+            <List dense disablePadding>
+              {preview.toAdd.length > 0 && <ListSubheader disableGutters>Add</ListSubheader>}
+              {preview.toAdd.map((item) => (
+                <ListItem key={`add-${item.id}`} disableGutters>
+                  <ListItemIcon sx={{ minWidth: 32 }}>
+                    <Add fontSize="small" color="success" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={item.title}
+                    secondary={item.url}
+                    slotProps={{ secondary: { noWrap: true } }}
+                  />
+                </ListItem>
+              ))}
+
+              {preview.toUpdate.length > 0 && <ListSubheader disableGutters>Update</ListSubheader>}
+              {preview.toUpdate.map(({ bookmarkId, oldItem, newItem }) => (
+                <ListItem key={`update-${bookmarkId}`} disableGutters>
+                  <ListItemIcon sx={{ minWidth: 32 }}>
+                    <Edit fontSize="small" color="info" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={newItem.title}
+                    secondary={
+                      oldItem.url !== newItem.url
+                        ? `${oldItem.url} → ${newItem.url}`
+                        : `was: ${oldItem.title}`
+                    }
+                    slotProps={{ secondary: { noWrap: true } }}
+                  />
+                </ListItem>
+              ))}
+
+              {preview.toDelete.length > 0 && <ListSubheader disableGutters>Remove</ListSubheader>}
+              {preview.toDelete.map((bookmark) => (
+                <ListItem key={`delete-${bookmark.bookmarkId}`} disableGutters>
+                  <ListItemIcon sx={{ minWidth: 32 }}>
+                    <Delete fontSize="small" color="error" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={bookmark.title}
+                    secondary={bookmark.url}
+                    slotProps={{ secondary: { noWrap: true } }}
+                  />
+                </ListItem>
+              ))}
+
+              {preview.localEdits.length > 0 && (
+                <ListSubheader disableGutters>
+                  Edited locally (resolved with the conflict strategy)
+                </ListSubheader>
+              )}
+              {preview.localEdits.map(({ bookmarkId, local, remote }) => (
+                <ListItem key={`edit-${bookmarkId}`} disableGutters>
+                  <ListItemIcon sx={{ minWidth: 32 }}>
+                    <EditNote fontSize="small" color="warning" />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={local.title}
+                    secondary={`fetched: ${remote.title}`}
+                    slotProps={{ secondary: { noWrap: true } }}
+                  />
+                </ListItem>
+              ))}
+            </List>
+
+            {preview.order.length > 0 && (
+              <Typography variant="caption" color="text.secondary" display="block" mt={1}>
+                Final order: {preview.order.slice(0, 5).join(", ")}
+                {preview.order.length > 5 && `, … (${preview.order.length} total)`}
+              </Typography>
+            )}
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={applying}>
+          Cancel
+        </Button>
+        <Button
+          onClick={onApply}
+          variant="contained"
+          disabled={!preview || loading || applying || totalChanges === 0}
+          startIcon={applying ? <CircularProgress size={16} /> : undefined}
+        >
+          {applying ? "Applying..." : "Apply"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
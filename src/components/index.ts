@@ -6,3 +6,4 @@
 
 export { ProviderIcon, type ProviderIconProps } from "./ProviderIcon";
 export { StatusBadge, type StatusBadgeProps } from "./StatusBadge";
+export { SyncPreviewDialog, type SyncPreviewDialogProps } from "./SyncPreviewDialog";
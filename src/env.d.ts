@@ -14,7 +14,8 @@ interface ImportMetaEnv {
   readonly VITE_GITHUB_OAUTH_CLIENT_ID?: string;
 
   /**
-   * GitHub OAuth Client Secret
+   * GitHub OAuth Client Secret (optional, PKCE is used without it)
+   * Anything set here is bundled into the extension and can be extracted
    * Get from: https://github.com/settings/developers
    */
   readonly VITE_GITHUB_OAUTH_CLIENT_SECRET?: string;
@@ -26,7 +27,8 @@ interface ImportMetaEnv {
   readonly VITE_JIRA_OAUTH_CLIENT_ID?: string;
 
   /**
-   * Jira OAuth Client Secret
+   * Jira OAuth Client Secret (optional, PKCE is used without it)
+   * Anything set here is bundled into the extension and can be extracted
    * Get from: https://developer.atlassian.com/console/myapps/
    */
   readonly VITE_JIRA_OAUTH_CLIENT_SECRET?: string;
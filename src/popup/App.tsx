@@ -8,6 +8,8 @@ import { Logger } from "@/utils/logger";
 import { Header } from "./components/Header";
 import { ProviderList } from "./components/ProviderList";
 import { QuickActions } from "./components/QuickActions";
+import { UnlockPrompt } from "./components/UnlockPrompt";
+import { useCurrentItem } from "./hooks/useCurrentItem";
 import { useProviders } from "./hooks/useProviders";
 import "./App.css";
 
@@ -16,8 +18,20 @@ export default function App() {
   const themeMode = useTheme();
   const theme = useMemo(() => createAppTheme(themeMode), [themeMode]);
 
-  const { providers, loading, error, syncAll, syncProvider, connectProvider, openSettings } =
-    useProviders();
+  const {
+    providers,
+    loading,
+    error,
+    locked,
+    syncAll,
+    syncProvider,
+    undoLastSync,
+    connectProvider,
+    reconnectProvider,
+    unlock,
+    openSettings,
+  } = useProviders();
+  const { item: currentItem, togglePin } = useCurrentItem();
 
   // Initialize Logger on mount
   useEffect(() => {
@@ -53,12 +67,15 @@ export default function App() {
           )}
           {!loading && !error && (
             <>
+              {locked && <UnlockPrompt onUnlock={unlock} />}
               <ProviderList
                 providers={providers}
                 onSync={syncProvider}
+                onUndo={undoLastSync}
                 onConnect={connectProvider}
+                onReconnect={reconnectProvider}
               />
-              <QuickActions onSyncAll={syncAll} />
+              <QuickActions onSyncAll={syncAll} currentItem={currentItem} onTogglePin={togglePin} />
             </>
           )}
         </Box>
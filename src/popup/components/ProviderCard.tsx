@@ -1,4 +1,4 @@
-import { Login as LoginIcon, Sync as SyncIcon } from "@mui/icons-material";
+import { Login as LoginIcon, Sync as SyncIcon, Undo as UndoIcon } from "@mui/icons-material";
 import { Box, Button, Card, CardActions, CardContent, Stack, Typography } from "@mui/material";
 import { useState } from "react";
 import { ProviderIcon } from "@/components/ProviderIcon";
@@ -8,7 +8,9 @@ import type { ProviderInfo } from "../hooks/useProviders";
 export interface ProviderCardProps {
   provider: ProviderInfo;
   onSync: () => Promise<void>;
+  onUndo: () => Promise<void>;
   onConnect: () => Promise<void>;
+  onReconnect: () => Promise<void>;
 }
 
 /**
@@ -16,8 +18,15 @@ export interface ProviderCardProps {
  *
  * Displays individual provider status and actions.
  */
-export function ProviderCard({ provider, onSync, onConnect }: ProviderCardProps) {
+export function ProviderCard({
+  provider,
+  onSync,
+  onUndo,
+  onConnect,
+  onReconnect,
+}: ProviderCardProps) {
   const [syncing, setSyncing] = useState(false);
+  const [undoing, setUndoing] = useState(false);
   const [connecting, setConnecting] = useState(false);
 
   const handleSync = async () => {
@@ -29,14 +38,39 @@ export function ProviderCard({ provider, onSync, onConnect }: ProviderCardProps)
     }
   };
 
+  const handleUndo = async () => {
+    setUndoing(true);
+    try {
+      await onUndo();
+    } finally {
+      setUndoing(false);
+    }
+  };
+
   const getStatusType = () => {
-    if (syncing) return "loading";
+    if (syncing || undoing) return "loading";
+    if (provider.locked) return "locked";
+    if (provider.status.needsReauth) return "reauth";
     if (provider.status.lastError) return "error";
     if (provider.status.authenticated) return "connected";
     return "disconnected";
   };
 
   const getActionButton = () => {
+    // Credentials are unavailable, so neither connecting nor syncing can work
+    if (provider.locked) {
+      return null;
+    }
+
+    // Saved credentials were rejected; reconnecting happens in the sidepanel
+    if (provider.status.needsReauth) {
+      return (
+        <Button size="small" startIcon={<LoginIcon />} onClick={onReconnect}>
+          Reconnect
+        </Button>
+      );
+    }
+
     if (!provider.status.authenticated) {
       return (
         <Button
@@ -86,6 +120,24 @@ export function ProviderCard({ provider, onSync, onConnect }: ProviderCardProps)
           </Typography>
         )}
 
+        {provider.locked && (
+          <Typography variant="caption" color="text.secondary" display="block">
+            Credentials locked — unlock to resume syncing
+          </Typography>
+        )}
+
+        {provider.status.needsReauth && !provider.locked && (
+          <Typography variant="caption" color="text.secondary" display="block">
+            Sign-in expired or was revoked — reconnect to resume syncing
+          </Typography>
+        )}
+
+        {provider.status.authenticated && !provider.status.enabled && (
+          <Typography variant="caption" color="text.secondary" display="block">
+            Sync paused — enable this provider in settings to resume
+          </Typography>
+        )}
+
         {provider.error && (
           <Typography variant="caption" color="error">
             {provider.error}
@@ -95,6 +147,16 @@ export function ProviderCard({ provider, onSync, onConnect }: ProviderCardProps)
 
       <CardActions sx={{ pt: 0, px: 2, pb: 1 }}>
         <Box sx={{ flexGrow: 1 }} />
+        {provider.status.authenticated && !provider.locked && provider.canUndo && (
+          <Button
+            size="small"
+            startIcon={<UndoIcon />}
+            onClick={handleUndo}
+            disabled={syncing || undoing}
+          >
+            {undoing ? "Undoing..." : "Undo last sync"}
+          </Button>
+        )}
         {getActionButton()}
       </CardActions>
     </Card>
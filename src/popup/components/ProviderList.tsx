@@ -5,7 +5,9 @@ import { ProviderCard } from "./ProviderCard";
 export interface ProviderListProps {
   providers: ProviderInfo[];
   onSync: (providerId: string) => Promise<void>;
+  onUndo: (providerId: string) => Promise<void>;
   onConnect: (providerId: string) => Promise<void>;
+  onReconnect: (providerId: string) => Promise<void>;
 }
 
 /**
@@ -13,7 +15,13 @@ export interface ProviderListProps {
  *
  * Displays a list of all registered providers with their status.
  */
-export function ProviderList({ providers, onSync, onConnect }: ProviderListProps) {
+export function ProviderList({
+  providers,
+  onSync,
+  onUndo,
+  onConnect,
+  onReconnect,
+}: ProviderListProps) {
   if (providers.length === 0) {
     return (
       <Box
@@ -35,7 +43,9 @@ export function ProviderList({ providers, onSync, onConnect }: ProviderListProps
           key={provider.id}
           provider={provider}
           onSync={() => onSync(provider.id)}
+          onUndo={() => onUndo(provider.id)}
           onConnect={() => onConnect(provider.id)}
+          onReconnect={() => onReconnect(provider.id)}
         />
       ))}
     </Stack>
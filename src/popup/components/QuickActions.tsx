@@ -1,19 +1,33 @@
-import { CheckCircle, Sync as SyncIcon } from "@mui/icons-material";
-import { Box, Button, Divider } from "@mui/material";
+import { CheckCircle, PushPin, PushPinOutlined, Sync as SyncIcon } from "@mui/icons-material";
+import { Box, Button, Divider, Stack } from "@mui/material";
 import { useState } from "react";
+import type { CurrentItem } from "../hooks/useCurrentItem";
 
 export interface QuickActionsProps {
   onSyncAll: () => Promise<void>;
+  /** Synced item open in the current tab, if any */
+  currentItem?: CurrentItem | null;
+  onTogglePin?: () => Promise<void>;
 }
 
 /**
  * Quick Actions Component
  *
- * Displays quick action button for syncing all providers.
+ * Displays quick action buttons for syncing all providers and pinning the current page.
  */
-export function QuickActions({ onSyncAll }: QuickActionsProps) {
+export function QuickActions({ onSyncAll, currentItem, onTogglePin }: QuickActionsProps) {
   const [syncing, setSyncing] = useState(false);
   const [success, setSuccess] = useState(false);
+  const [pinning, setPinning] = useState(false);
+
+  const handleTogglePin = async () => {
+    setPinning(true);
+    try {
+      await onTogglePin?.();
+    } finally {
+      setPinning(false);
+    }
+  };
 
   const handleSyncAll = async () => {
     setSyncing(true);
@@ -31,7 +45,18 @@ export function QuickActions({ onSyncAll }: QuickActionsProps) {
   return (
     <Box>
       <Divider />
-      <Box sx={{ p: 2 }}>
+      <Stack spacing={1} sx={{ p: 2 }}>
+        {currentItem && onTogglePin && (
+          <Button
+            variant="outlined"
+            startIcon={currentItem.pinned ? <PushPin /> : <PushPinOutlined />}
+            onClick={handleTogglePin}
+            disabled={pinning}
+            fullWidth
+          >
+            {currentItem.pinned ? "Unpin current page" : "Pin current page"}
+          </Button>
+        )}
         <Button
           variant="contained"
           startIcon={success ? <CheckCircle /> : <SyncIcon />}
@@ -42,7 +67,7 @@ export function QuickActions({ onSyncAll }: QuickActionsProps) {
         >
           {syncing ? "Syncing..." : success ? "Synced!" : "Sync All"}
         </Button>
-      </Box>
+      </Stack>
     </Box>
   );
 }
@@ -0,0 +1,63 @@
+import { LockOpen } from "@mui/icons-material";
+import { Alert, Box, Button, Stack, TextField, Typography } from "@mui/material";
+import { type FormEvent, useState } from "react";
+
+export interface UnlockPromptProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+}
+
+/**
+ * Unlock Prompt Component
+ *
+ * Asks for the passphrase while credentials are locked by the passphrase lock.
+ */
+export function UnlockPrompt({ onUnlock }: UnlockPromptProps) {
+  const [passphrase, setPassphrase] = useState("");
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+      setPassphrase("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to unlock");
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <Box component="form" onSubmit={handleSubmit} sx={{ px: 2, pt: 2 }}>
+      <Stack spacing={1}>
+        <Typography variant="body2" color="text.secondary">
+          Credentials are locked. Enter your passphrase to resume syncing.
+        </Typography>
+        {error && <Alert severity="error">{error}</Alert>}
+        <Stack direction="row" spacing={1}>
+          <TextField
+            type="password"
+            size="small"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            disabled={unlocking}
+            autoFocus
+            fullWidth
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            startIcon={<LockOpen />}
+            disabled={unlocking || !passphrase}
+          >
+            {unlocking ? "Unlocking..." : "Unlock"}
+          </Button>
+        </Stack>
+      </Stack>
+    </Box>
+  );
+}
@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useState } from "react";
+import { StorageManager } from "@/services/storage";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+
+const logger = new Logger("useCurrentItem");
+
+export interface CurrentItem {
+  liveFolderId: string;
+  itemId: string;
+  pinned: boolean;
+}
+
+export interface UseCurrentItemResult {
+  /** Synced item whose bookmark points at the current tab, if any */
+  item: CurrentItem | null;
+  togglePin: () => Promise<void>;
+}
+
+/**
+ * Hook for the synced item open in the current tab
+ *
+ * Lets the popup pin or unpin the page the user is looking at.
+ */
+export function useCurrentItem(): UseCurrentItemResult {
+  const [item, setItem] = useState<CurrentItem | null>(null);
+
+  useEffect(() => {
+    const findCurrentItem = async () => {
+      try {
+        const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        if (!tab?.url?.startsWith("http")) {
+          return;
+        }
+
+        const bookmarkIds = new Set(
+          (await browser.bookmarks.search({ url: tab.url })).map((bookmark) => bookmark.id),
+        );
+        if (bookmarkIds.size === 0) {
+          return;
+        }
+
+        const allMetadata = await StorageManager.getInstance().getAllBookmarkMetadata();
+        for (const [liveFolderId, records] of Object.entries(allMetadata)) {
+          const record = Object.values(records).find((r) => bookmarkIds.has(r.bookmarkId));
+          if (record) {
+            setItem({ liveFolderId, itemId: record.itemId, pinned: record.pinned ?? false });
+            return;
+          }
+        }
+      } catch (err) {
+        logger.error("Failed to find the current tab's item", err as Error);
+      }
+    };
+
+    void findCurrentItem();
+  }, []);
+
+  // Pin or unpin via background so it can't race a running sync's metadata write
+  const togglePin = useCallback(async () => {
+    if (!item) {
+      return;
+    }
+
+    const pinned = !item.pinned;
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "SET_ITEM_PINNED",
+        liveFolderId: item.liveFolderId,
+        itemId: item.itemId,
+        pinned,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update pin");
+      }
+
+      setItem({ ...item, pinned });
+    } catch (err) {
+      logger.error(`Failed to ${pinned ? "pin" : "unpin"} ${item.itemId}`, err as Error);
+    }
+  }, [item]);
+
+  return { item, togglePin };
+}
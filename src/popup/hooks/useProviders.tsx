@@ -13,15 +13,24 @@ export interface ProviderInfo {
   itemCount?: number;
   lastSync?: number; // Timestamp
   error?: string;
+  canUndo?: boolean; // Whether the last sync can be undone
+  locked?: boolean; // Whether credentials are locked by the passphrase lock
 }
 
 export interface UseProvidersResult {
   providers: ProviderInfo[];
   loading: boolean;
   error: string | null;
+  /** Whether credentials are locked by the passphrase lock */
+  locked: boolean;
   syncAll: () => Promise<void>;
   syncProvider: (providerId: string) => Promise<void>;
+  undoLastSync: (providerId: string) => Promise<void>;
   connectProvider: (providerId: string) => Promise<void>;
+  /** Open the sidepanel on a provider whose credentials were rejected */
+  reconnectProvider: (providerId: string) => Promise<void>;
+  /** Unlock credentials; throws if the passphrase is wrong */
+  unlock: (passphrase: string) => Promise<void>;
   openSettings: () => void;
 }
 
@@ -34,14 +43,19 @@ export function useProviders(): UseProvidersResult {
   const [providers, setProviders] = useState<ProviderInfo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [locked, setLocked] = useState(false);
 
   // Refresh provider status from storage
   const refreshProviderStatus = useCallback(async () => {
     try {
       const storage = StorageManager.getInstance();
       const providersData = await storage.getProviders();
+      const syncUndo = await storage.getSyncUndo();
+      const isLocked = await storage.isLocked();
       const registry = ProviderRegistry.getInstance();
 
+      setLocked(isLocked);
+
       setProviders((prev) =>
         prev.map((provider) => {
           const status = registry.getProviderStatus(provider.id);
@@ -52,6 +66,8 @@ export function useProviders(): UseProvidersResult {
             status: status || provider.status,
             lastSync: providerData?.lastSync,
             error: status?.lastError,
+            canUndo: Boolean(syncUndo[provider.id]),
+            locked: isLocked,
           };
         }),
       );
@@ -73,6 +89,8 @@ export function useProviders(): UseProvidersResult {
         // Get storage manager for provider data
         const storage = StorageManager.getInstance();
         const providersData = await storage.getProviders();
+        const syncUndo = await storage.getSyncUndo();
+        const isLocked = await storage.isLocked();
 
         const allProviders = registry.getAllProviders();
         const providerInfos: ProviderInfo[] = [];
@@ -89,11 +107,14 @@ export function useProviders(): UseProvidersResult {
               itemCount: undefined, // Will be populated during sync
               lastSync: providerData?.lastSync,
               error: status.lastError,
+              canUndo: Boolean(syncUndo[provider.metadata.id]),
+              locked: isLocked,
             });
           }
         }
 
         setProviders(providerInfos);
+        setLocked(isLocked);
       } catch (err) {
         logger.error("Failed to initialize providers", err as Error);
         setError(err instanceof Error ? err.message : "Failed to load providers");
@@ -109,10 +130,20 @@ export function useProviders(): UseProvidersResult {
       changes: Record<string, chrome.storage.StorageChange>,
       areaName: string,
     ) => {
-      if (areaName === "local" && changes.providers) {
+      if (areaName === "local" && (changes.providers || changes.syncUndo)) {
         logger.info("Providers data changed, refreshing...");
         refreshProviderStatus();
       }
+
+      // Credentials rejected during a background sync, or reconnected elsewhere
+      if (areaName === "local" && changes.auth) {
+        void ProviderRegistry.getInstance().refreshAllStatuses().then(refreshProviderStatus);
+      }
+
+      // Locked or unlocked elsewhere (e.g. auto-lock in the background)
+      if (changes.passphraseLock || areaName === "session") {
+        void ProviderRegistry.getInstance().refreshAllStatuses().then(refreshProviderStatus);
+      }
     };
 
     chrome.storage.onChanged.addListener(handleStorageChange);
@@ -171,6 +202,32 @@ export function useProviders(): UseProvidersResult {
     }
   };
 
+  // Undo the last sync of a provider via background (this also pauses the provider)
+  const undoLastSync = async (providerId: string) => {
+    try {
+      setError(null);
+      logger.info(`Requesting undo of last sync for provider: ${providerId}`);
+
+      const response = await chrome.runtime.sendMessage({
+        type: "UNDO_LAST_SYNC",
+        providerId,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Undo failed");
+      }
+
+      logger.info(`Last sync undone for provider ${providerId}`);
+
+      // The provider was disabled in the background, so reload its status
+      await ProviderRegistry.getInstance().refreshProviderStatus(providerId);
+      await refreshProviderStatus();
+    } catch (err) {
+      logger.error(`Failed to undo last sync for ${providerId}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to undo last sync");
+    }
+  };
+
   // Connect provider (authenticate)
   const connectProvider = async (providerId: string) => {
     try {
@@ -204,6 +261,30 @@ export function useProviders(): UseProvidersResult {
     }
   };
 
+  // Reconnect in the sidepanel, which has the settings for every kind of credential
+  const reconnectProvider = async (providerId: string) => {
+    await StorageManager.getInstance().setSidepanelTarget({ view: "providers", providerId });
+    await openSettings();
+  };
+
+  // Unlock credentials via background, which then syncs what was skipped while locked
+  const unlock = async (passphrase: string) => {
+    const response = await chrome.runtime.sendMessage({
+      type: "UNLOCK_CREDENTIALS",
+      passphrase,
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || "Failed to unlock");
+    }
+
+    logger.info("Credentials unlocked");
+
+    // Tokens are readable again, so reload authentication status
+    await ProviderRegistry.getInstance().refreshAllStatuses();
+    await refreshProviderStatus();
+  };
+
   // Open sidepanel settings
   const openSettings = async () => {
     try {
@@ -235,9 +316,13 @@ export function useProviders(): UseProvidersResult {
     providers,
     loading,
     error,
+    locked,
     syncAll,
     syncProvider,
+    undoLastSync,
     connectProvider,
+    reconnectProvider,
+    unlock,
     openSettings,
   };
 }
@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { parseFeed } from "../feed-parser";
+
+describe("Feed Parser", () => {
+  describe("RSS 2.0", () => {
+    const rss = `<?xml version="1.0" encoding="UTF-8"?>
+      <rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+        <channel>
+          <title>Release Notes</title>
+          <link>https://example.com/releases</link>
+          <!-- <item><title>Commented out</title></item> -->
+          <item>
+            <title><![CDATA[v2.0 <beta> released]]></title>
+            <link>https://example.com/releases/2.0</link>
+            <guid isPermaLink="false">release-2.0</guid>
+            <pubDate>Tue, 14 Oct 2025 09:30:00 GMT</pubDate>
+            <dc:creator>Alice</dc:creator>
+            <category>release</category>
+            <category>beta</category>
+            <description>Fixes &amp; improvements</description>
+          </item>
+          <item>
+            <title>v1.9 released</title>
+            <link>https://example.com/releases/1.9</link>
+          </item>
+        </channel>
+      </rss>`;
+
+    it("should parse channel title and format", () => {
+      const feed = parseFeed(rss);
+
+      expect(feed.format).toBe("rss");
+      expect(feed.title).toBe("Release Notes");
+      expect(feed.link).toBe("https://example.com/releases");
+    });
+
+    it("should parse items and ignore commented-out markup", () => {
+      const feed = parseFeed(rss);
+
+      expect(feed.entries).toHaveLength(2);
+      expect(feed.entries[0]).toMatchObject({
+        id: "release-2.0",
+        title: "v2.0 <beta> released",
+        link: "https://example.com/releases/2.0",
+        author: "Alice",
+        categories: ["release", "beta"],
+        summary: "Fixes & improvements",
+        published: Date.parse("2025-10-14T09:30:00Z"),
+      });
+    });
+
+    it("should fall back to link when guid is missing", () => {
+      const feed = parseFeed(rss);
+
+      expect(feed.entries[1].id).toBe("https://example.com/releases/1.9");
+      expect(feed.entries[1].published).toBeUndefined();
+    });
+  });
+
+  describe("Atom", () => {
+    const atom = `<?xml version="1.0" encoding="utf-8"?>
+      <feed xmlns="http://www.w3.org/2005/Atom">
+        <title type="text">Status Page</title>
+        <link rel="self" href="https://status.example.com/feed.atom"/>
+        <link href="https://status.example.com/"/>
+        <entry>
+          <title>Degraded performance</title>
+          <link rel="alternate" href="https://status.example.com/incidents/42?a=1&amp;b=2"/>
+          <id>tag:status.example.com,2025:incident-42</id>
+          <published>2025-10-01T12:00:00Z</published>
+          <updated>2025-10-02T08:15:00Z</updated>
+          <author><name>Ops Team</name></author>
+          <category term="incident"/>
+          <summary>Investigating &#8220;slow&#8221; responses</summary>
+        </entry>
+      </feed>`;
+
+    it("should parse feed title and prefer the alternate link", () => {
+      const feed = parseFeed(atom);
+
+      expect(feed.format).toBe("atom");
+      expect(feed.title).toBe("Status Page");
+      expect(feed.link).toBe("https://status.example.com/");
+    });
+
+    it("should parse entries with published and updated dates", () => {
+      const [entry] = parseFeed(atom).entries;
+
+      expect(entry).toMatchObject({
+        id: "tag:status.example.com,2025:incident-42",
+        title: "Degraded performance",
+        link: "https://status.example.com/incidents/42?a=1&b=2",
+        author: "Ops Team",
+        categories: ["incident"],
+        summary: "Investigating “slow” responses",
+        published: Date.parse("2025-10-01T12:00:00Z"),
+        updated: Date.parse("2025-10-02T08:15:00Z"),
+      });
+    });
+  });
+
+  it("should reject documents that are not feeds", () => {
+    expect(() => parseFeed("<html><body>Not a feed</body></html>")).toThrow(
+      "Unrecognized feed format",
+    );
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * Feed Parser
+ * Minimal RSS 2.0 and Atom parser
+ *
+ * DOMParser is not available in the MV3 background service worker, so feeds are
+ * parsed with a small tag scanner instead. It only understands the elements the
+ * feed provider needs and is deliberately lenient about malformed markup.
+ */
+
+/**
+ * Supported feed formats
+ */
+export type FeedFormat = "rss" | "atom";
+
+/**
+ * A single entry from an RSS or Atom feed
+ */
+export interface FeedEntry {
+  /** RSS guid or Atom id (falls back to the link) */
+  id: string;
+  title: string;
+  link: string;
+  summary?: string;
+  author?: string;
+  categories: string[];
+  /** RSS pubDate or Atom published (ms since epoch) */
+  published?: number;
+  /** Atom updated (ms since epoch) */
+  updated?: number;
+}
+
+/**
+ * Parsed feed document
+ */
+export interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  link?: string;
+  entries: FeedEntry[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decode XML entities and numeric character references
+ */
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1] === "x" || entity[1] === "X"
+          ? Number.parseInt(entity.slice(2), 16)
+          : Number.parseInt(entity.slice(1), 10);
+      return Number.isNaN(codePoint) ? match : String.fromCodePoint(codePoint);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert element content to plain text (unwraps CDATA, decodes entities, strips markup)
+ */
+function toText(content: string): string {
+  const unwrapped = content.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) =>
+    // Escape CDATA so markup inside it survives tag stripping as literal text
+    data
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;"),
+  );
+  return decodeEntities(unwrapped.replace(/<[^>]*>/g, ""))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find all elements with the given (possibly prefixed) tag name
+ */
+function findElements(xml: string, tag: string): Array<{ attributes: string; content: string }> {
+  const name = escapeRegExp(tag);
+  const pattern = new RegExp(`<${name}(\\s[^>]*)?(?:/>|>([\\s\\S]*?)</${name}\\s*>)`, "gi");
+  const elements: Array<{ attributes: string; content: string }> = [];
+
+  for (const match of xml.matchAll(pattern)) {
+    elements.push({ attributes: match[1] ?? "", content: match[2] ?? "" });
+  }
+
+  return elements;
+}
+
+/**
+ * Get the text content of the first matching child element
+ */
+function childText(xml: string, ...tags: string[]): string | undefined {
+  for (const tag of tags) {
+    const [element] = findElements(xml, tag);
+    if (element) {
+      const text = toText(element.content);
+      if (text) {
+        return text;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read an attribute value from an element's attribute string
+ */
+function getAttribute(attributes: string, name: string): string | undefined {
+  const pattern = new RegExp(`\\s${escapeRegExp(name)}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i");
+  const match = attributes.match(pattern);
+  if (!match) {
+    return undefined;
+  }
+  return decodeEntities(match[2] ?? match[3] ?? "");
+}
+
+/**
+ * Parse a date string into a timestamp, ignoring invalid dates
+ */
+function parseDate(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const timestamp = Date.parse(value);
+  return Number.isNaN(timestamp) ? undefined : timestamp;
+}
+
+/**
+ * Remove nested elements so child lookups only see the entry's own fields
+ */
+function stripElements(xml: string, tag: string): string {
+  const name = escapeRegExp(tag);
+  return xml.replace(new RegExp(`<${name}[\\s>][\\s\\S]*?</${name}\\s*>`, "gi"), "");
+}
+
+/**
+ * Parse an RSS 2.0 <item>
+ */
+function parseRssItem(xml: string): FeedEntry {
+  const link = childText(xml, "link") ?? "";
+  const guid = childText(xml, "guid");
+
+  return {
+    id: guid || link,
+    title: childText(xml, "title") ?? link,
+    link,
+    summary: childText(xml, "description"),
+    author: childText(xml, "dc:creator", "author"),
+    categories: findElements(xml, "category")
+      .map((category) => toText(category.content))
+      .filter(Boolean),
+    published: parseDate(childText(xml, "pubDate", "dc:date")),
+  };
+}
+
+/**
+ * Pick the entry URL from Atom <link> elements, preferring rel="alternate"
+ */
+function atomLink(xml: string): string {
+  const links = findElements(xml, "link");
+  const alternate =
+    links.find((link) => (getAttribute(link.attributes, "rel") ?? "alternate") === "alternate") ??
+    links[0];
+  return alternate ? (getAttribute(alternate.attributes, "href") ?? "") : "";
+}
+
+/**
+ * Parse an Atom <entry>
+ */
+function parseAtomEntry(xml: string): FeedEntry {
+  const link = atomLink(xml);
+  const [author] = findElements(xml, "author");
+
+  return {
+    id: childText(xml, "id") || link,
+    title: childText(xml, "title") ?? link,
+    link,
+    summary: childText(xml, "summary", "content"),
+    author: author ? childText(author.content, "name") : undefined,
+    categories: findElements(xml, "category")
+      .map((category) => getAttribute(category.attributes, "term") ?? "")
+      .filter(Boolean),
+    published: parseDate(childText(xml, "published")),
+    updated: parseDate(childText(xml, "updated")),
+  };
+}
+
+/**
+ * Parse an RSS 2.0 or Atom document
+ *
+ * @throws Error if the document is neither RSS nor Atom
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  // Comments can contain anything, including tags we would otherwise match
+  const source = xml.replace(/<!--[\s\S]*?-->/g, "");
+
+  const [atomFeed] = findElements(source, "feed");
+  if (atomFeed) {
+    const header = stripElements(atomFeed.content, "entry");
+    return {
+      format: "atom",
+      title: childText(header, "title") ?? "",
+      link: atomLink(header) || undefined,
+      entries: findElements(atomFeed.content, "entry").map((entry) =>
+        parseAtomEntry(entry.content),
+      ),
+    };
+  }
+
+  const [channel] = findElements(source, "channel");
+  if (channel) {
+    const header = stripElements(channel.content, "item");
+    return {
+      format: "rss",
+      title: childText(header, "title") ?? "",
+      link: childText(header, "link"),
+      entries: findElements(channel.content, "item").map((item) => parseRssItem(item.content)),
+    };
+  }
+
+  throw new Error("Unrecognized feed format: expected an RSS <channel> or Atom <feed>");
+}
@@ -0,0 +1,312 @@
+/**
+ * Feed Provider
+ * Syncs entries from RSS 2.0 or Atom feeds (classic "live bookmarks")
+ * Each live folder reads its own feed. Public feeds need no credentials, so the provider is always connected
+ */
+
+import { rateLimiter } from "@/services/rate-limiter";
+import { storageManager } from "@/services/storage";
+import type {
+  AuthResult,
+  BookmarkItem,
+  FeedFilters,
+  LiveFolder,
+  Provider,
+  ProviderConfig,
+  ProviderMetadata,
+  TitleFormatOptions,
+} from "@/types";
+import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
+import { Logger } from "@/utils/logger";
+import { type FeedEntry, type ParsedFeed, parseFeed } from "./feed-parser";
+
+/**
+ * Feed Provider Implementation
+ */
+export class FeedProvider implements Provider {
+  public readonly metadata: ProviderMetadata = {
+    id: "feed",
+    name: "RSS/Atom Feed",
+    description: "Sync entries from any RSS or Atom feed",
+    icon: "rss",
+    version: "1.0.0",
+  };
+
+  private logger: Logger;
+  private readonly PROVIDER_ID = "feed";
+
+  constructor() {
+    this.logger = new Logger("FeedProvider");
+  }
+
+  /**
+   * Initialize the provider
+   */
+  public async initialize(): Promise<void> {
+    this.logger.info("Initializing feed provider");
+
+    // Ensure provider storage exists with default config
+    const existingData = await storageManager.getProvider(this.PROVIDER_ID);
+
+    if (!existingData) {
+      await storageManager.saveProvider(this.PROVIDER_ID, {
+        config: {
+          enabled: false,
+        },
+      });
+    }
+
+    this.logger.info("Feed provider initialized");
+  }
+
+  /**
+   * Feeds need no credentials; each live folder's feed is checked when it is saved
+   */
+  public async authenticate(): Promise<AuthResult> {
+    return { success: true };
+  }
+
+  /**
+   * Feeds are public, so there is nothing to connect
+   */
+  public async isAuthenticated(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Feeds have no access token
+   */
+  public async getToken(): Promise<string | null> {
+    return null;
+  }
+
+  /**
+   * Feeds have no token to refresh
+   */
+  public async refreshToken(): Promise<void> {
+    // Nothing to refresh
+  }
+
+  /**
+   * Feeds have no credentials to forget, so this only stops syncing
+   */
+  public async revokeAuth(): Promise<void> {
+    await this.setConfig({ enabled: false });
+  }
+
+  /**
+   * Check that a feed can be fetched and parsed
+   * Used by the settings UI before saving a live folder's feed URL
+   */
+  public async validateFeed(feedUrl: string): Promise<ParsedFeed> {
+    const feed = await this.fetchFeed(feedUrl);
+    this.logger.info("Feed validated", {
+      format: feed.format,
+      title: feed.title,
+      entries: feed.entries.length,
+    });
+    return feed;
+  }
+
+  /**
+   * Fetch entries from the live folder's feed
+   */
+  public async fetchItems(folder?: LiveFolder): Promise<BookmarkItem[]> {
+    this.logger.info("Fetching feed entries");
+
+    const config = await this.getConfig();
+    const feedUrl = (folder?.filters as FeedFilters | undefined)?.feedUrl;
+    if (!feedUrl) {
+      throw new Error("Feed URL not configured. Add one in the live folder settings.");
+    }
+
+    try {
+      const feed = await this.fetchFeed(feedUrl);
+      const settings = await storageManager.getSettings();
+      const titleFormat = folder?.titleFormat ?? config.titleFormat ?? DEFAULT_TITLE_FORMAT;
+
+      // Feeds are usually newest-first already, but don't rely on it when truncating
+      const entries = this.deduplicateEntries(feed.entries.filter((entry) => entry.link))
+        .sort((a, b) => (b.updated ?? b.published ?? 0) - (a.updated ?? a.published ?? 0))
+        .slice(0, settings.maxItemsPerProvider);
+
+      const items = entries.map((entry) => this.entryToBookmarkItem(entry, feed, titleFormat));
+
+      this.logger.info("Fetched feed entries", {
+        count: items.length,
+        total: feed.entries.length,
+        format: feed.format,
+      });
+      return items;
+    } catch (error) {
+      this.logger.error("Failed to fetch feed entries", { error }, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get provider configuration
+   */
+  public async getConfig(): Promise<ProviderConfig> {
+    const providers = await storageManager.getProviders();
+    const providerData = providers[this.PROVIDER_ID];
+
+    const config = providerData?.config || { enabled: false };
+
+    // Ensure folderTitleFormat has defaults if not set
+    if (!config.folderTitleFormat) {
+      config.folderTitleFormat = DEFAULT_FOLDER_TITLE_FORMAT;
+    }
+
+    // Ensure titleFormat has defaults if not set
+    if (!config.titleFormat) {
+      config.titleFormat = DEFAULT_TITLE_FORMAT;
+    }
+
+    return config;
+  }
+
+  /**
+   * Update provider configuration
+   */
+  public async setConfig(config: Partial<ProviderConfig>): Promise<void> {
+    const providers = await storageManager.getProviders();
+    const existingData = providers[this.PROVIDER_ID];
+
+    const currentConfig = await this.getConfig();
+    const updatedConfig = { ...currentConfig, ...config };
+
+    // Preserve ALL existing provider data, only update config
+    await storageManager.saveProvider(this.PROVIDER_ID, {
+      ...existingData,
+      config: updatedConfig,
+    });
+  }
+
+  /**
+   * Dispose the provider and clean up resources
+   */
+  public async dispose(): Promise<void> {
+    this.logger.info("Disposing feed provider");
+    // No specific cleanup needed for feed provider
+  }
+
+  /**
+   * Format folder title with dynamic statistics
+   */
+  public async formatFolderTitle(
+    baseName: string,
+    items: BookmarkItem[],
+    folder?: LiveFolder,
+  ): Promise<string> {
+    const config = await this.getConfig();
+    const folderFormat = folder?.folderTitleFormat ?? config.folderTitleFormat;
+
+    // If folder title formatting is disabled, return base name as-is
+    if (!folderFormat?.enabled) {
+      return baseName;
+    }
+
+    // Handle empty state
+    if (items.length === 0) {
+      return `${baseName} (empty)`;
+    }
+
+    // Feeds have no review concept, so only the total applies
+    if (folderFormat.includeTotal) {
+      return `${baseName} (${items.length} total)`;
+    }
+
+    return baseName;
+  }
+
+  /**
+   * Download and parse the feed document
+   */
+  private async fetchFeed(feedUrl: string): Promise<ParsedFeed> {
+    const response = await rateLimiter.fetch(this.PROVIDER_ID, feedUrl, {
+      headers: {
+        Accept: "application/rss+xml, application/atom+xml, application/xml, text/xml, */*",
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = response.statusText || `HTTP ${response.status}`;
+      throw new Error(`Failed to fetch feed: ${errorText}`);
+    }
+
+    return parseFeed(await response.text());
+  }
+
+  /**
+   * Deduplicate entries by ID (some feeds repeat entries across updates)
+   */
+  private deduplicateEntries(entries: FeedEntry[]): FeedEntry[] {
+    const seen = new Set<string>();
+    const unique: FeedEntry[] = [];
+
+    for (const entry of entries) {
+      if (!seen.has(entry.id)) {
+        seen.add(entry.id);
+        unique.push(entry);
+      }
+    }
+
+    return unique;
+  }
+
+  /**
+   * Format entry title according to user preferences
+   */
+  private formatFeedTitle(entry: FeedEntry, options: TitleFormatOptions): string {
+    const parts: string[] = [];
+
+    // Author (with colon separator)
+    if (options.includeCreator && entry.author) {
+      parts.push(`${entry.author}:`);
+    }
+
+    // Age since publication
+    const timestamp = entry.published ?? entry.updated;
+    if (options.includeAge && timestamp) {
+      const ageInDays = Math.floor((Date.now() - timestamp) / (1000 * 60 * 60 * 24));
+      parts.push(options.includeEmojis ? `${ageInDays}d` : `[${ageInDays}d]`);
+    }
+
+    // Title (always included at end)
+    parts.push(entry.title);
+
+    return parts.join(" ");
+  }
+
+  /**
+   * Convert feed entry to BookmarkItem
+   */
+  private entryToBookmarkItem(
+    entry: FeedEntry,
+    feed: ParsedFeed,
+    titleFormat: TitleFormatOptions,
+  ): BookmarkItem {
+    // RSS only has a publication date, so it doubles as the update time
+    const createdAt = entry.published ?? entry.updated;
+    const updatedAt = entry.updated ?? entry.published;
+
+    return {
+      id: entry.id,
+      providerId: this.metadata.id,
+      title: this.formatFeedTitle(entry, titleFormat),
+      url: entry.link,
+      description: entry.summary,
+      createdAt,
+      updatedAt,
+      lastModified: updatedAt ? new Date(updatedAt).toISOString() : undefined,
+      metadata: {
+        type: "feed_entry",
+        repository: feed.title || undefined,
+        author: entry.author,
+        labels: entry.categories,
+        format: feed.format,
+      },
+    };
+  }
+}
@@ -0,0 +1,354 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { authManager } from "@/services/auth-manager";
+import { storageManager } from "@/services/storage";
+import type { ProviderStorageData, TitleFormatOptions } from "@/types";
+import { ProviderError, ProviderErrorType } from "../../provider-error";
+import { GitHubProvider } from "../github-provider";
+
+describe("GitHub Provider", () => {
+  let provider: GitHubProvider;
+
+  // Mock PR data factory
+  const createMockPR = (overrides = {}) => ({
+    id: 123456789,
+    node_id: "PR_test123",
+    number: 123,
+    title: "Add user authentication",
+    html_url: "https://github.com/test/repo/pull/123",
+    state: "open",
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    repository_url: "https://api.github.com/repos/test/repo",
+    user: {
+      login: "alice",
+      avatar_url: "https://avatars.githubusercontent.com/u/123",
+    },
+    draft: false,
+    merged: false,
+    mergeable_state: "clean",
+    requested_reviewers: [],
+    assignees: [],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    provider = new GitHubProvider();
+    vi.clearAllMocks();
+  });
+
+  describe("Custom Queries", () => {
+    it("should substitute @me with the signed-in username", async () => {
+      // @ts-expect-error - accessing private method for testing
+      const query = provider.resolveQuery("  involves:@me review-requested:@me is:open ", "alice");
+
+      expect(query).toBe("involves:alice review-requested:alice is:open");
+    });
+  });
+
+  describe("Pagination", () => {
+    it("should read the next page URL from the Link header", () => {
+      const link =
+        '<https://api.github.com/search/issues?q=is%3Apr&page=2>; rel="next", ' +
+        '<https://api.github.com/search/issues?q=is%3Apr&page=5>; rel="last"';
+
+      // @ts-expect-error - accessing private method for testing
+      expect(provider.getNextPageUrl(link)).toBe(
+        "https://api.github.com/search/issues?q=is%3Apr&page=2",
+      );
+      // @ts-expect-error - accessing private method for testing
+      expect(provider.getNextPageUrl('<https://example.com?page=1>; rel="prev"')).toBeNull();
+    });
+
+    it("should follow pages until the item cap is reached", async () => {
+      const page = (start: number, next?: string) =>
+        new Response(
+          JSON.stringify({
+            total_count: 250,
+            incomplete_results: false,
+            items: Array.from({ length: 100 }, (_, i) =>
+              createMockPR({ node_id: `PR_${start + i}`, number: start + i }),
+            ),
+          }),
+          { headers: next ? { link: `<${next}>; rel="next"` } : {} },
+        );
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(page(0, "https://api.github.com/search/issues?page=2"))
+        .mockResolvedValueOnce(page(100, "https://api.github.com/search/issues?page=3"));
+
+      // @ts-expect-error - accessing private method for testing
+      const prs = await provider.searchPRs("token", "is:pr is:open", 150);
+
+      expect(prs).toHaveLength(150);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(fetchMock.mock.calls[1][0]).toBe("https://api.github.com/search/issues?page=2");
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("Errors", () => {
+    it("should throw AUTH_EXPIRED for a rejected token", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response("{}", { status: 401, statusText: "Unauthorized" }));
+
+      // @ts-expect-error - accessing private method for testing
+      const error = await provider.searchPRs("token", "is:pr", 10).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect((error as ProviderError).type).toBe(ProviderErrorType.AUTH_EXPIRED);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      fetchMock.mockRestore();
+    });
+
+    it("should throw CONFIG for an invalid search query", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(
+          new Response(JSON.stringify({ message: "Validation Failed" }), { status: 422 }),
+        );
+
+      // @ts-expect-error - accessing private method for testing
+      const error = await provider.searchPRs("token", "is:pr foo:bar", 10).catch((e) => e);
+
+      expect((error as ProviderError).type).toBe(ProviderErrorType.CONFIG);
+      expect((error as ProviderError).message).toContain('Invalid search query "is:pr foo:bar"');
+      fetchMock.mockRestore();
+    });
+
+    it("should retry server errors with backoff", async () => {
+      vi.useFakeTimers();
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(new Response(null, { status: 502, statusText: "Bad Gateway" }))
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ total_count: 1, items: [createMockPR()] })),
+        );
+
+      // @ts-expect-error - accessing private method for testing
+      const pending = provider.searchPRs("token", "is:pr", 10);
+      await vi.advanceTimersByTimeAsync(2000);
+      const prs = await pending;
+
+      expect(prs).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      fetchMock.mockRestore();
+      vi.useRealTimers();
+    });
+  });
+
+  describe("GraphQL Enrichment", () => {
+    const createNode = (overrides = {}) => ({
+      id: "PR_test123",
+      isDraft: false,
+      merged: false,
+      mergeable: "MERGEABLE",
+      mergeStateStatus: "CLEAN",
+      reviewDecision: "APPROVED",
+      approvals: { totalCount: 2 },
+      changesRequested: { totalCount: 0 },
+      reviewRequests: { nodes: [{ requestedReviewer: { login: "charlie" } }] },
+      reviewThreads: { nodes: [{ isResolved: false }, { isResolved: true }] },
+      commits: { nodes: [{ commit: { statusCheckRollup: { state: "FAILURE" } } }] },
+      ...overrides,
+    });
+
+    const options: TitleFormatOptions = {
+      includeStatus: false,
+      includeEmojis: false,
+      includeAssignee: false,
+      includePriority: false,
+      includeAge: false,
+      includeReviewStatus: true,
+      includeCIStatus: true,
+      includeUnresolvedThreads: true,
+      includeCreator: false,
+      format: "compact",
+    };
+
+    it("should show review decision, CI status and unresolved threads", async () => {
+      const pr = createMockPR();
+      // @ts-expect-error - accessing private method for testing
+      provider.applyEnrichment(pr, createNode());
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitHubTitle(pr, options);
+
+      expect(title).toBe("#123 [CI FAILED] [2 APPROVED] [1 THREADS] Add user authentication");
+    });
+
+    it("should show changes requested with emojis", async () => {
+      const pr = createMockPR();
+      const node = createNode({
+        reviewDecision: "CHANGES_REQUESTED",
+        commits: { nodes: [{ commit: { statusCheckRollup: { state: "SUCCESS" } } }] },
+      });
+      // @ts-expect-error - accessing private method for testing
+      provider.applyEnrichment(pr, node);
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitHubTitle(pr, { ...options, includeEmojis: true });
+
+      expect(title).toContain("✔️");
+      expect(title).toContain("✋");
+      expect(title).toContain("💬1");
+    });
+
+    it("should show a PR blocked on required reviews as open, awaiting review", async () => {
+      const pr = createMockPR({ requested_reviewers: [{ login: "charlie" }] });
+      const node = createNode({ mergeStateStatus: "BLOCKED", reviewDecision: "REVIEW_REQUIRED" });
+      // @ts-expect-error - accessing private method for testing
+      provider.applyEnrichment(pr, node);
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitHubTitle(pr, {
+        ...options,
+        includeStatus: true,
+        includeEmojis: true,
+        includeCIStatus: false,
+        includeUnresolvedThreads: false,
+      });
+
+      expect(pr.mergeable_state).toBe("blocked");
+      expect(title).toContain("🟢");
+      expect(title).not.toContain("🔴");
+      expect(title).toContain("👁️");
+    });
+
+    it("should expose enrichment as bookmark metadata", async () => {
+      const pr = createMockPR();
+      // @ts-expect-error - accessing private method for testing
+      provider.applyEnrichment(pr, createNode({ mergeStateStatus: "DIRTY" }));
+
+      // @ts-expect-error - accessing private method for testing
+      const item = provider.prToBookmarkItem(pr, options);
+
+      expect(item.metadata).toMatchObject({
+        reviewDecision: "APPROVED",
+        approvals: 2,
+        changesRequested: 0,
+        checkStatus: "FAILURE",
+        mergeable: "MERGEABLE",
+        unresolvedThreads: 1,
+        requestedReviewers: ["charlie"],
+      });
+      expect(pr.mergeable_state).toBe("dirty");
+    });
+  });
+
+  describe("Permissions", () => {
+    it("should report required classic scopes missing from X-OAuth-Scopes", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(
+          new Response("[]", { headers: { "X-OAuth-Scopes": "read:user, public_repo" } }),
+        );
+
+      // @ts-expect-error - accessing private method for testing
+      const check = await provider.checkPermissions("token");
+
+      expect(check).toEqual({
+        scopes: ["read:user", "public_repo"],
+        missing: ["repo scope", "read:org scope"],
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      fetchMock.mockRestore();
+    });
+
+    it("should probe fine-grained tokens against a private repository", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify([
+              { full_name: "test/public", private: false },
+              { full_name: "test/private", private: true },
+            ]),
+          ),
+        )
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ message: "Forbidden" }), { status: 403 }),
+        )
+        .mockResolvedValueOnce(new Response("[]"));
+
+      // @ts-expect-error - accessing private method for testing
+      const check = await provider.checkPermissions("token");
+
+      expect(check).toEqual({ scopes: ["issues:read"], missing: ["Pull requests: Read"] });
+      expect(fetchMock.mock.calls[1][0]).toBe(
+        "https://api.github.com/repos/test/private/pulls?per_page=1",
+      );
+      fetchMock.mockRestore();
+    });
+
+    it("should treat a hidden endpoint of a private repository as missing", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify([{ full_name: "test/private", private: true }])),
+        )
+        .mockResolvedValueOnce(new Response("[]"))
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify({ message: "Not Found" }), { status: 404 }),
+        );
+
+      // @ts-expect-error - accessing private method for testing
+      const check = await provider.checkPermissions("token");
+
+      expect(check).toEqual({ scopes: ["pull_requests:read"], missing: ["Issues: Read"] });
+      fetchMock.mockRestore();
+    });
+
+    it("should leave permissions unverified when only public repositories are visible", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          new Response(JSON.stringify([{ full_name: "test/public", private: false }])),
+        );
+
+      // @ts-expect-error - accessing private method for testing
+      const check = await provider.checkPermissions("token");
+
+      expect(check).toEqual({
+        scopes: [],
+        missing: [],
+        unverified: ["Pull requests: Read", "Issues: Read"],
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("Enterprise Server", () => {
+    it("should derive API and OAuth URLs from the configured host", async () => {
+      await storageManager.saveProvider("github", {
+        config: { enabled: true, baseUrl: "github.example.com/", oauthClientId: "ghe-client" },
+      } as ProviderStorageData);
+      const registerSpy = vi.spyOn(authManager, "registerOAuthConfig");
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response(JSON.stringify({ total_count: 0, items: [] })));
+
+      // @ts-expect-error - accessing private method for testing
+      await provider.loadHost();
+      // @ts-expect-error - accessing private method for testing
+      await provider.searchPRs("token", "is:pr", 10);
+
+      expect(String(fetchMock.mock.calls[0][0])).toMatch(
+        /^https:\/\/github\.example\.com\/api\/v3\/search\/issues\?/,
+      );
+      // @ts-expect-error - accessing private method for testing
+      expect(provider.getGraphqlUrl()).toBe("https://github.example.com/api/graphql");
+      expect(registerSpy).toHaveBeenCalledWith(
+        "github",
+        expect.objectContaining({
+          tokenUrl: "https://github.example.com/login/oauth/access_token",
+          deviceCodeUrl: "https://github.example.com/login/device/code",
+          clientId: "ghe-client",
+        }),
+      );
+      fetchMock.mockRestore();
+      await storageManager.deleteProvider("github");
+    });
+  });
+});
@@ -490,4 +490,30 @@ describe("GitHub Title Formatter", () => {
       expect(title).toContain("#123");
     });
   });
+
+  describe("Custom Queries", () => {
+    it("should not show review status for issues", async () => {
+      const issue = createMockPR({
+        html_url: "https://github.com/test/repo/issues/123",
+        requested_reviewers: undefined,
+      });
+      const options: TitleFormatOptions = {
+        includeStatus: false,
+        includeEmojis: true,
+        includeAssignee: false,
+        includePriority: false,
+        includeAge: false,
+        includeReviewStatus: true,
+        includeCreator: false,
+        format: "compact",
+      };
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitHubTitle(issue, options);
+
+      expect(title).not.toContain("✅");
+      expect(title).not.toContain("👁️");
+      expect(title).toContain("Add user authentication");
+    });
+  });
 });
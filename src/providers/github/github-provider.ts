@@ -1,14 +1,19 @@
 /**
  * GitHub Provider
- * Implements OAuth authentication and PR fetching from GitHub API
+ * Implements OAuth authentication and PR/issue fetching from GitHub API
  */
 
 import { authManager } from "@/services/auth-manager";
+import { rateLimiter } from "@/services/rate-limiter";
 import { storageManager } from "@/services/storage";
 import type {
   AuthResult,
   AuthState,
   BookmarkItem,
+  DeviceAuthorization,
+  LiveFolder,
+  OAuthConfig,
+  PermissionCheck,
   Provider,
   ProviderConfig,
   ProviderMetadata,
@@ -17,6 +22,12 @@ import type {
 import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types/provider";
 import browser from "@/utils/browser";
 import { Logger } from "@/utils/logger";
+import {
+  getProviderErrorType,
+  ProviderError,
+  ProviderErrorType,
+  providerFetch,
+} from "../provider-error";
 
 /**
  * GitHub user response
@@ -33,7 +44,7 @@ interface GitHubUser {
 }
 
 /**
- * GitHub API PR response
+ * GitHub API PR response (the search API also returns issues in this shape)
  */
 interface GitHubPR {
   id: number;
@@ -54,8 +65,119 @@ interface GitHubPR {
   mergeable_state?: string;
   requested_reviewers?: Array<{ login: string }>;
   assignees?: unknown[];
+  /** Only present when the search result is a pull request */
+  pull_request?: { url: string; merged_at?: string | null };
+  /** Review and CI details from the GraphQL API */
+  enrichment?: GitHubPREnrichment;
 }
 
+/**
+ * Pull request details that the search API doesn't return
+ */
+interface GitHubPREnrichment {
+  reviewDecision: "APPROVED" | "CHANGES_REQUESTED" | "REVIEW_REQUIRED" | null;
+  approvals: number;
+  changesRequested: number;
+  /** Check suite rollup for the head commit */
+  checkStatus: "SUCCESS" | "FAILURE" | "ERROR" | "PENDING" | "EXPECTED" | null;
+  mergeable: "MERGEABLE" | "CONFLICTING" | "UNKNOWN";
+  unresolvedThreads: number;
+}
+
+/**
+ * GraphQL pull request node used for enrichment
+ */
+interface GitHubGraphQLPullRequest {
+  id: string;
+  isDraft: boolean;
+  merged: boolean;
+  mergeable: GitHubPREnrichment["mergeable"];
+  mergeStateStatus: string;
+  reviewDecision: GitHubPREnrichment["reviewDecision"];
+  approvals: { totalCount: number };
+  changesRequested: { totalCount: number };
+  reviewRequests: {
+    nodes: Array<{ requestedReviewer: { login?: string; slug?: string } | null }>;
+  };
+  reviewThreads: { nodes: Array<{ isResolved: boolean }> };
+  commits: {
+    nodes: Array<{
+      commit: { statusCheckRollup: { state: GitHubPREnrichment["checkStatus"] } | null };
+    }>;
+  };
+}
+
+/**
+ * GraphQL response for the enrichment query
+ */
+interface GitHubGraphQLResponse {
+  data?: { nodes: Array<GitHubGraphQLPullRequest | null> };
+  errors?: Array<{ message: string }>;
+}
+
+/**
+ * Batched GraphQL query for the pull request details used in titles and metadata
+ */
+const PR_ENRICHMENT_QUERY = `
+  query ($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on PullRequest {
+        id
+        isDraft
+        merged
+        mergeable
+        mergeStateStatus
+        reviewDecision
+        approvals: reviews(states: APPROVED) { totalCount }
+        changesRequested: reviews(states: CHANGES_REQUESTED) { totalCount }
+        reviewRequests(first: 20) {
+          nodes { requestedReviewer { ... on User { login } ... on Team { slug } } }
+        }
+        reviewThreads(first: 100) { nodes { isResolved } }
+        commits(last: 1) { nodes { commit { statusCheckRollup { state } } } }
+      }
+    }
+  }
+`;
+
+/**
+ * Number of pull requests per GraphQL request
+ */
+const ENRICHMENT_BATCH_SIZE = 50;
+
+/**
+ * Default GitHub host; GitHub Enterprise Server runs on its own
+ */
+export const GITHUB_DEFAULT_BASE_URL = "https://github.com";
+
+/**
+ * GitHub provider configuration
+ */
+interface GitHubProviderConfig extends ProviderConfig {
+  /** GitHub Enterprise Server URL; github.com when unset */
+  baseUrl?: string;
+  /** Client ID of an OAuth app registered on the Enterprise server */
+  oauthClientId?: string;
+  personalAccessToken?: string;
+}
+
+/**
+ * Classic scopes syncing needs, each with the scopes that grant it
+ */
+const REQUIRED_SCOPES: Record<string, string[]> = {
+  repo: ["repo"],
+  "read:user": ["read:user", "user"],
+  "read:org": ["read:org", "write:org", "admin:org"],
+};
+
+/**
+ * Repository requests that show whether a fine-grained token has a permission
+ */
+const FINE_GRAINED_PROBES = [
+  { permission: "pull_requests:read", label: "Pull requests: Read", path: "pulls" },
+  { permission: "issues:read", label: "Issues: Read", path: "issues" },
+];
+
 /**
  * GitHub API search response
  */
@@ -65,6 +187,14 @@ interface GitHubSearchResponse {
   items: GitHubPR[];
 }
 
+/**
+ * GitHub API error response
+ */
+interface GitHubErrorResponse {
+  message?: string;
+  errors?: Array<{ message?: string }>;
+}
+
 /**
  * GitHub Provider Implementation
  */
@@ -72,20 +202,23 @@ export class GitHubProvider implements Provider {
   public readonly metadata: ProviderMetadata = {
     id: "github",
     name: "GitHub",
-    description: "Sync pull requests from GitHub repositories",
+    description: "Sync pull requests and issues from GitHub",
     icon: "https://github.com/favicon.ico",
     version: "1.0.0",
   };
 
   private logger: Logger;
   private readonly PROVIDER_ID = "github";
+  private baseUrl = GITHUB_DEFAULT_BASE_URL;
 
-  // OAuth Configuration
+  // OAuth Configuration for github.com; Enterprise servers get URLs on their own host
   private readonly OAUTH_CONFIG = {
     authUrl: "https://github.com/login/oauth/authorize",
     tokenUrl: "https://github.com/login/oauth/access_token",
+    deviceCodeUrl: "https://github.com/login/device/code",
     clientId: import.meta.env.VITE_GITHUB_OAUTH_CLIENT_ID || "",
-    clientSecret: import.meta.env.VITE_GITHUB_OAUTH_CLIENT_SECRET || "",
+    // Optional: the authorization code is bound to this extension with PKCE
+    clientSecret: import.meta.env.VITE_GITHUB_OAUTH_CLIENT_SECRET || undefined,
     redirectUri: browser.identity.getRedirectURL("github"),
     scopes: ["repo", "read:user", "read:org"],
   };
@@ -100,6 +233,9 @@ export class GitHubProvider implements Provider {
   public async initialize(): Promise<void> {
     this.logger.info("Initializing GitHub provider");
 
+    // Search API allows 30 requests per minute for authenticated users
+    rateLimiter.configure(this.PROVIDER_ID, { maxRequests: 30, windowMs: 60000 });
+
     // Ensure provider storage exists with default config
     const existingData = await storageManager.getProvider(this.PROVIDER_ID);
 
@@ -122,9 +258,13 @@ export class GitHubProvider implements Provider {
     }
 
     // Register OAuth config with AuthManager
-    authManager.registerOAuthConfig(this.PROVIDER_ID, this.OAUTH_CONFIG);
+    await this.loadHost();
+    authManager.registerDeviceFlowCallback(this.PROVIDER_ID, async (authState) => {
+      await this.completeOAuth(authState);
+    });
 
     this.logger.info("GitHub provider initialized", {
+      baseUrl: this.baseUrl,
       oauthConfigured: !!this.OAUTH_CONFIG.clientId,
     });
   }
@@ -136,10 +276,11 @@ export class GitHubProvider implements Provider {
     this.logger.info("Starting GitHub authentication");
 
     try {
+      // Re-read config to get the latest host (in case it was changed after initialization)
+      const config = await this.loadHost();
+
       // Check if we have a Personal Access Token configured
-      const config = await this.getConfig();
-      // Access personalAccessToken from config (stored as custom field)
-      const pat = (config as unknown as { personalAccessToken?: string }).personalAccessToken;
+      const pat = config.personalAccessToken;
 
       if (pat) {
         this.logger.info("Using Personal Access Token authentication");
@@ -151,46 +292,48 @@ export class GitHubProvider implements Provider {
 
       // Delegate to AuthManager
       const authState = await authManager.authenticate(this.PROVIDER_ID);
-
-      if (!authState.tokens) {
-        throw new Error("No tokens received from authentication");
-      }
-
-      // Fetch user information
-      const user = await this.fetchUserInfo(authState.tokens.accessToken);
-
-      // Update auth state with user info
-      const updatedAuthState = {
-        ...authState,
-        user: {
-          id: user.id.toString(),
-          username: user.login,
-          displayName: user.name || user.login,
-          email: user.email || undefined,
-          avatarUrl: user.avatar_url,
-          metadata: {
-            company: user.company || undefined,
-            location: user.location || undefined,
-            bio: user.bio || undefined,
-          },
-        },
+      return await this.completeOAuth(authState);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Authentication failed";
+      this.logger.error("GitHub authentication failed", {
+        errorMessage,
+        errorType: error instanceof Error ? error.constructor.name : typeof error,
+      });
+      return {
+        success: false,
+        error: errorMessage,
       };
+    }
+  }
 
-      await storageManager.saveAuth(this.PROVIDER_ID, updatedAuthState);
+  /**
+   * Authenticate with the OAuth device flow
+   * For GitHub Enterprise setups that block the extension's redirect URI. The user
+   * enters the code passed to `onAuthorization` on GitHub; resolves once they approve.
+   * AuthManager adds the user through the registered device flow callback.
+   */
+  public async authenticateWithDeviceFlow(
+    onAuthorization: (authorization: DeviceAuthorization) => void,
+  ): Promise<AuthResult> {
+    this.logger.info("Starting GitHub device flow authentication");
 
+    try {
+      await this.loadHost();
+      const authState = await authManager.authenticateWithDeviceFlow(
+        this.PROVIDER_ID,
+        onAuthorization,
+      );
       return {
         success: true,
-        accessToken: authState.tokens.accessToken,
-        refreshToken: authState.tokens.refreshToken,
-        expiresAt: authState.tokens.expiresAt,
-        user: updatedAuthState.user,
+        accessToken: authState.tokens?.accessToken,
+        refreshToken: authState.tokens?.refreshToken,
+        expiresAt: authState.tokens?.expiresAt,
+        user: authState.user,
       };
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : "Authentication failed";
-      this.logger.error("GitHub authentication failed", {
-        errorMessage,
-        errorType: error instanceof Error ? error.constructor.name : typeof error,
-      });
+      // AuthManager rejects with AuthError objects, which carry a message too
+      const errorMessage = (error as { message?: string })?.message || "Authentication failed";
+      this.logger.error("GitHub device flow authentication failed", { errorMessage });
       return {
         success: false,
         error: errorMessage,
@@ -198,6 +341,49 @@ export class GitHubProvider implements Provider {
     }
   }
 
+  /**
+   * Add the GitHub user to auth state from an OAuth flow
+   */
+  private async completeOAuth(authState: AuthState): Promise<AuthResult> {
+    if (!authState.tokens) {
+      throw new Error("No tokens received from authentication");
+    }
+
+    // Fetch user information
+    const user = await this.fetchUserInfo(authState.tokens.accessToken);
+    const permissions = await this.checkPermissions(authState.tokens.accessToken);
+
+    // Update auth state with user info
+    const updatedAuthState = {
+      ...authState,
+      tokens: { ...authState.tokens, scopes: permissions?.scopes ?? authState.tokens.scopes },
+      missingPermissions: permissions?.missing,
+      unverifiedPermissions: permissions?.unverified,
+      user: {
+        id: user.id.toString(),
+        username: user.login,
+        displayName: user.name || user.login,
+        email: user.email || undefined,
+        avatarUrl: user.avatar_url,
+        metadata: {
+          company: user.company || undefined,
+          location: user.location || undefined,
+          bio: user.bio || undefined,
+        },
+      },
+    };
+
+    await storageManager.saveAuth(this.PROVIDER_ID, updatedAuthState);
+
+    return {
+      success: true,
+      accessToken: authState.tokens.accessToken,
+      refreshToken: authState.tokens.refreshToken,
+      expiresAt: authState.tokens.expiresAt,
+      user: updatedAuthState.user,
+    };
+  }
+
   /**
    * Authenticate using Personal Access Token
    */
@@ -205,6 +391,7 @@ export class GitHubProvider implements Provider {
     try {
       // Fetch user information to validate token
       const user = await this.fetchUserInfo(token);
+      const permissions = await this.checkPermissions(token);
 
       // Create auth state
       const authState: AuthState = {
@@ -215,7 +402,10 @@ export class GitHubProvider implements Provider {
           tokenType: "Bearer",
           // PATs don't expire, but set a far future date
           expiresAt: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
+          scopes: permissions?.scopes,
         },
+        missingPermissions: permissions?.missing,
+        unverifiedPermissions: permissions?.unverified,
         user: {
           id: user.id.toString(),
           username: user.login,
@@ -282,32 +472,42 @@ export class GitHubProvider implements Provider {
   /**
    * Fetch pull requests from GitHub
    */
-  public async fetchItems(): Promise<BookmarkItem[]> {
+  public async fetchItems(folder?: LiveFolder): Promise<BookmarkItem[]> {
     this.logger.info("Fetching GitHub pull requests");
 
     const token = await this.getToken();
     if (!token) {
-      throw new Error("Not authenticated");
+      throw new ProviderError(ProviderErrorType.AUTH_EXPIRED, "Not authenticated", {
+        providerId: this.PROVIDER_ID,
+      });
     }
 
     try {
       // Get filter configuration (default both to true)
-      const config = await this.getConfig();
-      const filters = config.filters as
-        | { createdByMe?: boolean; reviewRequests?: boolean }
+      const config = await this.loadHost();
+      const filters = (folder?.filters ?? config.filters) as
+        | { createdByMe?: boolean; reviewRequests?: boolean; customQueries?: string[] }
         | undefined;
       const includeCreatedByMe = filters?.createdByMe ?? true;
       const includeReviewRequests = filters?.reviewRequests ?? true;
+      const customQueries = (filters?.customQueries ?? [])
+        .map((query) => query.trim())
+        .filter(Boolean);
+      const { maxItemsPerProvider: maxItems } = await storageManager.getSettings();
 
       // Fetch based on filters
       const fetchPromises: Promise<GitHubPR[]>[] = [];
 
       if (includeCreatedByMe) {
-        fetchPromises.push(this.fetchAuthoredPRs(token));
+        fetchPromises.push(this.fetchAuthoredPRs(token, maxItems));
       }
 
       if (includeReviewRequests) {
-        fetchPromises.push(this.fetchReviewRequestedPRs(token));
+        fetchPromises.push(this.fetchReviewRequestedPRs(token, maxItems));
+      }
+
+      for (const query of customQueries) {
+        fetchPromises.push(this.fetchCustomQuery(token, query, maxItems));
       }
 
       // If no filters enabled, return empty
@@ -319,15 +519,21 @@ export class GitHubProvider implements Provider {
       const results = await Promise.all(fetchPromises);
       const allPRs = results.flat();
 
-      // Deduplicate
-      const uniquePRs = this.deduplicatePRs(allPRs);
+      // Deduplicate, then keep the most recently updated across all searches
+      const uniquePRs = this.deduplicatePRs(allPRs)
+        .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+        .slice(0, maxItems);
+
+      // Search results lack review, merge and CI details, so fill them in via GraphQL
+      await this.enrichPullRequests(token, uniquePRs);
 
       // Convert to BookmarkItems
-      const items = await Promise.all(uniquePRs.map((pr) => this.prToBookmarkItem(pr)));
+      const titleFormat = folder?.titleFormat ?? config.titleFormat ?? DEFAULT_TITLE_FORMAT;
+      const items = uniquePRs.map((pr) => this.prToBookmarkItem(pr, titleFormat));
 
       this.logger.info("Fetched pull requests", {
         count: items.length,
-        filters: { includeCreatedByMe, includeReviewRequests },
+        filters: { includeCreatedByMe, includeReviewRequests, customQueries: customQueries.length },
       });
       return items;
     } catch (error) {
@@ -336,6 +542,70 @@ export class GitHubProvider implements Provider {
     }
   }
 
+  /**
+   * Read the configured GitHub host and point OAuth at it
+   * @returns The provider configuration
+   */
+  private async loadHost(): Promise<GitHubProviderConfig> {
+    const config = (await this.getConfig()) as GitHubProviderConfig;
+    this.baseUrl = this.normalizeBaseUrl(config.baseUrl || GITHUB_DEFAULT_BASE_URL);
+    authManager.registerOAuthConfig(this.PROVIDER_ID, this.getOAuthConfig(config));
+    return config;
+  }
+
+  /**
+   * OAuth endpoints and app for the configured host
+   */
+  private getOAuthConfig(config: GitHubProviderConfig): OAuthConfig {
+    if (!this.isEnterprise()) {
+      return this.OAUTH_CONFIG;
+    }
+
+    // The github.com OAuth app doesn't exist on an Enterprise server
+    return {
+      ...this.OAUTH_CONFIG,
+      authUrl: `${this.baseUrl}/login/oauth/authorize`,
+      tokenUrl: `${this.baseUrl}/login/oauth/access_token`,
+      deviceCodeUrl: `${this.baseUrl}/login/device/code`,
+      clientId: config.oauthClientId?.trim() || "",
+      clientSecret: undefined,
+    };
+  }
+
+  /**
+   * Whether the provider points at a GitHub Enterprise Server
+   */
+  private isEnterprise(): boolean {
+    return this.baseUrl !== GITHUB_DEFAULT_BASE_URL;
+  }
+
+  /**
+   * REST API root: api.github.com, or /api/v3 on GitHub Enterprise Server
+   */
+  private getApiUrl(): string {
+    return this.isEnterprise() ? `${this.baseUrl}/api/v3` : "https://api.github.com";
+  }
+
+  /**
+   * GraphQL endpoint: api.github.com/graphql, or /api/graphql on GitHub Enterprise Server
+   */
+  private getGraphqlUrl(): string {
+    return this.isEnterprise() ? `${this.baseUrl}/api/graphql` : "https://api.github.com/graphql";
+  }
+
+  /**
+   * Normalize a host URL (add https://, drop trailing slashes)
+   */
+  private normalizeBaseUrl(url: string): string {
+    let normalized = url.trim().replace(/\/+$/, "");
+
+    if (!normalized.startsWith("http://") && !normalized.startsWith("https://")) {
+      normalized = `https://${normalized}`;
+    }
+
+    return normalized;
+  }
+
   /**
    * Get provider configuration
    */
@@ -387,7 +657,7 @@ export class GitHubProvider implements Provider {
    * Fetch user information from GitHub
    */
   private async fetchUserInfo(token: string): Promise<GitHubUser> {
-    const response = await fetch("https://api.github.com/user", {
+    const response = await providerFetch(this.PROVIDER_ID, `${this.getApiUrl()}/user`, {
       headers: {
         Authorization: `token ${token}`,
         Accept: "application/vnd.github.v3+json",
@@ -395,22 +665,91 @@ export class GitHubProvider implements Provider {
     });
 
     if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error(
-          "Invalid GitHub token. Please check your Personal Access Token and try again.",
-        );
-      }
-      const errorText = response.statusText || `HTTP ${response.status}`;
-      throw new Error(`Failed to fetch user info: ${errorText}`);
+      throw this.toProviderError(response, "Failed to fetch user info");
     }
 
     return response.json();
   }
 
+  /**
+   * Check what a token may access
+   * Classic PATs and OAuth tokens list their scopes in X-OAuth-Scopes. Fine-grained
+   * tokens don't, so they are probed with requests against a private repository they
+   * can see; public repositories answer anyone, so without a private one the
+   * permissions stay unverified. Returns null if the check itself failed; that
+   * shouldn't block signing in.
+   */
+  private async checkPermissions(token: string): Promise<PermissionCheck | null> {
+    const headers = {
+      Authorization: `token ${token}`,
+      Accept: "application/vnd.github.v3+json",
+    };
+
+    try {
+      const response = await providerFetch(
+        this.PROVIDER_ID,
+        `${this.getApiUrl()}/user/repos?per_page=100&sort=updated`,
+        { headers },
+      );
+
+      if (!response.ok) {
+        throw this.toProviderError(response, "Failed to list repositories");
+      }
+
+      const scopesHeader = response.headers.get("X-OAuth-Scopes");
+      if (scopesHeader !== null) {
+        const scopes = scopesHeader
+          .split(",")
+          .map((scope) => scope.trim())
+          .filter(Boolean);
+        const missing = Object.entries(REQUIRED_SCOPES)
+          .filter(([, grantedBy]) => !grantedBy.some((scope) => scopes.includes(scope)))
+          .map(([scope]) => `${scope} scope`);
+        return { scopes, missing };
+      }
+
+      const repos = (await response.json()) as Array<{ full_name: string; private: boolean }>;
+      if (repos.length === 0) {
+        return { scopes: [], missing: ["Repository access (no repositories selected)"] };
+      }
+
+      const privateRepo = repos.find((repo) => repo.private);
+      if (!privateRepo) {
+        return {
+          scopes: [],
+          missing: [],
+          unverified: FINE_GRAINED_PROBES.map((probe) => probe.label),
+        };
+      }
+
+      const scopes: string[] = [];
+      const missing: string[] = [];
+      for (const probe of FINE_GRAINED_PROBES) {
+        const probeResponse = await providerFetch(
+          this.PROVIDER_ID,
+          `${this.getApiUrl()}/repos/${privateRepo.full_name}/${probe.path}?per_page=1`,
+          { headers },
+        );
+        if (probeResponse.ok) {
+          scopes.push(probe.permission);
+        } else if (probeResponse.status === 403 || probeResponse.status === 404) {
+          // Without the permission GitHub hides the endpoint of a private repository
+          missing.push(probe.label);
+        }
+      }
+      return { scopes, missing };
+    } catch (error) {
+      this.logger.warn("Could not check token permissions", {
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
   /**
    * Fetch PRs authored by the user
    */
-  private async fetchAuthoredPRs(token: string): Promise<GitHubPR[]> {
+  private async fetchAuthoredPRs(token: string, maxItems: number): Promise<GitHubPR[]> {
     const authState = await storageManager.getAuth(this.PROVIDER_ID);
     const username = authState?.user?.username;
 
@@ -419,13 +758,13 @@ export class GitHubProvider implements Provider {
     }
 
     const query = `is:pr author:${username} is:open`;
-    return this.searchPRs(token, query);
+    return this.searchPRs(token, query, maxItems);
   }
 
   /**
    * Fetch PRs where user is requested for review
    */
-  private async fetchReviewRequestedPRs(token: string): Promise<GitHubPR[]> {
+  private async fetchReviewRequestedPRs(token: string, maxItems: number): Promise<GitHubPR[]> {
     const authState = await storageManager.getAuth(this.PROVIDER_ID);
     const username = authState?.user?.username;
 
@@ -434,20 +773,144 @@ export class GitHubProvider implements Provider {
     }
 
     const query = `is:pr review-requested:${username} is:open`;
-    return this.searchPRs(token, query);
+    return this.searchPRs(token, query, maxItems);
+  }
+
+  /**
+   * Fetch PRs and issues matching a user-defined search query
+   */
+  private async fetchCustomQuery(
+    token: string,
+    query: string,
+    maxItems: number,
+  ): Promise<GitHubPR[]> {
+    const username = await this.getUsername();
+    return this.searchPRs(token, this.resolveQuery(query, username), maxItems);
+  }
+
+  /**
+   * Validate a user-defined search query against the API
+   * @returns Number of matching PRs and issues
+   * @throws Error with GitHub's explanation when the query is invalid
+   */
+  public async validateSearchQuery(query: string): Promise<number> {
+    if (!query.trim()) {
+      throw new Error("Search query cannot be empty");
+    }
+
+    const token = await this.getToken();
+    if (!token) {
+      throw new Error("Not authenticated");
+    }
+
+    await this.loadHost();
+    const username = await this.getUsername();
+    const resolved = this.resolveQuery(query, username);
+    const { data } = await this.search(token, this.getSearchUrl(resolved, 1), resolved);
+    return data.total_count;
+  }
+
+  /**
+   * Replace `@me` with the signed-in username
+   * GitHub understands `@me` itself, but substituting keeps queries valid for
+   * tokens where the API cannot resolve the viewer (e.g. GitHub App installations)
+   */
+  private resolveQuery(query: string, username: string): string {
+    return query.trim().replace(/@me\b/g, username);
+  }
+
+  /**
+   * Get the signed-in username
+   */
+  private async getUsername(): Promise<string> {
+    const authState = await storageManager.getAuth(this.PROVIDER_ID);
+    const username = authState?.user?.username;
+
+    if (!username) {
+      throw new Error("Username not available");
+    }
+
+    return username;
   }
 
   /**
    * Search for PRs using GitHub API
+   * Follows `Link` header pagination until `maxItems` results are collected
+   */
+  private async searchPRs(token: string, query: string, maxItems: number): Promise<GitHubPR[]> {
+    const items: GitHubPR[] = [];
+    let url: string | null = this.getSearchUrl(query, Math.min(maxItems, 100));
+
+    while (url && items.length < maxItems) {
+      const page = await this.search(token, url, query);
+      items.push(...page.data.items);
+      url = page.nextUrl;
+    }
+
+    return items.slice(0, maxItems);
+  }
+
+  /**
+   * Build the first page URL for the GitHub issues search API
    */
-  private async searchPRs(token: string, query: string): Promise<GitHubPR[]> {
-    const url = new URL("https://api.github.com/search/issues");
+  private getSearchUrl(query: string, perPage: number): string {
+    const url = new URL(`${this.getApiUrl()}/search/issues`);
     url.searchParams.set("q", query);
     url.searchParams.set("sort", "updated");
     url.searchParams.set("order", "desc");
-    url.searchParams.set("per_page", "100");
+    url.searchParams.set("per_page", String(perPage));
+    return url.toString();
+  }
+
+  /**
+   * Turn a failed GitHub response into a typed provider error
+   */
+  private toProviderError(response: Response, context: string): ProviderError {
+    const details = { providerId: this.PROVIDER_ID, status: response.status };
+
+    if (response.status === 401) {
+      return new ProviderError(
+        ProviderErrorType.AUTH_EXPIRED,
+        "Invalid GitHub token. Please check your Personal Access Token and try again.",
+        details,
+      );
+    }
+
+    const errorText = response.statusText || `HTTP ${response.status}`;
+    return new ProviderError(
+      getProviderErrorType(response.status),
+      `${context}: ${errorText}`,
+      details,
+    );
+  }
+
+  /**
+   * Get the `rel="next"` URL from a GitHub `Link` header
+   */
+  private getNextPageUrl(linkHeader: string | null): string | null {
+    if (!linkHeader) {
+      return null;
+    }
 
-    const response = await fetch(url.toString(), {
+    for (const link of linkHeader.split(",")) {
+      const match = link.match(/<([^>]+)>;\s*rel="next"/);
+      if (match) {
+        return match[1];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetch one page of search results
+   */
+  private async search(
+    token: string,
+    url: string,
+    query: string,
+  ): Promise<{ data: GitHubSearchResponse; nextUrl: string | null }> {
+    const response = await providerFetch(this.PROVIDER_ID, url, {
       headers: {
         Authorization: `token ${token}`,
         Accept: "application/vnd.github.v3+json",
@@ -455,17 +918,99 @@ export class GitHubProvider implements Provider {
     });
 
     if (!response.ok) {
-      if (response.status === 401) {
-        throw new Error(
-          "Invalid GitHub token. Please check your Personal Access Token and try again.",
+      if (response.status === 422) {
+        // Invalid search syntax, e.g. an unknown qualifier or a repo the token cannot see
+        const body = (await response.json().catch(() => ({}))) as GitHubErrorResponse;
+        const detail = body.errors?.[0]?.message || body.message || "Validation failed";
+        throw new ProviderError(
+          ProviderErrorType.CONFIG,
+          `Invalid search query "${query}": ${detail}`,
+          { providerId: this.PROVIDER_ID, status: response.status },
         );
       }
-      const errorText = response.statusText || `HTTP ${response.status}`;
-      throw new Error(`GitHub API error: ${errorText}`);
+      throw this.toProviderError(response, "GitHub API error");
     }
 
-    const data: GitHubSearchResponse = await response.json();
-    return data.items;
+    return {
+      data: (await response.json()) as GitHubSearchResponse,
+      nextUrl: this.getNextPageUrl(response.headers.get("link")),
+    };
+  }
+
+  /**
+   * Add review, merge and CI details to pull requests in batched GraphQL requests
+   * Mutates the given PRs; issues are left untouched
+   */
+  private async enrichPullRequests(token: string, prs: GitHubPR[]): Promise<void> {
+    const pullRequests = prs.filter((pr) => this.isPullRequest(pr));
+
+    for (let i = 0; i < pullRequests.length; i += ENRICHMENT_BATCH_SIZE) {
+      const batch = pullRequests.slice(i, i + ENRICHMENT_BATCH_SIZE);
+
+      try {
+        const response = await providerFetch(this.PROVIDER_ID, this.getGraphqlUrl(), {
+          method: "POST",
+          headers: {
+            Authorization: `bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            query: PR_ENRICHMENT_QUERY,
+            variables: { ids: batch.map((pr) => pr.node_id) },
+          }),
+        });
+
+        if (!response.ok) {
+          throw this.toProviderError(response, "GitHub GraphQL error");
+        }
+
+        const body = (await response.json()) as GitHubGraphQLResponse;
+        if (!body.data) {
+          throw new Error(body.errors?.[0]?.message || "GitHub GraphQL returned no data");
+        }
+
+        const nodes = new Map<string, GitHubGraphQLPullRequest>();
+        for (const node of body.data.nodes) {
+          if (node?.id) {
+            nodes.set(node.id, node);
+          }
+        }
+
+        for (const pr of batch) {
+          const node = nodes.get(pr.node_id);
+          if (node) {
+            this.applyEnrichment(pr, node);
+          }
+        }
+      } catch (error) {
+        // Missing details only degrade the title, so don't fail the whole sync
+        this.logger.warn("Failed to fetch pull request details", {
+          count: batch.length,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Copy GraphQL pull request details onto a search result
+   */
+  private applyEnrichment(pr: GitHubPR, node: GitHubGraphQLPullRequest): void {
+    pr.draft = node.isDraft;
+    pr.merged = node.merged;
+    pr.mergeable_state = node.mergeStateStatus.toLowerCase();
+    pr.requested_reviewers = node.reviewRequests.nodes
+      .map((request) => request.requestedReviewer?.login ?? request.requestedReviewer?.slug)
+      .filter((login): login is string => Boolean(login))
+      .map((login) => ({ login }));
+    pr.enrichment = {
+      reviewDecision: node.reviewDecision,
+      approvals: node.approvals.totalCount,
+      changesRequested: node.changesRequested.totalCount,
+      checkStatus: node.commits.nodes[0]?.commit.statusCheckRollup?.state ?? null,
+      mergeable: node.mergeable,
+      unresolvedThreads: node.reviewThreads.nodes.filter((thread) => !thread.isResolved).length,
+    };
   }
 
   /**
@@ -495,6 +1040,8 @@ export class GitHubProvider implements Provider {
     const hasAnyOption =
       options.includeStatus ||
       options.includeReviewStatus ||
+      options.includeCIStatus ||
+      options.includeUnresolvedThreads ||
       options.includeCreator ||
       options.includeAge;
 
@@ -513,12 +1060,9 @@ export class GitHubProvider implements Provider {
         statusIndicator = pr.merged ? "⚫" : "🔴"; // Merged or closed
       } else if (pr.draft) {
         statusIndicator = "🟡"; // Draft
-      } else if (
-        pr.mergeable_state === "dirty" ||
-        pr.mergeable_state === "unstable" ||
-        pr.mergeable_state === "blocked"
-      ) {
-        statusIndicator = "🔴"; // Conflicts or blocked
+      } else if (pr.mergeable_state === "dirty" || pr.mergeable_state === "unstable") {
+        // "blocked" only means required reviews are pending, which the review status shows
+        statusIndicator = "🔴"; // Conflicts or failing checks
       } else {
         statusIndicator = "🟢"; // Open and ready
       }
@@ -537,10 +1081,28 @@ export class GitHubProvider implements Provider {
       parts.push(statusIndicator);
     }
 
-    // Review status (only for open PRs)
-    if (options.includeReviewStatus && pr.state === "open") {
+    // CI status (only for open PRs with checks)
+    const checkStatus = pr.enrichment?.checkStatus;
+    if (options.includeCIStatus && pr.state === "open" && checkStatus) {
+      if (checkStatus === "SUCCESS") {
+        parts.push(options.includeEmojis ? "✔️" : "[CI PASSED]");
+      } else if (checkStatus === "FAILURE" || checkStatus === "ERROR") {
+        parts.push(options.includeEmojis ? "❌" : "[CI FAILED]");
+      } else {
+        parts.push(options.includeEmojis ? "⏳" : "[CI RUNNING]");
+      }
+    }
+
+    // Review status (only for open PRs, issues have no reviews)
+    if (options.includeReviewStatus && pr.state === "open" && this.isPullRequest(pr)) {
       const reviewerCount = pr.requested_reviewers?.length || 0;
-      if (reviewerCount > 0) {
+      const reviewDecision = pr.enrichment?.reviewDecision;
+      if (reviewDecision === "CHANGES_REQUESTED") {
+        parts.push(options.includeEmojis ? "✋" : "[CHANGES REQUESTED]");
+      } else if (reviewDecision === "APPROVED") {
+        const approvals = pr.enrichment?.approvals ?? 0;
+        parts.push(options.includeEmojis ? "👍" : `[${approvals} APPROVED]`);
+      } else if (reviewerCount > 0) {
         parts.push(options.includeEmojis ? "👁️" : `[${reviewerCount} REVIEWS]`);
       } else if (options.includeEmojis) {
         // Show checkmark when no reviews requested
@@ -548,6 +1110,14 @@ export class GitHubProvider implements Provider {
       }
     }
 
+    // Unresolved review threads
+    const unresolvedThreads = pr.enrichment?.unresolvedThreads ?? 0;
+    if (options.includeUnresolvedThreads && pr.state === "open" && unresolvedThreads > 0) {
+      parts.push(
+        options.includeEmojis ? `💬${unresolvedThreads}` : `[${unresolvedThreads} THREADS]`,
+      );
+    }
+
     // Creator (with colon separator)
     if (options.includeCreator && pr.user) {
       parts.push(`@${pr.user.login}:`);
@@ -589,9 +1159,13 @@ export class GitHubProvider implements Provider {
   /**
    * Format folder title with dynamic statistics
    */
-  public async formatFolderTitle(baseName: string, items: BookmarkItem[]): Promise<string> {
+  public async formatFolderTitle(
+    baseName: string,
+    items: BookmarkItem[],
+    folder?: LiveFolder,
+  ): Promise<string> {
     const config = await this.getConfig();
-    const folderFormat = config.folderTitleFormat;
+    const folderFormat = folder?.folderTitleFormat ?? config.folderTitleFormat;
 
     // If folder title formatting is disabled, return base name as-is
     if (!folderFormat?.enabled) {
@@ -640,20 +1214,21 @@ export class GitHubProvider implements Provider {
     return baseName;
   }
 
+  /**
+   * Custom queries return issues too unless they restrict results with `is:pr`
+   */
+  private isPullRequest(pr: GitHubPR): boolean {
+    return pr.pull_request !== undefined || pr.html_url.includes("/pull/");
+  }
+
   /**
    * Convert GitHub PR to BookmarkItem
    */
-  private async prToBookmarkItem(pr: GitHubPR): Promise<BookmarkItem> {
+  private prToBookmarkItem(pr: GitHubPR, titleFormat: TitleFormatOptions): BookmarkItem {
     // Extract repo name from repository_url
     const repoMatch = pr.repository_url.match(/repos\/(.+)$/);
     const repoName = repoMatch ? repoMatch[1] : "unknown";
 
-    // Get title format options from config
-    const config = await this.getConfig();
-    const titleFormat =
-      (config as ProviderConfig & { titleFormat?: TitleFormatOptions }).titleFormat ||
-      DEFAULT_TITLE_FORMAT;
-
     // Format title using options
     const formattedTitle = this.formatGitHubTitle(pr, titleFormat);
 
@@ -669,12 +1244,21 @@ export class GitHubProvider implements Provider {
       updatedAt: new Date(pr.updated_at).getTime(),
       lastModified: pr.updated_at,
       metadata: {
+        type: this.isPullRequest(pr) ? "pull_request" : "issue",
         number: pr.number,
         state: pr.state,
         author: pr.user.login,
         authorAvatar: pr.user.avatar_url,
         repository: repoName,
         requestedReviewers, // Store for folder title formatting
+        draft: pr.draft,
+        merged: pr.merged,
+        reviewDecision: pr.enrichment?.reviewDecision,
+        approvals: pr.enrichment?.approvals,
+        changesRequested: pr.enrichment?.changesRequested,
+        checkStatus: pr.enrichment?.checkStatus,
+        mergeable: pr.enrichment?.mergeable,
+        unresolvedThreads: pr.enrichment?.unresolvedThreads,
       },
     };
   }
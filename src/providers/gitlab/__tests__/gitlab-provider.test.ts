@@ -0,0 +1,261 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storageManager } from "@/services/storage";
+import type { LiveFolder, TitleFormatOptions } from "@/types";
+import { ProviderError, ProviderErrorType } from "../../provider-error";
+import { GitLabProvider } from "../gitlab-provider";
+
+describe("GitLab Provider", () => {
+  let provider: GitLabProvider;
+
+  // Mock MR data factory
+  const createMockMR = (overrides = {}) => ({
+    id: 987654321,
+    iid: 42,
+    project_id: 1001,
+    title: "Add pipeline caching",
+    web_url: "https://gitlab.com/group/project/-/merge_requests/42",
+    state: "opened",
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    draft: false,
+    author: {
+      id: 1,
+      username: "alice",
+      name: "Alice",
+      avatar_url: "https://gitlab.com/uploads/alice.png",
+    },
+    references: { full: "group/project!42" },
+    ...overrides,
+  });
+
+  const plainFormat: TitleFormatOptions = {
+    includeStatus: false,
+    includeEmojis: true,
+    includeAssignee: false,
+    includePriority: false,
+    includeAge: false,
+    includeReviewStatus: false,
+    includeCreator: false,
+    format: "compact",
+  };
+
+  const createFolder = (overrides: Partial<LiveFolder> = {}): LiveFolder => ({
+    id: "lf-1",
+    providerId: "gitlab",
+    name: "Merge requests",
+    enabled: true,
+    titleFormat: plainFormat,
+    createdAt: Date.now(),
+    ...overrides,
+  });
+
+  const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), { headers });
+
+  /** Answer merge request searches by criteria, and everything else with `other` */
+  const mockSearches = (
+    results: Record<string, unknown[]>,
+    other: () => Response = () => jsonResponse({}),
+  ) =>
+    vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+      const url = new URL(String(input));
+      if (url.pathname !== "/api/v4/merge_requests") {
+        return other();
+      }
+      const criteria = Object.keys(results).find((key) => url.searchParams.has(key));
+      return jsonResponse(criteria ? results[criteria] : []);
+    });
+
+  const searchedCriteria = (fetchMock: ReturnType<typeof mockSearches>) =>
+    fetchMock.mock.calls
+      .map(([input]) => new URL(String(input)))
+      .filter((url) => url.pathname === "/api/v4/merge_requests")
+      .flatMap((url) =>
+        ["author_username", "reviewer_username", "assignee_username"].filter((key) =>
+          url.searchParams.has(key),
+        ),
+      );
+
+  beforeEach(async () => {
+    provider = new GitLabProvider();
+    browser.storage?.local.clear();
+    vi.clearAllMocks();
+
+    await storageManager.saveProvider("gitlab", { config: { enabled: true } });
+    await storageManager.saveAuth("gitlab", {
+      providerId: "gitlab",
+      authenticated: true,
+      tokens: { accessToken: "glpat-token", tokenType: "Bearer", expiresAt: Date.now() + 3600000 },
+      user: { id: "1", username: "alice", displayName: "Alice" },
+    });
+  });
+
+  describe("Filters", () => {
+    it("should only search the enabled criteria", async () => {
+      const fetchMock = mockSearches({});
+
+      await provider.fetchItems(
+        createFolder({ filters: { createdByMe: true, reviewRequests: false, assignedToMe: true } }),
+      );
+
+      expect(searchedCriteria(fetchMock)).toEqual(["author_username", "assignee_username"]);
+      expect(String(fetchMock.mock.calls[0][0])).toContain("author_username=alice");
+      fetchMock.mockRestore();
+    });
+
+    it("should not search at all when every filter is off", async () => {
+      const fetchMock = mockSearches({});
+
+      const items = await provider.fetchItems(
+        createFolder({
+          filters: { createdByMe: false, reviewRequests: false, assignedToMe: false },
+        }),
+      );
+
+      expect(items).toEqual([]);
+      expect(fetchMock).not.toHaveBeenCalled();
+      fetchMock.mockRestore();
+    });
+
+    it("should merge duplicates found by several searches", async () => {
+      const fetchMock = mockSearches({
+        author_username: [createMockMR()],
+        reviewer_username: [createMockMR(), createMockMR({ id: 2, iid: 7, title: "Other" })],
+        assignee_username: [createMockMR()],
+      });
+
+      const items = await provider.fetchItems(createFolder());
+
+      expect(items.map((item) => item.id)).toEqual(["987654321", "2"]);
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("Pagination", () => {
+    it("should follow X-Next-Page and stop at the item cap", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(
+          jsonResponse([createMockMR({ id: 1 }), createMockMR({ id: 2 })], { "X-Next-Page": "2" }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse([createMockMR({ id: 3 }), createMockMR({ id: 4 })], { "X-Next-Page": "3" }),
+        );
+
+      // @ts-expect-error - accessing private method for testing
+      const mrs = await provider.searchMergeRequests("token", { author_username: "alice" }, 3);
+
+      expect(mrs.map((mr: { id: number }) => mr.id)).toEqual([1, 2, 3]);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(String(fetchMock.mock.calls[0][0])).toContain("per_page=3");
+      expect(String(fetchMock.mock.calls[1][0])).toContain("page=2");
+      fetchMock.mockRestore();
+    });
+
+    it("should stop after the last page", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(jsonResponse([createMockMR()], { "X-Next-Page": "" }));
+
+      // @ts-expect-error - accessing private method for testing
+      const mrs = await provider.searchMergeRequests("token", { author_username: "alice" }, 100);
+
+      expect(mrs).toHaveLength(1);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("Errors", () => {
+    it("should throw AUTH_EXPIRED for a rejected token", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response("{}", { status: 401, statusText: "Unauthorized" }));
+
+      const error = await provider.fetchItems(createFolder()).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect((error as ProviderError).type).toBe(ProviderErrorType.AUTH_EXPIRED);
+      fetchMock.mockRestore();
+    });
+
+    it("should throw CONFIG for other client errors", async () => {
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValue(new Response("{}", { status: 403, statusText: "Forbidden" }));
+
+      const error = await provider.fetchItems(createFolder()).catch((e: unknown) => e);
+
+      expect((error as ProviderError).type).toBe(ProviderErrorType.CONFIG);
+      expect((error as ProviderError).message).toBe("GitLab API error: Forbidden");
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("Enrichment", () => {
+    const detailPaths = (fetchMock: ReturnType<typeof mockSearches>) =>
+      fetchMock.mock.calls
+        .map(([input]) => new URL(String(input)).pathname)
+        .filter((path) => path.startsWith("/api/v4/projects/"));
+
+    it("should skip detail requests when the title shows no status", async () => {
+      const fetchMock = mockSearches({ author_username: [createMockMR()] });
+
+      await provider.fetchItems(createFolder());
+
+      expect(detailPaths(fetchMock)).toEqual([]);
+      fetchMock.mockRestore();
+    });
+
+    it("should fetch the pipeline for the status and approvals for the review status", async () => {
+      const fetchMock = mockSearches({ author_username: [createMockMR()] }, () =>
+        jsonResponse({
+          head_pipeline: { id: 1, status: "failed" },
+          approved: false,
+          approved_by: [],
+        }),
+      );
+
+      const items = await provider.fetchItems(
+        createFolder({ titleFormat: { ...plainFormat, includeStatus: true } }),
+      );
+      expect(detailPaths(fetchMock)).toEqual(["/api/v4/projects/1001/merge_requests/42"]);
+      expect(items[0].title).toBe("!42 🔴 Add pipeline caching");
+
+      fetchMock.mockClear();
+      await provider.fetchItems(
+        createFolder({ titleFormat: { ...plainFormat, includeReviewStatus: true } }),
+      );
+      expect(detailPaths(fetchMock)).toEqual(["/api/v4/projects/1001/merge_requests/42/approvals"]);
+      fetchMock.mockRestore();
+    });
+
+    it("should only enrich merge requests within the item cap, a few at a time", async () => {
+      await storageManager.saveSettings({ maxItemsPerProvider: 12 });
+      const mrs = Array.from({ length: 20 }, (_, i) => createMockMR({ id: i + 1, iid: i + 1 }));
+
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const fetchMock = vi.spyOn(globalThis, "fetch").mockImplementation(async (input) => {
+        const url = new URL(String(input));
+        if (url.pathname === "/api/v4/merge_requests") {
+          return jsonResponse(url.searchParams.has("author_username") ? mrs : []);
+        }
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        inFlight--;
+        return jsonResponse({});
+      });
+
+      const items = await provider.fetchItems(
+        createFolder({ titleFormat: { ...plainFormat, includeStatus: true } }),
+      );
+
+      expect(items).toHaveLength(12);
+      expect(detailPaths(fetchMock)).toHaveLength(12);
+      expect(maxInFlight).toBeLessThanOrEqual(5);
+      fetchMock.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { TitleFormatOptions } from "@/types";
+import { GitLabProvider } from "../gitlab-provider";
+
+describe("GitLab Title Formatter", () => {
+  let provider: GitLabProvider;
+
+  // Mock MR data factory
+  const createMockMR = (overrides = {}) => ({
+    id: 987654321,
+    iid: 42,
+    project_id: 1001,
+    title: "Add pipeline caching",
+    web_url: "https://gitlab.com/group/project/-/merge_requests/42",
+    state: "opened",
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    draft: false,
+    has_conflicts: false,
+    author: {
+      id: 1,
+      username: "alice",
+      name: "Alice",
+      avatar_url: "https://gitlab.com/uploads/alice.png",
+    },
+    assignees: [],
+    reviewers: [],
+    references: { full: "group/project!42" },
+    head_pipeline: null,
+    ...overrides,
+  });
+
+  const baseOptions: TitleFormatOptions = {
+    includeStatus: false,
+    includeEmojis: true,
+    includeAssignee: false,
+    includePriority: false,
+    includeAge: false,
+    includeReviewStatus: false,
+    includeCreator: false,
+    format: "compact",
+  };
+
+  beforeEach(() => {
+    provider = new GitLabProvider();
+    vi.clearAllMocks();
+  });
+
+  describe("Status Indicators", () => {
+    it("should show green emoji for open ready MR", () => {
+      const mr = createMockMR();
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeStatus: true });
+
+      expect(title).toBe("!42 🟢 Add pipeline caching");
+    });
+
+    it("should show yellow emoji for draft MR", () => {
+      const mr = createMockMR({ draft: true });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeStatus: true });
+
+      expect(title).toContain("🟡");
+    });
+
+    it("should treat legacy work_in_progress flag as draft", () => {
+      const mr = createMockMR({ draft: undefined, work_in_progress: true });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, {
+        ...baseOptions,
+        includeStatus: true,
+        includeEmojis: false,
+      });
+
+      expect(title).toContain("[DRAFT]");
+    });
+
+    it("should show red emoji for MR with conflicts", () => {
+      const mr = createMockMR({ has_conflicts: true });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeStatus: true });
+
+      expect(title).toContain("🔴");
+    });
+
+    it("should show black emoji for merged MR", () => {
+      const mr = createMockMR({ state: "merged" });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeStatus: true });
+
+      expect(title).toContain("⚫");
+    });
+
+    it("should use text status when emojis disabled", () => {
+      const mr = createMockMR({ state: "closed" });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, {
+        ...baseOptions,
+        includeStatus: true,
+        includeEmojis: false,
+      });
+
+      expect(title).toBe("!42 [CLOSED] Add pipeline caching");
+    });
+  });
+
+  describe("Pipeline Status", () => {
+    it("should show red emoji for failed pipeline", () => {
+      const mr = createMockMR({ head_pipeline: { id: 1, status: "failed" } });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeStatus: true });
+
+      expect(title).toContain("🔴");
+    });
+
+    it("should show hourglass for running pipeline", () => {
+      const mr = createMockMR({ head_pipeline: { id: 1, status: "running" } });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeStatus: true });
+
+      expect(title).toBe("!42 🟢 ⏳ Add pipeline caching");
+    });
+
+    it("should show text pipeline status when emojis disabled", () => {
+      const mr = createMockMR({ head_pipeline: { id: 1, status: "failed" } });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, {
+        ...baseOptions,
+        includeStatus: true,
+        includeEmojis: false,
+      });
+
+      expect(title).toBe("!42 [OPEN] [CI FAILED] Add pipeline caching");
+    });
+  });
+
+  describe("Review Status", () => {
+    it("should show eye emoji when reviewers are pending", () => {
+      const mr = createMockMR({
+        reviewers: [{ id: 2, username: "bob", name: "Bob", avatar_url: "" }],
+      });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeReviewStatus: true });
+
+      expect(title).toContain("👁️");
+    });
+
+    it("should show approval when MR is approved", () => {
+      const mr = createMockMR({
+        reviewers: [{ id: 2, username: "bob", name: "Bob", avatar_url: "" }],
+        approvals: {
+          approved: true,
+          approvals_left: 0,
+          approved_by: [{ user: { id: 2, username: "bob", name: "Bob", avatar_url: "" } }],
+        },
+      });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, {
+        ...baseOptions,
+        includeReviewStatus: true,
+        includeEmojis: false,
+      });
+
+      expect(title).toContain("[1 APPROVED]");
+    });
+
+    it("should not show review status for merged MR", () => {
+      const mr = createMockMR({
+        state: "merged",
+        reviewers: [{ id: 2, username: "bob", name: "Bob", avatar_url: "" }],
+      });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, { ...baseOptions, includeReviewStatus: true });
+
+      expect(title).not.toContain("👁️");
+      expect(title).not.toContain("✅");
+    });
+  });
+
+  describe("Creator and Assignee", () => {
+    it("should show creator and a different assignee", () => {
+      const mr = createMockMR({
+        assignees: [{ id: 3, username: "carol", name: "Carol", avatar_url: "" }],
+      });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, {
+        ...baseOptions,
+        includeCreator: true,
+        includeAssignee: true,
+      });
+
+      expect(title).toBe("!42 @alice: →@carol Add pipeline caching");
+    });
+
+    it("should not show assignee when same as creator", () => {
+      const mr = createMockMR({
+        assignees: [{ id: 1, username: "alice", name: "Alice", avatar_url: "" }],
+      });
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, {
+        ...baseOptions,
+        includeCreator: true,
+        includeAssignee: true,
+      });
+
+      expect(title).not.toContain("→@");
+    });
+  });
+
+  describe("Simple Format", () => {
+    it("should use simple format when all options disabled", () => {
+      const mr = createMockMR();
+
+      // @ts-expect-error - accessing private method for testing
+      const title = provider.formatGitLabTitle(mr, baseOptions);
+
+      expect(title).toBe("Add pipeline caching !42");
+    });
+  });
+});
@@ -0,0 +1,790 @@
+/**
+ * GitLab Provider
+ * Implements Personal Access Token authentication and merge request fetching from the GitLab API
+ * Supports both gitlab.com and self-hosted GitLab instances
+ */
+
+import { authManager } from "@/services/auth-manager";
+import { rateLimiter } from "@/services/rate-limiter";
+import { storageManager } from "@/services/storage";
+import type {
+  AuthResult,
+  AuthState,
+  BookmarkItem,
+  LiveFolder,
+  Provider,
+  ProviderConfig,
+  ProviderMetadata,
+  TitleFormatOptions,
+} from "@/types";
+import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
+import { Logger } from "@/utils/logger";
+import {
+  getProviderErrorType,
+  ProviderError,
+  ProviderErrorType,
+  providerFetch,
+} from "../provider-error";
+
+/**
+ * Default GitLab instance URL
+ */
+export const GITLAB_DEFAULT_BASE_URL = "https://gitlab.com";
+
+/**
+ * Merge requests enriched at the same time
+ */
+const ENRICHMENT_CONCURRENCY = 5;
+
+/**
+ * GitLab user response
+ */
+interface GitLabUser {
+  id: number;
+  username: string;
+  name: string;
+  email?: string;
+  public_email?: string;
+  avatar_url: string;
+  web_url: string;
+}
+
+/**
+ * GitLab user reference (author, assignee, reviewer)
+ */
+interface GitLabUserRef {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url: string;
+}
+
+/**
+ * GitLab pipeline summary
+ */
+interface GitLabPipeline {
+  id: number;
+  status: string;
+  web_url?: string;
+}
+
+/**
+ * GitLab API merge request response
+ */
+interface GitLabMR {
+  id: number;
+  iid: number;
+  project_id: number;
+  title: string;
+  web_url: string;
+  state: string;
+  created_at: string;
+  updated_at: string;
+  draft?: boolean;
+  work_in_progress?: boolean;
+  has_conflicts?: boolean;
+  detailed_merge_status?: string;
+  author: GitLabUserRef;
+  assignees?: GitLabUserRef[];
+  reviewers?: GitLabUserRef[];
+  references?: {
+    full: string;
+  };
+  head_pipeline?: GitLabPipeline | null;
+  /** Populated from the approvals endpoint */
+  approvals?: GitLabApprovals;
+}
+
+/**
+ * GitLab merge request approvals response
+ */
+interface GitLabApprovals {
+  approved: boolean;
+  approvals_required?: number;
+  approvals_left?: number;
+  approved_by: Array<{ user: GitLabUserRef }>;
+}
+
+/**
+ * GitLab provider configuration
+ */
+interface GitLabProviderConfig extends ProviderConfig {
+  baseUrl?: string;
+  personalAccessToken?: string;
+}
+
+/**
+ * GitLab Provider Implementation
+ */
+export class GitLabProvider implements Provider {
+  public readonly metadata: ProviderMetadata = {
+    id: "gitlab",
+    name: "GitLab",
+    description: "Sync merge requests from gitlab.com or a self-hosted GitLab",
+    icon: "https://gitlab.com/favicon.ico",
+    version: "1.0.0",
+  };
+
+  private logger: Logger;
+  private readonly PROVIDER_ID = "gitlab";
+  private baseUrl = GITLAB_DEFAULT_BASE_URL;
+
+  constructor() {
+    this.logger = new Logger("GitLabProvider");
+  }
+
+  /**
+   * Initialize the provider
+   */
+  public async initialize(): Promise<void> {
+    this.logger.info("Initializing GitLab provider");
+
+    // Each merge request costs two enrichment calls; GitLab.com allows 2,000 per minute
+    rateLimiter.configure(this.PROVIDER_ID, { maxRequests: 600, windowMs: 60000 });
+
+    // Ensure provider storage exists with default config
+    const existingData = await storageManager.getProvider(this.PROVIDER_ID);
+
+    if (!existingData) {
+      await storageManager.saveProvider(this.PROVIDER_ID, {
+        config: {
+          enabled: false,
+        },
+      });
+    }
+
+    const config = (await this.getConfig()) as GitLabProviderConfig;
+    this.baseUrl = this.normalizeBaseUrl(config.baseUrl || GITLAB_DEFAULT_BASE_URL);
+
+    this.logger.info("GitLab provider initialized", { baseUrl: this.baseUrl });
+  }
+
+  /**
+   * Authenticate with GitLab
+   */
+  public async authenticate(): Promise<AuthResult> {
+    this.logger.info("Starting GitLab authentication");
+
+    // Re-read config to get the latest settings (in case they were changed after initialization)
+    const config = (await this.getConfig()) as GitLabProviderConfig;
+    this.baseUrl = this.normalizeBaseUrl(config.baseUrl || GITLAB_DEFAULT_BASE_URL);
+
+    if (!config.personalAccessToken) {
+      return {
+        success: false,
+        error: "A GitLab Personal Access Token is required. Add one in the GitLab settings.",
+      };
+    }
+
+    return this.authenticateWithPAT(config.personalAccessToken);
+  }
+
+  /**
+   * Authenticate using Personal Access Token
+   */
+  private async authenticateWithPAT(token: string): Promise<AuthResult> {
+    try {
+      // Fetch user information to validate token
+      const user = await this.fetchUserInfo(token);
+
+      const authState: AuthState = {
+        providerId: this.PROVIDER_ID,
+        authenticated: true,
+        tokens: {
+          accessToken: token,
+          tokenType: "Bearer",
+          // PATs carry their own expiry server-side, so treat them as long-lived here
+          expiresAt: Date.now() + 365 * 24 * 60 * 60 * 1000, // 1 year
+        },
+        user: {
+          id: user.id.toString(),
+          username: user.username,
+          displayName: user.name || user.username,
+          email: user.public_email || user.email || undefined,
+          avatarUrl: user.avatar_url,
+          metadata: {
+            baseUrl: this.baseUrl,
+            webUrl: user.web_url,
+          },
+        },
+        lastAuth: Date.now(),
+      };
+
+      await storageManager.saveAuth(this.PROVIDER_ID, authState);
+
+      this.logger.info("PAT authentication successful", { baseUrl: this.baseUrl });
+
+      return {
+        success: true,
+        accessToken: token,
+        user: authState.user,
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "PAT authentication failed";
+      this.logger.error("PAT authentication failed", { errorMessage });
+      return {
+        success: false,
+        error: errorMessage,
+      };
+    }
+  }
+
+  /**
+   * Check if authenticated
+   */
+  public async isAuthenticated(): Promise<boolean> {
+    return authManager.isAuthenticated(this.PROVIDER_ID);
+  }
+
+  /**
+   * Get access token
+   */
+  public async getToken(): Promise<string | null> {
+    return authManager.getToken(this.PROVIDER_ID);
+  }
+
+  /**
+   * Refresh access token
+   */
+  public async refreshToken(): Promise<void> {
+    // Personal Access Tokens cannot be refreshed
+  }
+
+  /**
+   * Revoke authentication
+   */
+  public async revokeAuth(): Promise<void> {
+    await authManager.revokeAuth(this.PROVIDER_ID);
+  }
+
+  /**
+   * Fetch merge requests from GitLab
+   */
+  public async fetchItems(folder?: LiveFolder): Promise<BookmarkItem[]> {
+    this.logger.info("Fetching GitLab merge requests");
+
+    const token = await this.getToken();
+    if (!token) {
+      throw new ProviderError(ProviderErrorType.AUTH_EXPIRED, "Not authenticated", {
+        providerId: this.PROVIDER_ID,
+      });
+    }
+
+    try {
+      const config = (await this.getConfig()) as GitLabProviderConfig;
+      this.baseUrl = this.normalizeBaseUrl(config.baseUrl || GITLAB_DEFAULT_BASE_URL);
+
+      const authState = await storageManager.getAuth(this.PROVIDER_ID);
+      const username = authState?.user?.username;
+
+      if (!username) {
+        throw new Error("Username not available");
+      }
+
+      // Get filter configuration (default all to true)
+      const filters = (folder?.filters ?? config.filters) as
+        | { createdByMe?: boolean; reviewRequests?: boolean; assignedToMe?: boolean }
+        | undefined;
+      const includeCreatedByMe = filters?.createdByMe ?? true;
+      const includeReviewRequests = filters?.reviewRequests ?? true;
+      const includeAssignedToMe = filters?.assignedToMe ?? true;
+      const { maxItemsPerProvider: maxItems } = await storageManager.getSettings();
+
+      const fetchPromises: Promise<GitLabMR[]>[] = [];
+
+      if (includeCreatedByMe) {
+        fetchPromises.push(
+          this.searchMergeRequests(token, { author_username: username }, maxItems),
+        );
+      }
+
+      if (includeReviewRequests) {
+        fetchPromises.push(
+          this.searchMergeRequests(token, { reviewer_username: username }, maxItems),
+        );
+      }
+
+      if (includeAssignedToMe) {
+        fetchPromises.push(
+          this.searchMergeRequests(token, { assignee_username: username }, maxItems),
+        );
+      }
+
+      // If no filters enabled, return empty
+      if (fetchPromises.length === 0) {
+        this.logger.info("No filters enabled, returning empty list");
+        return [];
+      }
+
+      const results = await Promise.all(fetchPromises);
+
+      // Deduplicate, then keep the most recently updated across all searches
+      const uniqueMRs = this.deduplicateMRs(results.flat())
+        .sort((a, b) => new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime())
+        .slice(0, maxItems);
+
+      // Pipeline and approval data are not part of the list response, so only fetch
+      // them when the title format actually displays them
+      const titleFormat = folder?.titleFormat ?? config.titleFormat ?? DEFAULT_TITLE_FORMAT;
+      const enrichedMRs = await this.enrichMergeRequests(token, uniqueMRs, titleFormat);
+
+      const items = enrichedMRs.map((mr) => this.mrToBookmarkItem(mr, titleFormat));
+
+      this.logger.info("Fetched merge requests", {
+        count: items.length,
+        filters: { includeCreatedByMe, includeReviewRequests, includeAssignedToMe },
+      });
+      return items;
+    } catch (error) {
+      this.logger.error("Failed to fetch merge requests", { error }, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get provider configuration
+   */
+  public async getConfig(): Promise<ProviderConfig> {
+    const providers = await storageManager.getProviders();
+    const providerData = providers[this.PROVIDER_ID];
+
+    const config = providerData?.config || { enabled: false };
+
+    // Ensure folderTitleFormat has defaults if not set
+    if (!config.folderTitleFormat) {
+      config.folderTitleFormat = DEFAULT_FOLDER_TITLE_FORMAT;
+    }
+
+    // Ensure titleFormat has defaults if not set
+    if (!config.titleFormat) {
+      config.titleFormat = DEFAULT_TITLE_FORMAT;
+    }
+
+    return config;
+  }
+
+  /**
+   * Update provider configuration
+   */
+  public async setConfig(config: Partial<ProviderConfig>): Promise<void> {
+    const providers = await storageManager.getProviders();
+    const existingData = providers[this.PROVIDER_ID];
+
+    const currentConfig = await this.getConfig();
+    const updatedConfig = { ...currentConfig, ...config };
+
+    // Preserve ALL existing provider data, only update config
+    await storageManager.saveProvider(this.PROVIDER_ID, {
+      ...existingData,
+      config: updatedConfig,
+    });
+  }
+
+  /**
+   * Dispose the provider and clean up resources
+   */
+  public async dispose(): Promise<void> {
+    this.logger.info("Disposing GitLab provider");
+    // No specific cleanup needed for GitLab provider
+  }
+
+  /**
+   * Normalize base URL by removing trailing slashes and ensuring protocol
+   */
+  private normalizeBaseUrl(url: string): string {
+    let normalized = url.trim().replace(/\/+$/, "");
+
+    if (!normalized.startsWith("http://") && !normalized.startsWith("https://")) {
+      normalized = `https://${normalized}`;
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Build request headers for the GitLab API
+   */
+  private getHeaders(token: string): Record<string, string> {
+    return {
+      "PRIVATE-TOKEN": token,
+      Accept: "application/json",
+    };
+  }
+
+  /**
+   * Fetch user information from GitLab
+   */
+  private async fetchUserInfo(token: string): Promise<GitLabUser> {
+    const response = await providerFetch(this.PROVIDER_ID, `${this.baseUrl}/api/v4/user`, {
+      headers: this.getHeaders(token),
+    });
+
+    if (!response.ok) {
+      throw this.toProviderError(response, "Failed to fetch user info");
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Search open merge requests across all projects visible to the user
+   * Follows `X-Next-Page` pagination until `maxItems` results are collected
+   */
+  private async searchMergeRequests(
+    token: string,
+    criteria: Record<string, string>,
+    maxItems: number,
+  ): Promise<GitLabMR[]> {
+    const url = new URL(`${this.baseUrl}/api/v4/merge_requests`);
+    url.searchParams.set("state", "opened");
+    url.searchParams.set("scope", "all");
+    url.searchParams.set("order_by", "updated_at");
+    url.searchParams.set("sort", "desc");
+    url.searchParams.set("per_page", String(Math.min(maxItems, 100)));
+    for (const [key, value] of Object.entries(criteria)) {
+      url.searchParams.set(key, value);
+    }
+
+    const items: GitLabMR[] = [];
+    let page: string | null = "1";
+
+    while (page && items.length < maxItems) {
+      url.searchParams.set("page", page);
+      const result = await this.fetchMergeRequestPage(token, url);
+      items.push(...result.data);
+      page = result.nextPage;
+    }
+
+    return items.slice(0, maxItems);
+  }
+
+  /**
+   * Fetch one page of merge requests
+   */
+  private async fetchMergeRequestPage(
+    token: string,
+    url: URL,
+  ): Promise<{ data: GitLabMR[]; nextPage: string | null }> {
+    const response = await providerFetch(this.PROVIDER_ID, url.toString(), {
+      headers: this.getHeaders(token),
+    });
+
+    if (!response.ok) {
+      throw this.toProviderError(response, "GitLab API error");
+    }
+
+    return {
+      data: (await response.json()) as GitLabMR[],
+      // Empty on the last page
+      nextPage: response.headers.get("x-next-page") || null,
+    };
+  }
+
+  /**
+   * Turn a failed GitLab response into a typed provider error
+   */
+  private toProviderError(response: Response, context: string): ProviderError {
+    const details = { providerId: this.PROVIDER_ID, status: response.status };
+
+    if (response.status === 401) {
+      return new ProviderError(
+        ProviderErrorType.AUTH_EXPIRED,
+        "Invalid GitLab token. Please check your Personal Access Token and try again.",
+        details,
+      );
+    }
+
+    const errorText = response.statusText || `HTTP ${response.status}`;
+    return new ProviderError(
+      getProviderErrorType(response.status),
+      `${context}: ${errorText}`,
+      details,
+    );
+  }
+
+  /**
+   * Add pipeline and approval details to merge requests
+   * At most ENRICHMENT_CONCURRENCY merge requests are enriched at a time, keeping their order.
+   */
+  private async enrichMergeRequests(
+    token: string,
+    mrs: GitLabMR[],
+    options: TitleFormatOptions,
+  ): Promise<GitLabMR[]> {
+    if (!options.includeStatus && !options.includeReviewStatus) {
+      return mrs;
+    }
+
+    const enriched: GitLabMR[] = new Array(mrs.length);
+    let next = 0;
+    const worker = async () => {
+      while (next < mrs.length) {
+        const index = next++;
+        enriched[index] = await this.enrichMergeRequest(token, mrs[index], options);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(ENRICHMENT_CONCURRENCY, mrs.length) }, worker));
+    return enriched;
+  }
+
+  /**
+   * Add pipeline and approval details to a merge request
+   */
+  private async enrichMergeRequest(
+    token: string,
+    mr: GitLabMR,
+    options: TitleFormatOptions,
+  ): Promise<GitLabMR> {
+    const mrPath = `${this.baseUrl}/api/v4/projects/${mr.project_id}/merge_requests/${mr.iid}`;
+    const enriched: GitLabMR = { ...mr };
+
+    try {
+      if (options.includeStatus) {
+        const response = await providerFetch(this.PROVIDER_ID, mrPath, {
+          headers: this.getHeaders(token),
+        });
+        if (response.ok) {
+          const detail: GitLabMR = await response.json();
+          enriched.head_pipeline = detail.head_pipeline;
+          enriched.has_conflicts = detail.has_conflicts ?? mr.has_conflicts;
+        }
+      }
+
+      if (options.includeReviewStatus) {
+        const response = await providerFetch(this.PROVIDER_ID, `${mrPath}/approvals`, {
+          headers: this.getHeaders(token),
+        });
+        if (response.ok) {
+          enriched.approvals = await response.json();
+        }
+      }
+    } catch (error) {
+      // Missing details only degrade the title, so don't fail the whole sync
+      this.logger.warn("Failed to fetch merge request details", {
+        projectId: mr.project_id,
+        iid: mr.iid,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    return enriched;
+  }
+
+  /**
+   * Deduplicate merge requests by global ID
+   */
+  private deduplicateMRs(mrs: GitLabMR[]): GitLabMR[] {
+    const seen = new Set<number>();
+    const unique: GitLabMR[] = [];
+
+    for (const mr of mrs) {
+      if (!seen.has(mr.id)) {
+        seen.add(mr.id);
+        unique.push(mr);
+      }
+    }
+
+    return unique;
+  }
+
+  /**
+   * Format merge request title according to user preferences
+   */
+  private formatGitLabTitle(mr: GitLabMR, options: TitleFormatOptions): string {
+    const parts: string[] = [];
+    const isDraft = mr.draft ?? mr.work_in_progress ?? false;
+    const pipelineStatus = mr.head_pipeline?.status;
+
+    // Handle all options disabled - simple format
+    const hasAnyOption =
+      options.includeStatus ||
+      options.includeReviewStatus ||
+      options.includeCreator ||
+      options.includeAge;
+
+    if (!hasAnyOption) {
+      // Format: "Title !123"
+      return `${mr.title} !${mr.iid}`;
+    }
+
+    // MR reference (always at start)
+    parts.push(`!${mr.iid}`);
+
+    // Status indicator (state, draft, conflicts and pipeline)
+    if (options.includeStatus) {
+      if (options.includeEmojis) {
+        if (mr.state === "merged") {
+          parts.push("⚫"); // Merged
+        } else if (mr.state === "closed") {
+          parts.push("🔴"); // Closed
+        } else if (isDraft) {
+          parts.push("🟡"); // Draft
+        } else if (mr.has_conflicts || pipelineStatus === "failed") {
+          parts.push("🔴"); // Conflicts or failing pipeline
+        } else {
+          parts.push("🟢"); // Open and ready
+        }
+
+        if (pipelineStatus === "running" || pipelineStatus === "pending") {
+          parts.push("⏳"); // Pipeline in progress
+        }
+      } else {
+        // Text-based status when emojis disabled
+        if (mr.state === "merged") {
+          parts.push("[MERGED]");
+        } else if (mr.state === "closed") {
+          parts.push("[CLOSED]");
+        } else if (isDraft) {
+          parts.push("[DRAFT]");
+        } else {
+          parts.push("[OPEN]");
+        }
+
+        if (pipelineStatus === "failed") {
+          parts.push("[CI FAILED]");
+        } else if (pipelineStatus === "running" || pipelineStatus === "pending") {
+          parts.push("[CI RUNNING]");
+        }
+      }
+    }
+
+    // Review status (only for open MRs)
+    if (options.includeReviewStatus && mr.state === "opened") {
+      const approvedCount = mr.approvals?.approved_by.length ?? 0;
+      const reviewerCount = mr.reviewers?.length || 0;
+
+      if (mr.approvals?.approved && approvedCount > 0) {
+        parts.push(options.includeEmojis ? "👍" : `[${approvedCount} APPROVED]`);
+      } else if (reviewerCount > 0) {
+        parts.push(options.includeEmojis ? "👁️" : `[${reviewerCount} REVIEWS]`);
+      } else if (options.includeEmojis) {
+        // Show checkmark when no reviews requested
+        parts.push("✅");
+      }
+    }
+
+    // Creator (with colon separator)
+    if (options.includeCreator && mr.author) {
+      parts.push(`@${mr.author.username}:`);
+    }
+
+    // Assignee (with arrow if different from creator)
+    if (options.includeAssignee && mr.assignees && mr.assignees.length > 0) {
+      const assignee = mr.assignees[0];
+      if (assignee.username !== mr.author?.username) {
+        parts.push(`→@${assignee.username}`);
+      }
+    }
+
+    // Age (with emoji and brackets)
+    if (options.includeAge) {
+      const createdDate = new Date(mr.created_at);
+      const ageInDays = Math.floor((Date.now() - createdDate.getTime()) / (1000 * 60 * 60 * 24));
+
+      if (options.includeEmojis && ageInDays >= 7) {
+        parts.push("⏰");
+      }
+
+      if (!options.includeEmojis) {
+        parts.push(`[${ageInDays}d]`);
+      } else {
+        parts.push(`${ageInDays}d`);
+      }
+    }
+
+    // Title (always included at end)
+    parts.push(mr.title);
+
+    return parts.join(" ");
+  }
+
+  /**
+   * Format folder title with dynamic statistics
+   */
+  public async formatFolderTitle(
+    baseName: string,
+    items: BookmarkItem[],
+    folder?: LiveFolder,
+  ): Promise<string> {
+    const config = await this.getConfig();
+    const folderFormat = folder?.folderTitleFormat ?? config.folderTitleFormat;
+
+    // If folder title formatting is disabled, return base name as-is
+    if (!folderFormat?.enabled) {
+      return baseName;
+    }
+
+    // Handle empty state
+    if (items.length === 0) {
+      return `${baseName} (empty)`;
+    }
+
+    const parts: string[] = [];
+
+    // Calculate review count (MRs where current user is a reviewer)
+    if (folderFormat.includeReviewCount) {
+      try {
+        const authState = await authManager.getAuthState(this.PROVIDER_ID);
+        if (authState?.user?.username) {
+          const currentUser = authState.user.username;
+
+          const reviewCount = items.filter((item) => {
+            const reviewers = item.metadata?.requestedReviewers as string[] | undefined;
+            return reviewers?.includes(currentUser);
+          }).length;
+
+          if (reviewCount > 0) {
+            parts.push(`${reviewCount} review`);
+          }
+        }
+      } catch (error) {
+        this.logger.error("Error calculating review count", error);
+      }
+    }
+
+    // Add total count
+    if (folderFormat.includeTotal) {
+      parts.push(`${items.length} total`);
+    }
+
+    // Format: "GitLab MRs (2 review • 9 total)" or just "GitLab MRs (9 total)"
+    if (parts.length > 0) {
+      return `${baseName} (${parts.join(" • ")})`;
+    }
+
+    return baseName;
+  }
+
+  /**
+   * Convert GitLab merge request to BookmarkItem
+   */
+  private mrToBookmarkItem(mr: GitLabMR, titleFormat: TitleFormatOptions): BookmarkItem {
+    // "group/subgroup/project!123" -> "group/subgroup/project"
+    const repository = mr.references?.full.replace(/!\d+$/, "") ?? String(mr.project_id);
+
+    return {
+      id: mr.id.toString(),
+      providerId: this.metadata.id,
+      title: this.formatGitLabTitle(mr, titleFormat),
+      url: mr.web_url,
+      createdAt: new Date(mr.created_at).getTime(),
+      updatedAt: new Date(mr.updated_at).getTime(),
+      lastModified: mr.updated_at,
+      metadata: {
+        type: "merge_request",
+        number: mr.iid,
+        state: mr.state,
+        draft: mr.draft ?? mr.work_in_progress ?? false,
+        author: mr.author.username,
+        authorAvatar: mr.author.avatar_url,
+        repository,
+        assignees: mr.assignees?.map((a) => a.username) || [],
+        requestedReviewers: mr.reviewers?.map((r) => r.username) || [], // For folder title
+        pipelineStatus: mr.head_pipeline?.status,
+        approved: mr.approvals?.approved,
+        approvalsLeft: mr.approvals?.approvals_left,
+      },
+    };
+  }
+}
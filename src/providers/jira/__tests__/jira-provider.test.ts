@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { JiraProvider } from "../jira-provider";
+
+describe("Jira Provider", () => {
+  let provider: JiraProvider;
+
+  // Mock issue data factory
+  const createMockIssue = (overrides = {}) => ({
+    id: "10001",
+    key: "PROJ-123",
+    self: "https://jira.example.com/rest/api/2/issue/10001",
+    fields: {
+      summary: "Fix critical login crash",
+      status: {
+        name: "In Progress",
+        statusCategory: {
+          key: "indeterminate",
+        },
+      },
+      priority: {
+        name: "High",
+        iconUrl: "https://jira.example.com/images/icons/priorities/high.svg",
+      },
+      issuetype: {
+        name: "Bug",
+        iconUrl: "https://jira.example.com/images/icons/issuetypes/bug.svg",
+      },
+      project: {
+        key: "PROJ",
+        name: "Project Name",
+      },
+      assignee: {
+        displayName: "Alice Smith",
+        avatarUrls: {
+          "48x48": "https://avatar.url",
+        },
+      },
+      reporter: {
+        displayName: "Bob Jones",
+      },
+      created: new Date().toISOString(),
+      updated: new Date().toISOString(),
+    },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    provider = new JiraProvider();
+    vi.clearAllMocks();
+  });
+
+  describe("Custom JQL", () => {
+    it("should prefer custom JQL over a saved filter ID", () => {
+      // @ts-expect-error - accessing private method for testing
+      const jql = provider.getCustomJql({
+        customJql: "  watcher = currentUser() ",
+        savedFilterId: "10042",
+      });
+
+      expect(jql).toBe("watcher = currentUser()");
+    });
+
+    it("should build JQL from a saved filter ID", () => {
+      // @ts-expect-error - accessing private method for testing
+      const jql = provider.getCustomJql({ savedFilterId: "10042" });
+
+      expect(jql).toBe("filter = 10042 ORDER BY updated DESC");
+    });
+
+    it("should fall back to the built-in filters when no query is set", () => {
+      // @ts-expect-error - accessing private method for testing
+      expect(provider.getCustomJql({ createdByMe: true, customJql: " " })).toBeNull();
+    });
+
+    it("should reject non-numeric saved filter IDs", async () => {
+      await expect(provider.validateJql({ savedFilterId: "my-filter" })).rejects.toThrow(
+        "Saved filter ID must be numeric",
+      );
+    });
+  });
+
+  describe("Pagination", () => {
+    const page = (count: number, extra: Record<string, unknown>) =>
+      new Response(
+        JSON.stringify({
+          issues: Array.from({ length: count }, (_, i) => createMockIssue({ key: `PROJ-${i}` })),
+          ...extra,
+        }),
+      );
+
+    it("should page with startAt on Server", async () => {
+      // @ts-expect-error - accessing private property for testing
+      provider.instanceType = "server";
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(page(100, { startAt: 0, total: 130 }))
+        .mockResolvedValueOnce(page(30, { startAt: 100, total: 130 }));
+
+      // @ts-expect-error - accessing private method for testing
+      const issues = await provider.searchIssues({}, "assignee = bob", 500);
+
+      expect(issues).toHaveLength(130);
+      expect(String(fetchMock.mock.calls[1][0])).toContain("startAt=100");
+      fetchMock.mockRestore();
+    });
+
+    it("should page with nextPageToken on Cloud and stop at the item cap", async () => {
+      // @ts-expect-error - accessing private property for testing
+      provider.instanceType = "cloud";
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(page(100, { nextPageToken: "abc", isLast: false }))
+        .mockResolvedValueOnce(page(50, { nextPageToken: "def", isLast: false }));
+
+      // @ts-expect-error - accessing private method for testing
+      const issues = await provider.searchIssues({}, "assignee = bob", 150);
+
+      expect(issues).toHaveLength(150);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(String(fetchMock.mock.calls[1][0])).toContain("nextPageToken=abc");
+      expect(String(fetchMock.mock.calls[1][0])).toContain("maxResults=50");
+      fetchMock.mockRestore();
+    });
+  });
+});
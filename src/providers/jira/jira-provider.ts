@@ -5,18 +5,29 @@
  */
 
 import { authManager } from "@/services/auth-manager";
+import { rateLimiter } from "@/services/rate-limiter";
 import { storageManager } from "@/services/storage";
 import type {
   AuthResult,
   BookmarkItem,
+  JiraFilters,
+  LiveFolder,
+  PermissionCheck,
   Provider,
   ProviderConfig,
+  ProviderFilters,
   ProviderMetadata,
   TitleFormatOptions,
 } from "@/types";
 import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
 import browser from "@/utils/browser";
 import { Logger } from "@/utils/logger";
+import {
+  getProviderErrorType,
+  ProviderError,
+  ProviderErrorType,
+  providerFetch,
+} from "../provider-error";
 
 /**
  * Jira authentication types
@@ -87,12 +98,45 @@ interface JiraIssue {
 
 /**
  * Jira search response
+ * Server returns `startAt`/`total`; Cloud /search/jql returns `nextPageToken`/`isLast`
  */
 interface JiraSearchResponse {
   issues: JiraIssue[];
-  total: number;
-  maxResults: number;
-  startAt: number;
+  total?: number;
+  maxResults?: number;
+  startAt?: number;
+  nextPageToken?: string;
+  isLast?: boolean;
+}
+
+/**
+ * Jira JQL parse response (Cloud)
+ */
+interface JiraJqlParseResponse {
+  queries: Array<{
+    query: string;
+    errors?: string[];
+  }>;
+}
+
+/**
+ * Jira project permission searches rely on
+ */
+const REQUIRED_PERMISSION = "BROWSE_PROJECTS";
+
+/**
+ * Jira my-permissions response
+ */
+interface JiraPermissionsResponse {
+  permissions?: Record<string, { havePermission: boolean }>;
+}
+
+/**
+ * Jira error response
+ */
+interface JiraErrorResponse {
+  errorMessages?: string[];
+  errors?: Record<string, string>;
 }
 
 /**
@@ -130,7 +174,8 @@ export class JiraProvider implements Provider {
     authUrl: "https://auth.atlassian.com/authorize",
     tokenUrl: "https://auth.atlassian.com/oauth/token",
     clientId: import.meta.env.VITE_JIRA_OAUTH_CLIENT_ID || "",
-    clientSecret: import.meta.env.VITE_JIRA_OAUTH_CLIENT_SECRET || "",
+    // Optional: the authorization code is bound to this extension with PKCE
+    clientSecret: import.meta.env.VITE_JIRA_OAUTH_CLIENT_SECRET || undefined,
     redirectUri: browser.identity.getRedirectURL("jira"),
     scopes: ["read:jira-user", "read:jira-work", "offline_access"],
     additionalParams: {
@@ -149,6 +194,9 @@ export class JiraProvider implements Provider {
   public async initialize(): Promise<void> {
     this.logger.info("Initializing Jira provider");
 
+    // Jira Cloud rate limits are cost based; stay well below the usual budget
+    rateLimiter.configure(this.PROVIDER_ID, { maxRequests: 100, windowMs: 60000 });
+
     // Ensure provider storage exists with default config
     const existingData = await storageManager.getProvider(this.PROVIDER_ID);
     if (!existingData) {
@@ -242,10 +290,17 @@ export class JiraProvider implements Provider {
 
     // Fetch user information
     const user = await this.fetchUserInfo(authState.tokens.accessToken);
+    const permissions = await this.checkPermissions(
+      authState.tokens.accessToken,
+      "oauth",
+      authState.tokens.scopes,
+    );
 
     // Update auth state with user info
     const updatedAuthState = {
       ...authState,
+      tokens: { ...authState.tokens, scopes: permissions?.scopes ?? authState.tokens.scopes },
+      missingPermissions: permissions?.missing,
       user: {
         id: user.accountId,
         username: user.emailAddress,
@@ -302,6 +357,7 @@ export class JiraProvider implements Provider {
       this.logger.error("Failed to fetch user info", { error, baseUrl: this.baseUrl });
       throw error;
     }
+    const permissions = await this.checkPermissions(token, "basic");
 
     // Store auth state manually (no OAuth tokens)
     const authState = {
@@ -311,7 +367,9 @@ export class JiraProvider implements Provider {
         accessToken: token,
         tokenType: "Basic",
         expiresAt: Number.MAX_SAFE_INTEGER, // API tokens don't expire
+        scopes: permissions?.scopes,
       },
+      missingPermissions: permissions?.missing,
       user: {
         id: user.accountId,
         username: config.username,
@@ -349,6 +407,7 @@ export class JiraProvider implements Provider {
     // Verify credentials by fetching user info
     const token = btoa(`${config.username}:${config.password}`);
     const user = await this.fetchUserInfo(token, "basic");
+    const permissions = await this.checkPermissions(token, "basic");
 
     // Store auth state manually (no OAuth tokens)
     const authState = {
@@ -358,7 +417,9 @@ export class JiraProvider implements Provider {
         accessToken: token,
         tokenType: "Basic",
         expiresAt: Number.MAX_SAFE_INTEGER, // Basic auth doesn't expire
+        scopes: permissions?.scopes,
       },
+      missingPermissions: permissions?.missing,
       user: {
         id: user.key || user.accountId,
         username: config.username,
@@ -438,22 +499,30 @@ export class JiraProvider implements Provider {
   /**
    * Fetch issues from Jira
    */
-  public async fetchItems(): Promise<BookmarkItem[]> {
+  public async fetchItems(folder?: LiveFolder): Promise<BookmarkItem[]> {
     this.logger.info("Fetching Jira issues");
 
     const token = await this.getToken();
     if (!token) {
-      throw new Error("Not authenticated");
+      throw new ProviderError(ProviderErrorType.AUTH_EXPIRED, "Not authenticated", {
+        providerId: this.PROVIDER_ID,
+      });
     }
 
     try {
+      const config = await this.getConfig();
+      const settings = await storageManager.getSettings();
+
       // Fetch assigned issues
-      const assignedIssues = await this.fetchAssignedIssues(token);
+      const assignedIssues = await this.fetchAssignedIssues(
+        token,
+        settings.maxItemsPerProvider,
+        folder?.filters ?? config.filters,
+      );
 
       // Convert to BookmarkItems
-      const items = await Promise.all(
-        assignedIssues.map((issue) => this.convertToBookmarkItem(issue)),
-      );
+      const titleFormat = folder?.titleFormat ?? config.titleFormat ?? DEFAULT_TITLE_FORMAT;
+      const items = assignedIssues.map((issue) => this.convertToBookmarkItem(issue, titleFormat));
 
       this.logger.info("Fetched Jira issues", { count: items.length });
 
@@ -566,7 +635,7 @@ export class JiraProvider implements Provider {
     });
 
     try {
-      const response = await fetch(endpoint, { headers });
+      const response = await providerFetch(this.PROVIDER_ID, endpoint, { headers });
 
       if (!response.ok) {
         const errorText = await response.text();
@@ -576,7 +645,11 @@ export class JiraProvider implements Provider {
           endpoint,
           errorBody: errorText,
         });
-        throw new Error(`Failed to fetch user info: ${response.status} ${response.statusText}`);
+        throw new ProviderError(
+          getProviderErrorType(response.status),
+          `Failed to fetch user info: ${response.status} ${response.statusText}`,
+          { providerId: this.PROVIDER_ID, status: response.status },
+        );
       }
 
       return (await response.json()) as JiraUser;
@@ -591,28 +664,80 @@ export class JiraProvider implements Provider {
     }
   }
 
+  /**
+   * Check what the credentials may access
+   * OAuth tokens are checked against the requested scopes; every auth type is checked
+   * for the Browse Projects permission, without which searches come back empty.
+   * Returns null if the check itself failed; that shouldn't block signing in.
+   */
+  private async checkPermissions(
+    token: string,
+    authType: "oauth" | "basic",
+    grantedScopes?: string[],
+  ): Promise<PermissionCheck | null> {
+    const scopes = [...(grantedScopes ?? [])];
+    const missing = grantedScopes
+      ? this.OAUTH_CONFIG.scopes
+          .filter((scope) => !grantedScopes.includes(scope))
+          .map((scope) => `${scope} scope`)
+      : [];
+
+    const apiVersion = this.instanceType === "cloud" ? "3" : "2";
+    const endpoint = `${this.baseUrl}/rest/api/${apiVersion}/mypermissions?permissions=${REQUIRED_PERMISSION}`;
+
+    try {
+      const response = await providerFetch(this.PROVIDER_ID, endpoint, {
+        headers: {
+          Accept: "application/json",
+          Authorization: authType === "oauth" ? `Bearer ${token}` : `Basic ${token}`,
+        },
+      });
+
+      if (!response.ok) {
+        throw await this.toProviderError(response);
+      }
+
+      const body = (await response.json()) as JiraPermissionsResponse;
+      if (body.permissions?.[REQUIRED_PERMISSION]?.havePermission) {
+        scopes.push(REQUIRED_PERMISSION);
+      } else {
+        missing.push("Browse Projects permission");
+      }
+
+      return { scopes, missing };
+    } catch (error) {
+      this.logger.warn("Could not check Jira permissions", {
+        endpoint,
+        errorMessage: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
   /**
    * Fetch assigned issues from Jira
    */
-  private async fetchAssignedIssues(token: string): Promise<JiraIssue[]> {
+  private async fetchAssignedIssues(
+    token: string,
+    maxItems: number,
+    providerFilters?: ProviderFilters,
+  ): Promise<JiraIssue[]> {
     const authType = this.authType === "oauth" ? "oauth" : "basic";
-    const headers: Record<string, string> = {
-      Accept: "application/json",
-    };
+    const headers = this.getHeaders(token);
 
-    if (authType === "oauth") {
-      headers.Authorization = `Bearer ${token}`;
-    } else {
-      headers.Authorization = `Basic ${token}`;
+    // Get filter configuration (default both to true)
+    const filters = providerFilters as JiraFilters | undefined;
+
+    // A custom JQL query or saved filter replaces the built-in conditions
+    const customJql = this.getCustomJql(filters);
+    if (customJql) {
+      return this.searchIssues(headers, customJql, maxItems);
     }
 
     // Get current user to build JQL query
     const user = await this.fetchUserInfo(token, authType);
     const userIdentifier = this.instanceType === "cloud" ? user.accountId : user.name || user.key;
 
-    // Get filter configuration (default both to true)
-    const config = await this.getConfig();
-    const filters = config.filters as { createdByMe?: boolean; assignedToMe?: boolean } | undefined;
     const includeCreatedByMe = filters?.createdByMe ?? true;
     const includeAssignedToMe = filters?.assignedToMe ?? true;
 
@@ -644,13 +769,71 @@ export class JiraProvider implements Provider {
     // Combine conditions with OR and add status filter
     const jql = `(${conditions.join(" OR ")}) AND statusCategory != Done ORDER BY updated DESC`;
 
-    const searchParams = new URLSearchParams({
+    return this.searchIssues(headers, jql, maxItems, { includeCreatedByMe, includeAssignedToMe });
+  }
+
+  /**
+   * Run a JQL search, paging until `maxItems` issues are collected
+   * Server pages with `startAt`; the Cloud /search/jql endpoint pages with `nextPageToken`
+   */
+  private async searchIssues(
+    headers: Record<string, string>,
+    jql: string,
+    maxItems: number,
+    filters?: Record<string, boolean>,
+  ): Promise<JiraIssue[]> {
+    this.logger.info("Fetching issues from Jira", {
+      instanceType: this.instanceType,
       jql,
-      maxResults: "100",
-      fields:
-        "summary,status,priority,issuetype,project,assignee,reporter,created,updated,description",
+      filters,
     });
 
+    const issues: JiraIssue[] = [];
+    let startAt = 0;
+    let nextPageToken: string | undefined;
+
+    while (issues.length < maxItems) {
+      const searchParams = new URLSearchParams({
+        jql,
+        maxResults: String(Math.min(maxItems - issues.length, 100)),
+        fields:
+          "summary,status,priority,issuetype,project,assignee,reporter,created,updated,description",
+      });
+
+      if (this.instanceType === "cloud") {
+        if (nextPageToken) {
+          searchParams.set("nextPageToken", nextPageToken);
+        }
+      } else {
+        searchParams.set("startAt", String(startAt));
+      }
+
+      const data = await this.fetchSearchPage(headers, searchParams);
+      issues.push(...data.issues);
+
+      if (this.instanceType === "cloud") {
+        nextPageToken = data.nextPageToken;
+        if (data.isLast || !nextPageToken) {
+          break;
+        }
+      } else {
+        startAt += data.issues.length;
+        if (data.issues.length === 0 || startAt >= (data.total ?? 0)) {
+          break;
+        }
+      }
+    }
+
+    return issues.slice(0, maxItems);
+  }
+
+  /**
+   * Fetch one page of JQL search results
+   */
+  private async fetchSearchPage(
+    headers: Record<string, string>,
+    searchParams: URLSearchParams,
+  ): Promise<JiraSearchResponse> {
     // Different API versions for Cloud vs Server
     // Cloud uses the new /search/jql endpoint (deprecated /search in 2024)
     const endpoint =
@@ -658,14 +841,7 @@ export class JiraProvider implements Provider {
         ? `${this.baseUrl}/rest/api/3/search/jql?${searchParams}`
         : `${this.baseUrl}/rest/api/2/search?${searchParams}`;
 
-    this.logger.info("Fetching issues from Jira", {
-      endpoint,
-      instanceType: this.instanceType,
-      jql,
-      filters: { includeCreatedByMe, includeAssignedToMe },
-    });
-
-    const response = await fetch(endpoint, { headers });
+    const response = await providerFetch(this.PROVIDER_ID, endpoint, { headers });
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -675,11 +851,141 @@ export class JiraProvider implements Provider {
         endpoint,
         errorBody: errorText,
       });
-      throw new Error(`Failed to fetch issues: ${response.status} ${response.statusText}`);
+      throw new ProviderError(
+        getProviderErrorType(response.status),
+        `Failed to fetch issues: ${response.status} ${response.statusText}`,
+        { providerId: this.PROVIDER_ID, status: response.status },
+      );
+    }
+
+    return (await response.json()) as JiraSearchResponse;
+  }
+
+  /**
+   * Get the user-provided JQL for a folder, if any
+   * Custom JQL takes precedence over a saved filter ID
+   */
+  private getCustomJql(filters?: JiraFilters): string | null {
+    const customJql = filters?.customJql?.trim();
+    if (customJql) {
+      return customJql;
+    }
+
+    const savedFilterId = filters?.savedFilterId?.trim();
+    if (savedFilterId) {
+      return `filter = ${savedFilterId} ORDER BY updated DESC`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Validate a custom JQL query or saved filter ID before it is saved
+   * Cloud uses the JQL parse endpoint; Server/Data Center has no parse
+   * endpoint, so an empty strict search is run instead.
+   * @throws Error with Jira's parse errors when the query is invalid
+   */
+  public async validateJql(
+    filters: Pick<JiraFilters, "customJql" | "savedFilterId">,
+  ): Promise<void> {
+    const savedFilterId = filters.savedFilterId?.trim();
+    if (!filters.customJql?.trim() && savedFilterId && !/^\d+$/.test(savedFilterId)) {
+      throw new Error("Saved filter ID must be numeric");
+    }
+
+    const jql = this.getCustomJql(filters);
+    if (!jql) {
+      return;
+    }
+
+    const token = await this.getToken();
+    if (!token) {
+      throw new Error("Not authenticated");
+    }
+
+    const headers = this.getHeaders(token);
+
+    if (this.instanceType === "cloud") {
+      const response = await providerFetch(
+        this.PROVIDER_ID,
+        `${this.baseUrl}/rest/api/3/jql/parse?validation=strict`,
+        {
+          method: "POST",
+          headers: { ...headers, "Content-Type": "application/json" },
+          body: JSON.stringify({ queries: [jql] }),
+        },
+      );
+
+      if (!response.ok) {
+        throw await this.toProviderError(response);
+      }
+
+      const data = (await response.json()) as JiraJqlParseResponse;
+      const errors = data.queries[0]?.errors ?? [];
+      if (errors.length > 0) {
+        throw new Error(`Invalid JQL: ${errors.join(" ")}`);
+      }
+      return;
+    }
+
+    const searchParams = new URLSearchParams({
+      jql,
+      maxResults: "0",
+      validateQuery: "strict",
+    });
+    const response = await providerFetch(
+      this.PROVIDER_ID,
+      `${this.baseUrl}/rest/api/2/search?${searchParams}`,
+      {
+        headers,
+      },
+    );
+
+    if (!response.ok) {
+      throw await this.toProviderError(response);
+    }
+  }
+
+  /**
+   * Turn a failed Jira response into a typed provider error
+   */
+  private async toProviderError(response: Response): Promise<ProviderError> {
+    return new ProviderError(
+      getProviderErrorType(response.status),
+      await this.getErrorMessage(response),
+      { providerId: this.PROVIDER_ID, status: response.status },
+    );
+  }
+
+  /**
+   * Extract a readable message from a Jira error response
+   */
+  private async getErrorMessage(response: Response): Promise<string> {
+    const fallback = `${response.status} ${response.statusText}`;
+
+    try {
+      const body = (await response.json()) as JiraErrorResponse;
+      const messages = [...(body.errorMessages ?? []), ...Object.values(body.errors ?? {})];
+      if (messages.length === 0) {
+        return fallback;
+      }
+      // Jira answers malformed queries and unknown filters with 400
+      return response.status === 400
+        ? `Invalid JQL: ${messages.join(" ")}`
+        : `${fallback}: ${messages.join(" ")}`;
+    } catch {
+      return fallback;
     }
+  }
 
-    const data = (await response.json()) as JiraSearchResponse;
-    return data.issues;
+  /**
+   * Build request headers for the configured auth type
+   */
+  private getHeaders(token: string): Record<string, string> {
+    return {
+      Accept: "application/json",
+      Authorization: this.authType === "oauth" ? `Bearer ${token}` : `Basic ${token}`,
+    };
   }
 
   /**
@@ -799,9 +1105,13 @@ export class JiraProvider implements Provider {
   /**
    * Format folder title with dynamic statistics
    */
-  public async formatFolderTitle(baseName: string, items: BookmarkItem[]): Promise<string> {
+  public async formatFolderTitle(
+    baseName: string,
+    items: BookmarkItem[],
+    folder?: LiveFolder,
+  ): Promise<string> {
     const config = await this.getConfig();
-    const folderFormat = config.folderTitleFormat;
+    const folderFormat = folder?.folderTitleFormat ?? config.folderTitleFormat;
 
     // If folder title formatting is disabled, return base name as-is
     if (!folderFormat?.enabled) {
@@ -831,11 +1141,7 @@ export class JiraProvider implements Provider {
   /**
    * Convert Jira issue to BookmarkItem
    */
-  private async convertToBookmarkItem(issue: JiraIssue): Promise<BookmarkItem> {
-    // Get title format config
-    const config = await this.getConfig();
-    const titleFormat = config.titleFormat || DEFAULT_TITLE_FORMAT;
-
+  private convertToBookmarkItem(issue: JiraIssue, titleFormat: TitleFormatOptions): BookmarkItem {
     // Build issue URL
     const issueUrl = `${this.baseUrl}/browse/${issue.key}`;
 
@@ -0,0 +1,149 @@
+/**
+ * Provider Errors
+ * Typed errors for provider API calls, so callers can decide whether and when to retry
+ */
+
+import { rateLimiter } from "@/services/rate-limiter";
+import { withRetry } from "@/services/retry-service";
+
+/**
+ * Provider error categories
+ */
+export enum ProviderErrorType {
+  /** Token missing, expired or revoked (401) */
+  AUTH_EXPIRED = "auth_expired",
+  /** Provider rate limit hit (429, or GitHub's 403 with an exhausted quota) */
+  RATE_LIMITED = "rate_limited",
+  /** Temporary server failure (5xx) */
+  SERVER = "server",
+  /** Request never reached the server */
+  NETWORK = "network",
+  /** Invalid request or settings (other 4xx, e.g. a malformed query) */
+  CONFIG = "config",
+}
+
+/**
+ * Error types worth retrying later; auth and config errors need the user
+ */
+const RETRYABLE_ERROR_TYPES = new Set([
+  ProviderErrorType.RATE_LIMITED,
+  ProviderErrorType.SERVER,
+  ProviderErrorType.NETWORK,
+]);
+
+/**
+ * Error thrown by providers for failed API calls
+ */
+export class ProviderError extends Error {
+  public readonly type: ProviderErrorType;
+  public readonly providerId: string;
+  /** HTTP status, when the server answered */
+  public readonly status?: number;
+  /** Time (ms) the server asked us to wait before retrying */
+  public readonly retryAfter?: number;
+
+  constructor(
+    type: ProviderErrorType,
+    message: string,
+    details: { providerId: string; status?: number; retryAfter?: number },
+  ) {
+    super(message);
+    this.name = "ProviderError";
+    this.type = type;
+    this.providerId = details.providerId;
+    this.status = details.status;
+    this.retryAfter = details.retryAfter;
+  }
+
+  /**
+   * Whether a later attempt may succeed without user action
+   */
+  public get retryable(): boolean {
+    return RETRYABLE_ERROR_TYPES.has(this.type);
+  }
+}
+
+/**
+ * Map an HTTP error status to a provider error type
+ */
+export function getProviderErrorType(status: number): ProviderErrorType {
+  if (status === 401) {
+    return ProviderErrorType.AUTH_EXPIRED;
+  }
+  if (status === 429) {
+    return ProviderErrorType.RATE_LIMITED;
+  }
+  if (status >= 500) {
+    return ProviderErrorType.SERVER;
+  }
+  return ProviderErrorType.CONFIG;
+}
+
+/**
+ * Request a provider API through the rate limiter, retrying transient failures
+ * Network failures and 5xx responses are retried with backoff. Rate limits are
+ * thrown as RATE_LIMITED (short waits are already sat out by the rate limiter);
+ * other non-ok responses are returned for the provider to report.
+ */
+export async function providerFetch(
+  providerId: string,
+  input: string | URL,
+  init?: RequestInit,
+): Promise<Response> {
+  return withRetry(
+    async () => {
+      let response: Response;
+      try {
+        response = await rateLimiter.fetch(providerId, input, init);
+      } catch (error) {
+        throw toRequestError(providerId, error);
+      }
+
+      const limited = rateLimiter.getStatus(providerId);
+      if (response.status === 429 || (response.status === 403 && limited.isLimited)) {
+        throw new ProviderError(
+          ProviderErrorType.RATE_LIMITED,
+          `${providerId} rate limit exceeded`,
+          { providerId, status: response.status, retryAfter: limited.resetIn },
+        );
+      }
+
+      if (response.status >= 500) {
+        throw new ProviderError(
+          ProviderErrorType.SERVER,
+          `${providerId} server error: ${response.status} ${response.statusText}`.trim(),
+          { providerId, status: response.status },
+        );
+      }
+
+      return response;
+    },
+    {
+      maxRetries: 2,
+      isRetryable: (error) =>
+        error instanceof ProviderError &&
+        (error.type === ProviderErrorType.NETWORK || error.type === ProviderErrorType.SERVER),
+    },
+  );
+}
+
+/**
+ * Classify an error thrown before a response was received
+ */
+function toRequestError(providerId: string, error: unknown): ProviderError {
+  const message = error instanceof Error ? error.message : String(error);
+
+  // The rate limiter refuses requests while a long server-imposed wait is running;
+  // fetch itself rejects with a TypeError when the request never reached the server
+  const status = rateLimiter.getStatus(providerId);
+  if (!(error instanceof TypeError) && status.isLimited) {
+    return new ProviderError(ProviderErrorType.RATE_LIMITED, message, {
+      providerId,
+      retryAfter: status.resetIn,
+    });
+  }
+
+  return new ProviderError(ProviderErrorType.NETWORK, `Network error: ${message}`, {
+    providerId,
+  });
+}
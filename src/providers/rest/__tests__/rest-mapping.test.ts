@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { storageManager } from "@/services/storage";
+import { DEFAULT_TITLE_FORMAT, type RestFilters } from "@/types";
+import { getPath, queryPath } from "../json-path";
+import { RestProvider, type RestProviderConfig } from "../rest-provider";
+
+describe("JSON Path", () => {
+  const data = {
+    data: {
+      items: [
+        { id: 1, fields: { summary: "First", "story points": 3 }, labels: [{ name: "bug" }] },
+        { id: 2, fields: { summary: "Second" }, labels: [{ name: "ui" }, { name: "p1" }] },
+      ],
+    },
+  };
+
+  it("should resolve dotted paths with or without the root marker", () => {
+    expect(getPath(data, "$.data.items[0].id")).toBe(1);
+    expect(getPath(data, "data.items[1].fields.summary")).toBe("Second");
+  });
+
+  it("should return the root for an empty path", () => {
+    expect(getPath(data, "$")).toBe(data);
+  });
+
+  it("should support quoted keys and negative indexes", () => {
+    expect(getPath(data, "data.items[0].fields['story points']")).toBe(3);
+    expect(getPath(data, "data.items[-1].id")).toBe(2);
+  });
+
+  it("should expand wildcards", () => {
+    expect(queryPath(data, "data.items[*].labels[*].name")).toEqual(["bug", "ui", "p1"]);
+    expect(queryPath(data.data.items[0].fields, "*")).toEqual(["First", 3]);
+  });
+
+  it("should return undefined for missing paths", () => {
+    expect(getPath(data, "data.missing.value")).toBeUndefined();
+    expect(getPath(data, "data.items[5].id")).toBeUndefined();
+  });
+
+  it("should reject malformed brackets", () => {
+    expect(() => getPath(data, "data.items[0")).toThrow("Unclosed bracket");
+    expect(() => getPath(data, "data.items[abc]")).toThrow("Invalid bracket expression");
+  });
+});
+
+describe("Custom REST Mapping", () => {
+  let provider: RestProvider;
+
+  const baseSource: RestFilters = {
+    endpoint: "https://tools.example.com/api/tickets",
+    itemsPath: "$.results",
+    fieldMappings: {
+      id: "key",
+      title: "summary",
+      url: "links.self",
+      updatedAt: "modified",
+      state: "status.name",
+      labels: "tags[*].name",
+    },
+  };
+
+  beforeEach(() => {
+    provider = new RestProvider();
+    vi.clearAllMocks();
+  });
+
+  it("should map items using field paths", () => {
+    const response = {
+      results: [
+        {
+          key: "T-1",
+          summary: "Fix login",
+          links: { self: "/tickets/T-1" },
+          modified: "2025-10-01T00:00:00Z",
+          status: { name: "open" },
+          tags: [{ name: "auth" }, { name: "urgent" }],
+        },
+      ],
+    };
+
+    // @ts-expect-error - accessing private method for testing
+    const items = provider.mapResponse(response, baseSource, DEFAULT_TITLE_FORMAT);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      id: "T-1",
+      providerId: "rest",
+      url: "https://tools.example.com/tickets/T-1",
+      updatedAt: Date.parse("2025-10-01T00:00:00Z"),
+      metadata: { state: "open", labels: ["auth", "urgent"] },
+    });
+  });
+
+  it("should accept epoch seconds for updatedAt", () => {
+    const response = {
+      results: [
+        { key: 7, summary: "Numeric", links: { self: "https://x.test/7" }, modified: 1700000000 },
+      ],
+    };
+
+    // @ts-expect-error - accessing private method for testing
+    const [item] = provider.mapResponse(response, baseSource, DEFAULT_TITLE_FORMAT);
+
+    expect(item.id).toBe("7");
+    expect(item.updatedAt).toBe(1700000000 * 1000);
+  });
+
+  it("should skip items missing required fields", () => {
+    const response = {
+      results: [
+        { key: "T-1", summary: "No link" },
+        { key: "T-2", summary: "Has link", links: { self: "https://x.test/2" } },
+      ],
+    };
+
+    // @ts-expect-error - accessing private method for testing
+    const items = provider.mapResponse(response, baseSource, DEFAULT_TITLE_FORMAT);
+
+    expect(items.map((item: { id: string }) => item.id)).toEqual(["T-2"]);
+  });
+
+  it("should throw when items path is not an array", () => {
+    // @ts-expect-error - accessing private method for testing
+    expect(() => provider.mapResponse({ results: {} }, baseSource, DEFAULT_TITLE_FORMAT)).toThrow(
+      'Items path "$.results" did not resolve to an array',
+    );
+  });
+
+  it("should show state in title when status is enabled", () => {
+    // @ts-expect-error - accessing private method for testing
+    const title = provider.formatRestTitle("Fix login", "open", undefined, {
+      includeStatus: true,
+      includeEmojis: true,
+      includeAssignee: false,
+      includePriority: false,
+      includeAge: false,
+      includeReviewStatus: false,
+      includeCreator: false,
+      format: "compact",
+    });
+
+    expect(title).toBe("[OPEN] Fix login");
+  });
+  it("should request the live folder's endpoint with the provider's auth header", async () => {
+    await storageManager.saveProvider("rest", {
+      config: {
+        enabled: true,
+        authHeaderName: "X-API-Key",
+        authHeaderValue: "secret",
+      } as RestProviderConfig,
+    });
+    const fetchMock = vi.spyOn(globalThis, "fetch").mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          results: [{ key: "T-1", summary: "Fix login", links: { self: "/tickets/T-1" } }],
+        }),
+      ),
+    );
+
+    const items = await provider.fetchItems({
+      id: "lf-1",
+      providerId: "rest",
+      name: "Tickets",
+      enabled: true,
+      filters: baseSource,
+      createdAt: Date.now(),
+    });
+
+    expect(items.map((item) => item.id)).toEqual(["T-1"]);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toBe("https://tools.example.com/api/tickets");
+    expect((init?.headers as Record<string, string>)["X-API-Key"]).toBe("secret");
+    fetchMock.mockRestore();
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * JSON Path
+ * Small JSONPath-like evaluator for mapping REST responses
+ *
+ * Supported syntax:
+ * - `$` for the root (optional): `$.data.items`, `data.items`
+ * - dot and bracket member access: `fields.summary`, `fields['story points']`
+ * - array indexes, including negative ones: `items[0]`, `items[-1]`
+ * - wildcard over arrays or object values: `labels[*].name`, `labels.*`
+ */
+
+type PathSegment =
+  | { type: "key"; key: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" };
+
+/**
+ * Split a path expression into segments
+ *
+ * @throws Error if the expression is malformed
+ */
+export function parsePath(expression: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let path = expression.trim();
+
+  if (path.startsWith("$")) {
+    path = path.slice(1);
+  }
+
+  let i = 0;
+  while (i < path.length) {
+    const char = path[i];
+
+    if (char === ".") {
+      i++;
+      continue;
+    }
+
+    if (char === "[") {
+      const end = path.indexOf("]", i);
+      if (end === -1) {
+        throw new Error(`Unclosed bracket in path "${expression}"`);
+      }
+      const inner = path.slice(i + 1, end).trim();
+      i = end + 1;
+
+      if (inner === "*") {
+        segments.push({ type: "wildcard" });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ type: "index", index: Number.parseInt(inner, 10) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ type: "key", key: inner.slice(1, -1) });
+      } else {
+        throw new Error(`Invalid bracket expression "[${inner}]" in path "${expression}"`);
+      }
+      continue;
+    }
+
+    // Bare member name up to the next separator
+    let end = i;
+    while (end < path.length && path[end] !== "." && path[end] !== "[") {
+      end++;
+    }
+    const key = path.slice(i, end);
+    segments.push(key === "*" ? { type: "wildcard" } : { type: "key", key });
+    i = end;
+  }
+
+  return segments;
+}
+
+/**
+ * Evaluate a path and return every matching value
+ */
+export function queryPath(data: unknown, expression: string): unknown[] {
+  let current: unknown[] = [data];
+
+  for (const segment of parsePath(expression)) {
+    const next: unknown[] = [];
+
+    for (const value of current) {
+      if (value === null || typeof value !== "object") {
+        continue;
+      }
+
+      if (segment.type === "wildcard") {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if (segment.type === "index") {
+        if (Array.isArray(value)) {
+          const index = segment.index < 0 ? value.length + segment.index : segment.index;
+          if (index >= 0 && index < value.length) {
+            next.push(value[index]);
+          }
+        }
+      } else if (segment.key in value) {
+        next.push((value as Record<string, unknown>)[segment.key]);
+      }
+    }
+
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate a path and return the first matching value
+ */
+export function getPath(data: unknown, expression: string): unknown {
+  return queryPath(data, expression)[0];
+}
@@ -0,0 +1,401 @@
+/**
+ * Custom REST Provider
+ * Declarative provider that maps any JSON endpoint to bookmarks using path expressions
+ * Lets users add internal tools as live folders without writing a provider class.
+ * Each live folder has its own endpoint and mappings; the auth header is shared.
+ */
+
+import { rateLimiter } from "@/services/rate-limiter";
+import { storageManager } from "@/services/storage";
+import type {
+  AuthResult,
+  BookmarkItem,
+  LiveFolder,
+  Provider,
+  ProviderConfig,
+  ProviderMetadata,
+  RestFieldMappings,
+  RestFilters,
+  TitleFormatOptions,
+} from "@/types";
+import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
+import { Logger } from "@/utils/logger";
+import { getPath, queryPath } from "./json-path";
+
+/**
+ * Custom REST provider configuration
+ */
+export interface RestProviderConfig extends ProviderConfig {
+  /** Auth header name (e.g. "Authorization", "X-API-Key") */
+  authHeaderName?: string;
+  /** Auth header value (e.g. "Bearer abc123") */
+  authHeaderValue?: string;
+}
+
+/**
+ * Default mappings matching common REST conventions
+ */
+export const DEFAULT_REST_FIELD_MAPPINGS: RestFieldMappings = {
+  id: "id",
+  title: "title",
+  url: "url",
+  updatedAt: "updated_at",
+  state: "state",
+  labels: "labels",
+};
+
+/**
+ * Custom REST Provider Implementation
+ */
+export class RestProvider implements Provider {
+  public readonly metadata: ProviderMetadata = {
+    id: "rest",
+    name: "Custom REST",
+    description: "Sync items from any JSON API using field mappings",
+    icon: "rest",
+    version: "1.0.0",
+  };
+
+  private logger: Logger;
+  private readonly PROVIDER_ID = "rest";
+
+  constructor() {
+    this.logger = new Logger("RestProvider");
+  }
+
+  /**
+   * Initialize the provider
+   */
+  public async initialize(): Promise<void> {
+    this.logger.info("Initializing custom REST provider");
+
+    // Ensure provider storage exists with default config
+    const existingData = await storageManager.getProvider(this.PROVIDER_ID);
+
+    if (!existingData) {
+      await storageManager.saveProvider(this.PROVIDER_ID, {
+        config: {
+          enabled: false,
+        },
+      });
+    }
+
+    this.logger.info("Custom REST provider initialized");
+  }
+
+  /**
+   * The auth header is optional; each live folder's endpoint is checked when it is saved
+   */
+  public async authenticate(): Promise<AuthResult> {
+    return { success: true };
+  }
+
+  /**
+   * Public endpoints need no auth header, so there is nothing to connect
+   */
+  public async isAuthenticated(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * The auth header is sent as configured, there is no separate token
+   */
+  public async getToken(): Promise<string | null> {
+    const config = (await this.getConfig()) as RestProviderConfig;
+    return config.authHeaderValue || null;
+  }
+
+  /**
+   * Static auth headers cannot be refreshed
+   */
+  public async refreshToken(): Promise<void> {
+    // Nothing to refresh
+  }
+
+  /**
+   * Forget the auth header
+   */
+  public async revokeAuth(): Promise<void> {
+    await this.setConfig({
+      authHeaderValue: undefined,
+      enabled: false,
+    } as Partial<RestProviderConfig>);
+  }
+
+  /**
+   * Fetch and map items from the live folder's endpoint
+   */
+  public async fetchItems(folder?: LiveFolder): Promise<BookmarkItem[]> {
+    this.logger.info("Fetching custom REST items");
+
+    try {
+      const config = await this.getConfig();
+      const items = await this.testRequest(
+        (folder?.filters as RestFilters | undefined) ?? {},
+        folder?.titleFormat ?? config.titleFormat,
+      );
+
+      this.logger.info("Fetched custom REST items", { count: items.length });
+      return items;
+    } catch (error) {
+      this.logger.error("Failed to fetch custom REST items", { error }, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run a request for the given (possibly unsaved) endpoint and mappings and map the results
+   * Used by the settings UI to preview a live folder's mappings before saving them
+   */
+  public async testRequest(
+    source: RestFilters,
+    titleFormat: TitleFormatOptions = DEFAULT_TITLE_FORMAT,
+  ): Promise<BookmarkItem[]> {
+    if (!source.endpoint) {
+      throw new Error("An endpoint URL is required. Add one in the live folder settings.");
+    }
+
+    const config = (await this.getConfig()) as RestProviderConfig;
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (config.authHeaderName && config.authHeaderValue) {
+      headers[config.authHeaderName] = config.authHeaderValue;
+    }
+
+    const response = await rateLimiter.fetch(this.PROVIDER_ID, source.endpoint, { headers });
+
+    if (!response.ok) {
+      if (response.status === 401 || response.status === 403) {
+        throw new Error("Request was rejected. Please check the auth header and try again.");
+      }
+      const errorText = response.statusText || `HTTP ${response.status}`;
+      throw new Error(`Request failed: ${errorText}`);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error("Response is not valid JSON");
+    }
+
+    return this.mapResponse(data, source, titleFormat);
+  }
+
+  /**
+   * Get provider configuration
+   */
+  public async getConfig(): Promise<ProviderConfig> {
+    const providers = await storageManager.getProviders();
+    const providerData = providers[this.PROVIDER_ID];
+
+    const config = providerData?.config || { enabled: false };
+
+    // Ensure folderTitleFormat has defaults if not set
+    if (!config.folderTitleFormat) {
+      config.folderTitleFormat = DEFAULT_FOLDER_TITLE_FORMAT;
+    }
+
+    // Ensure titleFormat has defaults if not set
+    if (!config.titleFormat) {
+      config.titleFormat = DEFAULT_TITLE_FORMAT;
+    }
+
+    return config;
+  }
+
+  /**
+   * Update provider configuration
+   */
+  public async setConfig(config: Partial<ProviderConfig>): Promise<void> {
+    const providers = await storageManager.getProviders();
+    const existingData = providers[this.PROVIDER_ID];
+
+    const currentConfig = await this.getConfig();
+    const updatedConfig = { ...currentConfig, ...config };
+
+    // Preserve ALL existing provider data, only update config
+    await storageManager.saveProvider(this.PROVIDER_ID, {
+      ...existingData,
+      config: updatedConfig,
+    });
+  }
+
+  /**
+   * Dispose the provider and clean up resources
+   */
+  public async dispose(): Promise<void> {
+    this.logger.info("Disposing custom REST provider");
+    // No specific cleanup needed for custom REST provider
+  }
+
+  /**
+   * Format folder title with dynamic statistics
+   */
+  public async formatFolderTitle(
+    baseName: string,
+    items: BookmarkItem[],
+    folder?: LiveFolder,
+  ): Promise<string> {
+    const config = await this.getConfig();
+    const folderFormat = folder?.folderTitleFormat ?? config.folderTitleFormat;
+
+    // If folder title formatting is disabled, return base name as-is
+    if (!folderFormat?.enabled) {
+      return baseName;
+    }
+
+    // Handle empty state
+    if (items.length === 0) {
+      return `${baseName} (empty)`;
+    }
+
+    // Generic items have no review concept, so only the total applies
+    if (folderFormat.includeTotal) {
+      return `${baseName} (${items.length} total)`;
+    }
+
+    return baseName;
+  }
+
+  /**
+   * Map a JSON response to bookmark items
+   */
+  private mapResponse(
+    data: unknown,
+    source: RestFilters,
+    titleFormat: TitleFormatOptions,
+  ): BookmarkItem[] {
+    const itemsPath = source.itemsPath?.trim() || "$";
+    const mappings = { ...DEFAULT_REST_FIELD_MAPPINGS, ...source.fieldMappings };
+
+    const rawItems = getPath(data, itemsPath);
+    if (!Array.isArray(rawItems)) {
+      throw new Error(`Items path "${itemsPath}" did not resolve to an array`);
+    }
+
+    const items: BookmarkItem[] = [];
+    let skipped = 0;
+
+    for (const raw of rawItems) {
+      const item = this.mapItem(raw, mappings, source.endpoint as string, titleFormat);
+      if (item) {
+        items.push(item);
+      } else {
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      this.logger.warn("Skipped items missing id, title or url", { skipped });
+    }
+
+    return items;
+  }
+
+  /**
+   * Map a single raw item, returning null when required fields are missing
+   */
+  private mapItem(
+    raw: unknown,
+    mappings: RestFieldMappings,
+    endpoint: string,
+    titleFormat: TitleFormatOptions,
+  ): BookmarkItem | null {
+    const id = this.toStringValue(getPath(raw, mappings.id));
+    const title = this.toStringValue(getPath(raw, mappings.title));
+    const rawUrl = this.toStringValue(getPath(raw, mappings.url));
+
+    if (!id || !title || !rawUrl) {
+      return null;
+    }
+
+    let url: string;
+    try {
+      // Relative links are resolved against the endpoint
+      url = new URL(rawUrl, endpoint).toString();
+    } catch {
+      return null;
+    }
+
+    const updatedAt = mappings.updatedAt
+      ? this.toTimestamp(getPath(raw, mappings.updatedAt))
+      : undefined;
+    const state = mappings.state ? this.toStringValue(getPath(raw, mappings.state)) : undefined;
+    const labels = mappings.labels ? this.toLabels(queryPath(raw, mappings.labels)) : [];
+
+    return {
+      id,
+      providerId: this.metadata.id,
+      title: this.formatRestTitle(title, state, updatedAt, titleFormat),
+      url,
+      updatedAt,
+      lastModified: updatedAt ? new Date(updatedAt).toISOString() : undefined,
+      metadata: {
+        type: "rest_item",
+        state,
+        labels,
+      },
+    };
+  }
+
+  /**
+   * Format item title according to user preferences
+   */
+  private formatRestTitle(
+    title: string,
+    state: string | undefined,
+    updatedAt: number | undefined,
+    options: TitleFormatOptions,
+  ): string {
+    const parts: string[] = [];
+
+    // State as-is from the API, since its vocabulary is unknown
+    if (options.includeStatus && state) {
+      parts.push(`[${state.toUpperCase()}]`);
+    }
+
+    if (options.includeAge && updatedAt) {
+      const ageInDays = Math.floor((Date.now() - updatedAt) / (1000 * 60 * 60 * 24));
+      parts.push(options.includeEmojis ? `${ageInDays}d` : `[${ageInDays}d]`);
+    }
+
+    // Title (always included at end)
+    parts.push(title);
+
+    return parts.join(" ");
+  }
+
+  private toStringValue(value: unknown): string | undefined {
+    if (typeof value === "string") {
+      return value.trim() || undefined;
+    }
+    if (typeof value === "number" || typeof value === "boolean") {
+      return String(value);
+    }
+    return undefined;
+  }
+
+  /**
+   * Accept ISO strings, epoch milliseconds or epoch seconds
+   */
+  private toTimestamp(value: unknown): number | undefined {
+    if (typeof value === "number") {
+      return value < 1e12 ? value * 1000 : value;
+    }
+    if (typeof value === "string") {
+      const timestamp = Date.parse(value);
+      return Number.isNaN(timestamp) ? undefined : timestamp;
+    }
+    return undefined;
+  }
+
+  /**
+   * Flatten matched label values (a path may match an array or each element)
+   */
+  private toLabels(values: unknown[]): string[] {
+    return values
+      .flatMap((value) => (Array.isArray(value) ? value : [value]))
+      .map((value) => this.toStringValue(value))
+      .filter((value): value is string => Boolean(value));
+  }
+}
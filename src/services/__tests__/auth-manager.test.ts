@@ -0,0 +1,469 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Browser } from "webextension-polyfill";
+import type { OAuthConfig } from "@/types";
+import { AuthErrorType } from "@/types";
+import { AuthManager } from "../auth-manager";
+import { storageManager } from "../storage";
+
+const OAUTH_CONFIG: OAuthConfig = {
+  authUrl: "https://auth.example.com/authorize",
+  tokenUrl: "https://auth.example.com/token",
+  clientId: "client-id",
+  redirectUri: "https://test-extension.chromiumapp.org/",
+  scopes: ["read"],
+};
+
+/**
+ * Base64url-encoded SHA-256 of a value, as sent in an S256 code challenge
+ */
+async function sha256Base64Url(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+const launchWebAuthFlow = () =>
+  vi.mocked(browser.identity?.launchWebAuthFlow as Browser["identity"]["launchWebAuthFlow"]);
+
+const alarms = () => browser.alarms as Browser["alarms"];
+
+describe("AuthManager", () => {
+  let authManager: AuthManager;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    authManager = AuthManager.getInstance();
+    await browser.storage?.local.clear();
+    vi.clearAllMocks();
+
+    // Answer the authorization request with a code and the state it was sent
+    launchWebAuthFlow().mockImplementation(async ({ url }) => {
+      const state = new URL(url).searchParams.get("state");
+      return `https://test-extension.chromiumapp.org/?code=auth-code&state=${state}`;
+    });
+
+    fetchMock = vi.fn(async () =>
+      Response.json({ access_token: "access-token", token_type: "bearer", expires_in: 3600 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const getAuthUrl = (): URL => new URL(launchWebAuthFlow().mock.calls[0][0].url);
+
+  const getTokenRequest = (): URLSearchParams =>
+    new URLSearchParams((fetchMock.mock.calls[0][1] as RequestInit).body as string);
+
+  describe("PKCE", () => {
+    it("should send an S256 challenge and redeem the code with its verifier", async () => {
+      authManager.registerOAuthConfig("public", OAUTH_CONFIG);
+
+      const authState = await authManager.authenticate("public");
+
+      expect(authState.tokens?.accessToken).toBe("access-token");
+
+      const authUrl = getAuthUrl();
+      expect(authUrl.searchParams.get("code_challenge_method")).toBe("S256");
+
+      const tokenRequest = getTokenRequest();
+      const verifier = tokenRequest.get("code_verifier") ?? "";
+      expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(authUrl.searchParams.get("code_challenge")).toBe(await sha256Base64Url(verifier));
+      expect(tokenRequest.has("client_secret")).toBe(false);
+
+      expect((await storageManager.getAuth("public"))?.tokens?.accessToken).toBe("access-token");
+    });
+
+    it("should send the client secret along when one is configured", async () => {
+      authManager.registerOAuthConfig("confidential", {
+        ...OAUTH_CONFIG,
+        clientSecret: "client-secret",
+      });
+
+      await authManager.authenticate("confidential");
+
+      const tokenRequest = getTokenRequest();
+      expect(tokenRequest.get("client_secret")).toBe("client-secret");
+      expect(tokenRequest.has("code_verifier")).toBe(true);
+    });
+
+    it("should leave PKCE out when disabled for the provider", async () => {
+      authManager.registerOAuthConfig("legacy", {
+        ...OAUTH_CONFIG,
+        clientSecret: "client-secret",
+        pkce: false,
+      });
+
+      await authManager.authenticate("legacy");
+
+      expect(getAuthUrl().searchParams.has("code_challenge")).toBe(false);
+      expect(getTokenRequest().has("code_verifier")).toBe(false);
+    });
+
+    it("should refuse a flow with neither PKCE nor a client secret", async () => {
+      authManager.registerOAuthConfig("insecure", { ...OAUTH_CONFIG, pkce: false });
+
+      await expect(authManager.authenticate("insecure")).rejects.toMatchObject({
+        type: AuthErrorType.INVALID_CONFIG,
+      });
+      expect(launchWebAuthFlow()).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Token refresh", () => {
+    const REFRESH_ALARM = "token-refresh-refreshing";
+
+    /** Store a token that expires in `expiresIn` milliseconds */
+    const saveTokens = (expiresIn: number) =>
+      storageManager.saveAuth("refreshing", {
+        providerId: "refreshing",
+        authenticated: true,
+        tokens: {
+          accessToken: "old-token",
+          refreshToken: "refresh-token",
+          tokenType: "bearer",
+          expiresAt: Date.now() + expiresIn,
+        },
+      });
+
+    beforeEach(() => {
+      authManager.registerOAuthConfig("refreshing", OAUTH_CONFIG);
+      fetchMock.mockImplementation(async () =>
+        Response.json({
+          access_token: "new-token",
+          refresh_token: "new-refresh-token",
+          token_type: "bearer",
+          expires_in: 3600,
+        }),
+      );
+    });
+
+    it("should schedule an alarm shortly before the token expires", async () => {
+      const authState = await authManager.authenticate("refreshing");
+
+      expect(alarms().create).toHaveBeenCalledWith(REFRESH_ALARM, {
+        when: (authState.tokens?.expiresAt ?? 0) - 5 * 60 * 1000,
+      });
+    });
+
+    it("should not schedule an alarm for tokens that can't be refreshed", async () => {
+      fetchMock.mockImplementation(async () =>
+        Response.json({ access_token: "access-token", token_type: "bearer" }),
+      );
+
+      await authManager.authenticate("refreshing");
+
+      expect(alarms().create).not.toHaveBeenCalled();
+      expect(alarms().clear).toHaveBeenCalledWith(REFRESH_ALARM);
+    });
+
+    it("should refresh when the alarm fires", async () => {
+      await saveTokens(60 * 1000);
+      await authManager.initialize();
+
+      await authManager.handleAlarm({ name: REFRESH_ALARM });
+
+      expect((await storageManager.getAuth("refreshing"))?.tokens?.accessToken).toBe("new-token");
+      expect(getTokenRequest().get("refresh_token")).toBe("refresh-token");
+    });
+
+    it("should register OAuth configs before refreshing when an alarm wakes the worker", async () => {
+      await saveTokens(60 * 1000);
+      // @ts-expect-error - creating a fresh instance, as in a newly started worker
+      const fresh: AuthManager = new AuthManager();
+      const prepare = vi.fn(async () => {
+        fresh.registerOAuthConfig("refreshing", OAUTH_CONFIG);
+      });
+      fresh.setPrepare(prepare);
+
+      await fresh.handleAlarm({ name: REFRESH_ALARM });
+      await fresh.handleAlarm({ name: REFRESH_ALARM });
+
+      expect(prepare).toHaveBeenCalledTimes(1);
+      expect((await storageManager.getAuth("refreshing"))?.tokens?.accessToken).toBe("new-token");
+    });
+
+    it("should refresh lazily and redeem the refresh token only once", async () => {
+      await saveTokens(60 * 1000);
+
+      const tokens = await Promise.all([
+        authManager.getToken("refreshing"),
+        authManager.getToken("refreshing"),
+        authManager.refreshToken("refreshing"),
+      ]);
+
+      expect(
+        tokens.map((token) => (typeof token === "string" ? token : token?.accessToken)),
+      ).toEqual(["new-token", "new-token", "new-token"]);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect((await storageManager.getAuth("refreshing"))?.tokens?.refreshToken).toBe(
+        "new-refresh-token",
+      );
+    });
+
+    it("should keep using a token that is still valid when refreshing fails", async () => {
+      await saveTokens(60 * 1000);
+      fetchMock.mockImplementation(async () => new Response("", { status: 500 }));
+
+      expect(await authManager.getToken("refreshing")).toBe("old-token");
+    });
+
+    it("should not refresh tokens outside the expiry window", async () => {
+      await saveTokens(60 * 60 * 1000);
+
+      expect(await authManager.getToken("refreshing")).toBe("old-token");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Re-authentication", () => {
+    it("should mark rejected credentials once and stop refreshing them", async () => {
+      await storageManager.saveAuth("revoked", {
+        providerId: "revoked",
+        authenticated: true,
+        tokens: { accessToken: "token", tokenType: "bearer", expiresAt: Date.now() + 60000 },
+      });
+
+      const marked = await Promise.all([
+        authManager.markReauthRequired("revoked"),
+        authManager.markReauthRequired("revoked"),
+      ]);
+      const markedAgain = await authManager.markReauthRequired("revoked");
+
+      expect(marked.filter(Boolean)).toHaveLength(1);
+      expect(markedAgain).toBe(false);
+      expect(await authManager.isAuthenticated("revoked")).toBe(false);
+      expect((await storageManager.getAuth("revoked"))?.needsReauth).toBe(true);
+      expect(alarms().clear).toHaveBeenCalledWith("token-refresh-revoked");
+    });
+
+    it("should leave providers that never connected alone", async () => {
+      expect(await authManager.markReauthRequired("never-connected")).toBe(false);
+      expect(await storageManager.getAuth("never-connected")).toBeNull();
+    });
+  });
+
+  describe("Device flow", () => {
+    const DEVICE_CONFIG: OAuthConfig = {
+      ...OAUTH_CONFIG,
+      deviceCodeUrl: "https://auth.example.com/device/code",
+    };
+    const DEVICE_ALARM = "device-auth-device";
+
+    /** Token endpoint answers, in order; the last one repeats */
+    let tokenResponses: Record<string, unknown>[];
+    /** When each token poll happened */
+    let pollTimes: number[];
+
+    /** Fire each device poll alarm at its time, until the flow stops scheduling them */
+    const runDevicePolls = async () => {
+      for (let fired = 0; ; fired++) {
+        const calls = vi.mocked(alarms().create).mock.calls as unknown as [
+          string,
+          { when: number },
+        ][];
+        const polls = calls.filter(([name]) => name === DEVICE_ALARM);
+        const when = polls[fired]?.[1].when;
+        if (when === undefined) {
+          return;
+        }
+        vi.setSystemTime(when);
+        await authManager.handleAlarm({ name: DEVICE_ALARM });
+      }
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["Date"] });
+      authManager.registerOAuthConfig("device", DEVICE_CONFIG);
+      pollTimes = [];
+      tokenResponses = [{ access_token: "device-token", token_type: "bearer" }];
+
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url === DEVICE_CONFIG.deviceCodeUrl) {
+          return Response.json({
+            device_code: "device-code",
+            user_code: "ABCD-1234",
+            verification_uri: "https://auth.example.com/device",
+            expires_in: 900,
+            interval: 5,
+          });
+        }
+        pollTimes.push(Date.now());
+        return Response.json(
+          tokenResponses.length > 1 ? tokenResponses.shift() : tokenResponses[0],
+        );
+      });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should show the user code and poll from alarms until the token is granted", async () => {
+      tokenResponses = [
+        { error: "authorization_pending" },
+        { error: "slow_down" },
+        { error: "authorization_pending" },
+        { access_token: "device-token", token_type: "bearer" },
+      ];
+      const onAuthorization = vi.fn();
+
+      const authStatePromise = authManager.authenticateWithDeviceFlow("device", onAuthorization);
+      await vi.waitFor(() => expect(onAuthorization).toHaveBeenCalled());
+      const stored = (await storageManager.getDeviceAuthorizations()).device;
+      expect(stored).toMatchObject({ deviceCode: "device-code", status: "pending" });
+      const issuedAt = stored.expiresAt - 900 * 1000;
+
+      await runDevicePolls();
+      const authState = await authStatePromise;
+
+      expect(onAuthorization).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userCode: "ABCD-1234",
+          verificationUri: "https://auth.example.com/device",
+          status: "pending",
+        }),
+      );
+      // 5s between polls, 10s once the server asked to slow down
+      expect(pollTimes.map((time) => time - issuedAt)).toEqual([5000, 10000, 20000, 30000]);
+
+      const pollRequest = new URLSearchParams(
+        (fetchMock.mock.calls[1][1] as RequestInit).body as string,
+      );
+      expect(pollRequest.get("grant_type")).toBe("urn:ietf:params:oauth:grant-type:device_code");
+      expect(pollRequest.get("device_code")).toBe("device-code");
+
+      expect(authState.tokens?.accessToken).toBe("device-token");
+      expect((await storageManager.getAuth("device"))?.tokens?.accessToken).toBe("device-token");
+      expect(await storageManager.getDeviceAuthorizations()).toEqual({});
+    });
+
+    it("should resume a pending sign-in after the worker restarts", async () => {
+      const onComplete = vi.fn(async () => {});
+      authManager.registerDeviceFlowCallback("device", onComplete);
+      await storageManager.saveDeviceAuthorization({
+        providerId: "device",
+        userCode: "ABCD-1234",
+        verificationUri: "https://auth.example.com/device",
+        expiresAt: Date.now() + 600000,
+        interval: 5000,
+        status: "pending",
+        deviceCode: "device-code",
+      });
+
+      await authManager.initialize();
+      expect(alarms().create).toHaveBeenCalledWith(DEVICE_ALARM, { when: Date.now() + 5000 });
+      await runDevicePolls();
+
+      expect((await storageManager.getAuth("device"))?.tokens?.accessToken).toBe("device-token");
+      expect(onComplete).toHaveBeenCalledWith(
+        expect.objectContaining({ providerId: "device", authenticated: true }),
+      );
+      expect(await storageManager.getDeviceAuthorizations()).toEqual({});
+    });
+
+    it("should finish a sign-in when a poll alarm wakes a fresh worker", async () => {
+      await storageManager.saveDeviceAuthorization({
+        providerId: "device",
+        userCode: "ABCD-1234",
+        verificationUri: "https://auth.example.com/device",
+        expiresAt: Date.now() + 600000,
+        interval: 5000,
+        status: "pending",
+        deviceCode: "device-code",
+      });
+      // @ts-expect-error - creating a fresh instance, as in a newly started worker
+      const fresh: AuthManager = new AuthManager();
+      fresh.setPrepare(async () => {
+        fresh.registerOAuthConfig("device", DEVICE_CONFIG);
+      });
+
+      await fresh.handleAlarm({ name: DEVICE_ALARM });
+
+      expect((await storageManager.getAuth("device"))?.tokens?.accessToken).toBe("device-token");
+      expect(await storageManager.getDeviceAuthorizations()).toEqual({});
+    });
+
+    it("should keep polling through network failures and error pages", async () => {
+      const answers = [
+        async () => {
+          throw new TypeError("Failed to fetch");
+        },
+        async () => new Response("<html>Bad Gateway</html>", { status: 502 }),
+        async () => Response.json({ access_token: "device-token", token_type: "bearer" }),
+      ];
+      const answerDeviceCode = fetchMock.getMockImplementation() as (
+        url: string,
+      ) => Promise<Response>;
+      fetchMock.mockImplementation(async (url: string) =>
+        url === DEVICE_CONFIG.deviceCodeUrl
+          ? answerDeviceCode(url)
+          : (answers.shift() as () => Promise<Response>)(),
+      );
+
+      const authStatePromise = authManager.authenticateWithDeviceFlow("device", vi.fn());
+      await vi.waitFor(() => expect(alarms().create).toHaveBeenCalled());
+      await runDevicePolls();
+      const authState = await authStatePromise;
+
+      expect(answers).toHaveLength(0);
+      expect(authState.tokens?.accessToken).toBe("device-token");
+    });
+
+    it("should forget a code once it expires", async () => {
+      tokenResponses = [{ error: "authorization_pending" }];
+
+      const authStatePromise = authManager.authenticateWithDeviceFlow("device", vi.fn());
+      const rejection = expect(authStatePromise).rejects.toMatchObject({
+        type: AuthErrorType.TOKEN_EXPIRED,
+      });
+      await vi.waitFor(() => expect(alarms().create).toHaveBeenCalled());
+      vi.setSystemTime(Date.now() + 900000);
+      await authManager.handleAlarm({ name: DEVICE_ALARM });
+      await rejection;
+
+      expect(pollTimes).toHaveLength(0);
+      expect(alarms().clear).toHaveBeenCalledWith(DEVICE_ALARM);
+      expect(await storageManager.getDeviceAuthorizations()).toEqual({});
+    });
+
+    it("should keep a denied sign-in so it can be shown", async () => {
+      tokenResponses = [{ error: "access_denied" }];
+
+      const authStatePromise = authManager.authenticateWithDeviceFlow("device", vi.fn());
+      const rejection = expect(authStatePromise).rejects.toMatchObject({
+        type: AuthErrorType.INVALID_CREDENTIALS,
+      });
+      await vi.waitFor(() => expect(alarms().create).toHaveBeenCalled());
+      await runDevicePolls();
+      await rejection;
+
+      const authorization = (await storageManager.getDeviceAuthorizations()).device;
+      expect(authorization).toMatchObject({ status: "denied" });
+      expect(authorization.deviceCode).toBeUndefined();
+      expect(await storageManager.getAuth("device")).toBeNull();
+    });
+
+    it("should stop polling when cancelled", async () => {
+      tokenResponses = [{ error: "authorization_pending" }];
+
+      const authStatePromise = authManager.authenticateWithDeviceFlow("device", () => {
+        void authManager.cancelDeviceFlow("device");
+      });
+
+      await expect(authStatePromise).rejects.toMatchObject({
+        type: AuthErrorType.USER_CANCELLED,
+      });
+      await runDevicePolls();
+
+      expect(pollTimes).toHaveLength(0);
+      expect(alarms().clear).toHaveBeenCalledWith(DEVICE_ALARM);
+      expect(await storageManager.getDeviceAuthorizations()).toEqual({});
+    });
+  });
+});
@@ -287,6 +287,53 @@ describe("ConflictResolver", () => {
 
       expect(resolution.strategy).toBe("manual");
       expect(resolution.requiresUserConfirmation).toBe(true);
+      expect(resolver.getConflict(conflict.id)).toBe(conflict);
+    });
+  });
+
+  describe("detectLocalEdit", () => {
+    const remoteItem: BookmarkItem = {
+      id: "item-1",
+      title: "Remote Title",
+      url: "https://example.com",
+      providerId: "github",
+    };
+    const context = { liveFolderId: "lf-1", bookmarkId: "b-1", remoteChanged: false };
+
+    it("should queue a METADATA_CONFLICT for a renamed bookmark", () => {
+      const conflict = resolver.detectLocalEdit(
+        { ...remoteItem, title: "Local Title" },
+        remoteItem,
+        "github",
+        context,
+      );
+
+      expect(conflict.id).toBe("github-lf-1-item-1");
+      expect(conflict.type).toBe(ConflictType.METADATA_CONFLICT);
+      expect(conflict.bookmarkId).toBe("b-1");
+      expect(resolver.getProviderConflicts("github")).toEqual([conflict]);
+    });
+
+    it("should detect BOTH_MODIFIED when the item changed too", () => {
+      const conflict = resolver.detectLocalEdit(
+        { ...remoteItem, title: "Local Title" },
+        remoteItem,
+        "github",
+        { ...context, remoteChanged: true },
+      );
+
+      expect(conflict.type).toBe(ConflictType.BOTH_MODIFIED);
+    });
+
+    it("should detect URL_MISMATCH when the bookmark points elsewhere", () => {
+      const conflict = resolver.detectLocalEdit(
+        { ...remoteItem, url: "https://example.com/other" },
+        remoteItem,
+        "github",
+        context,
+      );
+
+      expect(conflict.type).toBe(ConflictType.URL_MISMATCH);
     });
   });
 
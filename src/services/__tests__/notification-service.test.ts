@@ -1,4 +1,4 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { BookmarkItem } from "@/types";
 import {
   NotificationPriority,
@@ -463,4 +463,67 @@ describe("NotificationService", () => {
       }
     });
   });
+
+  describe("clicks", () => {
+    const open = vi.fn(() => Promise.resolve());
+    const getLastFocused = vi.fn(() => Promise.resolve({ id: 99 }));
+
+    beforeEach(() => {
+      Object.assign(chrome, { sidePanel: { open }, windows: { getLastFocused } });
+    });
+
+    afterEach(() => {
+      const mocks = chrome as unknown as Record<string, unknown>;
+      delete mocks.sidePanel;
+      delete mocks.windows;
+    });
+
+    it("should open the sidepanel from a click in a worker that didn't show the notification", async () => {
+      const id = await service.notify({
+        type: NotificationType.AUTH_REQUIRED,
+        title: "Reconnect",
+        message: "Sign in again",
+        providerId: "jira",
+      });
+
+      // @ts-expect-error - creating a fresh instance, as in a newly started worker
+      const fresh: NotificationService = new NotificationService();
+      fresh.trackFocusedWindow(7);
+      fresh.handleNotificationClick(id);
+
+      // Opened within the click, before anything is awaited
+      expect(open).toHaveBeenCalledWith({ windowId: 7 });
+      expect(getLastFocused).not.toHaveBeenCalled();
+      await vi.waitFor(async () =>
+        expect(await storageManager.getSidepanelTarget()).toEqual({
+          view: "providers",
+          providerId: "jira",
+        }),
+      );
+    });
+
+    it("should open the sidepanel from the Reconnect button", async () => {
+      const id = await service.notify({
+        type: NotificationType.AUTH_REQUIRED,
+        title: "Reconnect",
+        message: "Sign in again",
+        providerId: "gitlab",
+        buttons: [{ title: "Reconnect" }],
+      });
+
+      // @ts-expect-error - creating a fresh instance, as in a newly started worker
+      const fresh: NotificationService = new NotificationService();
+      fresh.trackFocusedWindow(7);
+      fresh.trackFocusedWindow(8, true);
+      fresh.handleButtonClick(id, 0);
+
+      expect(open).toHaveBeenCalledWith({ windowId: 7 });
+    });
+
+    it("should ignore notifications it didn't create", () => {
+      service.handleNotificationClick("other-extension-notification");
+
+      expect(open).not.toHaveBeenCalled();
+    });
+  });
 });
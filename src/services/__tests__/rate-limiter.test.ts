@@ -1,5 +1,7 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { notificationService } from "../notification-service";
 import { RateLimiter, RateLimitStrategy } from "../rate-limiter";
+import { storageManager } from "../storage";
 
 describe("RateLimiter", () => {
   let limiter: RateLimiter;
@@ -436,6 +438,146 @@ describe("RateLimiter", () => {
     });
   });
 
+  describe("server-imposed waits", () => {
+    it("should block until the reset time once the quota is exhausted", async () => {
+      const reset = Math.floor(Date.now() / 1000) + 120;
+
+      limiter.updateFromHeaders("github", {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-limit": "30",
+        "x-ratelimit-reset": String(reset),
+      });
+
+      const status = limiter.getStatus("github");
+      expect(status.isLimited).toBe(true);
+      expect(status.resetIn).toBeGreaterThan(100000);
+      expect(await limiter.checkLimit("github")).toBe(false);
+    });
+
+    it("should block for the Retry-After period", () => {
+      limiter.updateFromHeaders("jira", { "Retry-After": "60" });
+
+      const status = limiter.getStatus("jira");
+      expect(status.isLimited).toBe(true);
+      expect(status.resetIn).toBeGreaterThan(59000);
+      expect(status.resetIn).toBeLessThanOrEqual(60000);
+    });
+
+    it("should parse ISO 8601 reset timestamps", () => {
+      const reset = new Date(Date.now() + 300000).toISOString();
+
+      limiter.updateFromHeaders("jira", {
+        "x-ratelimit-remaining": "0",
+        "x-ratelimit-limit": "100",
+        "x-ratelimit-reset": reset,
+      });
+
+      expect(limiter.getStatus("jira").resetIn).toBeGreaterThan(299000);
+    });
+
+    it("should clear server waits on reset", () => {
+      limiter.updateFromHeaders("jira", { "retry-after": "60" });
+
+      limiter.reset("jira");
+
+      expect(limiter.getStatus("jira").isLimited).toBe(false);
+    });
+  });
+
+  describe("fetch", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should feed response headers back and persist the state", async () => {
+      limiter.configure("github", { maxRequests: 30, windowMs: 60000 });
+      vi.spyOn(globalThis, "fetch").mockResolvedValue(
+        new Response("{}", {
+          headers: { "x-ratelimit-remaining": "12", "x-ratelimit-limit": "30" },
+        }),
+      );
+      const saveSpy = vi.spyOn(storageManager, "saveRateLimit");
+
+      const response = await limiter.fetch("github", "https://api.github.com/user");
+
+      expect(response.ok).toBe(true);
+      expect(limiter.getStatus("github").remaining).toBe(12);
+      expect(saveSpy).toHaveBeenCalledWith(
+        "github",
+        expect.objectContaining({ maxRequests: 30, tokenBucket: expect.any(Object) }),
+      );
+      vi.mocked(globalThis.fetch).mockRestore();
+    });
+
+    it("should not lose state when requests persist concurrently", async () => {
+      await browser.storage?.local.clear();
+      vi.spyOn(globalThis, "fetch").mockImplementation(async () => new Response("{}"));
+
+      await Promise.all([
+        limiter.fetch("github", "https://api.github.com/search/issues?q=a"),
+        limiter.fetch("github", "https://api.github.com/search/issues?q=b"),
+        limiter.fetch("gitlab", "https://gitlab.com/api/v4/merge_requests"),
+      ]);
+      // @ts-expect-error - waiting on the private write queue for testing
+      await limiter.persisting;
+
+      const stored = await storageManager.getRateLimits();
+      expect(Object.keys(stored)).toEqual(expect.arrayContaining(["github", "gitlab"]));
+      vi.mocked(globalThis.fetch).mockRestore();
+    });
+
+    it("should fail fast without a request while blocked for long", async () => {
+      limiter.updateFromHeaders("github", { "retry-after": "3600" });
+      const fetchMock = vi.spyOn(globalThis, "fetch");
+
+      await expect(limiter.fetch("github", "https://api.github.com/user")).rejects.toThrow(
+        "Rate limit exceeded for github. Try again in 60 minutes",
+      );
+      expect(fetchMock).not.toHaveBeenCalled();
+      fetchMock.mockRestore();
+    });
+
+    it("should notify and retry once after a short Retry-After", async () => {
+      vi.useFakeTimers();
+      const notifySpy = vi.spyOn(notificationService, "notifyRateLimit").mockResolvedValue("id");
+      const fetchMock = vi
+        .spyOn(globalThis, "fetch")
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { "Retry-After": "5" } }))
+        .mockResolvedValueOnce(new Response("{}"));
+
+      const pending = limiter.fetch("jira", "https://acme.atlassian.net/rest/api/3/myself");
+      await vi.advanceTimersByTimeAsync(5000);
+      const response = await pending;
+
+      expect(response.status).toBe(200);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(notifySpy).toHaveBeenCalledWith("jira", 5);
+      fetchMock.mockRestore();
+    });
+  });
+
+  describe("restoreState", () => {
+    it("should restore configuration, tokens and server waits", () => {
+      limiter.restoreState({
+        github: {
+          maxRequests: 30,
+          windowMs: 60000,
+          strategy: RateLimitStrategy.TOKEN_BUCKET,
+          tokenBucket: { tokens: 5, lastRefill: Date.now() },
+        },
+        jira: {
+          maxRequests: 100,
+          windowMs: 60000,
+          strategy: RateLimitStrategy.TOKEN_BUCKET,
+          blockedUntil: Date.now() + 60000,
+        },
+      });
+
+      expect(limiter.getStatus("github")).toMatchObject({ limit: 30, remaining: 5 });
+      expect(limiter.getStatus("jira").isLimited).toBe(true);
+    });
+  });
+
   describe("edge cases", () => {
     it("should handle default config for unconfigured provider", async () => {
       expect(await limiter.checkLimit("unknown")).toBe(true);
@@ -208,6 +208,21 @@ describe("RetryService", () => {
       });
     });
 
+    describe("getDelay", () => {
+      it("should compute the same backoff for externally scheduled retries", () => {
+        const options = {
+          initialDelay: 60000,
+          maxDelay: 300000,
+          strategy: RetryStrategy.EXPONENTIAL,
+          useJitter: false,
+        };
+
+        expect(service.getDelay(1, options)).toBe(60000);
+        expect(service.getDelay(3, options)).toBe(240000);
+        expect(service.getDelay(5, options)).toBe(300000); // Capped at maxDelay
+      });
+    });
+
     describe("jitter", () => {
       it("should apply jitter when enabled", async () => {
         const onRetry = vi.fn();
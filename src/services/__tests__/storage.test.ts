@@ -1,5 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import type { AuthState, ExtensionSettings, ProviderStorageData } from "@/types";
+import type { AuthState, ExtensionSettings, ProviderStorageData, StorageSchema } from "@/types";
+import { MAX_SYNC_JOURNAL_ENTRIES, SCHEMA_VERSION } from "@/types";
+import { cryptoService } from "../crypto-service";
 import { StorageManager } from "../storage";
 
 describe("StorageManager", () => {
@@ -94,6 +96,46 @@ describe("StorageManager", () => {
       expect(allAuth.github).toBeTruthy();
       expect(allAuth.jira).toBeTruthy();
     });
+
+    it("should encrypt tokens at rest", async () => {
+      await storage.saveAuth("github", {
+        providerId: "github",
+        authenticated: true,
+        tokens: {
+          accessToken: "secret-token",
+          refreshToken: "secret-refresh",
+          tokenType: "Bearer",
+          expiresAt: Date.now() + 3600000,
+        },
+      });
+
+      const raw = (await browser.storage?.local.get("auth")) as unknown as StorageSchema;
+      const stored = raw.auth.github.tokens;
+      expect(stored?.accessToken).toMatch(/^enc:v1:/);
+      expect(stored?.refreshToken).toMatch(/^enc:v1:/);
+      expect(JSON.stringify(raw)).not.toContain("secret-token");
+
+      const retrieved = await storage.getAuth("github");
+      expect(retrieved?.tokens?.accessToken).toBe("secret-token");
+      expect(retrieved?.tokens?.refreshToken).toBe("secret-refresh");
+    });
+
+    it("should flag undecryptable tokens for re-authentication", async () => {
+      await browser.storage?.local.set({
+        auth: {
+          github: {
+            providerId: "github",
+            authenticated: true,
+            tokens: { accessToken: "enc:v1:AAAA:AAAA", tokenType: "Bearer" },
+          },
+        },
+      });
+
+      const retrieved = await storage.getAuth("github");
+      expect(retrieved?.authenticated).toBe(false);
+      expect(retrieved?.needsReauth).toBe(true);
+      expect(retrieved?.tokens).toBeUndefined();
+    });
   });
 
   describe("Provider Data Management", () => {
@@ -175,6 +217,262 @@ describe("StorageManager", () => {
       const auth = await storage.getAuth("github");
       expect(auth).toBeNull();
     });
+
+    it("should encrypt provider credentials at rest and leave them out of exports", async () => {
+      const providerData = {
+        config: { enabled: true, personalAccessToken: "glpat-secret" },
+      } as ProviderStorageData;
+
+      await storage.saveProvider("gitlab", providerData);
+
+      const raw = (await browser.storage?.local.get("providers")) as unknown as StorageSchema;
+      expect(raw.providers.gitlab.config).toMatchObject({
+        personalAccessToken: expect.stringMatching(/^enc:v1:/),
+      });
+      expect(await storage.getProvider("gitlab")).toEqual(providerData);
+
+      const exported = await storage.exportData();
+      expect(exported.providers.gitlab.config).toEqual({ enabled: true });
+      expect(exported.auth).toEqual({});
+    });
+
+    it("should report provider credentials that can't be decrypted", async () => {
+      await browser.storage?.local.set({
+        providers: {
+          gitlab: { config: { enabled: true, personalAccessToken: "enc:v1:AAAA:AAAA" } },
+        },
+      });
+
+      const provider = await storage.getProvider("gitlab");
+      expect(provider?.config).toEqual({ enabled: true });
+      expect(provider?.lastError).toMatch(/couldn't be decrypted/);
+    });
+  });
+
+  describe("Live Folder Management", () => {
+    it("should create live folders with generated IDs", async () => {
+      const result = await storage.createLiveFolder("github", {
+        name: "Team reviews",
+        folderId: "folder-1",
+        filters: { createdByMe: false, reviewRequests: true },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.data?.id).toBeTruthy();
+      expect(result.data).toMatchObject({
+        providerId: "github",
+        name: "Team reviews",
+        enabled: true,
+      });
+
+      const retrieved = await storage.getLiveFolder(result.data?.id as string);
+      expect(retrieved).toEqual(result.data);
+    });
+
+    it("should list live folders for a provider", async () => {
+      await storage.createLiveFolder("github", { name: "Mine" });
+      await storage.createLiveFolder("jira", { name: "Sprint" });
+      await storage.createLiveFolder("github", { name: "Reviews" });
+
+      const githubFolders = await storage.getLiveFoldersForProvider("github");
+      expect(githubFolders.map((f) => f.name).sort()).toEqual(["Mine", "Reviews"]);
+    });
+
+    it("should delete a live folder and its bookmark metadata", async () => {
+      const { data: liveFolder } = await storage.createLiveFolder("github");
+      const liveFolderId = liveFolder?.id as string;
+      await storage.saveBookmarkMetadata(liveFolderId, {
+        "item-1": { itemId: "item-1", bookmarkId: "b-1", providerId: "github", lastUpdated: 1 },
+      });
+
+      const result = await storage.deleteLiveFolder(liveFolderId);
+      expect(result.success).toBe(true);
+
+      expect(await storage.getLiveFolder(liveFolderId)).toBeNull();
+      expect(await storage.getBookmarkMetadata(liveFolderId)).toEqual({});
+    });
+
+    it("should delete live folders when their provider is deleted", async () => {
+      await storage.saveProvider("github", { config: { enabled: true } });
+      await storage.createLiveFolder("github");
+      await storage.createLiveFolder("jira");
+
+      await storage.deleteProvider("github");
+
+      expect(await storage.getLiveFoldersForProvider("github")).toHaveLength(0);
+      expect(await storage.getLiveFoldersForProvider("jira")).toHaveLength(1);
+    });
+  });
+
+  describe("Sync Journal", () => {
+    const createEntry = (providerId: string, timestamp: number) => ({
+      providerId,
+      liveFolderId: "lf-1",
+      liveFolderName: "Mine",
+      timestamp,
+      duration: 10,
+      success: true,
+      added: [{ itemId: "item-1", title: "Fix login" }],
+      updated: [],
+      removed: [],
+    });
+
+    it("should keep entries newest first and bounded per provider", async () => {
+      for (let i = 0; i < MAX_SYNC_JOURNAL_ENTRIES + 5; i++) {
+        await storage.addSyncJournalEntry(createEntry("github", i));
+      }
+      await storage.addSyncJournalEntry(createEntry("jira", 1));
+
+      const journal = await storage.getProviderSyncJournal("github");
+      expect(journal).toHaveLength(MAX_SYNC_JOURNAL_ENTRIES);
+      expect(journal[0].timestamp).toBe(MAX_SYNC_JOURNAL_ENTRIES + 4);
+      expect(journal[0].id).toBeTruthy();
+      expect(await storage.getProviderSyncJournal("jira")).toHaveLength(1);
+    });
+
+    it("should clear a provider's journal when the provider is deleted", async () => {
+      await storage.saveProvider("github", { config: { enabled: true } });
+      await storage.addSyncJournalEntry(createEntry("github", 1));
+      await storage.addSyncJournalEntry(createEntry("jira", 1));
+
+      await storage.deleteProvider("github");
+
+      const journal = await storage.getSyncJournal();
+      expect(journal.github).toBeUndefined();
+      expect(journal.jira).toHaveLength(1);
+    });
+  });
+
+  describe("Sync Undo", () => {
+    const createUndoFolder = (liveFolderId: string, timestamp: number) => ({
+      liveFolderId,
+      liveFolderName: "Mine",
+      folderId: "folder-1",
+      folderTitle: "Mine",
+      timestamp,
+      added: ["b-1"],
+      updated: [],
+      deleted: [],
+      records: {},
+    });
+
+    it("should keep the last changes of each live folder per provider", async () => {
+      await storage.saveSyncUndoFolder("github", createUndoFolder("lf-1", 1));
+      await storage.saveSyncUndoFolder("github", createUndoFolder("lf-2", 2));
+      await storage.saveSyncUndoFolder("github", createUndoFolder("lf-1", 3));
+
+      const snapshot = await storage.getProviderSyncUndo("github");
+      expect(snapshot?.timestamp).toBe(3);
+      expect(Object.keys(snapshot?.folders ?? {}).sort()).toEqual(["lf-1", "lf-2"]);
+      expect(snapshot?.folders["lf-1"].timestamp).toBe(3);
+    });
+
+    it("should clear undo data when the provider is deleted", async () => {
+      await storage.saveProvider("github", { config: { enabled: true } });
+      await storage.saveSyncUndoFolder("github", createUndoFolder("lf-1", 1));
+
+      await storage.deleteProvider("github");
+
+      expect(await storage.getProviderSyncUndo("github")).toBeNull();
+    });
+  });
+
+  describe("Passphrase Lock", () => {
+    const githubAuth: AuthState = {
+      providerId: "github",
+      authenticated: true,
+      tokens: { accessToken: "github-token", tokenType: "Bearer", expiresAt: Date.now() + 3600000 },
+    };
+
+    const getRawAuth = async () =>
+      ((await browser.storage?.local.get("auth")) as unknown as StorageSchema).auth;
+
+    beforeEach(async () => {
+      await browser.storage?.session.clear();
+      await storage.saveAuth("github", githubAuth);
+    });
+
+    it("should re-encrypt credentials with the passphrase", async () => {
+      const result = await storage.enablePassphraseLock("correct horse");
+      expect(result.success).toBe(true);
+
+      expect((await getRawAuth()).github.tokens?.accessToken).toMatch(/^enc:p1:/);
+      expect(await storage.isLocked()).toBe(false);
+      expect((await storage.getAuth("github"))?.tokens?.accessToken).toBe("github-token");
+    });
+
+    it("should hide credentials while locked and keep them in storage", async () => {
+      await storage.saveProvider("gitlab", {
+        config: { enabled: true, personalAccessToken: "glpat-secret" },
+      } as ProviderStorageData);
+      await storage.enablePassphraseLock("correct horse");
+      await storage.lockCredentials();
+
+      expect(await storage.isLocked()).toBe(true);
+      const auth = await storage.getAuth("github");
+      expect(auth?.authenticated).toBe(true);
+      expect(auth?.tokens).toBeUndefined();
+
+      // Saving the provider while locked must not drop its stored token
+      const gitlab = await storage.getProvider("gitlab");
+      expect(gitlab?.config).toEqual({ enabled: true });
+      await storage.saveProvider("gitlab", { config: { enabled: false } });
+
+      // New credentials can't be encrypted without the passphrase
+      const saveResult = await storage.saveAuth("github", githubAuth);
+      expect(saveResult.success).toBe(false);
+
+      await storage.unlockCredentials("correct horse");
+      expect((await storage.getProvider("gitlab"))?.config).toEqual({
+        enabled: false,
+        personalAccessToken: "glpat-secret",
+      });
+    });
+
+    it("should keep stored tokens when auth read while locked is saved back", async () => {
+      await storage.enablePassphraseLock("correct horse");
+      await storage.lockCredentials();
+
+      const auth = await storage.getAuth("github");
+      const result = await storage.saveAuth("github", {
+        ...(auth as AuthState),
+        authenticated: false,
+        needsReauth: true,
+      });
+      expect(result.success).toBe(true);
+      expect((await getRawAuth()).github.tokens?.accessToken).toMatch(/^enc:p1:/);
+
+      await storage.unlockCredentials("correct horse");
+      const unlocked = await storage.getAuth("github");
+      expect(unlocked?.needsReauth).toBe(true);
+      expect(unlocked?.tokens?.accessToken).toBe("github-token");
+    });
+
+    it("should only unlock with the right passphrase", async () => {
+      await storage.enablePassphraseLock("correct horse");
+      await storage.lockCredentials();
+
+      const wrong = await storage.unlockCredentials("wrong horse");
+      expect(wrong).toEqual({ success: false, error: "Wrong passphrase" });
+      expect(await storage.isLocked()).toBe(true);
+
+      const right = await storage.unlockCredentials("correct horse");
+      expect(right.success).toBe(true);
+      expect((await storage.getAuth("github"))?.tokens?.accessToken).toBe("github-token");
+    });
+
+    it("should return to the device key when disabled", async () => {
+      await storage.enablePassphraseLock("correct horse");
+      await storage.lockCredentials();
+
+      const result = await storage.disablePassphraseLock("correct horse");
+      expect(result.success).toBe(true);
+
+      expect(await storage.getPassphraseLock()).toBeNull();
+      expect(await storage.isLocked()).toBe(false);
+      expect((await getRawAuth()).github.tokens?.accessToken).toMatch(/^enc:v1:/);
+      expect((await storage.getAuth("github"))?.tokens?.accessToken).toBe("github-token");
+    });
   });
 
   describe("Settings Management", () => {
@@ -267,5 +565,187 @@ describe("StorageManager", () => {
 
       expect(firstSettings).toEqual(secondSettings);
     });
+
+    it("should migrate single-folder providers to live folders", async () => {
+      const mockGetBookmark = browser.bookmarks?.get;
+      if (mockGetBookmark) {
+        vi.mocked(mockGetBookmark).mockResolvedValueOnce([
+          { id: "folder-1", title: "Work PRs (3 review • 12 total)" },
+        ]);
+      }
+
+      await browser.storage?.local.set({
+        schemaVersion: 1,
+        providers: {
+          github: {
+            folderId: "folder-1",
+            lastSync: 1000,
+            config: {
+              enabled: true,
+              sortOrder: "updated",
+              filters: { createdByMe: true, reviewRequests: false },
+            },
+          },
+          jira: { config: { enabled: false } },
+        },
+        bookmarks: {
+          github: {
+            "item-1": { itemId: "item-1", bookmarkId: "b-1", providerId: "github", lastUpdated: 1 },
+          },
+        },
+      });
+
+      await storage.initialize();
+
+      const [liveFolder] = await storage.getLiveFoldersForProvider("github");
+      expect(liveFolder).toMatchObject({
+        providerId: "github",
+        name: "Work PRs",
+        folderId: "folder-1",
+        enabled: true,
+        sortOrder: "updated",
+        filters: { createdByMe: true, reviewRequests: false },
+        lastSync: 1000,
+      });
+      expect(await storage.getLiveFoldersForProvider("jira")).toHaveLength(0);
+
+      const bookmarks = await storage.getAllBookmarkMetadata();
+      expect(bookmarks.github).toBeUndefined();
+      expect(bookmarks[liveFolder.id]["item-1"].bookmarkId).toBe("b-1");
+
+      const github = await storage.getProvider("github");
+      expect(github?.folderId).toBeUndefined();
+
+      const stored = await browser.storage?.local.get("schemaVersion");
+      expect(stored?.schemaVersion).toBe(SCHEMA_VERSION);
+    });
+
+    it("should move feed URLs and REST endpoints to their live folders", async () => {
+      const fieldMappings = { id: "key", title: "summary", url: "links.self" };
+      await browser.storage?.local.set({
+        schemaVersion: 1,
+        providers: {
+          feed: {
+            folderId: "folder-1",
+            config: { enabled: true, feedUrl: "https://example.com/feed.xml" },
+          },
+          rest: {
+            config: {
+              enabled: true,
+              endpoint: "https://tools.example.com/api/items",
+              itemsPath: "$.results",
+              fieldMappings,
+              authHeaderName: "X-API-Key",
+            },
+          },
+        },
+      });
+
+      await storage.initialize();
+
+      const [feedFolder] = await storage.getLiveFoldersForProvider("feed");
+      expect(feedFolder.filters).toEqual({ feedUrl: "https://example.com/feed.xml" });
+
+      // Configured before a bookmark folder was chosen
+      const [restFolder] = await storage.getLiveFoldersForProvider("rest");
+      expect(restFolder).toMatchObject({ name: "Default", folderId: undefined });
+      expect(restFolder.filters).toEqual({
+        endpoint: "https://tools.example.com/api/items",
+        itemsPath: "$.results",
+        fieldMappings,
+      });
+
+      // The auth header stays with the provider
+      const rest = await storage.getProvider("rest");
+      expect(rest?.config).toEqual({ enabled: true, authHeaderName: "X-API-Key" });
+      expect((await storage.getProvider("feed"))?.config).toEqual({ enabled: true });
+    });
+
+    it("should encrypt plaintext credentials during migration", async () => {
+      await browser.storage?.local.set({
+        schemaVersion: 2,
+        providers: { jira: { config: { enabled: true, apiToken: "jira-api-token" } } },
+        auth: {
+          github: {
+            providerId: "github",
+            authenticated: true,
+            tokens: { accessToken: "plain-token", tokenType: "Bearer" },
+          },
+        },
+      });
+
+      await storage.initialize();
+
+      const raw = (await browser.storage?.local.get([
+        "providers",
+        "auth",
+      ])) as unknown as StorageSchema;
+      expect(raw.providers.jira.config).toMatchObject({
+        apiToken: expect.stringMatching(/^enc:v1:/),
+      });
+      expect(raw.auth.github.tokens?.accessToken).toMatch(/^enc:v1:/);
+
+      const jira = await storage.getProvider("jira");
+      expect((jira?.config as { apiToken?: string }).apiToken).toBe("jira-api-token");
+      const auth = await storage.getAuth("github");
+      expect(auth?.tokens?.accessToken).toBe("plain-token");
+    });
+
+    it("should keep plaintext credentials while the encryption key is unavailable", async () => {
+      const { indexedDB } = globalThis;
+      // @ts-expect-error - removing IndexedDB for testing
+      delete globalThis.indexedDB;
+      // @ts-expect-error - accessing private property for testing
+      cryptoService.keyPromise = null;
+
+      try {
+        await browser.storage?.local.set({
+          schemaVersion: 2,
+          auth: {
+            github: {
+              providerId: "github",
+              authenticated: true,
+              tokens: { accessToken: "plain-token", tokenType: "Bearer" },
+            },
+          },
+        });
+
+        await storage.initialize();
+
+        const raw = (await browser.storage?.local.get([
+          "auth",
+          "schemaVersion",
+        ])) as unknown as StorageSchema;
+        expect(raw.auth.github.tokens?.accessToken).toBe("plain-token");
+        expect(raw.schemaVersion).toBe(2);
+
+        const result = await storage.saveAuth("github", raw.auth.github);
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/encryption key is unavailable/);
+      } finally {
+        globalThis.indexedDB = indexedDB;
+      }
+
+      // The migration is retried once the key can be kept
+      await storage.initialize();
+      const raw = (await browser.storage?.local.get("auth")) as unknown as StorageSchema;
+      expect(raw.auth.github.tokens?.accessToken).toMatch(/^enc:v1:/);
+    });
+
+    it("should migrate existing data that predates the schema version", async () => {
+      await browser.storage?.local.set({
+        settings: { syncInterval: 30 },
+        providers: { github: { folderId: "folder-1", config: { enabled: true } } },
+      });
+
+      await storage.initialize();
+
+      const settings = await storage.getSettings();
+      expect(settings.syncInterval).toBe(30);
+
+      const liveFolders = await storage.getLiveFoldersForProvider("github");
+      expect(liveFolders).toHaveLength(1);
+      expect(liveFolders[0].folderId).toBe("folder-1");
+    });
   });
 });
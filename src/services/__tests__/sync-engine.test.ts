@@ -0,0 +1,706 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ProviderError, ProviderErrorType } from "@/providers/provider-error";
+import type {
+  ArchiveOptions,
+  BookmarkItem,
+  BookmarkRecord,
+  ConflictStrategy,
+  LiveFolder,
+} from "@/types";
+import { DEFAULT_ARCHIVE_OPTIONS } from "@/types";
+import { hashBookmarkContent } from "@/utils/hash";
+import { BookmarkManager, type BookmarkNode } from "../bookmark-manager";
+import { ConflictResolver } from "../conflict-resolver";
+import { notificationService } from "../notification-service";
+import { ProviderRegistry } from "../provider-registry";
+import { StorageManager } from "../storage";
+import { SyncEngine } from "../sync-engine";
+
+describe("SyncEngine", () => {
+  let engine: SyncEngine;
+  let bookmarkManager: BookmarkManager;
+
+  const createItem = (overrides: Partial<BookmarkItem> = {}): BookmarkItem => ({
+    id: "item-1",
+    providerId: "github",
+    title: "Fix login",
+    url: "https://github.com/acme/app/pull/1",
+    ...overrides,
+  });
+
+  const createRecord = (overrides: Partial<BookmarkRecord> = {}): BookmarkRecord => ({
+    itemId: "item-1",
+    bookmarkId: "b-1",
+    providerId: "github",
+    lastUpdated: 1,
+    hash: hashBookmarkContent(createItem()),
+    ...overrides,
+  });
+
+  const mockFolderContents = (bookmarks: Array<Partial<BookmarkNode>>) => {
+    vi.spyOn(bookmarkManager, "getFolderContents").mockResolvedValue(bookmarks as BookmarkNode[]);
+  };
+
+  beforeEach(() => {
+    engine = SyncEngine.getInstance();
+    bookmarkManager = BookmarkManager.getInstance();
+    browser.storage?.local.clear();
+    vi.restoreAllMocks();
+  });
+
+  describe("calculateDiff", () => {
+    it("should update the URL in place when a linked item moves", async () => {
+      mockFolderContents([
+        { id: "b-1", title: "Fix login", url: "https://github.com/acme/app/pull/1" },
+      ]);
+      const moved = createItem({ url: "https://github.com/acme/renamed/pull/1" });
+
+      const diff = await engine.calculateDiff("folder-1", [moved], { "item-1": createRecord() });
+
+      expect(diff.toAdd).toHaveLength(0);
+      expect(diff.toDelete).toHaveLength(0);
+      expect(diff.toUpdate).toHaveLength(1);
+      expect(diff.toUpdate[0].bookmarkId).toBe("b-1");
+      expect(diff.toUpdate[0].newItem.url).toBe("https://github.com/acme/renamed/pull/1");
+    });
+
+    it("should leave matching bookmarks unchanged", async () => {
+      mockFolderContents([
+        { id: "b-1", title: "Fix login", url: "https://github.com/acme/app/pull/1" },
+      ]);
+
+      const diff = await engine.calculateDiff("folder-1", [createItem()], {
+        "item-1": createRecord(),
+      });
+
+      expect(diff.toUpdate).toHaveLength(0);
+      expect(diff.unchanged).toEqual([{ bookmarkId: "b-1", item: createItem() }]);
+    });
+
+    it("should fall back to URL matching for legacy records", async () => {
+      mockFolderContents([
+        { id: "b-9", title: "Old title", url: "https://github.com/acme/app/pull/1" },
+      ]);
+
+      const diff = await engine.calculateDiff("folder-1", [createItem()], {
+        "item-1": createRecord({ bookmarkId: "missing", hash: undefined }),
+      });
+
+      expect(diff.toAdd).toHaveLength(0);
+      expect(diff.toUpdate[0].bookmarkId).toBe("b-9");
+    });
+
+    it("should not match by URL when a hashed record's bookmark is gone", async () => {
+      mockFolderContents([
+        { id: "b-2", title: "Fix login", url: "https://github.com/acme/app/pull/1" },
+      ]);
+
+      const diff = await engine.calculateDiff("folder-1", [createItem()], {
+        "item-1": createRecord({ bookmarkId: "deleted" }),
+        "item-2": createRecord({ itemId: "item-2", bookmarkId: "b-2" }),
+      });
+
+      expect(diff.toAdd).toEqual([createItem()]);
+      expect(diff.toDelete).toEqual(["b-2"]);
+    });
+  });
+
+  describe("pinned items", () => {
+    it("should never delete pinned bookmarks and show the pin in their title", async () => {
+      mockFolderContents([
+        { id: "b-1", title: "📌 Fix login", url: "https://github.com/acme/app/pull/1" },
+        { id: "b-2", title: "📌 Old PR", url: "https://github.com/acme/app/pull/2" },
+      ]);
+
+      const diff = await engine.calculateDiff("folder-1", [createItem()], {
+        "item-1": createRecord({ pinned: true }),
+        "item-2": createRecord({ itemId: "item-2", bookmarkId: "b-2", pinned: true }),
+      });
+
+      expect(diff.toDelete).toEqual([]);
+      expect(diff.toUpdate).toHaveLength(0);
+      expect(diff.unchanged[0].item.title).toBe("📌 Fix login");
+    });
+
+    it("should keep records of pinned items that are no longer fetched", async () => {
+      const storage = StorageManager.getInstance();
+      const liveFolder = { id: "lf-1", providerId: "github", folderId: "folder-1" } as LiveFolder;
+      const pinned = createRecord({ itemId: "item-2", bookmarkId: "b-2", pinned: true });
+      await storage.saveBookmarkMetadata("lf-1", { "item-2": pinned });
+
+      await engine.applyChanges(liveFolder, {
+        toAdd: [],
+        toUpdate: [],
+        toDelete: [],
+        unchanged: [],
+      });
+
+      expect(await storage.getBookmarkMetadata("lf-1")).toEqual({ "item-2": pinned });
+    });
+
+    it("should pin an item and add the indicator to its bookmark title", async () => {
+      const storage = StorageManager.getInstance();
+      await storage.saveBookmarkMetadata("lf-1", { "item-1": createRecord() });
+      vi.spyOn(bookmarkManager, "getBookmark").mockResolvedValue({
+        id: "b-1",
+        title: "Fix login",
+      } as BookmarkNode);
+      const updateSpy = vi.spyOn(bookmarkManager, "updateBookmark").mockResolvedValue();
+
+      await engine.setItemPinned("lf-1", "item-1", true);
+
+      expect(updateSpy).toHaveBeenCalledWith("b-1", { title: "📌 Fix login" });
+      expect((await storage.getBookmarkMetadata("lf-1"))["item-1"].pinned).toBe(true);
+    });
+  });
+
+  describe("local edits", () => {
+    const renamed = { id: "b-1", title: "My login fix", url: "https://github.com/acme/app/pull/1" };
+
+    const syncWithStrategy = async (conflictStrategy: ConflictStrategy) => {
+      const storage = StorageManager.getInstance();
+      await storage.saveProvider("github", { config: { enabled: true, conflictStrategy } });
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+      const liveFolderId = liveFolder?.id as string;
+      await storage.saveBookmarkMetadata(liveFolderId, { "item-1": createRecord() });
+
+      vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+        id: "folder-1",
+        title: "Mine",
+      } as BookmarkNode);
+      mockFolderContents([renamed]);
+      vi.spyOn(bookmarkManager, "batchUpdate").mockResolvedValue();
+      vi.spyOn(bookmarkManager, "reorderFolder").mockResolvedValue();
+      vi.spyOn(ProviderRegistry.getInstance(), "fetchProviderItems").mockResolvedValue([
+        createItem(),
+      ]);
+
+      const result = await engine.syncLiveFolder(liveFolderId);
+      expect(result.success).toBe(true);
+      return liveFolderId;
+    };
+
+    it("should report bookmarks that differ from their last-synced hash as local edits", async () => {
+      mockFolderContents([renamed]);
+
+      const diff = await engine.calculateDiff("folder-1", [createItem()], {
+        "item-1": createRecord(),
+      });
+
+      expect(diff.toUpdate).toHaveLength(0);
+      expect(diff.localEdits).toMatchObject([
+        { bookmarkId: "b-1", local: { title: "My login fix" }, remoteChanged: false },
+      ]);
+    });
+
+    it("should overwrite local edits by default", async () => {
+      await syncWithStrategy("remote_wins");
+
+      expect(bookmarkManager.batchUpdate).toHaveBeenCalledWith([
+        { bookmarkId: "b-1", changes: { title: "Fix login" } },
+      ]);
+    });
+
+    it("should keep local edits and not report them again", async () => {
+      const liveFolderId = await syncWithStrategy("local_wins");
+
+      expect(bookmarkManager.batchUpdate).not.toHaveBeenCalled();
+      const records = await StorageManager.getInstance().getBookmarkMetadata(liveFolderId);
+      expect(records["item-1"].localHash).toBe(hashBookmarkContent(renamed));
+
+      const diff = await engine.calculateDiff("folder-1", [createItem()], records);
+      expect(diff.localEdits).toEqual([]);
+      expect(diff.unchanged).toHaveLength(1);
+    });
+
+    it("should persist conflicts that need a manual decision", async () => {
+      const liveFolderId = await syncWithStrategy("manual");
+      const storage = StorageManager.getInstance();
+
+      expect(bookmarkManager.batchUpdate).not.toHaveBeenCalled();
+      expect((await storage.getBookmarkMetadata(liveFolderId))["item-1"]).toEqual(createRecord());
+      const conflicts = Object.values(await storage.getConflicts());
+      expect(conflicts).toMatchObject([
+        {
+          liveFolderId,
+          bookmarkId: "b-1",
+          local: { title: "My login fix" },
+          remote: { title: "Fix login" },
+        },
+      ]);
+
+      // Reverting the edit resolves the conflict on the next sync
+      mockFolderContents([{ ...renamed, title: "Fix login" }]);
+      await engine.syncLiveFolder(liveFolderId);
+      expect(await storage.getConflicts()).toEqual({});
+    });
+
+    it("should notify about new conflicts only once", async () => {
+      const notifySpy = vi.spyOn(notificationService, "notifyConflict").mockResolvedValue("");
+
+      const liveFolderId = await syncWithStrategy("manual");
+      await engine.syncLiveFolder(liveFolderId);
+
+      expect(notifySpy).toHaveBeenCalledTimes(1);
+      expect(notifySpy).toHaveBeenCalledWith("github", 1);
+    });
+
+    describe("resolveConflict", () => {
+      const setUpConflict = async () => {
+        vi.spyOn(notificationService, "notifyConflict").mockResolvedValue("");
+        const liveFolderId = await syncWithStrategy("manual");
+        const [conflict] = Object.values(await StorageManager.getInstance().getConflicts());
+        vi.spyOn(bookmarkManager, "getBookmark").mockResolvedValue({
+          ...renamed,
+          parentId: "folder-1",
+        });
+        return { liveFolderId, conflictId: conflict.id };
+      };
+
+      it("should keep the local edit and stop reporting it", async () => {
+        const { liveFolderId, conflictId } = await setUpConflict();
+        const updateSpy = vi.spyOn(bookmarkManager, "updateBookmark").mockResolvedValue();
+
+        await engine.resolveConflict(conflictId, { action: "keep_local" });
+
+        const storage = StorageManager.getInstance();
+        expect(updateSpy).not.toHaveBeenCalled();
+        expect(await storage.getConflicts()).toEqual({});
+        const records = await storage.getBookmarkMetadata(liveFolderId);
+        expect(records["item-1"].localHash).toBe(hashBookmarkContent(renamed));
+
+        const diff = await engine.calculateDiff("folder-1", [createItem()], records);
+        expect(diff.localEdits).toEqual([]);
+      });
+
+      it("should restore the remote version", async () => {
+        const { liveFolderId, conflictId } = await setUpConflict();
+        const updateSpy = vi.spyOn(bookmarkManager, "updateBookmark").mockResolvedValue();
+
+        await engine.resolveConflict(conflictId, { action: "keep_remote" });
+
+        expect(updateSpy).toHaveBeenCalledWith("b-1", {
+          title: "Fix login",
+          url: "https://github.com/acme/app/pull/1",
+        });
+        const records = await StorageManager.getInstance().getBookmarkMetadata(liveFolderId);
+        expect(records["item-1"].localHash).toBeUndefined();
+      });
+
+      it("should save the local version next to the live folder when keeping both", async () => {
+        const { conflictId } = await setUpConflict();
+        vi.spyOn(bookmarkManager, "updateBookmark").mockResolvedValue();
+        vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+          id: "folder-1",
+          parentId: "parent-1",
+          title: "Mine",
+        });
+        const createSpy = vi.spyOn(bookmarkManager, "createBookmark").mockResolvedValue("b-copy");
+
+        await engine.resolveConflict(conflictId, { action: "keep_both" });
+
+        expect(createSpy).toHaveBeenCalledWith(
+          "parent-1",
+          expect.objectContaining({ title: "My login fix" }),
+        );
+      });
+
+      it("should delete the bookmark and its record", async () => {
+        const { liveFolderId, conflictId } = await setUpConflict();
+        const deleteSpy = vi.spyOn(bookmarkManager, "deleteBookmark").mockResolvedValue();
+
+        await engine.resolveConflict(conflictId, { action: "delete_both" });
+
+        expect(deleteSpy).toHaveBeenCalledWith("b-1");
+        const records = await StorageManager.getInstance().getBookmarkMetadata(liveFolderId);
+        expect(records["item-1"]).toBeUndefined();
+      });
+
+      it("should fail for unknown conflicts", async () => {
+        await expect(engine.resolveConflict("missing", { action: "keep_local" })).rejects.toThrow(
+          "Conflict missing not found",
+        );
+      });
+    });
+  });
+
+  describe("applyChanges", () => {
+    it("should store hashes and drop records of removed items", async () => {
+      const storage = StorageManager.getInstance();
+      const liveFolder = {
+        id: "lf-1",
+        providerId: "github",
+        name: "Mine",
+        folderId: "folder-1",
+        enabled: true,
+        createdAt: 1,
+      } as LiveFolder;
+      await storage.saveBookmarkMetadata("lf-1", {
+        "item-1": createRecord(),
+        "item-2": createRecord({ itemId: "item-2", bookmarkId: "b-2" }),
+      });
+      vi.spyOn(bookmarkManager, "batchDelete").mockResolvedValue();
+      vi.spyOn(bookmarkManager, "batchUpdate").mockResolvedValue();
+
+      const moved = createItem({ url: "https://github.com/acme/renamed/pull/1" });
+      await engine.applyChanges(liveFolder, {
+        toAdd: [],
+        toUpdate: [{ bookmarkId: "b-1", oldItem: createItem(), newItem: moved }],
+        toDelete: ["b-2"],
+        unchanged: [],
+      });
+
+      expect(bookmarkManager.batchUpdate).toHaveBeenCalledWith([
+        {
+          bookmarkId: "b-1",
+          changes: { title: "Fix login", url: "https://github.com/acme/renamed/pull/1" },
+        },
+      ]);
+
+      const metadata = await storage.getBookmarkMetadata("lf-1");
+      expect(Object.keys(metadata)).toEqual(["item-1"]);
+      expect(metadata["item-1"].hash).toBe(hashBookmarkContent(moved));
+    });
+
+    it("should link created bookmarks to the right items after sorting", async () => {
+      const storage = StorageManager.getInstance();
+      const liveFolder = { id: "lf-1", providerId: "github", folderId: "folder-1" } as LiveFolder;
+      vi.spyOn(bookmarkManager, "batchCreate").mockResolvedValue(["b-a", "b-z"]);
+
+      await engine.applyChanges(
+        liveFolder,
+        {
+          toAdd: [createItem({ id: "z", title: "Zebra" }), createItem({ id: "a", title: "Apple" })],
+          toUpdate: [],
+          toDelete: [],
+          unchanged: [],
+        },
+        "alphabetical",
+      );
+
+      const metadata = await storage.getBookmarkMetadata("lf-1");
+      expect(metadata.a.bookmarkId).toBe("b-a");
+      expect(metadata.z.bookmarkId).toBe("b-z");
+    });
+  });
+
+  describe("sync journal", () => {
+    it("should record the items a sync added and removed", async () => {
+      const storage = StorageManager.getInstance();
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+      const liveFolderId = liveFolder?.id as string;
+      await storage.saveBookmarkMetadata(liveFolderId, {
+        "item-old": createRecord({ itemId: "item-old", bookmarkId: "b-old" }),
+      });
+
+      vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+        id: "folder-1",
+        title: "Mine",
+      } as BookmarkNode);
+      mockFolderContents([{ id: "b-old", title: "Gone", url: "https://example.com/gone" }]);
+      vi.spyOn(bookmarkManager, "batchCreate").mockResolvedValue(["b-new"]);
+      vi.spyOn(bookmarkManager, "batchDelete").mockResolvedValue();
+      vi.spyOn(bookmarkManager, "reorderFolder").mockResolvedValue();
+      vi.spyOn(ProviderRegistry.getInstance(), "fetchProviderItems").mockResolvedValue([
+        createItem(),
+      ]);
+
+      const result = await engine.syncLiveFolder(liveFolderId);
+
+      expect(result.success).toBe(true);
+      const [entry] = await storage.getProviderSyncJournal("github");
+      expect(entry).toMatchObject({
+        liveFolderId,
+        liveFolderName: "Mine",
+        success: true,
+        added: [{ itemId: "item-1", title: "Fix login" }],
+        updated: [],
+        removed: [{ itemId: "item-old", title: "Gone" }],
+      });
+
+      const undo = await storage.getProviderSyncUndo("github");
+      expect(undo?.folders[liveFolderId]).toMatchObject({
+        folderTitle: "Mine",
+        added: ["b-new"],
+        deleted: [{ itemId: "item-old", title: "Gone", url: "https://example.com/gone", index: 0 }],
+      });
+      expect(undo?.folders[liveFolderId].records["item-old"].bookmarkId).toBe("b-old");
+    });
+  });
+
+  describe("failures", () => {
+    it("should report the provider error type and requested wait", async () => {
+      const storage = StorageManager.getInstance();
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+
+      vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+        id: "folder-1",
+        title: "Mine",
+      } as BookmarkNode);
+      vi.spyOn(ProviderRegistry.getInstance(), "fetchProviderItems").mockRejectedValue(
+        new ProviderError(ProviderErrorType.RATE_LIMITED, "github rate limit exceeded", {
+          providerId: "github",
+          status: 429,
+          retryAfter: 120000,
+        }),
+      );
+
+      const result = await engine.syncLiveFolder(liveFolder?.id as string);
+
+      expect(result).toMatchObject({
+        success: false,
+        error: "github rate limit exceeded",
+        errorType: ProviderErrorType.RATE_LIMITED,
+        retryAfter: 120000,
+      });
+    });
+
+    it("should ask once to reconnect when the provider rejects the credentials", async () => {
+      const storage = StorageManager.getInstance();
+      await storage.saveAuth("github", {
+        providerId: "github",
+        authenticated: true,
+        tokens: { accessToken: "revoked", tokenType: "Bearer", expiresAt: Date.now() + 60000 },
+      });
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+
+      vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+        id: "folder-1",
+        title: "Mine",
+      } as BookmarkNode);
+      vi.spyOn(ProviderRegistry.getInstance(), "fetchProviderItems").mockRejectedValue(
+        new ProviderError(ProviderErrorType.AUTH_EXPIRED, "Invalid GitHub token", {
+          providerId: "github",
+          status: 401,
+        }),
+      );
+      const notifyAuthRequired = vi
+        .spyOn(notificationService, "notifyAuthRequired")
+        .mockResolvedValue("notification-id");
+      const notify = vi.spyOn(notificationService, "notify").mockResolvedValue("notification-id");
+
+      await engine.syncLiveFolder(liveFolder?.id as string);
+      await engine.syncLiveFolder(liveFolder?.id as string);
+
+      expect(notifyAuthRequired).toHaveBeenCalledTimes(1);
+      expect(notifyAuthRequired).toHaveBeenCalledWith("github", expect.any(String));
+      expect(notify).not.toHaveBeenCalled();
+      expect(await storage.getAuth("github")).toMatchObject({
+        authenticated: false,
+        needsReauth: true,
+      });
+    });
+  });
+
+  describe("archive", () => {
+    const liveFolder = { id: "lf-1", providerId: "github", folderId: "folder-1" } as LiveFolder;
+
+    const enableArchive = async (archive: Partial<ArchiveOptions> = {}) => {
+      await StorageManager.getInstance().saveProvider("github", {
+        config: {
+          enabled: true,
+          archive: { ...DEFAULT_ARCHIVE_OPTIONS, enabled: true, ...archive },
+        },
+      });
+    };
+
+    it("should move removed bookmarks to the archive subfolder instead of deleting them", async () => {
+      await enableArchive();
+      vi.spyOn(bookmarkManager, "createFolder").mockResolvedValue("archive-1");
+      const moveSpy = vi.spyOn(bookmarkManager, "batchMove").mockResolvedValue(["b-2"]);
+      const deleteSpy = vi.spyOn(bookmarkManager, "batchDelete").mockResolvedValue();
+
+      const applied = await engine.applyChanges(liveFolder, {
+        toAdd: [],
+        toUpdate: [],
+        toDelete: ["b-2"],
+        unchanged: [],
+      });
+
+      expect(applied.archived).toEqual(["b-2"]);
+      expect(bookmarkManager.createFolder).toHaveBeenCalledWith("Recently closed", "folder-1");
+      expect(moveSpy).toHaveBeenCalledWith(["b-2"], "archive-1");
+      expect(deleteSpy).not.toHaveBeenCalled();
+
+      const archive = await StorageManager.getInstance().getArchive("lf-1");
+      expect(archive?.folderId).toBe("archive-1");
+      expect(archive?.archivedAt["b-2"]).toBeTypeOf("number");
+    });
+
+    it("should prune archived bookmarks beyond the retention count", async () => {
+      await enableArchive({ retention: "count", maxItems: 1 });
+      await StorageManager.getInstance().saveArchive("lf-1", {
+        folderId: "archive-1",
+        archivedAt: { "b-old": 1, "b-new": 2, "b-gone": 3 },
+      });
+      mockFolderContents([{ id: "b-old" }, { id: "b-new" }]);
+      const deleteSpy = vi.spyOn(bookmarkManager, "batchDelete").mockResolvedValue();
+
+      await engine.pruneArchive(liveFolder);
+
+      expect(deleteSpy).toHaveBeenCalledWith(["b-old"]);
+      const archive = await StorageManager.getInstance().getArchive("lf-1");
+      expect(archive?.archivedAt).toEqual({ "b-new": 2 });
+    });
+
+    it("should prune archived bookmarks older than the retention days", async () => {
+      await enableArchive({ retention: "days", maxDays: 7 });
+      const recent = Date.now() - 24 * 60 * 60 * 1000;
+      await StorageManager.getInstance().saveArchive("lf-1", {
+        folderId: "archive-1",
+        archivedAt: { "b-old": 1, "b-new": recent },
+      });
+      mockFolderContents([{ id: "b-old" }, { id: "b-new" }]);
+      const deleteSpy = vi.spyOn(bookmarkManager, "batchDelete").mockResolvedValue();
+
+      await engine.pruneArchive(liveFolder);
+
+      expect(deleteSpy).toHaveBeenCalledWith(["b-old"]);
+    });
+  });
+
+  describe("undoLastSync", () => {
+    it("should revert the last sync and pause the provider", async () => {
+      const storage = StorageManager.getInstance();
+      await storage.saveProvider("github", { config: { enabled: true } });
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+      const liveFolderId = liveFolder?.id as string;
+      await storage.saveSyncUndoFolder("github", {
+        liveFolderId,
+        liveFolderName: "Mine",
+        folderId: "folder-1",
+        folderTitle: "Mine (3)",
+        timestamp: 1,
+        added: ["b-new"],
+        updated: [{ bookmarkId: "b-1", title: "Old title", url: "https://example.com/1" }],
+        deleted: [
+          {
+            bookmarkId: "b-old",
+            itemId: "item-old",
+            title: "Gone",
+            url: "https://example.com/gone",
+            index: 4,
+          },
+        ],
+        records: { "item-old": createRecord({ itemId: "item-old", bookmarkId: "b-old" }) },
+      });
+
+      mockFolderContents([{ id: "b-1" }, { id: "b-2" }]);
+      vi.spyOn(bookmarkManager, "batchDelete").mockResolvedValue();
+      vi.spyOn(bookmarkManager, "batchUpdate").mockResolvedValue();
+      vi.spyOn(bookmarkManager, "updateBookmark").mockResolvedValue();
+      const createSpy = vi.spyOn(bookmarkManager, "createBookmark").mockResolvedValue("b-restored");
+
+      const result = await engine.undoLastSync("github");
+
+      expect(result).toEqual({
+        providerId: "github",
+        itemsRemoved: 1,
+        itemsReverted: 1,
+        itemsRestored: 1,
+      });
+      expect(bookmarkManager.batchDelete).toHaveBeenCalledWith(["b-new"]);
+      expect(bookmarkManager.batchUpdate).toHaveBeenCalledWith([
+        { bookmarkId: "b-1", changes: { title: "Old title", url: "https://example.com/1" } },
+      ]);
+      expect(createSpy).toHaveBeenCalledWith(
+        "folder-1",
+        expect.objectContaining({ title: "Gone", url: "https://example.com/gone" }),
+        2,
+      );
+      expect(bookmarkManager.updateBookmark).toHaveBeenCalledWith("folder-1", {
+        title: "Mine (3)",
+      });
+
+      const metadata = await storage.getBookmarkMetadata(liveFolderId);
+      expect(metadata["item-old"].bookmarkId).toBe("b-restored");
+      expect((await storage.getProvider("github"))?.config.enabled).toBe(false);
+      expect(await storage.getProviderSyncUndo("github")).toBeNull();
+    });
+
+    it("should fail when there is nothing to undo", async () => {
+      await expect(engine.undoLastSync("github")).rejects.toThrow("No sync to undo for github");
+    });
+  });
+
+  describe("dry run", () => {
+    it("should return a preview without changing bookmarks or sync status", async () => {
+      const storage = StorageManager.getInstance();
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+      const liveFolderId = liveFolder?.id as string;
+
+      vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+        id: "folder-1",
+        title: "Mine",
+      } as BookmarkNode);
+      mockFolderContents([{ id: "b-old", title: "Gone", url: "https://example.com/gone" }]);
+      vi.spyOn(ProviderRegistry.getInstance(), "fetchProviderItems").mockResolvedValue([
+        createItem({ id: "b", title: "Beta" }),
+        createItem({ id: "a", title: "Alpha", url: "https://example.com/a" }),
+      ]);
+      const applySpy = vi.spyOn(engine, "applyChanges");
+
+      const result = await engine.syncLiveFolder(liveFolderId, { dryRun: true });
+
+      expect(result.success).toBe(true);
+      expect(applySpy).not.toHaveBeenCalled();
+      expect(result.preview?.toAdd.map((item) => item.id)).toEqual(["b", "a"]);
+      expect(result.preview?.toDelete).toEqual([
+        { bookmarkId: "b-old", title: "Gone", url: "https://example.com/gone", index: 0 },
+      ]);
+      expect(result.preview?.order).toEqual(["Alpha", "Beta"]);
+      expect((await storage.getLiveFolder(liveFolderId))?.lastSync).toBeUndefined();
+    });
+
+    it("should report local edits without resolving them", async () => {
+      const storage = StorageManager.getInstance();
+      await storage.saveProvider("github", {
+        config: { enabled: true, conflictStrategy: "manual" },
+      });
+      const { data: liveFolder } = await storage.createLiveFolder("github", {
+        name: "Mine",
+        folderId: "folder-1",
+      });
+      const liveFolderId = liveFolder?.id as string;
+      await storage.saveBookmarkMetadata(liveFolderId, { "item-1": createRecord() });
+
+      vi.spyOn(bookmarkManager, "getFolder").mockResolvedValue({
+        id: "folder-1",
+        title: "Mine",
+      } as BookmarkNode);
+      mockFolderContents([
+        { id: "b-1", title: "My login fix", url: "https://github.com/acme/app/pull/1" },
+      ]);
+      vi.spyOn(ProviderRegistry.getInstance(), "fetchProviderItems").mockResolvedValue([
+        createItem(),
+      ]);
+      const detectSpy = vi.spyOn(ConflictResolver.getInstance(), "detectLocalEdit");
+
+      const result = await engine.syncLiveFolder(liveFolderId, { dryRun: true });
+
+      expect(result.preview?.localEdits).toMatchObject([
+        { bookmarkId: "b-1", local: { title: "My login fix" }, remote: { title: "Fix login" } },
+      ]);
+      expect(result.preview?.toUpdate).toEqual([]);
+      expect(detectSpy).not.toHaveBeenCalled();
+    });
+  });
+});
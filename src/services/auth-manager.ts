@@ -9,8 +9,11 @@ import type {
   AuthState,
   AuthTokens,
   AuthUser,
+  DeviceAuthorization,
   OAuthCodeResponse,
   OAuthConfig,
+  OAuthDeviceCodeResponse,
+  OAuthErrorResponse,
   OAuthTokenResponse,
 } from "@/types";
 import { AuthErrorType } from "@/types";
@@ -28,6 +31,42 @@ type AuthEventListener = (event: AuthEvent) => void;
  */
 type TokenRefreshCallback = (providerId: string, tokens: AuthTokens) => Promise<void>;
 
+/**
+ * Device flow completion callback, run once the token is saved
+ */
+type DeviceFlowCallback = (authState: AuthState) => Promise<void>;
+
+/**
+ * Settles the promise of a device flow sign-in started in this context
+ */
+interface DeviceFlowWaiter {
+  resolve: (authState: AuthState) => void;
+  reject: (error: AuthError) => void;
+}
+
+/**
+ * Grant type for polling the token endpoint in the device flow (RFC 8628)
+ */
+const DEVICE_CODE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code";
+
+/** Polling interval when the server doesn't send one (seconds) */
+const DEFAULT_DEVICE_POLL_INTERVAL = 5;
+
+/** Added to the polling interval on every "slow_down" without a new interval (seconds) */
+const DEVICE_SLOW_DOWN_INCREMENT = 5;
+
+/** Alarm names for device flow polls are this prefix plus the provider ID */
+const DEVICE_AUTH_ALARM_PREFIX = "device-auth-";
+
+/** Alarm names for token refreshes are this prefix plus the provider ID */
+const TOKEN_REFRESH_ALARM_PREFIX = "token-refresh-";
+
+/** Tokens are refreshed this long before they expire */
+const TOKEN_REFRESH_WINDOW = 5 * 60 * 1000;
+
+/** Lifetime given to tokens the server sends without expiry or refresh token */
+const NON_EXPIRING_TOKEN_LIFETIME = 365 * 24 * 60 * 60 * 1000;
+
 /**
  * Authentication Manager
  * Centralized authentication handling for all providers
@@ -37,15 +76,24 @@ export class AuthManager {
   private logger: Logger;
   private eventListeners: Map<string, Set<AuthEventListener>>;
   private refreshCallbacks: Map<string, TokenRefreshCallback>;
-  private refreshTimers: Map<string, number>;
+  private refreshesInFlight: Map<string, Promise<AuthTokens>>;
+  /** Registers providers, and with them OAuth configs; set by the background worker */
+  private prepare: (() => Promise<void>) | null = null;
+  private preparing: Promise<void> | null = null;
   private oauthConfigs: Map<string, OAuthConfig>;
+  private deviceFlows: Map<string, DeviceFlowWaiter>;
+  private deviceFlowCallbacks: Map<string, DeviceFlowCallback>;
+  private reauthMarking: Set<string>;
 
   private constructor() {
     this.logger = new Logger("AuthManager");
     this.eventListeners = new Map();
     this.refreshCallbacks = new Map();
-    this.refreshTimers = new Map();
+    this.refreshesInFlight = new Map();
     this.oauthConfigs = new Map();
+    this.deviceFlows = new Map();
+    this.deviceFlowCallbacks = new Map();
+    this.reauthMarking = new Set();
   }
 
   /**
@@ -64,12 +112,26 @@ export class AuthManager {
   public async initialize(): Promise<void> {
     this.logger.info("Initializing AuthManager");
 
+    await this.ensurePrepared();
+
     // Schedule token refreshes for all authenticated providers
     await this.scheduleAllTokenRefreshes();
 
+    // Pick up device flow sign-ins that were pending when the worker stopped
+    await this.resumeDeviceFlows();
+
     this.logger.info("AuthManager initialized");
   }
 
+  /**
+   * Set how providers (and their OAuth configs) get registered
+   * An alarm can wake the worker before anything else ran, so alarm handling
+   * waits for this first.
+   */
+  public setPrepare(prepare: () => Promise<void>): void {
+    this.prepare = prepare;
+  }
+
   /**
    * Register OAuth configuration for a provider
    */
@@ -86,6 +148,15 @@ export class AuthManager {
     this.refreshCallbacks.set(providerId, callback);
   }
 
+  /**
+   * Register a callback that finishes a provider's device flow sign-in
+   * Runs after the token is saved, also for sign-ins resumed after the worker restarted.
+   */
+  public registerDeviceFlowCallback(providerId: string, callback: DeviceFlowCallback): void {
+    this.logger.debug("Registering device flow callback", { providerId });
+    this.deviceFlowCallbacks.set(providerId, callback);
+  }
+
   /**
    * Authenticate a provider using OAuth 2.0
    */
@@ -101,12 +172,26 @@ export class AuthManager {
       );
     }
 
+    // Without a secret, PKCE is what proves the token request comes from us
+    const usePkce = config.pkce !== false;
+    if (!usePkce && !config.clientSecret) {
+      throw this.createError(
+        AuthErrorType.INVALID_CONFIG,
+        `OAuth for ${providerId} needs PKCE or a client secret`,
+        providerId,
+      );
+    }
+
     try {
       // Generate CSRF state
       const state = this.generateState();
 
+      // Generate PKCE code verifier; only its hash goes into the authorization URL
+      const codeVerifier = usePkce ? this.generateCodeVerifier() : undefined;
+      const codeChallenge = codeVerifier ? await this.createCodeChallenge(codeVerifier) : undefined;
+
       // Build authorization URL
-      const authUrl = this.buildAuthUrl(config, state);
+      const authUrl = this.buildAuthUrl(config, state, codeChallenge);
 
       // Launch OAuth flow
       this.logger.debug("Launching OAuth flow", { providerId, authUrl });
@@ -127,7 +212,7 @@ export class AuthManager {
       }
 
       // Exchange code for tokens
-      const tokens = await this.exchangeCodeForTokens(config, codeResponse.code);
+      const tokens = await this.exchangeCodeForTokens(config, codeResponse.code, codeVerifier);
 
       // Create auth state
       const authState: AuthState = {
@@ -149,7 +234,7 @@ export class AuthManager {
       }
 
       // Schedule token refresh
-      this.scheduleTokenRefresh(providerId, tokens);
+      await this.scheduleTokenRefresh(providerId, tokens);
 
       // Emit success event
       this.emitEvent({
@@ -202,6 +287,94 @@ export class AuthManager {
     }
   }
 
+  /**
+   * Authenticate a provider using the OAuth 2.0 device flow (RFC 8628)
+   * For servers that don't accept the extension's redirect URI. `onAuthorization`
+   * receives the code the user enters on the verification page; the returned
+   * promise settles once the token is granted, refused or the code expires.
+   * The pending sign-in is kept in storage and polled from alarms, so it survives
+   * the service worker being suspended; the promise only settles if this context
+   * is still running then.
+   */
+  public async authenticateWithDeviceFlow(
+    providerId: string,
+    onAuthorization: (authorization: DeviceAuthorization) => void,
+  ): Promise<AuthState> {
+    this.logger.info("Starting device flow authentication", { providerId });
+
+    const config = this.oauthConfigs.get(providerId);
+    if (!config?.deviceCodeUrl) {
+      throw this.createError(
+        AuthErrorType.INVALID_CONFIG,
+        `No device flow config for provider: ${providerId}`,
+        providerId,
+      );
+    }
+
+    // Only one sign-in per provider; starting again replaces the previous code
+    await this.cancelDeviceFlow(providerId);
+
+    let deviceCode: OAuthDeviceCodeResponse;
+    try {
+      deviceCode = await this.requestDeviceCode(config);
+    } catch (error) {
+      const authError = this.toAuthError(error, providerId);
+      await this.failDeviceFlow(
+        {
+          providerId,
+          userCode: "",
+          verificationUri: "",
+          expiresAt: Date.now(),
+          interval: 0,
+          status: "pending",
+        },
+        authError,
+      );
+      throw authError;
+    }
+
+    const authorization: DeviceAuthorization = {
+      providerId,
+      userCode: deviceCode.user_code,
+      verificationUri: deviceCode.verification_uri,
+      expiresAt: Date.now() + deviceCode.expires_in * 1000,
+      interval: (deviceCode.interval || DEFAULT_DEVICE_POLL_INTERVAL) * 1000,
+      status: "pending",
+      deviceCode: deviceCode.device_code,
+    };
+
+    const completion = new Promise<AuthState>((resolve, reject) => {
+      this.deviceFlows.set(providerId, { resolve, reject });
+    });
+
+    await storageManager.saveDeviceAuthorization(authorization);
+    await this.scheduleDevicePoll(providerId, authorization.interval);
+    onAuthorization(authorization);
+
+    return completion;
+  }
+
+  /**
+   * Stop polling for a provider's device flow sign-in and forget its code
+   */
+  public async cancelDeviceFlow(providerId: string): Promise<void> {
+    await this.clearDevicePollAlarm(providerId);
+
+    const authorization = (await storageManager.getDeviceAuthorizations())[providerId];
+    if (authorization?.status === "pending") {
+      this.logger.info("Cancelling device flow", { providerId });
+      await storageManager.deleteDeviceAuthorization(providerId);
+    }
+
+    const waiter = this.deviceFlows.get(providerId);
+    if (waiter) {
+      this.deviceFlows.delete(providerId);
+      waiter.reject(
+        this.createError(AuthErrorType.USER_CANCELLED, "Device sign-in cancelled", providerId),
+      );
+    }
+  }
+
   /**
    * Check if a provider is authenticated
    */
@@ -229,12 +402,21 @@ export class AuthManager {
       return null;
     }
 
-    // Check if token needs refresh
-    if (this.isTokenExpiringSoon(authState.tokens)) {
+    // Refresh lazily too, in case the alarm hasn't fired yet
+    if (
+      this.isTokenExpiringSoon(authState.tokens) &&
+      this.canRefresh(providerId, authState.tokens)
+    ) {
       this.logger.debug("Token expiring soon, refreshing", { providerId });
-      await this.refreshToken(providerId);
-      const updatedState = await storageManager.getAuth(providerId);
-      return updatedState?.tokens?.accessToken || null;
+      try {
+        return (await this.refreshToken(providerId)).accessToken;
+      } catch (error) {
+        // The current token still works until it actually expires
+        if (this.isTokenExpired(authState.tokens)) {
+          throw error;
+        }
+        this.logger.warn("Token refresh failed, using current token", { providerId });
+      }
     }
 
     return authState.tokens.accessToken;
@@ -242,8 +424,27 @@ export class AuthManager {
 
   /**
    * Refresh access token
+   * Concurrent calls share one refresh, so a refresh token is never redeemed twice
+   * (servers that rotate refresh tokens reject the second use).
    */
-  public async refreshToken(providerId: string): Promise<AuthTokens> {
+  public refreshToken(providerId: string): Promise<AuthTokens> {
+    const inFlight = this.refreshesInFlight.get(providerId);
+    if (inFlight) {
+      this.logger.debug("Joining token refresh in progress", { providerId });
+      return inFlight;
+    }
+
+    const refresh = this.performTokenRefresh(providerId).finally(() => {
+      this.refreshesInFlight.delete(providerId);
+    });
+    this.refreshesInFlight.set(providerId, refresh);
+    return refresh;
+  }
+
+  /**
+   * Refresh the access token with the refresh token (or the provider's callback)
+   */
+  private async performTokenRefresh(providerId: string): Promise<AuthTokens> {
     this.logger.info("Refreshing token", { providerId });
 
     const authState = await storageManager.getAuth(providerId);
@@ -304,7 +505,7 @@ export class AuthManager {
       }
 
       // Reschedule token refresh
-      this.scheduleTokenRefresh(providerId, newTokens);
+      await this.scheduleTokenRefresh(providerId, newTokens);
 
       // Emit refresh event
       this.emitEvent({
@@ -337,8 +538,8 @@ export class AuthManager {
   public async revokeAuth(providerId: string): Promise<void> {
     this.logger.info("Revoking authentication", { providerId });
 
-    // Clear refresh timer
-    this.clearTokenRefreshTimer(providerId);
+    // Clear refresh alarm
+    await this.clearTokenRefreshAlarm(providerId);
 
     // Delete auth state
     const result = await storageManager.deleteAuth(providerId);
@@ -360,6 +561,55 @@ export class AuthManager {
     this.logger.info("Authentication revoked", { providerId });
   }
 
+  /**
+   * Mark a provider's credentials as rejected, e.g. after a 401 for a revoked token
+   * Syncing stops until the user reconnects, which saves a fresh auth state. Returns
+   * true only for the call that marked it, so callers can notify the user once.
+   */
+  public async markReauthRequired(providerId: string): Promise<boolean> {
+    // Parallel syncs of the provider's live folders fail together
+    if (this.reauthMarking.has(providerId)) {
+      return false;
+    }
+    this.reauthMarking.add(providerId);
+
+    try {
+      const authState = await storageManager.getAuth(providerId);
+
+      // Nothing to reconnect if the provider was never connected
+      if (!authState?.authenticated || authState.needsReauth) {
+        return false;
+      }
+
+      this.logger.warn("Credentials rejected, re-authentication required", { providerId });
+
+      await this.clearTokenRefreshAlarm(providerId);
+
+      const result = await storageManager.saveAuth(providerId, {
+        ...authState,
+        authenticated: false,
+        needsReauth: true,
+      });
+      if (!result.success) {
+        throw this.createError(
+          AuthErrorType.UNKNOWN,
+          result.error || "Failed to save auth state",
+          providerId,
+        );
+      }
+
+      this.emitEvent({
+        type: "reauth_required",
+        providerId,
+        timestamp: Date.now(),
+      });
+
+      return true;
+    } finally {
+      this.reauthMarking.delete(providerId);
+    }
+  }
+
   /**
    * Get authentication state for a provider
    */
@@ -387,7 +637,7 @@ export class AuthManager {
   /**
    * Build OAuth authorization URL
    */
-  private buildAuthUrl(config: OAuthConfig, state: string): string {
+  private buildAuthUrl(config: OAuthConfig, state: string, codeChallenge?: string): string {
     const params = new URLSearchParams({
       client_id: config.clientId,
       redirect_uri: config.redirectUri,
@@ -397,6 +647,11 @@ export class AuthManager {
       ...config.additionalParams,
     });
 
+    if (codeChallenge) {
+      params.set("code_challenge", codeChallenge);
+      params.set("code_challenge_method", "S256");
+    }
+
     return `${config.authUrl}?${params.toString()}`;
   }
 
@@ -428,7 +683,11 @@ export class AuthManager {
   /**
    * Exchange authorization code for tokens
    */
-  private async exchangeCodeForTokens(config: OAuthConfig, code: string): Promise<AuthTokens> {
+  private async exchangeCodeForTokens(
+    config: OAuthConfig,
+    code: string,
+    codeVerifier?: string,
+  ): Promise<AuthTokens> {
     const params = new URLSearchParams({
       grant_type: "authorization_code",
       code,
@@ -436,6 +695,10 @@ export class AuthManager {
       client_id: config.clientId,
     });
 
+    if (codeVerifier) {
+      params.append("code_verifier", codeVerifier);
+    }
+
     if (config.clientSecret) {
       params.append("client_secret", config.clientSecret);
     }
@@ -466,6 +729,294 @@ export class AuthManager {
     return this.parseTokenResponse(data);
   }
 
+  /**
+   * Request a device and user code for the device flow
+   */
+  private async requestDeviceCode(config: OAuthConfig): Promise<OAuthDeviceCodeResponse> {
+    const params = new URLSearchParams({
+      client_id: config.clientId,
+      scope: config.scopes.join(" "),
+    });
+
+    const response = await fetch(config.deviceCodeUrl as string, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+        Accept: "application/json",
+      },
+      body: params.toString(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Device code request failed: ${response.status} ${response.statusText} - ${errorText}`,
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Poll the token endpoint once for a pending device flow sign-in
+   * Schedules the next poll while the user hasn't answered yet, and saves the token
+   * or the failure once they have.
+   */
+  private async pollDeviceFlow(providerId: string): Promise<void> {
+    const authorization = (await storageManager.getDeviceAuthorizations())[providerId];
+    if (authorization?.status !== "pending" || !authorization.deviceCode) {
+      return;
+    }
+
+    try {
+      const config = this.oauthConfigs.get(providerId);
+      if (!config) {
+        throw this.createError(
+          AuthErrorType.INVALID_CONFIG,
+          `No device flow config for provider: ${providerId}`,
+          providerId,
+        );
+      }
+      if (Date.now() >= authorization.expiresAt) {
+        throw this.createError(AuthErrorType.TOKEN_EXPIRED, "The code expired", providerId);
+      }
+
+      const tokens = await this.requestDeviceToken(config, authorization);
+
+      // Cancelled or replaced while the request was in flight
+      if (!(await this.isCurrentDeviceFlow(authorization))) {
+        return;
+      }
+
+      if (tokens) {
+        await this.completeDeviceFlow(providerId, tokens);
+      } else {
+        await this.scheduleDevicePoll(providerId, authorization.interval);
+      }
+    } catch (error) {
+      if (await this.isCurrentDeviceFlow(authorization)) {
+        await this.failDeviceFlow(authorization, this.toAuthError(error, providerId));
+      }
+    }
+  }
+
+  /**
+   * Ask the token endpoint whether the user approved the device code
+   * Returns null while they haven't; a "slow_down" answer raises the stored
+   * polling interval (and `authorization.interval`), as RFC 8628 requires.
+   * Network failures, server errors and answers that aren't JSON (e.g. a proxy's
+   * error page) also return null, so polling goes on until the code expires.
+   */
+  private async requestDeviceToken(
+    config: OAuthConfig,
+    authorization: DeviceAuthorization,
+  ): Promise<AuthTokens | null> {
+    const { providerId } = authorization;
+
+    const params = new URLSearchParams({
+      grant_type: DEVICE_CODE_GRANT_TYPE,
+      device_code: authorization.deviceCode as string,
+      client_id: config.clientId,
+    });
+
+    if (config.clientSecret) {
+      params.append("client_secret", config.clientSecret);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(config.tokenUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/x-www-form-urlencoded",
+          Accept: "application/json",
+        },
+        body: params.toString(),
+      });
+    } catch (error) {
+      this.logger.warn("Device flow poll failed, trying again", { providerId, error });
+      return null;
+    }
+
+    // Pending and refused grants come back as errors, with a 200 on GitHub and a 400 elsewhere
+    const data = (await response.json().catch(() => null)) as
+      | (OAuthTokenResponse & Partial<OAuthErrorResponse>)
+      | null;
+    if (!data || (response.status >= 500 && !data.error)) {
+      this.logger.warn("Unexpected device flow poll response, trying again", {
+        providerId,
+        status: response.status,
+      });
+      return null;
+    }
+
+    if (!data.error && data.access_token) {
+      return this.parseTokenResponse(data);
+    }
+
+    switch (data.error) {
+      case "authorization_pending":
+        return null;
+      case "slow_down":
+        authorization.interval = data.interval
+          ? data.interval * 1000
+          : authorization.interval + DEVICE_SLOW_DOWN_INCREMENT * 1000;
+        this.logger.debug("Device flow polling slowed down", {
+          providerId,
+          interval: authorization.interval,
+        });
+        await storageManager.saveDeviceAuthorization(authorization);
+        return null;
+      case "expired_token":
+        throw this.createError(AuthErrorType.TOKEN_EXPIRED, "The code expired", providerId);
+      case "access_denied":
+        throw this.createError(AuthErrorType.INVALID_CREDENTIALS, "Sign-in was denied", providerId);
+      default:
+        throw this.createError(
+          AuthErrorType.UNKNOWN,
+          data.error_description || data.error || `Token request failed: ${response.status}`,
+          providerId,
+        );
+    }
+  }
+
+  /**
+   * Save the token of an approved device flow sign-in
+   */
+  private async completeDeviceFlow(providerId: string, tokens: AuthTokens): Promise<void> {
+    const authState: AuthState = {
+      providerId,
+      authenticated: true,
+      tokens,
+      lastAuth: Date.now(),
+    };
+
+    const result = await storageManager.saveAuth(providerId, authState);
+    if (!result.success) {
+      throw this.createError(
+        AuthErrorType.UNKNOWN,
+        result.error || "Failed to save auth state",
+        providerId,
+      );
+    }
+
+    // Let the provider add what it needs (e.g. the user) before views see the sign-in finish
+    const callback = this.deviceFlowCallbacks.get(providerId);
+    if (callback) {
+      try {
+        await callback(authState);
+      } catch (error) {
+        this.logger.error("Device flow callback failed", { providerId, error });
+      }
+    }
+
+    await storageManager.deleteDeviceAuthorization(providerId);
+
+    // Schedule token refresh
+    await this.scheduleTokenRefresh(providerId, tokens);
+
+    this.emitEvent({
+      type: "auth_success",
+      providerId,
+      timestamp: Date.now(),
+    });
+
+    this.logger.info("Device flow authentication successful", { providerId });
+
+    const waiter = this.deviceFlows.get(providerId);
+    this.deviceFlows.delete(providerId);
+    waiter?.resolve((await storageManager.getAuth(providerId)) ?? authState);
+  }
+
+  /**
+   * End a device flow sign-in that failed
+   * Expired codes are forgotten; refusals and errors are kept without the device
+   * code so the sidepanel can show why.
+   */
+  private async failDeviceFlow(
+    authorization: DeviceAuthorization,
+    authError: AuthError,
+  ): Promise<void> {
+    const { providerId } = authorization;
+
+    this.logger.error("Device flow authentication failed", {
+      providerId,
+      errorType: authError.type,
+      errorMessage: authError.message,
+    });
+
+    await this.clearDevicePollAlarm(providerId);
+
+    if (authError.type === AuthErrorType.TOKEN_EXPIRED) {
+      await storageManager.deleteDeviceAuthorization(providerId);
+    } else {
+      const { deviceCode: _deviceCode, ...failed } = authorization;
+      await storageManager.saveDeviceAuthorization({
+        ...failed,
+        status: authError.type === AuthErrorType.INVALID_CREDENTIALS ? "denied" : "error",
+        error: authError.message,
+      });
+    }
+
+    this.emitEvent({
+      type: "auth_failure",
+      providerId,
+      timestamp: Date.now(),
+      data: { error: authError.message },
+    });
+
+    const waiter = this.deviceFlows.get(providerId);
+    this.deviceFlows.delete(providerId);
+    waiter?.reject(authError);
+  }
+
+  /**
+   * Whether a device flow sign-in is still the stored, pending one
+   */
+  private async isCurrentDeviceFlow(authorization: DeviceAuthorization): Promise<boolean> {
+    const current = (await storageManager.getDeviceAuthorizations())[authorization.providerId];
+    return current?.status === "pending" && current.deviceCode === authorization.deviceCode;
+  }
+
+  /**
+   * Schedule the next device flow poll
+   * Chrome runs alarms no more often than every 30 seconds, so polls may come later
+   * than the interval asks; RFC 8628 only sets a minimum.
+   */
+  private async scheduleDevicePoll(providerId: string, interval: number): Promise<void> {
+    await browser.alarms.create(`${DEVICE_AUTH_ALARM_PREFIX}${providerId}`, {
+      when: Date.now() + interval,
+    });
+  }
+
+  /**
+   * Clear a provider's device flow poll alarm
+   */
+  private async clearDevicePollAlarm(providerId: string): Promise<void> {
+    await browser.alarms.clear(`${DEVICE_AUTH_ALARM_PREFIX}${providerId}`);
+  }
+
+  /**
+   * Reschedule polls for pending device flow sign-ins
+   */
+  private async resumeDeviceFlows(): Promise<void> {
+    const authorizations = await storageManager.getDeviceAuthorizations();
+    for (const authorization of Object.values(authorizations)) {
+      if (authorization.status !== "pending") {
+        continue;
+      }
+
+      // Sign-ins stored without a device code can't be polled
+      if (!authorization.deviceCode) {
+        await storageManager.deleteDeviceAuthorization(authorization.providerId);
+        continue;
+      }
+
+      this.logger.info("Resuming device flow", { providerId: authorization.providerId });
+      await this.scheduleDevicePoll(authorization.providerId, authorization.interval);
+    }
+  }
+
   /**
    * Refresh OAuth token
    */
@@ -501,12 +1052,16 @@ export class AuthManager {
    * Parse token response
    */
   private parseTokenResponse(data: OAuthTokenResponse, existingRefreshToken?: string): AuthTokens {
-    const expiresIn = data.expires_in || 3600; // Default to 1 hour
-    const expiresAt = Date.now() + expiresIn * 1000;
+    const refreshToken = data.refresh_token || existingRefreshToken;
+    // Without expiry or refresh token the token doesn't expire (e.g. GitHub OAuth apps)
+    const expiresAt =
+      !data.expires_in && !refreshToken
+        ? Date.now() + NON_EXPIRING_TOKEN_LIFETIME
+        : Date.now() + (data.expires_in || 3600) * 1000; // Default to 1 hour
 
     return {
       accessToken: data.access_token,
-      refreshToken: data.refresh_token || existingRefreshToken,
+      refreshToken,
       tokenType: data.token_type,
       expiresAt,
       scopes: data.scope ? data.scope.split(" ") : undefined,
@@ -521,38 +1076,45 @@ export class AuthManager {
   }
 
   /**
-   * Check if token is expiring soon (within 5 minutes)
+   * Check if token is expiring soon (within the refresh window)
    */
   private isTokenExpiringSoon(tokens: AuthTokens): boolean {
-    const fiveMinutes = 5 * 60 * 1000;
-    return Date.now() >= tokens.expiresAt - fiveMinutes;
+    return Date.now() >= tokens.expiresAt - TOKEN_REFRESH_WINDOW;
+  }
+
+  /**
+   * Check if a provider's token can be refreshed at all (PATs and some OAuth tokens can't)
+   */
+  private canRefresh(providerId: string, tokens: AuthTokens): boolean {
+    return Boolean(tokens.refreshToken) || this.refreshCallbacks.has(providerId);
   }
 
   /**
    * Schedule token refresh
+   * One alarm per provider, replacing any earlier one for it.
    */
-  private scheduleTokenRefresh(providerId: string, tokens: AuthTokens): void {
-    // Clear existing timer
-    this.clearTokenRefreshTimer(providerId);
+  private async scheduleTokenRefresh(providerId: string, tokens: AuthTokens): Promise<void> {
+    if (!this.canRefresh(providerId, tokens)) {
+      await this.clearTokenRefreshAlarm(providerId);
+      return;
+    }
 
-    // Calculate when to refresh (5 minutes before expiry)
-    const fiveMinutes = 5 * 60 * 1000;
-    const refreshAt = tokens.expiresAt - fiveMinutes;
-    const delay = Math.max(0, refreshAt - Date.now());
+    // Refresh within the window before expiry; alarms in the past fire right away
+    const refreshAt = Math.max(Date.now(), tokens.expiresAt - TOKEN_REFRESH_WINDOW);
 
     this.logger.debug("Scheduling token refresh", {
       providerId,
       refreshAt: new Date(refreshAt).toISOString(),
-      delay,
     });
 
-    const timerId = window.setTimeout(() => {
-      this.refreshToken(providerId).catch((error) => {
-        this.logger.error("Scheduled token refresh failed", { providerId, error }, error);
+    try {
+      await browser.alarms.create(`${TOKEN_REFRESH_ALARM_PREFIX}${providerId}`, {
+        when: refreshAt,
       });
-    }, delay);
-
-    this.refreshTimers.set(providerId, timerId);
+    } catch (error) {
+      // getToken still refreshes lazily
+      this.logger.warn("Failed to schedule token refresh", { providerId, error });
+    }
   }
 
   /**
@@ -568,20 +1130,57 @@ export class AuthManager {
 
       const authState = await storageManager.getAuth(providerId);
       if (authState?.authenticated && authState.tokens) {
-        this.scheduleTokenRefresh(providerId, authState.tokens);
+        await this.scheduleTokenRefresh(providerId, authState.tokens);
       }
     }
   }
 
   /**
-   * Clear token refresh timer
+   * Clear token refresh alarm
    */
-  private clearTokenRefreshTimer(providerId: string): void {
-    const timerId = this.refreshTimers.get(providerId);
-    if (timerId !== undefined) {
-      window.clearTimeout(timerId);
-      this.refreshTimers.delete(providerId);
+  private async clearTokenRefreshAlarm(providerId: string): Promise<void> {
+    await browser.alarms.clear(`${TOKEN_REFRESH_ALARM_PREFIX}${providerId}`);
+  }
+
+  /**
+   * Refresh a provider's token or poll its device flow when an alarm fires
+   * Alarms outlive the service worker, timers don't. Other alarms are ignored.
+   */
+  public async handleAlarm(alarm: { name: string }): Promise<void> {
+    if (alarm.name.startsWith(DEVICE_AUTH_ALARM_PREFIX)) {
+      const providerId = alarm.name.slice(DEVICE_AUTH_ALARM_PREFIX.length);
+      await this.ensurePrepared()
+        .then(() => this.pollDeviceFlow(providerId))
+        .catch((error) => {
+          this.logger.error("Device flow poll failed", { providerId, error });
+        });
+      return;
+    }
+
+    if (!alarm.name.startsWith(TOKEN_REFRESH_ALARM_PREFIX)) {
+      return;
     }
+
+    const providerId = alarm.name.slice(TOKEN_REFRESH_ALARM_PREFIX.length);
+    await this.ensurePrepared()
+      .then(() => this.refreshToken(providerId))
+      .catch((error) => {
+        this.logger.error("Scheduled token refresh failed", { providerId, error });
+      });
+  }
+
+  /**
+   * Run the prepare step once, so OAuth configs are registered
+   * A failed attempt is retried by the next caller.
+   */
+  private ensurePrepared(): Promise<void> {
+    if (!this.preparing) {
+      this.preparing = (this.prepare?.() ?? Promise.resolve()).catch((error) => {
+        this.preparing = null;
+        throw error;
+      });
+    }
+    return this.preparing;
   }
 
   /**
@@ -609,6 +1208,34 @@ export class AuthManager {
     return Array.from(array, (byte) => byte.toString(16).padStart(2, "0")).join("");
   }
 
+  /**
+   * Generate a PKCE code verifier (43 URL-safe characters)
+   */
+  private generateCodeVerifier(): string {
+    const array = new Uint8Array(32);
+    crypto.getRandomValues(array);
+    return this.toBase64Url(array);
+  }
+
+  /**
+   * Derive the S256 PKCE code challenge from a code verifier
+   */
+  private async createCodeChallenge(codeVerifier: string): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier));
+    return this.toBase64Url(new Uint8Array(digest));
+  }
+
+  /**
+   * Encode bytes as unpadded base64url
+   */
+  private toBase64Url(bytes: Uint8Array): string {
+    let binary = "";
+    for (const byte of bytes) {
+      binary += String.fromCharCode(byte);
+    }
+    return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+  }
+
   /**
    * Create authentication error
    */
@@ -638,6 +1265,21 @@ export class AuthManager {
       "providerId" in error
     );
   }
+
+  /**
+   * Wrap anything thrown in an AuthError, keeping AuthErrors as they are
+   */
+  private toAuthError(error: unknown, providerId: string): AuthError {
+    if (this.isAuthError(error)) {
+      return error;
+    }
+    return this.createError(
+      AuthErrorType.UNKNOWN,
+      error instanceof Error ? error.message : String(error),
+      providerId,
+      error instanceof Error ? error : undefined,
+    );
+  }
 }
 
 /**
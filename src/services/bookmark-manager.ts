@@ -4,11 +4,31 @@
  */
 
 import browser from "webextension-polyfill";
-import type { BookmarkItem } from "@/types";
+import type { BookmarkItem, BookmarkSortOrder } from "@/types";
 import { Logger } from "@/utils/logger";
 
 const logger = new Logger("BookmarkManager");
 
+/**
+ * Sort items the way they are laid out in a live folder
+ */
+export function sortBookmarkItems<
+  T extends Pick<BookmarkItem, "title" | "createdAt" | "updatedAt">,
+>(items: T[], sortOrder: BookmarkSortOrder): T[] {
+  return [...items].sort((a, b) => {
+    switch (sortOrder) {
+      case "alphabetical":
+        return a.title.localeCompare(b.title);
+      case "created":
+        return (a.createdAt || 0) - (b.createdAt || 0);
+      case "updated":
+        return (b.updatedAt || 0) - (a.updatedAt || 0); // Most recent first
+      default:
+        return 0;
+    }
+  });
+}
+
 /**
  * Browser bookmark node interface
  */
@@ -229,6 +249,19 @@ export class BookmarkManager {
     }
   }
 
+  /**
+   * Move a bookmark to another folder (optionally at a position)
+   */
+  public async moveBookmark(bookmarkId: string, parentId: string, index?: number): Promise<void> {
+    try {
+      await browser.bookmarks.move(bookmarkId, { parentId, index });
+      logger.debug(`Moved bookmark ${bookmarkId} to ${parentId}`);
+    } catch (error) {
+      logger.error(`Failed to move bookmark: ${bookmarkId}`, error);
+      throw error;
+    }
+  }
+
   /**
    * Get bookmark by ID
    */
@@ -268,18 +301,7 @@ export class BookmarkManager {
     const errors: Error[] = [];
 
     // Sort items based on the sort order
-    const sortedItems = [...items].sort((a, b) => {
-      switch (sortOrder) {
-        case "alphabetical":
-          return a.title.localeCompare(b.title);
-        case "created":
-          return (a.createdAt || 0) - (b.createdAt || 0);
-        case "updated":
-          return (b.updatedAt || 0) - (a.updatedAt || 0); // Most recent first
-        default:
-          return 0;
-      }
-    });
+    const sortedItems = sortBookmarkItems(items, sortOrder);
 
     for (let i = 0; i < sortedItems.length; i++) {
       const item = sortedItems[i];
@@ -335,6 +357,39 @@ export class BookmarkManager {
     }
   }
 
+  /**
+   * Move multiple bookmarks to the top of a folder (batch operation)
+   * Returns the IDs of the bookmarks that were moved
+   */
+  public async batchMove(bookmarkIds: string[], parentId: string): Promise<string[]> {
+    const moved: string[] = [];
+    const errors: Error[] = [];
+
+    for (const id of bookmarkIds) {
+      try {
+        await this.moveBookmark(id, parentId, 0);
+        moved.push(id);
+
+        // Small delay to avoid rate limiting
+        if (bookmarkIds.length > 10) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+        }
+      } catch (error) {
+        errors.push(error instanceof Error ? error : new Error("Unknown error"));
+      }
+    }
+
+    if (errors.length > 0) {
+      logger.warn(
+        `Batch move completed with ${errors.length} errors out of ${bookmarkIds.length} items`,
+      );
+    } else {
+      logger.info(`Batch moved ${moved.length} bookmarks`);
+    }
+
+    return moved;
+  }
+
   /**
    * Update multiple bookmarks (batch operation)
    */
@@ -383,32 +438,21 @@ export class BookmarkManager {
       // Create a map of URL -> BookmarkItem for quick lookup
       const itemMap = new Map(items.map((item) => [item.url, item]));
 
-      // Build a list of bookmarks with their metadata
-      const bookmarksWithMetadata = currentBookmarks
-        .filter((bookmark) => bookmark.url && itemMap.has(bookmark.url))
-        .map((bookmark) => {
-          const item = itemMap.get(bookmark.url!)!;
-          return {
-            id: bookmark.id,
-            title: bookmark.title || "",
-            createdAt: item.createdAt || 0,
-            updatedAt: item.updatedAt || 0,
-          };
-        });
-
-      // Sort based on the sort order
-      bookmarksWithMetadata.sort((a, b) => {
-        switch (sortOrder) {
-          case "alphabetical":
-            return a.title.localeCompare(b.title);
-          case "created":
-            return a.createdAt - b.createdAt;
-          case "updated":
-            return b.updatedAt - a.updatedAt; // Most recent first
-          default:
-            return 0;
-        }
-      });
+      // Build a list of bookmarks with their metadata, sorted by preference
+      const bookmarksWithMetadata = sortBookmarkItems(
+        currentBookmarks
+          .filter((bookmark) => bookmark.url && itemMap.has(bookmark.url))
+          .map((bookmark) => {
+            const item = itemMap.get(bookmark.url!)!;
+            return {
+              id: bookmark.id,
+              title: bookmark.title || "",
+              createdAt: item.createdAt || 0,
+              updatedAt: item.updatedAt || 0,
+            };
+          }),
+        sortOrder,
+      );
 
       // Move each bookmark to its correct position
       for (let i = 0; i < bookmarksWithMetadata.length; i++) {
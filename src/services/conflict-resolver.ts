@@ -6,7 +6,7 @@
  * common conflict scenarios gracefully.
  */
 
-import type { BookmarkItem, ConflictResolution, ConflictStrategy } from "../types";
+import type { BookmarkItem, ConflictResolution, ConflictStrategy, StoredConflict } from "../types";
 import { Logger } from "../utils/logger";
 
 const logger = new Logger("ConflictResolver");
@@ -43,6 +43,20 @@ export interface Conflict {
   detectedAt: Date;
   /** Provider ID where conflict occurred */
   providerId: string;
+  /** Live folder of the conflicting bookmark (local edit conflicts) */
+  liveFolderId?: string;
+  /** Browser bookmark ID (local edit conflicts) */
+  bookmarkId?: string;
+}
+
+/**
+ * Where a locally edited bookmark lives and whether its item changed too
+ */
+export interface LocalEditContext {
+  liveFolderId: string;
+  bookmarkId: string;
+  /** Whether the fetched item changed since the last sync as well */
+  remoteChanged: boolean;
 }
 
 /**
@@ -142,6 +156,54 @@ export class ConflictResolver {
     return conflict;
   }
 
+  /**
+   * Record a conflict for a synced bookmark that was edited locally
+   * The caller has already compared the bookmark with its last-synced hash; this
+   * classifies the edit and queues it.
+   */
+  public detectLocalEdit(
+    local: BookmarkItem,
+    remote: BookmarkItem,
+    providerId: string,
+    context: LocalEditContext,
+  ): Conflict {
+    let type = ConflictType.METADATA_CONFLICT;
+    if (local.url !== remote.url) {
+      type = ConflictType.URL_MISMATCH;
+    } else if (context.remoteChanged) {
+      type = ConflictType.BOTH_MODIFIED;
+    }
+
+    const conflict: Conflict = {
+      id: `${providerId}-${context.liveFolderId}-${remote.id}`,
+      type,
+      local,
+      remote,
+      detectedAt: new Date(),
+      providerId,
+      liveFolderId: context.liveFolderId,
+      bookmarkId: context.bookmarkId,
+    };
+
+    this.conflicts.set(conflict.id, conflict);
+    logger.warn(`Local edit conflict detected: ${conflict.type} for ${conflict.id}`);
+
+    return conflict;
+  }
+
+  /**
+   * Queue conflicts loaded from storage (e.g. after a service worker restart)
+   */
+  public restoreConflicts(conflicts: StoredConflict[]): void {
+    for (const conflict of conflicts) {
+      this.conflicts.set(conflict.id, {
+        ...conflict,
+        type: conflict.type as ConflictType,
+        detectedAt: new Date(conflict.detectedAt),
+      });
+    }
+  }
+
   /**
    * Determine the type of conflict between local and remote items
    */
@@ -194,8 +256,10 @@ export class ConflictResolver {
 
     logger.info(`Resolved conflict ${conflict.id} using strategy: ${strategy}`);
 
-    // Remove from conflicts queue after resolution
-    this.conflicts.delete(conflict.id);
+    // Remove from conflicts queue after resolution; manual ones wait for resolveManually
+    if (!resolution.requiresUserConfirmation) {
+      this.conflicts.delete(conflict.id);
+    }
 
     return resolution;
   }
@@ -331,10 +395,9 @@ export class ConflictResolver {
         resolved = conflict.remote;
         break;
       case "keep_both":
-        // This would require creating two separate bookmarks
-        // For now, keep remote and log the decision
+        // The synced bookmark follows the remote version; the caller keeps a copy of the local one
         resolved = conflict.remote;
-        logger.info(`User chose to keep both versions for ${conflictId} - keeping remote`);
+        logger.info(`User chose to keep both versions for ${conflictId}`);
         break;
       case "delete_both":
         resolved = null;
@@ -0,0 +1,377 @@
+/**
+ * Crypto Service
+ *
+ * Encrypts stored credentials (tokens, API keys, passwords) with AES-GCM.
+ * The key is a non-exportable Web Crypto key generated once per browser
+ * profile and kept in IndexedDB, since storage.local can only hold JSON.
+ * Secrets copied out of storage.local can't be decrypted anywhere else.
+ *
+ * With the optional passphrase lock, secrets are encrypted with a key derived
+ * from the user's passphrase (PBKDF2) instead. The derived key only lives in
+ * storage.session while unlocked, so the popup, sidepanel and background share
+ * it, and it is gone once the browser closes.
+ *
+ * Logs go to the console: Logger reads settings through StorageManager,
+ * which depends on this service.
+ */
+
+import type { PassphraseLock } from "@/types";
+import browser from "@/utils/browser";
+
+/**
+ * Marks (and versions) encrypted values, so plaintext from older versions can be told apart
+ */
+const ENCRYPTED_PREFIX = "enc:v1:";
+
+/** Marks values encrypted with the passphrase key */
+const PASSPHRASE_PREFIX = "enc:p1:";
+
+/** IndexedDB database and store holding the key */
+const KEY_DB_NAME = "live-folders-keys";
+const KEY_STORE_NAME = "keys";
+const DEVICE_KEY_ID = "device";
+
+/** AES-GCM initialization vector length in bytes */
+const IV_LENGTH = 12;
+
+/** PBKDF2 settings for new passphrase locks (OWASP's recommendation for SHA-256) */
+const PBKDF2_ITERATIONS = 600000;
+const PBKDF2_SALT_LENGTH = 16;
+
+/** storage.session key holding the derived key while unlocked */
+const SESSION_KEY = "credentialKey";
+
+/** Known plaintext encrypted into the lock, to check passphrases */
+const VERIFIER_PLAINTEXT = "live-folders";
+
+/**
+ * Thrown when a passphrase-encrypted secret is needed while the lock is engaged
+ */
+export class CredentialsLockedError extends Error {
+  constructor() {
+    super("Credentials are locked. Unlock them in the popup.");
+    this.name = "CredentialsLockedError";
+  }
+}
+
+/**
+ * Thrown when the device key can't be loaded from or kept in IndexedDB
+ * Secrets are never encrypted with a key that wouldn't survive a restart.
+ */
+export class EncryptionKeyUnavailableError extends Error {
+  constructor() {
+    super("The credential encryption key is unavailable because IndexedDB can't be used.");
+    this.name = "EncryptionKeyUnavailableError";
+  }
+}
+
+/**
+ * Encode bytes as base64
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 to bytes
+ */
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+/**
+ * Crypto Service
+ *
+ * Singleton service for encrypting and decrypting stored secrets
+ */
+export class CryptoService {
+  private static instance: CryptoService;
+
+  /** Key loading (or creation), shared by concurrent callers */
+  private keyPromise: Promise<CryptoKey> | null = null;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): CryptoService {
+    if (!CryptoService.instance) {
+      CryptoService.instance = new CryptoService();
+    }
+    return CryptoService.instance;
+  }
+
+  /**
+   * Whether a stored value is encrypted
+   */
+  public isEncrypted(value: string): boolean {
+    return value.startsWith(ENCRYPTED_PREFIX) || value.startsWith(PASSPHRASE_PREFIX);
+  }
+
+  /**
+   * Encrypt a secret with the device key, or with the passphrase key when `withPassphrase` is set
+   * Values already encrypted with that key are returned unchanged, so saving data read
+   * back from storage never double-encrypts it; values encrypted with the other key
+   * are re-encrypted. Throws CredentialsLockedError if the passphrase key is needed
+   * while locked, and EncryptionKeyUnavailableError if the device key is needed but
+   * can't be persisted.
+   */
+  public async encrypt(plaintext: string, withPassphrase = false): Promise<string> {
+    const prefix = withPassphrase ? PASSPHRASE_PREFIX : ENCRYPTED_PREFIX;
+    if (plaintext.startsWith(prefix)) {
+      return plaintext;
+    }
+    if (this.isEncrypted(plaintext)) {
+      return this.encrypt(await this.decrypt(plaintext), withPassphrase);
+    }
+
+    const key = withPassphrase ? await this.requirePassphraseKey() : await this.getKey();
+    return this.encryptWithKey(plaintext, key, prefix);
+  }
+
+  /**
+   * Decrypt a secret
+   * Plaintext values (stored before encryption was added) are returned unchanged.
+   * Throws CredentialsLockedError for passphrase-encrypted values while locked,
+   * EncryptionKeyUnavailableError while the device key can't be loaded, and other
+   * errors when the value can't be decrypted, e.g. after the key was lost.
+   */
+  public async decrypt(value: string): Promise<string> {
+    if (value.startsWith(PASSPHRASE_PREFIX)) {
+      return this.decryptWithKey(value, await this.requirePassphraseKey(), PASSPHRASE_PREFIX);
+    }
+    if (value.startsWith(ENCRYPTED_PREFIX)) {
+      return this.decryptWithKey(value, await this.getKey(), ENCRYPTED_PREFIX);
+    }
+    return value;
+  }
+
+  /**
+   * Create a passphrase lock and unlock it for this session
+   * The returned lock holds no secret and is meant to be stored.
+   */
+  public async createPassphraseLock(passphrase: string): Promise<PassphraseLock> {
+    const salt = crypto.getRandomValues(new Uint8Array(PBKDF2_SALT_LENGTH));
+    const rawKey = await this.deriveRawKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const key = await this.importRawKey(rawKey);
+
+    const lock: PassphraseLock = {
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      verifier: await this.encryptWithKey(VERIFIER_PLAINTEXT, key, PASSPHRASE_PREFIX),
+    };
+
+    await browser.storage.session.set({ [SESSION_KEY]: toBase64(rawKey) });
+    return lock;
+  }
+
+  /**
+   * Unlock passphrase-encrypted secrets for this session
+   * Returns false if the passphrase is wrong.
+   */
+  public async unlock(passphrase: string, lock: PassphraseLock): Promise<boolean> {
+    const rawKey = await this.deriveRawKey(passphrase, fromBase64(lock.salt), lock.iterations);
+
+    try {
+      const key = await this.importRawKey(rawKey);
+      await this.decryptWithKey(lock.verifier, key, PASSPHRASE_PREFIX);
+    } catch {
+      return false;
+    }
+
+    await browser.storage.session.set({ [SESSION_KEY]: toBase64(rawKey) });
+    return true;
+  }
+
+  /**
+   * Forget the passphrase key, locking passphrase-encrypted secrets again
+   */
+  public async lock(): Promise<void> {
+    await browser.storage.session.remove(SESSION_KEY);
+  }
+
+  /**
+   * Whether the passphrase key is available in this session
+   */
+  public async isUnlocked(): Promise<boolean> {
+    return (await this.getPassphraseKey()) !== null;
+  }
+
+  /**
+   * Encrypt with a given key, tagging the result with `prefix`
+   */
+  private async encryptWithKey(plaintext: string, key: CryptoKey, prefix: string): Promise<string> {
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: "AES-GCM", iv },
+      key,
+      new TextEncoder().encode(plaintext),
+    );
+
+    return `${prefix}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+  }
+
+  /**
+   * Decrypt a value tagged with `prefix` with a given key
+   */
+  private async decryptWithKey(value: string, key: CryptoKey, prefix: string): Promise<string> {
+    const [iv, ciphertext] = value.slice(prefix.length).split(":");
+    if (!iv || !ciphertext) {
+      throw new Error("Malformed encrypted value");
+    }
+
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(iv) },
+      key,
+      fromBase64(ciphertext),
+    );
+
+    return new TextDecoder().decode(plaintext);
+  }
+
+  /**
+   * Derive the raw AES key bits from a passphrase
+   */
+  private async deriveRawKey(
+    passphrase: string,
+    salt: Uint8Array,
+    iterations: number,
+  ): Promise<Uint8Array> {
+    const material = await crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(passphrase),
+      "PBKDF2",
+      false,
+      ["deriveBits"],
+    );
+    const bits = await crypto.subtle.deriveBits(
+      { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+      material,
+      256,
+    );
+    return new Uint8Array(bits);
+  }
+
+  /**
+   * Import raw key bits as a non-exportable AES-GCM key
+   */
+  private importRawKey(rawKey: Uint8Array): Promise<CryptoKey> {
+    return crypto.subtle.importKey("raw", rawKey, "AES-GCM", false, ["encrypt", "decrypt"]);
+  }
+
+  /**
+   * Get the passphrase key of this session, or null while locked
+   * Read from storage.session each time, since another context may have unlocked or locked.
+   */
+  private async getPassphraseKey(): Promise<CryptoKey | null> {
+    const result = await browser.storage.session.get(SESSION_KEY);
+    const rawKey = result[SESSION_KEY] as string | undefined;
+    return rawKey ? this.importRawKey(fromBase64(rawKey)) : null;
+  }
+
+  /**
+   * Get the passphrase key, throwing while locked
+   */
+  private async requirePassphraseKey(): Promise<CryptoKey> {
+    const key = await this.getPassphraseKey();
+    if (!key) {
+      throw new CredentialsLockedError();
+    }
+    return key;
+  }
+
+  /**
+   * Get the encryption key, loading or creating it on first use
+   * Throws EncryptionKeyUnavailableError if it can't be kept in IndexedDB.
+   */
+  private getKey(): Promise<CryptoKey> {
+    if (!this.keyPromise) {
+      this.keyPromise = this.loadOrCreateKey().catch((error) => {
+        // Let the next call try again
+        this.keyPromise = null;
+        throw error;
+      });
+    }
+    return this.keyPromise;
+  }
+
+  /**
+   * Load the profile's key from IndexedDB, creating it if there is none yet
+   */
+  private async loadOrCreateKey(): Promise<CryptoKey> {
+    if (typeof indexedDB === "undefined") {
+      throw new EncryptionKeyUnavailableError();
+    }
+
+    const newKey = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+      "encrypt",
+      "decrypt",
+    ]);
+
+    let db: IDBDatabase;
+    try {
+      db = await this.openKeyDatabase();
+    } catch (error) {
+      console.error("Failed to open the key database", error);
+      throw new EncryptionKeyUnavailableError();
+    }
+
+    try {
+      return await this.getOrAddKey(db, newKey);
+    } finally {
+      db.close();
+    }
+  }
+
+  /**
+   * Open (and on first use create) the key database
+   */
+  private openKeyDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(KEY_DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(KEY_STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Return the stored key, or store and return `newKey` if there is none
+   * Both happen in one transaction, so the popup, sidepanel and background
+   * can't each create a different key.
+   */
+  private getOrAddKey(db: IDBDatabase, newKey: CryptoKey): Promise<CryptoKey> {
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction(KEY_STORE_NAME, "readwrite");
+      const store = transaction.objectStore(KEY_STORE_NAME);
+      let key = newKey;
+
+      const request = store.get(DEVICE_KEY_ID);
+      request.onsuccess = () => {
+        if (request.result) {
+          key = request.result as CryptoKey;
+        } else {
+          store.add(newKey, DEVICE_KEY_ID);
+          console.info("Created credential encryption key");
+        }
+      };
+
+      transaction.oncomplete = () => resolve(key);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+}
+
+/**
+ * Export singleton instance
+ */
+export const cryptoService = CryptoService.getInstance();
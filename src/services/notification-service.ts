@@ -5,13 +5,16 @@
  * rich, contextual notifications about sync events, errors, and updates.
  */
 
-import type { BookmarkItem } from "../types";
+import type { BookmarkItem, SidepanelTarget } from "../types";
 import browser from "../utils/browser";
 import { Logger } from "../utils/logger";
 import { storageManager } from "./storage";
 
 const logger = new Logger("NotificationService");
 
+/** Notification IDs start with this, followed by `-<time>-<random>:<type>:<providerId>` */
+const NOTIFICATION_ID_PREFIX = "livefolder";
+
 /**
  * Notification priority levels
  */
@@ -129,8 +132,10 @@ export class NotificationService {
   /** Minimum time between notifications for same provider (ms) */
   private readonly RATE_LIMIT_MS = 5000; // 5 seconds
 
+  /** Last focused browser window, where notification clicks open the sidepanel */
+  private focusedWindowId: number | null = null;
+
   private constructor() {
-    this.setupNotificationClickHandler();
     logger.info("NotificationService initialized");
   }
 
@@ -156,19 +161,13 @@ export class NotificationService {
   }
 
   /**
-   * Setup notification click handler
+   * Remember the focused browser window
+   * Clicks open the sidepanel there without a lookup, which would cost the user gesture.
+   * With `onlyIfUnknown`, a window already tracked is kept.
    */
-  private setupNotificationClickHandler(): void {
-    if (browser.notifications?.onClicked) {
-      browser.notifications.onClicked.addListener((notificationId) => {
-        this.handleNotificationClick(notificationId);
-      });
-    }
-
-    if (browser.notifications?.onButtonClicked) {
-      browser.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
-        this.handleButtonClick(notificationId, buttonIndex);
-      });
+  public trackFocusedWindow(windowId: number, onlyIfUnknown = false): void {
+    if (!onlyIfUnknown || this.focusedWindowId === null) {
+      this.focusedWindowId = windowId;
     }
   }
 
@@ -189,8 +188,9 @@ export class NotificationService {
       return "";
     }
 
-    // Generate notification ID
-    const notificationId = `livefolder-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+    // Generate notification ID; it carries what a click needs, since a click can
+    // reach a worker that started after the notification was shown
+    const notificationId = `${NOTIFICATION_ID_PREFIX}-${Date.now()}-${Math.random().toString(36).substring(7)}:${options.type}:${options.providerId ?? ""}`;
 
     // Create notification data
     const notificationData: NotificationData = {
@@ -304,26 +304,30 @@ export class NotificationService {
 
   /**
    * Handle notification click
+   * The background worker listens for clicks.
    */
-  private handleNotificationClick(notificationId: string): void {
-    const notification = this.notifications.get(notificationId);
+  public handleNotificationClick(notificationId: string): void {
+    const notification = this.parseNotificationId(notificationId);
     if (!notification) {
       return;
     }
 
-    notification.clicked = true;
+    const active = this.notifications.get(notificationId);
+    if (active) {
+      active.clicked = true;
+    }
     logger.info(`Notification clicked: ${notificationId}`);
 
     // Handle different notification types
     switch (notification.type) {
       case NotificationType.AUTH_REQUIRED:
-        // Open popup to authenticate
-        browser.action?.openPopup?.();
+        // Open the provider's settings to reconnect
+        void this.openSidepanel({ view: "providers", providerId: notification.providerId });
         break;
 
       case NotificationType.CONFLICT_DETECTED:
-        // Open popup to handle conflicts
-        browser.action?.openPopup?.();
+        // Open the conflicts view on the provider's conflicts
+        void this.openSidepanel({ view: "conflicts", providerId: notification.providerId });
         break;
 
       case NotificationType.NEW_ITEMS:
@@ -342,9 +346,10 @@ export class NotificationService {
 
   /**
    * Handle notification button click
+   * The background worker listens for clicks.
    */
-  private handleButtonClick(notificationId: string, buttonIndex: number): void {
-    const notification = this.notifications.get(notificationId);
+  public handleButtonClick(notificationId: string, buttonIndex: number): void {
+    const notification = this.parseNotificationId(notificationId);
     if (!notification) {
       return;
     }
@@ -353,9 +358,69 @@ export class NotificationService {
 
     // Handle button actions based on notification type and context
     // This can be extended based on specific notification types
+    if (notification.type === NotificationType.CONFLICT_DETECTED && buttonIndex === 0) {
+      // "Resolve"
+      void this.openSidepanel({ view: "conflicts", providerId: notification.providerId });
+    }
+
+    if (notification.type === NotificationType.AUTH_REQUIRED && buttonIndex === 0) {
+      // "Reconnect"
+      void this.openSidepanel({ view: "providers", providerId: notification.providerId });
+    }
+
     this.dismiss(notificationId);
   }
 
+  /**
+   * Get the type and provider a notification ID was created with
+   */
+  private parseNotificationId(
+    notificationId: string,
+  ): { type: NotificationType; providerId?: string } | null {
+    if (!notificationId.startsWith(`${NOTIFICATION_ID_PREFIX}-`)) {
+      return null;
+    }
+
+    const [, type, providerId] = notificationId.split(":");
+    if (!Object.values(NotificationType).includes(type as NotificationType)) {
+      return null;
+    }
+
+    return { type: type as NotificationType, providerId: providerId || undefined };
+  }
+
+  /**
+   * Open the sidepanel on a specific view
+   * The sidepanel picks the target up from storage, whether it is opening or already open.
+   */
+  private async openSidepanel(target: SidepanelTarget): Promise<void> {
+    // Open before awaiting anything: the click's user gesture doesn't outlive an await
+    const opened = this.openSidepanelWindow().catch((error) => {
+      logger.error("Failed to open sidepanel:", error);
+    });
+
+    await Promise.all([storageManager.setSidepanelTarget(target), opened]);
+  }
+
+  /**
+   * Open the sidepanel in the focused window
+   */
+  private openSidepanelWindow(): Promise<unknown> {
+    if (typeof chrome === "undefined" || !chrome.sidePanel) {
+      // Firefox: open the sidepanel page in a tab (sidePanel API not supported)
+      return browser.tabs.create({ url: browser.runtime.getURL("src/sidepanel/index.html") });
+    }
+
+    if (this.focusedWindowId !== null) {
+      return chrome.sidePanel.open({ windowId: this.focusedWindowId });
+    }
+
+    // No window seen yet; Chrome may refuse this without the user gesture
+    return chrome.windows
+      .getLastFocused()
+      .then((window) => (window.id ? chrome.sidePanel.open({ windowId: window.id }) : undefined));
+  }
+
   /**
    * Add notification to history
    */
@@ -495,14 +560,14 @@ export class NotificationService {
   /**
    * Notify about authentication requirement
    */
-  public async notifyAuthRequired(providerId: string): Promise<string> {
+  public async notifyAuthRequired(providerId: string, providerName?: string): Promise<string> {
     return this.notify({
       type: NotificationType.AUTH_REQUIRED,
       priority: NotificationPriority.HIGH,
       title: "Authentication Required",
-      message: `Please sign in to ${providerId} to continue syncing`,
+      message: `Please sign in to ${providerName ?? providerId} again to continue syncing`,
       providerId,
-      buttons: [{ title: "Sign In" }, { title: "Later" }],
+      buttons: [{ title: "Reconnect" }, { title: "Later" }],
     });
   }
 
@@ -3,10 +3,15 @@
  * Centralized management and discovery of all providers
  */
 
+import { FeedProvider } from "@/providers/feed/feed-provider";
 import { GitHubProvider } from "@/providers/github/github-provider";
+import { GitLabProvider } from "@/providers/gitlab/gitlab-provider";
 import { JiraProvider } from "@/providers/jira/jira-provider";
-import type { Provider, ProviderConfig } from "@/types";
+import { RestProvider } from "@/providers/rest/rest-provider";
+import type { LiveFolder, Provider, ProviderConfig } from "@/types";
 import { Logger } from "@/utils/logger";
+import { authManager } from "./auth-manager";
+import { storageManager } from "./storage";
 
 /**
  * Provider status information
@@ -18,6 +23,12 @@ export interface ProviderStatus {
   initialized: boolean;
   /** Whether provider is authenticated */
   authenticated: boolean;
+  /** Whether saved credentials were rejected and the user must reconnect */
+  needsReauth?: boolean;
+  /** Required permissions the credentials lack */
+  missingPermissions?: string[];
+  /** Required permissions that couldn't be checked */
+  unverifiedPermissions?: string[];
   /** Whether provider is enabled */
   enabled: boolean;
   /** Last error message (if any) */
@@ -68,7 +79,10 @@ export class ProviderRegistry {
 
     // Register built-in providers
     this.registerProvider(new GitHubProvider());
+    this.registerProvider(new GitLabProvider());
     this.registerProvider(new JiraProvider());
+    this.registerProvider(new FeedProvider());
+    this.registerProvider(new RestProvider());
 
     // Initialize all registered providers
     await this.initializeAllProviders();
@@ -202,16 +216,22 @@ export class ProviderRegistry {
     try {
       // Check authentication status
       const authenticated = await provider.isAuthenticated();
+      const authState = await authManager.getAuthState(providerId);
 
       // Get provider config
       const config = await provider.getConfig();
+      const stored = await storageManager.getProvider(providerId);
 
       // Update status
       status.initialized = true;
       status.authenticated = authenticated;
+      status.needsReauth = authState?.needsReauth ?? false;
+      status.missingPermissions = authState?.missingPermissions;
+      status.unverifiedPermissions = authState?.unverifiedPermissions;
       status.enabled = config.enabled || false;
       status.lastSync = config.lastSync;
-      status.lastError = undefined;
+      // Set when stored credentials couldn't be decrypted
+      status.lastError = stored?.lastError;
 
       this.providerStatus.set(providerId, status);
     } catch (error) {
@@ -311,9 +331,9 @@ export class ProviderRegistry {
   }
 
   /**
-   * Fetch items from a specific provider
+   * Fetch items from a specific provider, optionally scoped to a live folder
    */
-  public async fetchProviderItems(providerId: string) {
+  public async fetchProviderItems(providerId: string, folder?: LiveFolder) {
     let provider = this.providers.get(providerId);
 
     // Self-healing: if provider is missing, try to re-register it
@@ -330,6 +350,13 @@ export class ProviderRegistry {
           await githubProvider.initialize();
           provider = githubProvider;
           this.logger.info(`Successfully re-registered ${providerId} provider`);
+        } else if (providerId === "gitlab") {
+          const { GitLabProvider } = await import("../providers/gitlab/gitlab-provider");
+          const gitlabProvider = new GitLabProvider();
+          this.registerProvider(gitlabProvider);
+          await gitlabProvider.initialize();
+          provider = gitlabProvider;
+          this.logger.info(`Successfully re-registered ${providerId} provider`);
         } else if (providerId === "jira") {
           const { JiraProvider } = await import("../providers/jira/jira-provider");
           const jiraProvider = new JiraProvider();
@@ -337,6 +364,20 @@ export class ProviderRegistry {
           await jiraProvider.initialize();
           provider = jiraProvider;
           this.logger.info(`Successfully re-registered ${providerId} provider`);
+        } else if (providerId === "feed") {
+          const { FeedProvider } = await import("../providers/feed/feed-provider");
+          const feedProvider = new FeedProvider();
+          this.registerProvider(feedProvider);
+          await feedProvider.initialize();
+          provider = feedProvider;
+          this.logger.info(`Successfully re-registered ${providerId} provider`);
+        } else if (providerId === "rest") {
+          const { RestProvider } = await import("../providers/rest/rest-provider");
+          const restProvider = new RestProvider();
+          this.registerProvider(restProvider);
+          await restProvider.initialize();
+          provider = restProvider;
+          this.logger.info(`Successfully re-registered ${providerId} provider`);
         }
       } catch (error) {
         this.logger.error(`Failed to re-register ${providerId} provider`, error as Error);
@@ -350,7 +391,7 @@ export class ProviderRegistry {
     }
 
     try {
-      const items = await provider.fetchItems();
+      const items = await provider.fetchItems(folder);
 
       // Update last sync timestamp
       const config = await provider.getConfig();
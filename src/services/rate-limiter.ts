@@ -5,10 +5,19 @@
  * Implements token bucket and sliding window algorithms.
  */
 
+import type { RateLimitState } from "../types";
 import { Logger } from "../utils/logger";
+import { notificationService } from "./notification-service";
+import { storageManager } from "./storage";
 
 const logger = new Logger("RateLimiter");
 
+/**
+ * Longest server-imposed wait (ms) to sit out before retrying a request.
+ * Longer waits fail fast so the service worker is not kept alive for them.
+ */
+const MAX_WAIT_MS = 30000;
+
 /**
  * Rate limit configuration for a provider
  */
@@ -84,6 +93,18 @@ export class RateLimiter {
   /** Fixed window counters */
   private fixedWindows: Map<string, { count: number; windowStart: number }> = new Map();
 
+  /** Server-imposed waits (timestamp until which requests are blocked) */
+  private blockedUntil: Map<string, number> = new Map();
+
+  /** Pending load of persisted state */
+  private loading: Promise<void> | null = null;
+
+  /** Tail of the queue of state writes */
+  private persisting: Promise<void> = Promise.resolve();
+
+  /** Providers with a state write waiting in the queue */
+  private pendingPersists: Set<string> = new Set();
+
   /** Default rate limit configuration */
   private readonly DEFAULT_CONFIG: RateLimitConfig = {
     maxRequests: 60,
@@ -107,6 +128,98 @@ export class RateLimiter {
     return RateLimiter.instance;
   }
 
+  /**
+   * Restore persisted limiter state (runs once per context)
+   */
+  public initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = storageManager
+        .getRateLimits()
+        .then((states) => this.restoreState(states))
+        .catch((error) => {
+          logger.warn("Failed to restore rate limit state", error);
+        });
+    }
+    return this.loading;
+  }
+
+  /**
+   * Replace in-memory state with persisted state
+   * Also used by UI contexts to mirror the background's limiter
+   */
+  public restoreState(states: Record<string, RateLimitState>): void {
+    const now = Date.now();
+
+    for (const [providerId, state] of Object.entries(states)) {
+      this.configs.set(providerId, {
+        maxRequests: state.maxRequests,
+        windowMs: state.windowMs,
+        strategy: state.strategy as RateLimitStrategy,
+      });
+
+      if (state.tokenBucket) {
+        this.tokenBuckets.set(providerId, { ...state.tokenBucket });
+      }
+      if (state.requestLog) {
+        this.requestLogs.set(
+          providerId,
+          state.requestLog.map((timestamp) => ({ timestamp })),
+        );
+      }
+      if (state.fixedWindow) {
+        this.fixedWindows.set(providerId, { ...state.fixedWindow });
+      }
+      if (state.blockedUntil && state.blockedUntil > now) {
+        this.blockedUntil.set(providerId, state.blockedUntil);
+      } else {
+        this.blockedUntil.delete(providerId);
+      }
+    }
+  }
+
+  /**
+   * Snapshot the state of a provider for persistence
+   */
+  private exportState(providerId: string): RateLimitState {
+    const config = this.configs.get(providerId) || this.DEFAULT_CONFIG;
+    const tokenBucket = this.tokenBuckets.get(providerId);
+    const requestLog = this.requestLogs.get(providerId);
+    const fixedWindow = this.fixedWindows.get(providerId);
+    const blockedUntil = this.blockedUntil.get(providerId);
+
+    return {
+      maxRequests: config.maxRequests,
+      windowMs: config.windowMs,
+      strategy: config.strategy || RateLimitStrategy.TOKEN_BUCKET,
+      ...(tokenBucket && { tokenBucket: { ...tokenBucket } }),
+      ...(requestLog && { requestLog: requestLog.map((log) => log.timestamp) }),
+      ...(fixedWindow && { fixedWindow: { ...fixedWindow } }),
+      ...(blockedUntil && { blockedUntil }),
+    };
+  }
+
+  /**
+   * Persist the state of a provider
+   * Writes are chained one after another: each one rewrites the whole stored map,
+   * so overlapping writes would drop each other's updates. A provider already
+   * waiting in the queue isn't queued again; its write snapshots the latest state.
+   */
+  private persist(providerId: string): Promise<void> {
+    if (this.pendingPersists.has(providerId)) {
+      return this.persisting;
+    }
+
+    this.pendingPersists.add(providerId);
+    this.persisting = this.persisting.then(async () => {
+      this.pendingPersists.delete(providerId);
+      const result = await storageManager.saveRateLimit(providerId, this.exportState(providerId));
+      if (!result.success) {
+        logger.warn(`Failed to persist rate limit state for ${providerId}`, result.error);
+      }
+    });
+    return this.persisting;
+  }
+
   /**
    * Configure rate limiting for a provider
    */
@@ -133,6 +246,11 @@ export class RateLimiter {
    * Check if a request can be made (and consume a token if allowed)
    */
   public async checkLimit(providerId: string): Promise<boolean> {
+    if (this.getBlockedFor(providerId) > 0) {
+      logger.warn(`Rate limit exceeded for ${providerId} (server)`);
+      return false;
+    }
+
     const config = this.configs.get(providerId) || this.DEFAULT_CONFIG;
 
     switch (config.strategy) {
@@ -245,6 +363,17 @@ export class RateLimiter {
     const config = this.configs.get(providerId) || this.DEFAULT_CONFIG;
     const now = Date.now();
 
+    const blockedFor = this.getBlockedFor(providerId);
+    if (blockedFor > 0) {
+      return {
+        providerId,
+        remaining: 0,
+        limit: config.maxRequests,
+        resetIn: blockedFor,
+        isLimited: true,
+      };
+    }
+
     let remaining = 0;
     let resetIn = 0;
 
@@ -337,6 +466,73 @@ export class RateLimiter {
     return operation();
   }
 
+  /**
+   * Fetch a provider API resource through the rate limiter
+   * Feeds the response's rate limit headers back into the limiter, persists the
+   * new state and retries once when the server asks for a short wait.
+   * @throws Error when the server asked us to wait longer than MAX_WAIT_MS
+   */
+  public async fetch(
+    providerId: string,
+    input: string | URL,
+    init?: RequestInit,
+    retried = false,
+  ): Promise<Response> {
+    await this.initialize();
+
+    const blockedFor = this.getBlockedFor(providerId);
+    if (blockedFor > MAX_WAIT_MS) {
+      throw new Error(
+        `Rate limit exceeded for ${providerId}. Try again in ${Math.ceil(blockedFor / 60000)} minutes`,
+      );
+    }
+
+    const response = await this.execute(providerId, () => fetch(input, init));
+    this.updateFromHeaders(providerId, response.headers);
+    void this.persist(providerId);
+
+    if (!this.isRateLimitedResponse(providerId, response)) {
+      return response;
+    }
+
+    const status = this.getStatus(providerId);
+    void notificationService.notifyRateLimit(providerId, Math.ceil(status.resetIn / 1000));
+
+    if (!retried && status.isLimited && status.resetIn <= MAX_WAIT_MS) {
+      return this.fetch(providerId, input, init, true);
+    }
+
+    return response;
+  }
+
+  /**
+   * Whether a response was rejected for exceeding a rate limit
+   * GitHub answers 403 (not 429) when the primary or a secondary limit is hit
+   */
+  private isRateLimitedResponse(providerId: string, response: Response): boolean {
+    if (response.status === 429) {
+      return true;
+    }
+    return response.status === 403 && this.getBlockedFor(providerId) > 0;
+  }
+
+  /**
+   * Time (ms) until a server-imposed wait is over, 0 when not blocked
+   */
+  private getBlockedFor(providerId: string): number {
+    const until = this.blockedUntil.get(providerId);
+    if (!until) {
+      return 0;
+    }
+
+    const remaining = until - Date.now();
+    if (remaining <= 0) {
+      this.blockedUntil.delete(providerId);
+      return 0;
+    }
+    return remaining;
+  }
+
   /**
    * Reset rate limit for a provider
    */
@@ -363,6 +559,7 @@ export class RateLimiter {
         break;
     }
 
+    this.blockedUntil.delete(providerId);
     logger.info(`Rate limit reset for ${providerId}`);
   }
 
@@ -373,6 +570,7 @@ export class RateLimiter {
     this.tokenBuckets.clear();
     this.requestLogs.clear();
     this.fixedWindows.clear();
+    this.blockedUntil.clear();
     logger.info("All rate limits reset");
   }
 
@@ -417,6 +615,7 @@ export class RateLimiter {
       ...this.tokenBuckets.keys(),
       ...this.requestLogs.keys(),
       ...this.fixedWindows.keys(),
+      ...this.blockedUntil.keys(),
     ]);
 
     return Array.from(providerIds).map((providerId) => this.getStatus(providerId));
@@ -456,23 +655,48 @@ export class RateLimiter {
       logger.debug(`Updated rate limit for ${providerId} from headers: ${remaining}/${limit}`);
     }
 
-    if (reset) {
-      const resetTime = Number.parseInt(reset, 10) * 1000; // Convert to ms
-      const now = Date.now();
+    const resetTime = reset ? this.parseResetTime(reset) : null;
 
-      if (resetTime > now) {
-        logger.info(
-          `Rate limit will reset for ${providerId} in ${Math.ceil((resetTime - now) / 1000)}s`,
+    // Out of quota: hold requests until the window resets
+    if (remaining && Number.parseInt(remaining, 10) <= 0 && resetTime && resetTime > Date.now()) {
+      this.blockedUntil.set(providerId, resetTime);
+      logger.info(
+        `Rate limit will reset for ${providerId} in ${Math.ceil((resetTime - Date.now()) / 1000)}s`,
+      );
+    }
+
+    // Retry-After (seconds or HTTP date) is sent with 429s and GitHub's secondary limits
+    const retryAfter = this.getHeader(headers, "retry-after");
+    if (retryAfter) {
+      const seconds = Number(retryAfter);
+      const retryAt = Number.isNaN(seconds) ? Date.parse(retryAfter) : Date.now() + seconds * 1000;
+      if (!Number.isNaN(retryAt) && retryAt > Date.now()) {
+        this.blockedUntil.set(
+          providerId,
+          Math.max(retryAt, this.blockedUntil.get(providerId) ?? 0),
         );
+        logger.info(`${providerId} asked to retry after ${retryAfter}`);
       }
     }
   }
 
+  /**
+   * Parse a rate limit reset header
+   * GitHub and GitLab send epoch seconds, Jira sends an ISO 8601 timestamp
+   */
+  private parseResetTime(reset: string): number | null {
+    if (/^\d+$/.test(reset)) {
+      return Number.parseInt(reset, 10) * 1000;
+    }
+    const time = Date.parse(reset);
+    return Number.isNaN(time) ? null : time;
+  }
+
   /**
    * Get header value (case-insensitive)
    */
   private getHeader(headers: Headers | Record<string, string>, name: string): string | null {
-    if (headers instanceof Headers) {
+    if (this.isHeaders(headers)) {
       return headers.get(name);
     }
 
@@ -491,6 +715,13 @@ export class RateLimiter {
 
     return null;
   }
+
+  /**
+   * Duck-typed Headers check: fetch responses may come from another realm's Headers class
+   */
+  private isHeaders(headers: Headers | Record<string, string>): headers is Headers {
+    return typeof headers.get === "function";
+  }
 }
 
 /**
@@ -183,6 +183,22 @@ export class RetryService {
     };
   }
 
+  /**
+   * Backoff delay before a retry attempt (1-based)
+   * For callers that schedule retries themselves, e.g. with alarms
+   */
+  public getDelay(attempt: number, options: RetryOptions = {}): number {
+    const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    return this.calculateDelay(
+      attempt,
+      config.initialDelay,
+      config.maxDelay,
+      config.strategy,
+      config.backoffMultiplier,
+      config.useJitter,
+    );
+  }
+
   /**
    * Calculate delay for next retry
    */
@@ -6,15 +6,43 @@
 import type {
   AuthState,
   BookmarkMetadataStorage,
+  DeviceAuthorization,
   ExtensionSettings,
+  LiveFolder,
+  LiveFolderArchive,
+  LiveFolderStorage,
   Migration,
+  PassphraseLock,
+  ProviderConfig,
+  ProviderFilters,
   ProviderStorageData,
+  RateLimitState,
+  SidepanelTarget,
   StorageOperationResult,
   StorageSchema,
   StorageStats,
+  StoredConflict,
+  SyncJournalEntry,
+  SyncUndoFolder,
+  SyncUndoSnapshot,
 } from "@/types";
-import { DEFAULT_SETTINGS, SCHEMA_VERSION, StorageKeys } from "@/types";
+import { DEFAULT_SETTINGS, MAX_SYNC_JOURNAL_ENTRIES, SCHEMA_VERSION, StorageKeys } from "@/types";
 import browser from "@/utils/browser";
+import {
+  CredentialsLockedError,
+  cryptoService,
+  EncryptionKeyUnavailableError,
+} from "./crypto-service";
+
+/**
+ * Provider config fields holding credentials, encrypted at rest
+ */
+const SECRET_CONFIG_KEYS = ["personalAccessToken", "apiToken", "password", "authHeaderValue"];
+
+/**
+ * Provider config keys that moved to live folder filters in v2 (feed URL, REST endpoint and mappings)
+ */
+const SOURCE_CONFIG_KEYS = ["feedUrl", "endpoint", "itemsPath", "fieldMappings"];
 
 /**
  * Storage Manager Class
@@ -50,12 +78,24 @@ export class StorageManager {
       return;
     }
 
+    // Installs created before schemaVersion was written still hold v1 data
+    if (stored[StorageKeys.PROVIDERS] || stored[StorageKeys.SETTINGS]) {
+      await this.runMigrations({ ...(stored as Partial<StorageSchema>), schemaVersion: 1 });
+      return;
+    }
+
     // First-time initialization
     const initialData: StorageSchema = {
       settings: DEFAULT_SETTINGS,
       providers: {},
       auth: {},
+      liveFolders: {},
       bookmarks: {},
+      archives: {},
+      syncJournal: {},
+      syncUndo: {},
+      rateLimits: {},
+      conflicts: {},
       installedAt: Date.now(),
       schemaVersion: SCHEMA_VERSION,
     };
@@ -68,7 +108,8 @@ export class StorageManager {
    */
   public async getSettings(): Promise<ExtensionSettings> {
     const result = await browser.storage.local.get(StorageKeys.SETTINGS);
-    return (result[StorageKeys.SETTINGS] as ExtensionSettings) || DEFAULT_SETTINGS;
+    // Settings added in later versions fall back to their defaults
+    return { ...DEFAULT_SETTINGS, ...(result[StorageKeys.SETTINGS] as ExtensionSettings) };
   }
 
   /**
@@ -94,16 +135,19 @@ export class StorageManager {
    * Get all providers
    */
   public async getProviders(): Promise<Record<string, ProviderStorageData>> {
-    const result = await browser.storage.local.get(StorageKeys.PROVIDERS);
-    return (result[StorageKeys.PROVIDERS] as Record<string, ProviderStorageData>) || {};
+    const providers = await this.getStoredProviders();
+    for (const [providerId, data] of Object.entries(providers)) {
+      providers[providerId] = await this.decryptProviderData(data);
+    }
+    return providers;
   }
 
   /**
    * Get a specific provider
    */
   public async getProvider(providerId: string): Promise<ProviderStorageData | null> {
-    const providers = await this.getProviders();
-    return providers[providerId] || null;
+    const providers = await this.getStoredProviders();
+    return providers[providerId] ? this.decryptProviderData(providers[providerId]) : null;
   }
 
   /**
@@ -114,8 +158,21 @@ export class StorageManager {
     data: ProviderStorageData,
   ): Promise<StorageOperationResult<ProviderStorageData>> {
     try {
-      const providers = await this.getProviders();
-      providers[providerId] = data;
+      const providers = await this.getStoredProviders();
+      const encrypted = await this.encryptProviderData(data, await this.isPassphraseLockEnabled());
+
+      // Locked credentials were left out when the data was read, so keep the stored ones
+      if (await this.isLocked()) {
+        const stored = (providers[providerId]?.config ?? {}) as unknown as Record<string, unknown>;
+        const config = encrypted.config as unknown as Record<string, unknown>;
+        for (const key of SECRET_CONFIG_KEYS) {
+          if (config[key] === undefined && stored[key] !== undefined) {
+            config[key] = stored[key];
+          }
+        }
+      }
+
+      providers[providerId] = encrypted;
       await browser.storage.local.set({ [StorageKeys.PROVIDERS]: providers });
       return { success: true, data };
     } catch (error) {
@@ -131,13 +188,17 @@ export class StorageManager {
    */
   public async deleteProvider(providerId: string): Promise<StorageOperationResult<void>> {
     try {
-      const providers = await this.getProviders();
+      const providers = await this.getStoredProviders();
       delete providers[providerId];
       await browser.storage.local.set({ [StorageKeys.PROVIDERS]: providers });
 
-      // Also clean up auth and bookmarks
+      // Also clean up auth, live folders, their bookmarks, the sync journal and undo data
       await this.deleteAuth(providerId);
-      await this.deleteBookmarkMetadata(providerId);
+      for (const liveFolder of await this.getLiveFoldersForProvider(providerId)) {
+        await this.deleteLiveFolder(liveFolder.id);
+      }
+      await this.clearSyncJournal(providerId);
+      await this.clearSyncUndo(providerId);
 
       return { success: true };
     } catch (error) {
@@ -152,16 +213,19 @@ export class StorageManager {
    * Get all authentication states
    */
   public async getAllAuth(): Promise<Record<string, AuthState>> {
-    const result = await browser.storage.local.get(StorageKeys.AUTH);
-    return (result[StorageKeys.AUTH] as Record<string, AuthState>) || {};
+    const authStates = await this.getStoredAuth();
+    for (const [providerId, authState] of Object.entries(authStates)) {
+      authStates[providerId] = await this.decryptAuthState(authState);
+    }
+    return authStates;
   }
 
   /**
    * Get authentication state for a provider
    */
   public async getAuth(providerId: string): Promise<AuthState | null> {
-    const authStates = await this.getAllAuth();
-    return authStates[providerId] || null;
+    const authStates = await this.getStoredAuth();
+    return authStates[providerId] ? this.decryptAuthState(authStates[providerId]) : null;
   }
 
   /**
@@ -173,9 +237,18 @@ export class StorageManager {
   ): Promise<StorageOperationResult<AuthState>> {
     try {
       // Encrypt sensitive data before storing
-      const encryptedState = await this.encryptAuthState(authState);
+      let encryptedState = await this.encryptAuthState(
+        authState,
+        await this.isPassphraseLockEnabled(),
+      );
+
+      const authStates = await this.getStoredAuth();
+
+      // Locked tokens were left out when the state was read, so keep the stored ones
+      if (!encryptedState.tokens && (await this.isLocked())) {
+        encryptedState = { ...encryptedState, tokens: authStates[providerId]?.tokens };
+      }
 
-      const authStates = await this.getAllAuth();
       authStates[providerId] = encryptedState;
       await browser.storage.local.set({ [StorageKeys.AUTH]: authStates });
 
@@ -193,7 +266,7 @@ export class StorageManager {
    */
   public async deleteAuth(providerId: string): Promise<StorageOperationResult<void>> {
     try {
-      const authStates = await this.getAllAuth();
+      const authStates = await this.getStoredAuth();
       delete authStates[providerId];
       await browser.storage.local.set({ [StorageKeys.AUTH]: authStates });
       return { success: true };
@@ -205,6 +278,239 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Get the device flow sign-ins in progress
+   */
+  public async getDeviceAuthorizations(): Promise<Record<string, DeviceAuthorization>> {
+    const result = await browser.storage.local.get(StorageKeys.DEVICE_AUTH);
+    return (result[StorageKeys.DEVICE_AUTH] as Record<string, DeviceAuthorization>) || {};
+  }
+
+  /**
+   * Save the state of a provider's device flow sign-in
+   */
+  public async saveDeviceAuthorization(
+    authorization: DeviceAuthorization,
+  ): Promise<StorageOperationResult<DeviceAuthorization>> {
+    try {
+      const authorizations = await this.getDeviceAuthorizations();
+      authorizations[authorization.providerId] = authorization;
+      await browser.storage.local.set({ [StorageKeys.DEVICE_AUTH]: authorizations });
+      return { success: true, data: authorization };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save device authorization",
+      };
+    }
+  }
+
+  /**
+   * Delete a provider's device flow sign-in
+   */
+  public async deleteDeviceAuthorization(
+    providerId: string,
+  ): Promise<StorageOperationResult<void>> {
+    try {
+      const authorizations = await this.getDeviceAuthorizations();
+      delete authorizations[providerId];
+      await browser.storage.local.set({ [StorageKeys.DEVICE_AUTH]: authorizations });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete device authorization",
+      };
+    }
+  }
+
+  /**
+   * Get the passphrase lock, if enabled
+   */
+  public async getPassphraseLock(): Promise<PassphraseLock | null> {
+    const result = await browser.storage.local.get(StorageKeys.PASSPHRASE_LOCK);
+    return (result[StorageKeys.PASSPHRASE_LOCK] as PassphraseLock) || null;
+  }
+
+  /**
+   * Whether the passphrase lock is enabled and engaged
+   */
+  public async isLocked(): Promise<boolean> {
+    return (await this.isPassphraseLockEnabled()) && !(await cryptoService.isUnlocked());
+  }
+
+  /**
+   * Enable the passphrase lock, re-encrypting all credentials with the passphrase
+   * Credentials stay unlocked until the lock engages (idle timeout or browser restart).
+   */
+  public async enablePassphraseLock(passphrase: string): Promise<StorageOperationResult<void>> {
+    try {
+      if (await this.isPassphraseLockEnabled()) {
+        throw new Error("Passphrase lock is already enabled");
+      }
+
+      const providers = await this.getProviders();
+      const authStates = await this.getAllAuth();
+      const lock = await cryptoService.createPassphraseLock(passphrase);
+
+      await browser.storage.local.set({
+        [StorageKeys.PROVIDERS]: await this.encryptAllProviders(providers, true),
+        [StorageKeys.AUTH]: await this.encryptAllAuth(authStates, true),
+        [StorageKeys.PASSPHRASE_LOCK]: lock,
+      });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to enable passphrase lock",
+      };
+    }
+  }
+
+  /**
+   * Disable the passphrase lock, re-encrypting all credentials with the device key
+   */
+  public async disablePassphraseLock(passphrase: string): Promise<StorageOperationResult<void>> {
+    try {
+      const unlocked = await this.unlockCredentials(passphrase);
+      if (!unlocked.success) {
+        return unlocked;
+      }
+
+      const providers = await this.getProviders();
+      const authStates = await this.getAllAuth();
+
+      await browser.storage.local.set({
+        [StorageKeys.PROVIDERS]: await this.encryptAllProviders(providers, false),
+        [StorageKeys.AUTH]: await this.encryptAllAuth(authStates, false),
+      });
+      await browser.storage.local.remove(StorageKeys.PASSPHRASE_LOCK);
+      await cryptoService.lock();
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to disable passphrase lock",
+      };
+    }
+  }
+
+  /**
+   * Unlock credentials for this browser session
+   */
+  public async unlockCredentials(passphrase: string): Promise<StorageOperationResult<void>> {
+    try {
+      const lock = await this.getPassphraseLock();
+      if (!lock) {
+        throw new Error("Passphrase lock is not enabled");
+      }
+
+      if (!(await cryptoService.unlock(passphrase, lock))) {
+        throw new Error("Wrong passphrase");
+      }
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to unlock credentials",
+      };
+    }
+  }
+
+  /**
+   * Lock credentials until they are unlocked again
+   */
+  public async lockCredentials(): Promise<void> {
+    await cryptoService.lock();
+  }
+
+  /**
+   * Get all live folders
+   */
+  public async getLiveFolders(): Promise<LiveFolderStorage> {
+    const result = await browser.storage.local.get(StorageKeys.LIVE_FOLDERS);
+    return (result[StorageKeys.LIVE_FOLDERS] as LiveFolderStorage) || {};
+  }
+
+  /**
+   * Get a specific live folder
+   */
+  public async getLiveFolder(liveFolderId: string): Promise<LiveFolder | null> {
+    const liveFolders = await this.getLiveFolders();
+    return liveFolders[liveFolderId] || null;
+  }
+
+  /**
+   * Get all live folders backed by a provider, oldest first
+   */
+  public async getLiveFoldersForProvider(providerId: string): Promise<LiveFolder[]> {
+    const liveFolders = await this.getLiveFolders();
+    return Object.values(liveFolders)
+      .filter((liveFolder) => liveFolder.providerId === providerId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Create a live folder for a provider
+   */
+  public async createLiveFolder(
+    providerId: string,
+    data: Partial<Omit<LiveFolder, "id" | "providerId" | "createdAt">> = {},
+  ): Promise<StorageOperationResult<LiveFolder>> {
+    const liveFolder: LiveFolder = {
+      name: "Default",
+      enabled: true,
+      ...data,
+      id: crypto.randomUUID(),
+      providerId,
+      createdAt: Date.now(),
+    };
+    return this.saveLiveFolder(liveFolder);
+  }
+
+  /**
+   * Save a live folder
+   */
+  public async saveLiveFolder(liveFolder: LiveFolder): Promise<StorageOperationResult<LiveFolder>> {
+    try {
+      const liveFolders = await this.getLiveFolders();
+      liveFolders[liveFolder.id] = liveFolder;
+      await browser.storage.local.set({ [StorageKeys.LIVE_FOLDERS]: liveFolders });
+      return { success: true, data: liveFolder };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save live folder",
+      };
+    }
+  }
+
+  /**
+   * Delete a live folder, its bookmark metadata and archive state
+   * The bookmark folder itself is left in place
+   */
+  public async deleteLiveFolder(liveFolderId: string): Promise<StorageOperationResult<void>> {
+    try {
+      const liveFolders = await this.getLiveFolders();
+      delete liveFolders[liveFolderId];
+      await browser.storage.local.set({ [StorageKeys.LIVE_FOLDERS]: liveFolders });
+      await this.deleteBookmarkMetadata(liveFolderId);
+      await this.deleteArchive(liveFolderId);
+      const conflicts = Object.values(await this.getConflicts());
+      await this.deleteConflicts(
+        conflicts
+          .filter((conflict) => conflict.liveFolderId === liveFolderId)
+          .map((conflict) => conflict.id),
+      );
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete live folder",
+      };
+    }
+  }
+
   /**
    * Get all bookmark metadata
    */
@@ -214,23 +520,23 @@ export class StorageManager {
   }
 
   /**
-   * Get bookmark metadata for a provider
+   * Get bookmark metadata for a live folder
    */
-  public async getBookmarkMetadata(providerId: string): Promise<BookmarkMetadataStorage> {
+  public async getBookmarkMetadata(liveFolderId: string): Promise<BookmarkMetadataStorage> {
     const allMetadata = await this.getAllBookmarkMetadata();
-    return allMetadata[providerId] || {};
+    return allMetadata[liveFolderId] || {};
   }
 
   /**
-   * Save bookmark metadata for a provider
+   * Save bookmark metadata for a live folder
    */
   public async saveBookmarkMetadata(
-    providerId: string,
+    liveFolderId: string,
     metadata: BookmarkMetadataStorage,
   ): Promise<StorageOperationResult<BookmarkMetadataStorage>> {
     try {
       const allMetadata = await this.getAllBookmarkMetadata();
-      allMetadata[providerId] = metadata;
+      allMetadata[liveFolderId] = metadata;
       await browser.storage.local.set({
         [StorageKeys.BOOKMARKS]: allMetadata,
       });
@@ -244,12 +550,12 @@ export class StorageManager {
   }
 
   /**
-   * Delete bookmark metadata for a provider
+   * Delete bookmark metadata for a live folder
    */
-  public async deleteBookmarkMetadata(providerId: string): Promise<StorageOperationResult<void>> {
+  public async deleteBookmarkMetadata(liveFolderId: string): Promise<StorageOperationResult<void>> {
     try {
       const allMetadata = await this.getAllBookmarkMetadata();
-      delete allMetadata[providerId];
+      delete allMetadata[liveFolderId];
       await browser.storage.local.set({
         [StorageKeys.BOOKMARKS]: allMetadata,
       });
@@ -262,6 +568,280 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Get the archive state of all live folders
+   */
+  public async getArchives(): Promise<Record<string, LiveFolderArchive>> {
+    const result = await browser.storage.local.get(StorageKeys.ARCHIVES);
+    return (result[StorageKeys.ARCHIVES] as Record<string, LiveFolderArchive>) || {};
+  }
+
+  /**
+   * Get the archive state of a live folder
+   */
+  public async getArchive(liveFolderId: string): Promise<LiveFolderArchive | null> {
+    const archives = await this.getArchives();
+    return archives[liveFolderId] || null;
+  }
+
+  /**
+   * Save the archive state of a live folder
+   */
+  public async saveArchive(
+    liveFolderId: string,
+    archive: LiveFolderArchive,
+  ): Promise<StorageOperationResult<LiveFolderArchive>> {
+    try {
+      const archives = await this.getArchives();
+      archives[liveFolderId] = archive;
+      await browser.storage.local.set({ [StorageKeys.ARCHIVES]: archives });
+      return { success: true, data: archive };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save archive",
+      };
+    }
+  }
+
+  /**
+   * Delete the archive state of a live folder (archived bookmarks are left in place)
+   */
+  public async deleteArchive(liveFolderId: string): Promise<StorageOperationResult<void>> {
+    try {
+      const archives = await this.getArchives();
+      delete archives[liveFolderId];
+      await browser.storage.local.set({ [StorageKeys.ARCHIVES]: archives });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete archive",
+      };
+    }
+  }
+
+  /**
+   * Get the sync journal of all providers (newest first per provider)
+   */
+  public async getSyncJournal(): Promise<Record<string, SyncJournalEntry[]>> {
+    const result = await browser.storage.local.get(StorageKeys.SYNC_JOURNAL);
+    return (result[StorageKeys.SYNC_JOURNAL] as Record<string, SyncJournalEntry[]>) || {};
+  }
+
+  /**
+   * Get the sync journal of a provider (newest first)
+   */
+  public async getProviderSyncJournal(providerId: string): Promise<SyncJournalEntry[]> {
+    const journal = await this.getSyncJournal();
+    return journal[providerId] || [];
+  }
+
+  /**
+   * Record a sync in the provider's journal, dropping the oldest entries past the limit
+   */
+  public async addSyncJournalEntry(
+    entry: Omit<SyncJournalEntry, "id">,
+  ): Promise<StorageOperationResult<SyncJournalEntry>> {
+    try {
+      const journal = await this.getSyncJournal();
+      const newEntry: SyncJournalEntry = { id: crypto.randomUUID(), ...entry };
+      journal[entry.providerId] = [newEntry, ...(journal[entry.providerId] || [])].slice(
+        0,
+        MAX_SYNC_JOURNAL_ENTRIES,
+      );
+      await browser.storage.local.set({ [StorageKeys.SYNC_JOURNAL]: journal });
+      return { success: true, data: newEntry };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save sync journal entry",
+      };
+    }
+  }
+
+  /**
+   * Clear the sync journal of one provider, or of all providers
+   */
+  public async clearSyncJournal(providerId?: string): Promise<StorageOperationResult<void>> {
+    try {
+      const journal = providerId ? await this.getSyncJournal() : {};
+      if (providerId) {
+        delete journal[providerId];
+      }
+      await browser.storage.local.set({ [StorageKeys.SYNC_JOURNAL]: journal });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to clear sync journal",
+      };
+    }
+  }
+
+  /**
+   * Get the undo snapshots of all providers
+   */
+  public async getSyncUndo(): Promise<Record<string, SyncUndoSnapshot>> {
+    const result = await browser.storage.local.get(StorageKeys.SYNC_UNDO);
+    return (result[StorageKeys.SYNC_UNDO] as Record<string, SyncUndoSnapshot>) || {};
+  }
+
+  /**
+   * Get the undo snapshot of a provider's last sync
+   */
+  public async getProviderSyncUndo(providerId: string): Promise<SyncUndoSnapshot | null> {
+    const snapshots = await this.getSyncUndo();
+    return snapshots[providerId] || null;
+  }
+
+  /**
+   * Record the changes a sync made to a live folder, replacing that folder's previous undo data
+   */
+  public async saveSyncUndoFolder(
+    providerId: string,
+    folder: SyncUndoFolder,
+  ): Promise<StorageOperationResult<void>> {
+    try {
+      const snapshots = await this.getSyncUndo();
+      const existing = snapshots[providerId];
+      snapshots[providerId] = {
+        providerId,
+        timestamp: folder.timestamp,
+        folders: { ...existing?.folders, [folder.liveFolderId]: folder },
+      };
+      await browser.storage.local.set({ [StorageKeys.SYNC_UNDO]: snapshots });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save undo data",
+      };
+    }
+  }
+
+  /**
+   * Clear the undo snapshot of a provider
+   */
+  public async clearSyncUndo(providerId: string): Promise<StorageOperationResult<void>> {
+    try {
+      const snapshots = await this.getSyncUndo();
+      delete snapshots[providerId];
+      await browser.storage.local.set({ [StorageKeys.SYNC_UNDO]: snapshots });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to clear undo data",
+      };
+    }
+  }
+
+  /**
+   * Get all unresolved conflicts
+   */
+  public async getConflicts(): Promise<Record<string, StoredConflict>> {
+    const result = await browser.storage.local.get(StorageKeys.CONFLICTS);
+    return (result[StorageKeys.CONFLICTS] as Record<string, StoredConflict>) || {};
+  }
+
+  /**
+   * Save unresolved conflicts, replacing earlier ones with the same ID
+   */
+  public async saveConflicts(
+    conflicts: StoredConflict[],
+  ): Promise<StorageOperationResult<StoredConflict[]>> {
+    try {
+      const stored = await this.getConflicts();
+      for (const conflict of conflicts) {
+        stored[conflict.id] = conflict;
+      }
+      await browser.storage.local.set({ [StorageKeys.CONFLICTS]: stored });
+      return { success: true, data: conflicts };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save conflicts",
+      };
+    }
+  }
+
+  /**
+   * Delete conflicts by ID
+   */
+  public async deleteConflicts(conflictIds: string[]): Promise<StorageOperationResult<void>> {
+    try {
+      const stored = await this.getConflicts();
+      for (const conflictId of conflictIds) {
+        delete stored[conflictId];
+      }
+      await browser.storage.local.set({ [StorageKeys.CONFLICTS]: stored });
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to delete conflicts",
+      };
+    }
+  }
+
+  /**
+   * Get the view the sidepanel should open on, if any
+   */
+  public async getSidepanelTarget(): Promise<SidepanelTarget | null> {
+    const result = await browser.storage.local.get(StorageKeys.SIDEPANEL_TARGET);
+    return (result[StorageKeys.SIDEPANEL_TARGET] as SidepanelTarget) || null;
+  }
+
+  /**
+   * Set (or with null, clear) the view the sidepanel should open on
+   */
+  public async setSidepanelTarget(
+    target: SidepanelTarget | null,
+  ): Promise<StorageOperationResult<void>> {
+    try {
+      if (target) {
+        await browser.storage.local.set({ [StorageKeys.SIDEPANEL_TARGET]: target });
+      } else {
+        await browser.storage.local.remove(StorageKeys.SIDEPANEL_TARGET);
+      }
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save sidepanel target",
+      };
+    }
+  }
+
+  /**
+   * Get the persisted rate limiter state of all providers
+   */
+  public async getRateLimits(): Promise<Record<string, RateLimitState>> {
+    const result = await browser.storage.local.get(StorageKeys.RATE_LIMITS);
+    return (result[StorageKeys.RATE_LIMITS] as Record<string, RateLimitState>) || {};
+  }
+
+  /**
+   * Save the rate limiter state of a provider
+   */
+  public async saveRateLimit(
+    providerId: string,
+    state: RateLimitState,
+  ): Promise<StorageOperationResult<RateLimitState>> {
+    try {
+      const rateLimits = await this.getRateLimits();
+      rateLimits[providerId] = state;
+      await browser.storage.local.set({ [StorageKeys.RATE_LIMITS]: rateLimits });
+      return { success: true, data: state };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to save rate limit state",
+      };
+    }
+  }
+
   /**
    * Get storage statistics
    */
@@ -275,14 +855,19 @@ export class StorageManager {
     const usagePercent = (bytesUsed / bytesAvailable) * 100;
 
     const providers = await this.getProviders();
+    const liveFolders = await this.getLiveFolders();
     const bookmarks = await this.getAllBookmarkMetadata();
 
     const bookmarksByProvider: Record<string, number> = {};
     let totalBookmarks = 0;
 
-    for (const [providerId, metadata] of Object.entries(bookmarks)) {
+    for (const [liveFolderId, metadata] of Object.entries(bookmarks)) {
+      const providerId = liveFolders[liveFolderId]?.providerId;
+      if (!providerId) {
+        continue;
+      }
       const count = Object.keys(metadata).length;
-      bookmarksByProvider[providerId] = count;
+      bookmarksByProvider[providerId] = (bookmarksByProvider[providerId] || 0) + count;
       totalBookmarks += count;
     }
 
@@ -291,6 +876,7 @@ export class StorageManager {
       bytesAvailable,
       usagePercent,
       providerCount: Object.keys(providers).length,
+      liveFolderCount: Object.keys(liveFolders).length,
       totalBookmarks,
       bookmarksByProvider,
     };
@@ -306,10 +892,23 @@ export class StorageManager {
 
   /**
    * Export all data (for backup)
+   * Credentials are left out: encrypted ones can't be decrypted in another
+   * profile anyway, so providers need to be reconnected after a restore.
    */
   public async exportData(): Promise<StorageSchema> {
-    const data = await browser.storage.local.get(null);
-    return data as unknown as StorageSchema;
+    const data = (await browser.storage.local.get(null)) as unknown as StorageSchema;
+
+    const providers: Record<string, ProviderStorageData> = {};
+    for (const [providerId, providerData] of Object.entries(data.providers ?? {})) {
+      const config: Record<string, unknown> = { ...providerData.config };
+      for (const key of SECRET_CONFIG_KEYS) {
+        delete config[key];
+      }
+      providers[providerId] = { ...providerData, config: config as unknown as ProviderConfig };
+    }
+
+    const { passphraseLock: _lock, ...rest } = data;
+    return { ...rest, providers, auth: {} };
   }
 
   /**
@@ -330,14 +929,154 @@ export class StorageManager {
   // Private helper methods
 
   /**
-   * Encrypt authentication state (basic obfuscation)
-   * In production, use proper encryption like Web Crypto API
+   * Get all providers as stored, with encrypted secrets
+   */
+  private async getStoredProviders(): Promise<Record<string, ProviderStorageData>> {
+    const result = await browser.storage.local.get(StorageKeys.PROVIDERS);
+    return (result[StorageKeys.PROVIDERS] as Record<string, ProviderStorageData>) || {};
+  }
+
+  /**
+   * Get all authentication states as stored, with encrypted tokens
    */
-  private async encryptAuthState(authState: AuthState): Promise<AuthState> {
-    // For now, just return as-is
-    // TODO: Implement proper encryption using Web Crypto API
-    // When implemented, also use decryptAuthState() in getAuth()
-    return authState;
+  private async getStoredAuth(): Promise<Record<string, AuthState>> {
+    const result = await browser.storage.local.get(StorageKeys.AUTH);
+    return (result[StorageKeys.AUTH] as Record<string, AuthState>) || {};
+  }
+
+  /**
+   * Whether credentials are encrypted with the passphrase key
+   */
+  private async isPassphraseLockEnabled(): Promise<boolean> {
+    return (await this.getPassphraseLock()) !== null;
+  }
+
+  /**
+   * Encrypt the credentials of all (decrypted) providers
+   */
+  private async encryptAllProviders(
+    providers: Record<string, ProviderStorageData>,
+    withPassphrase: boolean,
+  ): Promise<Record<string, ProviderStorageData>> {
+    const encrypted: Record<string, ProviderStorageData> = {};
+    for (const [providerId, data] of Object.entries(providers)) {
+      encrypted[providerId] = await this.encryptProviderData(data, withPassphrase);
+    }
+    return encrypted;
+  }
+
+  /**
+   * Encrypt the tokens of all (decrypted) authentication states
+   */
+  private async encryptAllAuth(
+    authStates: Record<string, AuthState>,
+    withPassphrase: boolean,
+  ): Promise<Record<string, AuthState>> {
+    const encrypted: Record<string, AuthState> = {};
+    for (const [providerId, authState] of Object.entries(authStates)) {
+      encrypted[providerId] = await this.encryptAuthState(authState, withPassphrase);
+    }
+    return encrypted;
+  }
+
+  /**
+   * Encrypt the access and refresh tokens of an authentication state
+   */
+  private async encryptAuthState(authState: AuthState, withPassphrase = false): Promise<AuthState> {
+    if (!authState.tokens) {
+      return authState;
+    }
+
+    const { accessToken, refreshToken } = authState.tokens;
+    return {
+      ...authState,
+      tokens: {
+        ...authState.tokens,
+        accessToken: await cryptoService.encrypt(accessToken, withPassphrase),
+        refreshToken: refreshToken
+          ? await cryptoService.encrypt(refreshToken, withPassphrase)
+          : undefined,
+      },
+    };
+  }
+
+  /**
+   * Decrypt the tokens of a stored authentication state
+   * Tokens that can't be decrypted (e.g. the key was lost) are dropped and the
+   * provider is flagged for re-authentication. Locked tokens are left out until
+   * unlocked. Throws EncryptionKeyUnavailableError, since the tokens are still
+   * good once the key can be loaded.
+   */
+  private async decryptAuthState(authState: AuthState): Promise<AuthState> {
+    if (!authState.tokens) {
+      return authState;
+    }
+
+    try {
+      const { accessToken, refreshToken } = authState.tokens;
+      return {
+        ...authState,
+        tokens: {
+          ...authState.tokens,
+          accessToken: await cryptoService.decrypt(accessToken),
+          refreshToken: refreshToken ? await cryptoService.decrypt(refreshToken) : undefined,
+        },
+      };
+    } catch (error) {
+      if (error instanceof CredentialsLockedError) {
+        return { ...authState, tokens: undefined };
+      }
+      if (error instanceof EncryptionKeyUnavailableError) {
+        throw error;
+      }
+      console.error(`Failed to decrypt tokens for ${authState.providerId}`, error);
+      return { ...authState, authenticated: false, needsReauth: true, tokens: undefined };
+    }
+  }
+
+  /**
+   * Encrypt the credential fields of a provider's config
+   */
+  private async encryptProviderData(
+    data: ProviderStorageData,
+    withPassphrase = false,
+  ): Promise<ProviderStorageData> {
+    const config: Record<string, unknown> = { ...data.config };
+    for (const key of SECRET_CONFIG_KEYS) {
+      if (typeof config[key] === "string" && config[key]) {
+        config[key] = await cryptoService.encrypt(config[key], withPassphrase);
+      }
+    }
+    return { ...data, config: config as unknown as ProviderConfig };
+  }
+
+  /**
+   * Decrypt the credential fields of a stored provider config
+   * Fields that can't be decrypted are dropped and reported in lastError (set on
+   * every read), so the user enters them again. Locked fields are left out too, and kept in storage
+   * when the provider is saved. Throws EncryptionKeyUnavailableError.
+   */
+  private async decryptProviderData(data: ProviderStorageData): Promise<ProviderStorageData> {
+    const config: Record<string, unknown> = { ...data.config };
+    let lastError: string | undefined;
+    for (const key of SECRET_CONFIG_KEYS) {
+      if (typeof config[key] !== "string" || !config[key]) {
+        continue;
+      }
+      try {
+        config[key] = await cryptoService.decrypt(config[key]);
+      } catch (error) {
+        if (error instanceof EncryptionKeyUnavailableError) {
+          throw error;
+        }
+        if (!(error instanceof CredentialsLockedError)) {
+          console.error(`Failed to decrypt provider ${key}`, error);
+          lastError = "Stored credentials couldn't be decrypted. Enter them again.";
+        }
+        delete config[key];
+      }
+    }
+    return { ...data, config: config as unknown as ProviderConfig, lastError };
   }
 
   /**
@@ -368,7 +1107,16 @@ export class StorageManager {
     let data = currentData;
     for (const migration of migrationsToRun) {
       console.log(`Running migration to version ${migration.version}`);
-      data = await migration.migrate(data);
+      try {
+        data = await migration.migrate(data);
+      } catch (error) {
+        if (!(error instanceof EncryptionKeyUnavailableError)) {
+          throw error;
+        }
+        // Leave credentials in plaintext and try again on the next start
+        console.warn(`Postponing migration to version ${migration.version}`, error);
+        break;
+      }
       data.schemaVersion = migration.version;
     }
 
@@ -380,8 +1128,109 @@ export class StorageManager {
    * Get all migrations
    */
   private getMigrations(): Migration[] {
-    // Migrations will be added here as the schema evolves
-    return [];
+    return [
+      {
+        version: 2,
+        description: "Move provider folders into live folders",
+        migrate: (data) => this.migrateToLiveFolders(data),
+      },
+      {
+        version: 3,
+        description: "Encrypt stored credentials",
+        migrate: (data) => this.migrateToEncryptedCredentials(data),
+      },
+    ];
+  }
+
+  /**
+   * v2: each provider's single folder becomes its first live folder
+   * Filters, formatting and the feed URL or REST endpoint move with it, and bookmark
+   * metadata is re-keyed by live folder ID. A configured feed or endpoint gets a live
+   * folder even before a bookmark folder was chosen, so the URL isn't lost.
+   */
+  private async migrateToLiveFolders(
+    data: Partial<StorageSchema>,
+  ): Promise<Partial<StorageSchema>> {
+    const providers = { ...data.providers };
+    const bookmarks = { ...data.bookmarks };
+    const liveFolders: LiveFolderStorage = { ...data.liveFolders };
+
+    for (const [providerId, providerData] of Object.entries(providers)) {
+      const { folderId, ...rest } = providerData;
+      const config: Record<string, unknown> = { ...providerData.config };
+      const source: Record<string, unknown> = {};
+      for (const key of SOURCE_CONFIG_KEYS) {
+        if (config[key] !== undefined) {
+          source[key] = config[key];
+        }
+        delete config[key];
+      }
+
+      const hasSource = Object.keys(source).length > 0;
+      if (!folderId && !hasSource) {
+        continue;
+      }
+
+      const liveFolder: LiveFolder = {
+        id: crypto.randomUUID(),
+        providerId,
+        name: folderId ? await this.getMigratedFolderName(folderId) : "Default",
+        folderId,
+        enabled: true,
+        sortOrder: providerData.config.sortOrder,
+        filters: hasSource
+          ? ({ ...providerData.config.filters, ...source } as ProviderFilters)
+          : providerData.config.filters,
+        titleFormat: providerData.config.titleFormat,
+        folderTitleFormat: providerData.config.folderTitleFormat,
+        lastSync: providerData.lastSync,
+        lastSyncStatus: providerData.lastSyncStatus,
+        lastError: providerData.lastError,
+        createdAt: Date.now(),
+      };
+      liveFolders[liveFolder.id] = liveFolder;
+
+      if (bookmarks[providerId]) {
+        bookmarks[liveFolder.id] = bookmarks[providerId];
+        delete bookmarks[providerId];
+      }
+
+      providers[providerId] = { ...rest, config: config as unknown as ProviderConfig };
+    }
+
+    return { ...data, providers, bookmarks, liveFolders };
+  }
+
+  /**
+   * v3: encrypt plaintext tokens and provider credentials
+   */
+  private async migrateToEncryptedCredentials(
+    data: Partial<StorageSchema>,
+  ): Promise<Partial<StorageSchema>> {
+    const providers: Record<string, ProviderStorageData> = {};
+    for (const [providerId, providerData] of Object.entries(data.providers ?? {})) {
+      providers[providerId] = await this.encryptProviderData(providerData);
+    }
+
+    const auth: Record<string, AuthState> = {};
+    for (const [providerId, authState] of Object.entries(data.auth ?? {})) {
+      auth[providerId] = await this.encryptAuthState(authState);
+    }
+
+    return { ...data, providers, auth };
+  }
+
+  /**
+   * Name a migrated live folder after its bookmark folder, without the statistics suffix
+   */
+  private async getMigratedFolderName(folderId: string): Promise<string> {
+    try {
+      const [folder] = await browser.bookmarks.get(folderId);
+      const name = folder?.title.replace(/\s*\([^)]*\)\s*$/, "").trim();
+      return name || "Default";
+    } catch {
+      return "Default";
+    }
   }
 }
 
@@ -3,15 +3,32 @@
  * Orchestrates synchronization between providers and bookmarks
  */
 
-import type { BookmarkItem, BookmarkRecord } from "@/types";
+import { ProviderError, ProviderErrorType } from "@/providers/provider-error";
+import type {
+  ArchiveOptions,
+  BookmarkItem,
+  BookmarkRecord,
+  BookmarkSortOrder,
+  ConflictResolution,
+  LiveFolder,
+  SyncJournalEntry,
+  SyncUndoFolder,
+} from "@/types";
+import { DEFAULT_ARCHIVE_OPTIONS } from "@/types";
+import { hashBookmarkContent } from "@/utils/hash";
 import { Logger } from "@/utils/logger";
-import { BookmarkManager, type BookmarkNode } from "./bookmark-manager";
+import { withoutPinIndicator, withPinIndicator } from "@/utils/pin";
+import { authManager } from "./auth-manager";
+import { BookmarkManager, type BookmarkNode, sortBookmarkItems } from "./bookmark-manager";
+import { type Conflict, ConflictResolver } from "./conflict-resolver";
 import { NotificationType, notificationService } from "./notification-service";
 import { ProviderRegistry } from "./provider-registry";
 import { StorageManager } from "./storage";
 
 const logger = new Logger("SyncEngine");
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * Sync diff result
  */
@@ -19,6 +36,19 @@ export interface SyncDiff {
   toAdd: BookmarkItem[];
   toUpdate: UpdateItem[];
   toDelete: string[]; // Bookmark IDs
+  unchanged: MatchedItem[];
+  /** Bookmarks edited locally since the last sync, awaiting conflict resolution */
+  localEdits?: LocalEdit[];
+}
+
+/**
+ * Fetched item matched to an existing bookmark
+ */
+export interface MatchedItem {
+  bookmarkId: string;
+  item: BookmarkItem;
+  /** Hash of the bookmark when a conflict resolution kept it different from the item */
+  localHash?: string;
 }
 
 /**
@@ -28,6 +58,72 @@ export interface UpdateItem {
   bookmarkId: string;
   oldItem: BookmarkItem;
   newItem: BookmarkItem;
+  /** Fetched item, when a conflict resolution writes something else (e.g. a merge) */
+  remoteItem?: BookmarkItem;
+}
+
+/**
+ * Synced bookmark whose title or URL was changed by the user
+ */
+export interface LocalEdit {
+  bookmarkId: string;
+  /** The bookmark as edited locally */
+  local: BookmarkItem;
+  /** The fetched item */
+  remote: BookmarkItem;
+  /** Whether the item changed since the last sync as well */
+  remoteChanged: boolean;
+}
+
+/**
+ * Bookmarks created and archived while applying a diff
+ */
+export interface AppliedChanges {
+  /** IDs of the created bookmarks */
+  created: string[];
+  /** IDs of the removed bookmarks that were moved to the archive */
+  archived: string[];
+}
+
+/**
+ * Sync options
+ */
+export interface SyncOptions {
+  /** Compute the changes without touching bookmarks or sync status */
+  dryRun?: boolean;
+}
+
+/**
+ * Bookmark that a sync would remove
+ */
+export interface PreviewBookmark {
+  bookmarkId: string;
+  /** Linked item ID, if the bookmark was created by a sync */
+  itemId?: string;
+  title: string;
+  url: string;
+  /** Position in the folder before the sync */
+  index: number;
+}
+
+/**
+ * Changes a sync would make to a live folder
+ */
+export interface SyncPreview {
+  liveFolderId: string;
+  liveFolderName: string;
+  toAdd: BookmarkItem[];
+  toUpdate: UpdateItem[];
+  toDelete: PreviewBookmark[];
+  unchanged: number;
+  /**
+   * Bookmarks edited since the last sync
+   * Applying resolves them with the provider's conflict strategy, which may
+   * update them, keep them or leave them for the user to decide.
+   */
+  localEdits: LocalEdit[];
+  /** Bookmark titles in their final order after reordering */
+  order: string[];
 }
 
 /**
@@ -35,12 +131,32 @@ export interface UpdateItem {
  */
 export interface SyncResult {
   providerId: string;
+  liveFolderId: string;
   success: boolean;
   itemsAdded: number;
   itemsUpdated: number;
   itemsDeleted: number;
   error?: string;
+  /** Provider error category, when a provider call failed */
+  errorType?: ProviderErrorType;
+  /** Time (ms) the provider asked us to wait before retrying */
+  retryAfter?: number;
   duration: number; // milliseconds
+  /** Planned changes (dry runs only) */
+  preview?: SyncPreview;
+}
+
+/**
+ * Undo result
+ */
+export interface UndoResult {
+  providerId: string;
+  /** Bookmarks created by the sync that were removed again */
+  itemsRemoved: number;
+  /** Bookmarks whose previous title and URL were restored */
+  itemsReverted: number;
+  /** Bookmarks removed by the sync that were recreated */
+  itemsRestored: number;
 }
 
 /**
@@ -52,11 +168,13 @@ export class SyncEngine {
   private providerRegistry: ProviderRegistry;
   private bookmarkManager: BookmarkManager;
   private storage: StorageManager;
+  private conflictResolver: ConflictResolver;
 
   private constructor() {
     this.providerRegistry = ProviderRegistry.getInstance();
     this.bookmarkManager = BookmarkManager.getInstance();
     this.storage = StorageManager.getInstance();
+    this.conflictResolver = ConflictResolver.getInstance();
   }
 
   /**
@@ -70,25 +188,25 @@ export class SyncEngine {
   }
 
   /**
-   * Sync all enabled providers
+   * Sync all enabled live folders
    */
   public async syncAll(): Promise<SyncResult[]> {
-    logger.info("Starting sync for all providers");
+    logger.info("Starting sync for all live folders");
     const startTime = Date.now();
 
-    const providers = this.providerRegistry.getAllProviders();
+    const liveFolders = Object.values(await this.storage.getLiveFolders());
     const results: SyncResult[] = [];
 
-    for (const provider of providers) {
-      const status = this.providerRegistry.getProviderStatus(provider.metadata.id);
+    for (const liveFolder of liveFolders) {
+      const status = this.providerRegistry.getProviderStatus(liveFolder.providerId);
 
-      // Only sync if enabled and authenticated
-      if (status?.enabled && status?.authenticated) {
-        const result = await this.syncProvider(provider.metadata.id);
+      // Only sync if the folder and its provider are enabled and authenticated
+      if (liveFolder.enabled && status?.enabled && status?.authenticated) {
+        const result = await this.syncLiveFolder(liveFolder.id);
         results.push(result);
       } else {
         logger.debug(
-          `Skipping ${provider.metadata.id}: enabled=${status?.enabled}, auth=${status?.authenticated}`,
+          `Skipping ${liveFolder.providerId}/${liveFolder.name}: folder=${liveFolder.enabled}, enabled=${status?.enabled}, auth=${status?.authenticated}`,
         );
       }
     }
@@ -97,66 +215,162 @@ export class SyncEngine {
     const successCount = results.filter((r) => r.success).length;
 
     logger.info(
-      `Sync completed: ${successCount}/${results.length} providers succeeded in ${duration}ms`,
+      `Sync completed: ${successCount}/${results.length} live folders succeeded in ${duration}ms`,
     );
 
     return results;
   }
 
   /**
-   * Sync single provider
+   * Sync every enabled live folder of a provider
+   * With `dryRun`, each result carries a preview and no bookmarks are changed
    */
-  public async syncProvider(providerId: string): Promise<SyncResult> {
+  public async syncProvider(providerId: string, options: SyncOptions = {}): Promise<SyncResult[]> {
+    const liveFolders = await this.storage.getLiveFoldersForProvider(providerId);
+    const results: SyncResult[] = [];
+
+    for (const liveFolder of liveFolders) {
+      if (liveFolder.enabled && liveFolder.folderId) {
+        results.push(await this.syncLiveFolder(liveFolder.id, options));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Sync single live folder
+   */
+  public async syncLiveFolder(
+    liveFolderId: string,
+    options: SyncOptions = {},
+  ): Promise<SyncResult> {
     const startTime = Date.now();
-    logger.info(`Starting sync for provider: ${providerId}`);
+    const { dryRun = false } = options;
+    logger.info(`Starting ${dryRun ? "dry run" : "sync"} for live folder: ${liveFolderId}`);
+
+    const liveFolder = await this.storage.getLiveFolder(liveFolderId);
+    const providerId = liveFolder?.providerId ?? "unknown";
 
     try {
-      // 1. Get provider config (folder ID)
-      const providerData = await this.storage.getProvider(providerId);
-      if (!providerData?.folderId) {
-        throw new Error(`Provider ${providerId} has no folder configured`);
+      // 1. Get live folder config (folder ID)
+      if (!liveFolder) {
+        throw new Error(`Live folder ${liveFolderId} not found`);
+      }
+      if (!liveFolder.folderId) {
+        throw new Error(`Live folder "${liveFolder.name}" has no folder configured`);
       }
 
       // 2. Verify folder exists
-      const folder = await this.bookmarkManager.getFolder(providerData.folderId);
+      const folder = await this.bookmarkManager.getFolder(liveFolder.folderId);
       if (!folder) {
-        throw new Error(`Folder ${providerData.folderId} not found`);
+        throw new Error(`Folder ${liveFolder.folderId} not found`);
       }
 
-      // 3. Fetch items from provider
-      logger.debug(`Fetching items from ${providerId}`);
-      const items = await this.providerRegistry.fetchProviderItems(providerId);
-      logger.debug(`Fetched ${items.length} items from ${providerId}`);
+      // 3. Fetch items from provider using this folder's filters
+      logger.debug(`Fetching items from ${providerId} for "${liveFolder.name}"`);
+      const fetchedItems = await this.providerRegistry.fetchProviderItems(providerId, liveFolder);
+      logger.debug(`Fetched ${fetchedItems.length} items from ${providerId}`);
+
+      // Enforce the item cap for providers that don't apply it while paginating
+      const { maxItemsPerProvider } = await this.storage.getSettings();
+      const items = fetchedItems.slice(0, maxItemsPerProvider);
+      if (items.length < fetchedItems.length) {
+        logger.info(
+          `Capped ${providerId}/${liveFolder.name} at ${maxItemsPerProvider} of ${fetchedItems.length} items`,
+        );
+      }
 
       // 4. Calculate diff
-      const diff = await this.calculateDiff(providerData.folderId, items);
+      const records = await this.storage.getBookmarkMetadata(liveFolder.id);
+      const diff = await this.calculateDiff(liveFolder.folderId, items, records);
+      // Resolving records conflicts, so dry runs only report the local edits
+      const conflicts = dryRun ? [] : await this.resolveLocalEdits(liveFolder, diff);
       logger.debug(`Diff: +${diff.toAdd.length} ~${diff.toUpdate.length} -${diff.toDelete.length}`);
 
-      // 5. Apply changes
-      const sortOrder = providerData.config?.sortOrder || "alphabetical";
-      await this.applyChanges(providerId, providerData.folderId, diff, sortOrder);
+      const sortOrder = liveFolder.sortOrder || "alphabetical";
+      const deleted = await this.getDeletedBookmarks(liveFolder.folderId, diff.toDelete, records);
+      if (dryRun) {
+        const preview = this.buildPreview(liveFolder, diff, deleted, items, sortOrder);
+        return {
+          providerId,
+          liveFolderId,
+          success: true,
+          itemsAdded: diff.toAdd.length,
+          itemsUpdated: diff.toUpdate.length,
+          itemsDeleted: diff.toDelete.length,
+          duration: Date.now() - startTime,
+          preview,
+        };
+      }
+
+      // 5. Apply changes, then prune the "Recently closed" archive
+      const applied = await this.applyChanges(liveFolder, diff, sortOrder);
+      await this.pruneArchive(liveFolder);
+      await this.saveConflicts(liveFolder, conflicts);
 
       // 6. Reorder all bookmarks in the folder according to sort preference
-      await this.bookmarkManager.reorderFolder(providerData.folderId, items, sortOrder);
+      await this.bookmarkManager.reorderFolder(liveFolder.folderId, items, sortOrder);
 
       // 7. Update folder title with statistics (if enabled)
-      await this.updateFolderTitle(providerId, folder.title, items);
+      await this.updateFolderTitle(liveFolder, folder.title, items);
 
       // 8. Update metadata
+      await this.setLiveFolderSyncResult(liveFolderId, { lastSyncStatus: "success" });
       await this.setLastSyncTime(providerId, Date.now());
 
       const duration = Date.now() - startTime;
-      logger.info(`Sync completed for ${providerId} in ${duration}ms`);
+      logger.info(`Sync completed for ${providerId}/${liveFolder.name} in ${duration}ms`);
+
+      // Keep what this sync changed so it can be undone
+      if (diff.toAdd.length + diff.toUpdate.length + diff.toDelete.length > 0) {
+        await this.recordSyncUndo(providerId, {
+          liveFolderId,
+          liveFolderName: liveFolder.name,
+          folderId: liveFolder.folderId,
+          folderTitle: folder.title,
+          timestamp: startTime,
+          added: applied.created,
+          updated: diff.toUpdate.map(({ bookmarkId, oldItem }) => ({
+            bookmarkId,
+            title: oldItem.title,
+            url: oldItem.url,
+          })),
+          deleted: deleted.map(({ bookmarkId, itemId, title, url, index }) => ({
+            bookmarkId,
+            archived: applied.archived.includes(bookmarkId),
+            itemId,
+            title,
+            url,
+            index,
+          })),
+          records,
+        });
+      }
+
+      await this.recordSyncJournal({
+        providerId,
+        liveFolderId,
+        liveFolderName: liveFolder.name,
+        timestamp: startTime,
+        duration,
+        success: true,
+        added: diff.toAdd.map((item) => ({ itemId: item.id, title: item.title })),
+        updated: diff.toUpdate.map(({ newItem }) => ({ itemId: newItem.id, title: newItem.title })),
+        removed: deleted.map((bookmark) => ({
+          itemId: bookmark.itemId ?? bookmark.bookmarkId,
+          title: bookmark.title,
+        })),
+      });
 
-      // 8. Send success notification if enabled
+      // 9. Send success notification if enabled
       const settings = await this.storage.getSettings();
       logger.debug(
         `Notification settings: enableNotifications=${settings.enableNotifications}, notifyOnSuccess=${settings.notifyOnSuccess}`,
       );
 
       if (settings.enableNotifications && settings.notifyOnSuccess) {
-        const provider = this.providerRegistry.getProvider(providerId);
-        const providerName = provider?.metadata.name || providerId;
+        const folderName = this.getDisplayName(providerId, liveFolder.name);
         const totalChanges = diff.toAdd.length + diff.toUpdate.length + diff.toDelete.length;
 
         if (totalChanges > 0) {
@@ -165,18 +379,18 @@ export class SyncEngine {
           if (diff.toUpdate.length > 0) parts.push(`${diff.toUpdate.length} updated`);
           if (diff.toDelete.length > 0) parts.push(`${diff.toDelete.length} removed`);
 
-          logger.debug(`Sending success notification: ${providerName} - ${parts.join(", ")}`);
+          logger.debug(`Sending success notification: ${folderName} - ${parts.join(", ")}`);
           await notificationService.notify({
             type: NotificationType.SYNC_SUCCESS,
-            title: `${providerName} synced successfully`,
+            title: `${folderName} synced successfully`,
             message: parts.join(", "),
             providerId,
           });
         } else {
-          logger.debug(`Sending success notification: ${providerName} - No changes`);
+          logger.debug(`Sending success notification: ${folderName} - No changes`);
           await notificationService.notify({
             type: NotificationType.SYNC_SUCCESS,
-            title: `${providerName} synced successfully`,
+            title: `${folderName} synced successfully`,
             message: "No changes",
             providerId,
           });
@@ -187,6 +401,7 @@ export class SyncEngine {
 
       return {
         providerId,
+        liveFolderId,
         success: true,
         itemsAdded: diff.toAdd.length,
         itemsUpdated: diff.toUpdate.length,
@@ -197,17 +412,55 @@ export class SyncEngine {
       const duration = Date.now() - startTime;
       const errorMessage = error instanceof Error ? error.message : "Unknown error";
 
-      logger.error(`Sync failed for ${providerId}:`, error);
+      logger.error(`Sync failed for live folder ${liveFolderId}:`, error);
+
+      // A failed preview says nothing about the last real sync
+      if (dryRun) {
+        return {
+          providerId,
+          liveFolderId,
+          success: false,
+          itemsAdded: 0,
+          itemsUpdated: 0,
+          itemsDeleted: 0,
+          error: errorMessage,
+          duration,
+        };
+      }
+
+      await this.setLiveFolderSyncResult(liveFolderId, {
+        lastSyncStatus: "error",
+        lastError: errorMessage,
+      });
+
+      await this.recordSyncJournal({
+        providerId,
+        liveFolderId,
+        liveFolderName: liveFolder?.name ?? liveFolderId,
+        timestamp: startTime,
+        duration,
+        success: false,
+        error: errorMessage,
+        added: [],
+        updated: [],
+        removed: [],
+      });
+
+      // Rejected credentials: stop syncing the provider and ask once to reconnect
+      const authRejected =
+        error instanceof ProviderError && error.type === ProviderErrorType.AUTH_EXPIRED;
+      if (authRejected && (await authManager.markReauthRequired(providerId))) {
+        await notificationService.notifyAuthRequired(providerId, this.getDisplayName(providerId));
+      }
 
       // Send error notification if enabled
       const settings = await this.storage.getSettings();
-      if (settings.enableNotifications && settings.notifyOnError) {
-        const provider = this.providerRegistry.getProvider(providerId);
-        const providerName = provider?.metadata.name || providerId;
+      if (!authRejected && settings.enableNotifications && settings.notifyOnError) {
+        const folderName = this.getDisplayName(providerId, liveFolder?.name);
 
         await notificationService.notify({
           type: NotificationType.SYNC_ERROR,
-          title: `${providerName} sync failed`,
+          title: `${folderName} sync failed`,
           message: errorMessage,
           providerId,
         });
@@ -215,11 +468,16 @@ export class SyncEngine {
 
       return {
         providerId,
+        liveFolderId,
         success: false,
         itemsAdded: 0,
         itemsUpdated: 0,
         itemsDeleted: 0,
         error: errorMessage,
+        ...(error instanceof ProviderError && {
+          errorType: error.type,
+          retryAfter: error.retryAfter,
+        }),
         duration,
       };
     }
@@ -227,126 +485,718 @@ export class SyncEngine {
 
   /**
    * Calculate diff between current bookmarks and fetched items
+   *
+   * Items are matched to bookmarks through their stored itemId → bookmarkId
+   * records, so URL changes (repo renames, project moves) update bookmarks in
+   * place. URL matching is only used for legacy records without a hash.
+   * Pinned items get the pin indicator in their title and are never deleted.
+   * Bookmarks that no longer match their last-synced hash were edited locally and
+   * are returned as local edits instead of updates.
    */
-  public async calculateDiff(folderId: string, fetchedItems: BookmarkItem[]): Promise<SyncDiff> {
+  public async calculateDiff(
+    folderId: string,
+    fetchedItems: BookmarkItem[],
+    records: Record<string, BookmarkRecord> = {},
+  ): Promise<SyncDiff> {
     // 1. Get current bookmarks from folder
     const currentBookmarks = await this.bookmarkManager.getFolderContents(folderId);
+    const bookmarksById = new Map(currentBookmarks.map((bookmark) => [bookmark.id, bookmark]));
 
-    // 2. Build lookup maps (using URL as key)
-    const currentMap = new Map<string, BookmarkNode>();
+    // 2. Build URL lookup for legacy records, skipping bookmarks already linked to an item
+    const linkedBookmarkIds = new Set(
+      Object.values(records)
+        .filter((record) => record.hash && bookmarksById.has(record.bookmarkId))
+        .map((record) => record.bookmarkId),
+    );
+    const bookmarksByUrl = new Map<string, BookmarkNode>();
     for (const bookmark of currentBookmarks) {
-      if (bookmark.url) {
-        currentMap.set(bookmark.url, bookmark);
+      if (bookmark.url && !linkedBookmarkIds.has(bookmark.id)) {
+        bookmarksByUrl.set(bookmark.url, bookmark);
       }
     }
 
-    const fetchedMap = new Map<string, BookmarkItem>();
-    for (const item of fetchedItems) {
-      fetchedMap.set(item.url, item);
-    }
+    const toAdd: BookmarkItem[] = [];
+    const toUpdate: UpdateItem[] = [];
+    const unchanged: MatchedItem[] = [];
+    const localEdits: LocalEdit[] = [];
+    const matchedBookmarkIds = new Set<string>();
+
+    for (const fetchedItem of fetchedItems) {
+      // 3. Match by item ID, falling back to URL for legacy records
+      const record = records[fetchedItem.id];
+      const item = record?.pinned
+        ? { ...fetchedItem, title: withPinIndicator(fetchedItem.title) }
+        : fetchedItem;
+      let current = record ? bookmarksById.get(record.bookmarkId) : undefined;
+      if (!current && !record?.hash) {
+        current = bookmarksByUrl.get(item.url);
+      }
 
-    // 3. Find items to add (in fetched, not in current)
-    const toAdd = fetchedItems.filter((item) => !currentMap.has(item.url));
+      if (!current || matchedBookmarkIds.has(current.id)) {
+        toAdd.push(item);
+        continue;
+      }
+      matchedBookmarkIds.add(current.id);
+
+      // 4. Update when the title or URL differs from the bookmark, unless the user edited it
+      const currentHash = hashBookmarkContent(current);
+      const itemHash = hashBookmarkContent(item);
+      if (currentHash === itemHash) {
+        unchanged.push({ bookmarkId: current.id, item });
+        continue;
+      }
 
-    // 4. Find items to delete (in current, not in fetched)
+      const local: BookmarkItem = {
+        id: item.id,
+        providerId: item.providerId,
+        title: current.title,
+        url: current.url ?? "",
+      };
+      if (!record?.hash || currentHash === record.hash) {
+        toUpdate.push({ bookmarkId: current.id, oldItem: local, newItem: item });
+      } else if (currentHash === record.localHash && itemHash === record.hash) {
+        // An earlier resolution kept the local edit and the item hasn't changed since
+        unchanged.push({ bookmarkId: current.id, item, localHash: currentHash });
+      } else {
+        localEdits.push({
+          bookmarkId: current.id,
+          // The edit happened some time after the last sync
+          local: { ...local, lastModified: new Date(record.lastUpdated).toISOString() },
+          remote: item,
+          remoteChanged: itemHash !== record.hash,
+        });
+      }
+    }
+
+    // 5. Delete bookmarks that no fetched item matched, unless they are pinned
+    const pinnedBookmarkIds = new Set(
+      Object.values(records)
+        .filter((record) => record.pinned)
+        .map((record) => record.bookmarkId),
+    );
     const toDelete = currentBookmarks
-      .filter((bookmark) => bookmark.url && !fetchedMap.has(bookmark.url))
+      .filter(
+        (bookmark) =>
+          bookmark.url &&
+          !matchedBookmarkIds.has(bookmark.id) &&
+          !pinnedBookmarkIds.has(bookmark.id),
+      )
       .map((bookmark) => bookmark.id);
 
-    // 5. Find items to update (in both, but title changed)
-    const toUpdate: UpdateItem[] = [];
-    for (const [url, item] of fetchedMap) {
-      const current = currentMap.get(url);
-      if (current?.url && current.title !== item.title) {
-        toUpdate.push({
-          bookmarkId: current.id,
-          oldItem: {
-            id: current.id,
-            providerId: item.providerId,
-            title: current.title,
-            url: current.url,
-          },
-          newItem: item,
+    return { toAdd, toUpdate, toDelete, unchanged, localEdits };
+  }
+
+  /**
+   * Resolve local edits with the provider's conflict strategy
+   *
+   * Resolved edits move into the diff's updates (or unchanged items, when the
+   * bookmark already shows the result). Edits the user has to decide on stay in
+   * `diff.localEdits`, untouched, and are returned as unresolved conflicts.
+   */
+  private async resolveLocalEdits(liveFolder: LiveFolder, diff: SyncDiff): Promise<Conflict[]> {
+    const localEdits = diff.localEdits ?? [];
+    if (localEdits.length === 0) {
+      return [];
+    }
+
+    const { providerId } = liveFolder;
+    const providerData = await this.storage.getProvider(providerId);
+    this.conflictResolver.setProviderStrategy(
+      providerId,
+      providerData?.config.conflictStrategy ?? "remote_wins",
+    );
+
+    const pending: LocalEdit[] = [];
+    const conflicts: Conflict[] = [];
+    for (const edit of localEdits) {
+      const conflict = this.conflictResolver.detectLocalEdit(edit.local, edit.remote, providerId, {
+        liveFolderId: liveFolder.id,
+        bookmarkId: edit.bookmarkId,
+        remoteChanged: edit.remoteChanged,
+      });
+      const { resolved, requiresUserConfirmation } =
+        this.conflictResolver.resolveConflict(conflict);
+
+      if (requiresUserConfirmation || !resolved) {
+        pending.push(edit);
+        conflicts.push(conflict);
+        continue;
+      }
+
+      const resolvedHash = hashBookmarkContent(resolved);
+      if (resolvedHash === hashBookmarkContent(edit.local)) {
+        diff.unchanged.push({
+          bookmarkId: edit.bookmarkId,
+          item: edit.remote,
+          localHash: resolvedHash,
+        });
+      } else {
+        diff.toUpdate.push({
+          bookmarkId: edit.bookmarkId,
+          oldItem: edit.local,
+          newItem: { ...resolved, id: edit.remote.id },
+          ...(resolvedHash !== hashBookmarkContent(edit.remote) && { remoteItem: edit.remote }),
         });
       }
     }
 
-    return { toAdd, toUpdate, toDelete };
+    diff.localEdits = pending;
+    if (conflicts.length > 0) {
+      logger.info(`${conflicts.length} local edits in ${liveFolder.name} await resolution`);
+    }
+    return conflicts;
   }
 
   /**
-   * Apply changes to bookmarks
+   * Persist the unresolved conflicts of a live folder
+   * Conflicts that are no longer pending (e.g. the user undid the edit) are removed.
    */
-  public async applyChanges(
+  private async saveConflicts(liveFolder: LiveFolder, conflicts: Conflict[]): Promise<void> {
+    const stored = await this.storage.getConflicts();
+    const pendingIds = new Set(conflicts.map((conflict) => conflict.id));
+    const resolvedIds = Object.values(stored)
+      .filter((conflict) => conflict.liveFolderId === liveFolder.id && !pendingIds.has(conflict.id))
+      .map((conflict) => conflict.id);
+    if (resolvedIds.length > 0) {
+      await this.storage.deleteConflicts(resolvedIds);
+    }
+
+    if (conflicts.length === 0) {
+      return;
+    }
+
+    const result = await this.storage.saveConflicts(
+      conflicts.map((conflict) => ({
+        id: conflict.id,
+        type: conflict.type,
+        providerId: conflict.providerId,
+        liveFolderId: liveFolder.id,
+        bookmarkId: conflict.bookmarkId ?? "",
+        local: conflict.local as BookmarkItem,
+        remote: conflict.remote as BookmarkItem,
+        // Keep the original detection time of conflicts found by earlier syncs
+        detectedAt: stored[conflict.id]?.detectedAt ?? conflict.detectedAt.getTime(),
+      })),
+    );
+    if (!result.success) {
+      logger.warn(`Failed to save conflicts: ${result.error}`);
+    }
+
+    // Only notify about conflicts earlier syncs haven't already reported
+    const newConflicts = conflicts.filter((conflict) => !stored[conflict.id]);
+    if (newConflicts.length > 0) {
+      await notificationService.notifyConflict(liveFolder.providerId, newConflicts.length);
+    }
+  }
+
+  /**
+   * Apply the user's decision on a conflict
+   *
+   * The bookmark is set to the chosen version and its record updated so the
+   * next sync doesn't report it again. "Keep both" also saves the local version
+   * next to the live folder, where syncs don't touch it; "delete" removes the
+   * bookmark (a later sync adds it back if the item is still fetched).
+   */
+  public async resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<void> {
+    const stored = (await this.storage.getConflicts())[conflictId];
+    if (!stored) {
+      throw new Error(`Conflict ${conflictId} not found`);
+    }
+
+    // Conflicts found before a service worker restart are only in storage
+    if (!this.conflictResolver.getConflict(conflictId)) {
+      this.conflictResolver.restoreConflicts([stored]);
+    }
+    const result = this.conflictResolver.resolveManually(conflictId, resolution);
+    if (!result) {
+      throw new Error(`Conflict ${conflictId} not found`);
+    }
+
+    const { liveFolderId, bookmarkId, local, remote } = stored;
+    const records = await this.storage.getBookmarkMetadata(liveFolderId);
+    const bookmark = await this.bookmarkManager.getBookmark(bookmarkId);
+
+    if (bookmark) {
+      const { resolved } = result;
+      if (!resolved) {
+        await this.bookmarkManager.deleteBookmark(bookmarkId);
+        delete records[remote.id];
+      } else {
+        if (resolution.action === "keep_both" && bookmark.parentId) {
+          const folder = await this.bookmarkManager.getFolder(bookmark.parentId);
+          await this.bookmarkManager.createBookmark(folder?.parentId ?? bookmark.parentId, {
+            ...local,
+            title: withoutPinIndicator(local.title),
+          });
+        }
+
+        if (hashBookmarkContent(resolved) !== hashBookmarkContent(bookmark)) {
+          await this.bookmarkManager.updateBookmark(bookmarkId, {
+            title: resolved.title,
+            url: resolved.url,
+          });
+        }
+
+        const remoteHash = hashBookmarkContent(remote);
+        const resolvedHash = hashBookmarkContent(resolved);
+        if (records[remote.id]) {
+          records[remote.id] = {
+            ...records[remote.id],
+            lastUpdated: Date.now(),
+            hash: remoteHash,
+            localHash: resolvedHash !== remoteHash ? resolvedHash : undefined,
+          };
+        }
+      }
+
+      const saveResult = await this.storage.saveBookmarkMetadata(liveFolderId, records);
+      if (!saveResult.success) {
+        throw new Error(saveResult.error || "Failed to save conflict resolution");
+      }
+    } else {
+      logger.debug(`Bookmark ${bookmarkId} is gone, dropping conflict ${conflictId}`);
+    }
+
+    await this.storage.deleteConflicts([conflictId]);
+    logger.info(`Resolved conflict ${conflictId}: ${resolution.action}`);
+  }
+
+  /**
+   * Describe a diff for display, including the final bookmark order
+   */
+  private buildPreview(
+    liveFolder: LiveFolder,
+    diff: SyncDiff,
+    deleted: PreviewBookmark[],
+    items: BookmarkItem[],
+    sortOrder: BookmarkSortOrder,
+  ): SyncPreview {
+    return {
+      liveFolderId: liveFolder.id,
+      liveFolderName: liveFolder.name,
+      toAdd: diff.toAdd,
+      toUpdate: diff.toUpdate,
+      toDelete: deleted,
+      unchanged: diff.unchanged.length,
+      localEdits: diff.localEdits ?? [],
+      order: sortBookmarkItems(items, sortOrder).map((item) => item.title),
+    };
+  }
+
+  /**
+   * Look up the bookmarks a diff will delete, with the items they were linked to
+   */
+  private async getDeletedBookmarks(
+    folderId: string,
+    toDelete: string[],
+    records: Record<string, BookmarkRecord>,
+  ): Promise<PreviewBookmark[]> {
+    if (toDelete.length === 0) {
+      return [];
+    }
+
+    const deleted = new Set(toDelete);
+    const itemIds = new Map(
+      Object.values(records).map((record) => [record.bookmarkId, record.itemId]),
+    );
+    const currentBookmarks = await this.bookmarkManager.getFolderContents(folderId);
+
+    return currentBookmarks
+      .filter((bookmark) => deleted.has(bookmark.id))
+      .map((bookmark) => ({
+        bookmarkId: bookmark.id,
+        itemId: itemIds.get(bookmark.id),
+        title: bookmark.title,
+        url: bookmark.url ?? "",
+        index: bookmark.index ?? 0,
+      }));
+  }
+
+  /**
+   * Append a sync to the provider's journal
+   * Journal failures are logged but never fail the sync itself
+   */
+  private async recordSyncJournal(entry: Omit<SyncJournalEntry, "id">): Promise<void> {
+    const result = await this.storage.addSyncJournalEntry(entry);
+    if (!result.success) {
+      logger.warn(`Failed to record sync journal entry: ${result.error}`);
+    }
+  }
+
+  /**
+   * Keep the changes of a live folder sync for undo
+   * Failures are logged but never fail the sync itself
+   */
+  private async recordSyncUndo(providerId: string, folder: SyncUndoFolder): Promise<void> {
+    const result = await this.storage.saveSyncUndoFolder(providerId, folder);
+    if (!result.success) {
+      logger.warn(`Failed to record undo data: ${result.error}`);
+    }
+  }
+
+  /**
+   * Revert the last sync of every live folder of a provider
+   *
+   * Removes the bookmarks the sync created, restores previous titles and URLs,
+   * recreates removed bookmarks at their old positions and restores the
+   * bookmark metadata. The provider is then disabled so the next scheduled
+   * sync doesn't redo the changes; syncing resumes when it is re-enabled.
+   */
+  public async undoLastSync(providerId: string): Promise<UndoResult> {
+    const snapshot = await this.storage.getProviderSyncUndo(providerId);
+    if (!snapshot) {
+      throw new Error(`No sync to undo for ${providerId}`);
+    }
+
+    logger.info(`Undoing last sync for ${providerId}`);
+    const result: UndoResult = { providerId, itemsRemoved: 0, itemsReverted: 0, itemsRestored: 0 };
+
+    for (const folder of Object.values(snapshot.folders)) {
+      if (!(await this.storage.getLiveFolder(folder.liveFolderId))) {
+        logger.debug(`Skipping undo for removed live folder ${folder.liveFolderId}`);
+        continue;
+      }
+
+      result.itemsRemoved += folder.added.length;
+      result.itemsReverted += folder.updated.length;
+      result.itemsRestored += await this.undoLiveFolderSync(providerId, folder);
+    }
+
+    // Pause scheduled syncs for the provider until the user re-enables it
+    const providerData = await this.storage.getProvider(providerId);
+    if (providerData) {
+      await this.storage.saveProvider(providerId, {
+        ...providerData,
+        config: { ...providerData.config, enabled: false },
+      });
+      await this.providerRegistry.refreshProviderStatus(providerId);
+    }
+
+    await this.storage.clearSyncUndo(providerId);
+
+    logger.info(
+      `Undid last sync for ${providerId}: -${result.itemsRemoved} ~${result.itemsReverted} +${result.itemsRestored}`,
+    );
+    return result;
+  }
+
+  /**
+   * Revert the changes a sync made to one live folder
+   * Returns the number of removed bookmarks that were recreated
+   */
+  private async undoLiveFolderSync(providerId: string, folder: SyncUndoFolder): Promise<number> {
+    await this.bookmarkManager.batchDelete(folder.added);
+    await this.bookmarkManager.batchUpdate(
+      folder.updated.map(({ bookmarkId, title, url }) => ({
+        bookmarkId,
+        changes: { title, url },
+      })),
+    );
+
+    // Recreate removed bookmarks front to back so earlier positions are filled first
+    const records = { ...folder.records };
+    let folderSize = (await this.bookmarkManager.getFolderContents(folder.folderId)).length;
+    let restored = 0;
+
+    for (const bookmark of [...folder.deleted].sort((a, b) => a.index - b.index)) {
+      try {
+        const bookmarkId = await this.restoreBookmark(
+          providerId,
+          folder.folderId,
+          bookmark,
+          Math.min(bookmark.index, folderSize),
+        );
+        folderSize++;
+        restored++;
+
+        if (bookmark.itemId && records[bookmark.itemId]) {
+          records[bookmark.itemId] = { ...records[bookmark.itemId], bookmarkId };
+        }
+      } catch (error) {
+        logger.warn(`Failed to restore bookmark "${bookmark.title}"`, error);
+      }
+    }
+
+    await this.storage.saveBookmarkMetadata(folder.liveFolderId, records);
+
+    try {
+      await this.bookmarkManager.updateBookmark(folder.folderId, { title: folder.folderTitle });
+    } catch (error) {
+      logger.warn(`Failed to restore folder title for ${folder.liveFolderName}`, error);
+    }
+
+    return restored;
+  }
+
+  /**
+   * Put a removed bookmark back into a folder
+   * Archived bookmarks are moved back; deleted ones (or archived ones that are gone) are recreated
+   */
+  private async restoreBookmark(
     providerId: string,
     folderId: string,
+    bookmark: SyncUndoFolder["deleted"][number],
+    index: number,
+  ): Promise<string> {
+    if (bookmark.archived) {
+      try {
+        await this.bookmarkManager.moveBookmark(bookmark.bookmarkId, folderId, index);
+        return bookmark.bookmarkId;
+      } catch {
+        logger.debug(`Archived bookmark ${bookmark.bookmarkId} is gone, recreating it`);
+      }
+    }
+
+    return this.bookmarkManager.createBookmark(
+      folderId,
+      { id: bookmark.itemId ?? "", providerId, title: bookmark.title, url: bookmark.url },
+      index,
+    );
+  }
+
+  /**
+   * Get the archive options of a provider
+   */
+  private async getArchiveOptions(providerId: string): Promise<ArchiveOptions> {
+    const providerData = await this.storage.getProvider(providerId);
+    return { ...DEFAULT_ARCHIVE_OPTIONS, ...providerData?.config.archive };
+  }
+
+  /**
+   * Move removed bookmarks into the live folder's archive subfolder
+   * Bookmarks that can't be moved are deleted so they still leave the live folder.
+   * Returns the IDs of the archived bookmarks.
+   */
+  private async archiveBookmarks(
+    liveFolder: LiveFolder,
+    folderId: string,
+    bookmarkIds: string[],
+    options: ArchiveOptions,
+  ): Promise<string[]> {
+    // Reuse the archive subfolder while it exists, otherwise create it
+    let archive = await this.storage.getArchive(liveFolder.id);
+    const archiveFolder = archive ? await this.bookmarkManager.getFolder(archive.folderId) : null;
+    if (!archive || !archiveFolder) {
+      archive = {
+        folderId: await this.bookmarkManager.createFolder(options.folderName, folderId),
+        archivedAt: {},
+      };
+    } else if (archiveFolder.title !== options.folderName) {
+      await this.bookmarkManager.updateBookmark(archive.folderId, { title: options.folderName });
+    }
+
+    logger.debug(`Archiving ${bookmarkIds.length} bookmarks to "${options.folderName}"`);
+    const archived = await this.bookmarkManager.batchMove(bookmarkIds, archive.folderId);
+    const failed = bookmarkIds.filter((id) => !archived.includes(id));
+    if (failed.length > 0) {
+      await this.bookmarkManager.batchDelete(failed);
+    }
+
+    const now = Date.now();
+    for (const id of archived) {
+      archive.archivedAt[id] = now;
+    }
+    await this.storage.saveArchive(liveFolder.id, archive);
+
+    return archived;
+  }
+
+  /**
+   * Delete archived bookmarks past the provider's retention (count or days)
+   * Bookmarks the user removed from the archive are forgotten; ones the user
+   * added are treated as archived now.
+   */
+  public async pruneArchive(liveFolder: LiveFolder): Promise<void> {
+    try {
+      const options = await this.getArchiveOptions(liveFolder.providerId);
+      const archive = await this.storage.getArchive(liveFolder.id);
+      if (!options.enabled || !archive) {
+        return;
+      }
+
+      const now = Date.now();
+      const bookmarks = await this.bookmarkManager.getFolderContents(archive.folderId);
+      const newestFirst = bookmarks
+        .map((bookmark) => ({
+          id: bookmark.id,
+          archivedAt: archive.archivedAt[bookmark.id] ?? now,
+        }))
+        .sort((a, b) => b.archivedAt - a.archivedAt);
+
+      const expired =
+        options.retention === "count"
+          ? newestFirst.slice(Math.max(0, options.maxItems))
+          : newestFirst.filter(({ archivedAt }) => archivedAt < now - options.maxDays * DAY_MS);
+      const expiredIds = new Set(expired.map(({ id }) => id));
+
+      if (expiredIds.size > 0) {
+        logger.debug(`Pruning ${expiredIds.size} archived bookmarks from ${liveFolder.name}`);
+        await this.bookmarkManager.batchDelete([...expiredIds]);
+      }
+
+      await this.storage.saveArchive(liveFolder.id, {
+        folderId: archive.folderId,
+        archivedAt: Object.fromEntries(
+          newestFirst
+            .filter(({ id }) => !expiredIds.has(id))
+            .map(({ id, archivedAt }) => [id, archivedAt]),
+        ),
+      });
+    } catch (error) {
+      // Non-fatal: the sync itself already succeeded
+      logger.error(`Failed to prune archive for ${liveFolder.name}`, error);
+    }
+  }
+
+  /**
+   * Apply changes to bookmarks
+   * Removed bookmarks are archived instead of deleted when the provider's archive is enabled
+   */
+  public async applyChanges(
+    liveFolder: LiveFolder,
     diff: SyncDiff,
-    sortOrder: "alphabetical" | "created" | "updated" = "alphabetical",
-  ): Promise<void> {
-    // Delete first (free up space)
+    sortOrder: BookmarkSortOrder = "alphabetical",
+  ): Promise<AppliedChanges> {
+    const { id: liveFolderId, providerId, folderId } = liveFolder;
+    if (!folderId) {
+      throw new Error(`Live folder "${liveFolder.name}" has no folder configured`);
+    }
+
+    const existingMetadata = await this.storage.getBookmarkMetadata(liveFolderId);
+    const metadata: { [itemId: string]: BookmarkRecord } = {};
+
+    const toRecord = (
+      item: BookmarkItem,
+      bookmarkId: string,
+      localHash?: string,
+    ): BookmarkRecord => ({
+      ...existingMetadata[item.id],
+      itemId: item.id,
+      bookmarkId,
+      providerId,
+      lastUpdated: Date.now(),
+      hash: hashBookmarkContent(item),
+      localHash,
+      createdAt: item.createdAt,
+      updatedAt: item.updatedAt,
+      lastModified: item.lastModified,
+    });
+
+    // Delete (or archive) first to free up space
+    let archived: string[] = [];
     if (diff.toDelete.length > 0) {
-      logger.debug(`Deleting ${diff.toDelete.length} bookmarks`);
-      await this.bookmarkManager.batchDelete(diff.toDelete);
+      const archiveOptions = await this.getArchiveOptions(providerId);
+      if (archiveOptions.enabled) {
+        archived = await this.archiveBookmarks(liveFolder, folderId, diff.toDelete, archiveOptions);
+      } else {
+        logger.debug(`Deleting ${diff.toDelete.length} bookmarks`);
+        await this.bookmarkManager.batchDelete(diff.toDelete);
+      }
     }
 
-    // Then update
+    // Then update title and URL in place
     if (diff.toUpdate.length > 0) {
       logger.debug(`Updating ${diff.toUpdate.length} bookmarks`);
-      const updates = diff.toUpdate.map((item) => ({
-        bookmarkId: item.bookmarkId,
-        changes: { title: item.newItem.title },
+      const updates = diff.toUpdate.map(({ bookmarkId, oldItem, newItem }) => ({
+        bookmarkId,
+        changes: {
+          title: newItem.title,
+          ...(oldItem.url !== newItem.url && { url: newItem.url }),
+        },
       }));
       await this.bookmarkManager.batchUpdate(updates);
 
-      // Update metadata timestamps for updated items
-      const existingMetadata = await this.storage.getBookmarkMetadata(providerId);
-      for (const updateItem of diff.toUpdate) {
-        const itemId = updateItem.newItem.id;
-        if (existingMetadata[itemId]) {
-          existingMetadata[itemId] = {
-            ...existingMetadata[itemId],
-            lastUpdated: Date.now(),
-            createdAt: updateItem.newItem.createdAt,
-            updatedAt: updateItem.newItem.updatedAt,
-            lastModified: updateItem.newItem.lastModified,
-          };
-        }
+      // Records hash the fetched item, so a merged bookmark isn't mistaken for a new local edit
+      for (const { bookmarkId, newItem, remoteItem } of diff.toUpdate) {
+        metadata[newItem.id] = remoteItem
+          ? toRecord(remoteItem, bookmarkId, hashBookmarkContent(newItem))
+          : toRecord(newItem, bookmarkId);
+      }
+    }
+
+    // Unchanged items keep their bookmark; this also gives legacy records a hash
+    for (const { bookmarkId, item, localHash } of diff.unchanged) {
+      metadata[item.id] = toRecord(item, bookmarkId, localHash);
+    }
+
+    // Bookmarks with unresolved local edits keep their record until the user decides
+    for (const { remote } of diff.localEdits ?? []) {
+      if (existingMetadata[remote.id]) {
+        metadata[remote.id] = existingMetadata[remote.id];
       }
-      await this.storage.saveBookmarkMetadata(providerId, existingMetadata);
     }
 
     // Finally add new items (sorted according to preference)
+    let bookmarkIds: string[] = [];
     if (diff.toAdd.length > 0) {
       logger.debug(`Adding ${diff.toAdd.length} bookmarks (sorted by ${sortOrder})`);
-      const bookmarkIds = await this.bookmarkManager.batchCreate(folderId, diff.toAdd, sortOrder);
+      // Sort up front so the returned bookmark IDs line up with the items
+      const toAdd = sortBookmarkItems(diff.toAdd, sortOrder);
+      bookmarkIds = await this.bookmarkManager.batchCreate(folderId, toAdd, sortOrder);
 
       // Save bookmark metadata with original timestamps
-      if (bookmarkIds.length === diff.toAdd.length) {
-        const metadata: { [itemId: string]: BookmarkRecord } = {};
-
-        for (let i = 0; i < diff.toAdd.length; i++) {
-          const item = diff.toAdd[i];
-          const bookmarkId = bookmarkIds[i];
-
-          metadata[item.id] = {
-            itemId: item.id,
-            bookmarkId,
-            providerId,
-            lastUpdated: Date.now(),
-            createdAt: item.createdAt,
-            updatedAt: item.updatedAt,
-            lastModified: item.lastModified,
-          };
+      if (bookmarkIds.length === toAdd.length) {
+        for (let i = 0; i < toAdd.length; i++) {
+          metadata[toAdd[i].id] = toRecord(toAdd[i], bookmarkIds[i]);
         }
+        logger.debug(`Saved metadata for ${diff.toAdd.length} bookmarks`);
+      }
+    }
 
-        await this.storage.saveBookmarkMetadata(providerId, metadata);
-        logger.debug(`Saved metadata for ${Object.keys(metadata).length} bookmarks`);
+    // Pinned items that are no longer fetched keep their bookmark and record
+    const deleted = new Set(diff.toDelete);
+    for (const record of Object.values(existingMetadata)) {
+      if (record.pinned && !metadata[record.itemId] && !deleted.has(record.bookmarkId)) {
+        metadata[record.itemId] = record;
       }
     }
 
+    // Records of other items that are no longer fetched are dropped with their bookmarks
+    await this.storage.saveBookmarkMetadata(liveFolderId, metadata);
+
     logger.info(
       `Applied changes: +${diff.toAdd.length} ~${diff.toUpdate.length} -${diff.toDelete.length}`,
     );
+    return { created: bookmarkIds, archived };
+  }
+
+  /**
+   * Pin or unpin an item of a live folder
+   * Pinned items keep their bookmark after they drop out of the provider's results.
+   */
+  public async setItemPinned(liveFolderId: string, itemId: string, pinned: boolean): Promise<void> {
+    const records = await this.storage.getBookmarkMetadata(liveFolderId);
+    const record = records[itemId];
+    if (!record) {
+      throw new Error(`Item ${itemId} is not synced to live folder ${liveFolderId}`);
+    }
+
+    records[itemId] = { ...record, pinned };
+
+    // Show the pin in the bookmark title right away; the next sync keeps it in place
+    const bookmark = await this.bookmarkManager.getBookmark(record.bookmarkId);
+    if (bookmark) {
+      const title = pinned ? withPinIndicator(bookmark.title) : withoutPinIndicator(bookmark.title);
+      if (title !== bookmark.title) {
+        await this.bookmarkManager.updateBookmark(record.bookmarkId, { title });
+      }
+
+      // The new title is part of the synced state, not a local edit
+      const previousHash = hashBookmarkContent(bookmark);
+      const hash = hashBookmarkContent({ title, url: bookmark.url });
+      if (record.hash === previousHash) {
+        records[itemId].hash = hash;
+      } else if (record.localHash === previousHash) {
+        records[itemId].localHash = hash;
+      }
+    }
+
+    const result = await this.storage.saveBookmarkMetadata(liveFolderId, records);
+    if (!result.success) {
+      throw new Error(result.error || "Failed to save pin");
+    }
+
+    logger.info(`${pinned ? "Pinned" : "Unpinned"} ${itemId} in live folder ${liveFolderId}`);
   }
 
   /**
@@ -377,14 +1227,47 @@ export class SyncEngine {
     }
   }
 
+  /**
+   * Record the outcome of a live folder sync
+   */
+  private async setLiveFolderSyncResult(
+    liveFolderId: string,
+    result: Pick<LiveFolder, "lastSyncStatus" | "lastError">,
+  ): Promise<void> {
+    try {
+      const liveFolder = await this.storage.getLiveFolder(liveFolderId);
+      if (liveFolder) {
+        await this.storage.saveLiveFolder({
+          ...liveFolder,
+          lastSync: Date.now(),
+          lastSyncStatus: result.lastSyncStatus,
+          lastError: result.lastError,
+        });
+      }
+    } catch (error) {
+      logger.error(`Failed to record sync result for live folder ${liveFolderId}`, error);
+    }
+  }
+
+  /**
+   * Name used in notifications, e.g. "GitHub: Team reviews"
+   */
+  private getDisplayName(providerId: string, folderName?: string): string {
+    const provider = this.providerRegistry.getProvider(providerId);
+    const providerName = provider?.metadata.name || providerId;
+    return folderName ? `${providerName}: ${folderName}` : providerName;
+  }
+
   /**
    * Update folder title with dynamic statistics
    */
   private async updateFolderTitle(
-    providerId: string,
+    liveFolder: LiveFolder,
     currentTitle: string,
     items: BookmarkItem[],
   ): Promise<void> {
+    const { providerId } = liveFolder;
+
     try {
       const provider = this.providerRegistry.getProvider(providerId);
       if (!provider) {
@@ -396,15 +1279,12 @@ export class SyncEngine {
       const baseName = currentTitle.replace(/\s*\(.*\)\s*$/, "").trim();
 
       // Format new title using provider's formatting logic
-      const newTitle = await provider.formatFolderTitle(baseName, items);
+      const newTitle = await provider.formatFolderTitle(baseName, items, liveFolder);
 
       // Only update if title changed
-      if (newTitle !== currentTitle) {
-        const providerData = await this.storage.getProvider(providerId);
-        if (providerData?.folderId) {
-          await this.bookmarkManager.updateBookmark(providerData.folderId, { title: newTitle });
-          logger.debug(`Updated folder title: "${currentTitle}" → "${newTitle}"`);
-        }
+      if (newTitle !== currentTitle && liveFolder.folderId) {
+        await this.bookmarkManager.updateBookmark(liveFolder.folderId, { title: newTitle });
+        logger.debug(`Updated folder title: "${currentTitle}" → "${newTitle}"`);
       }
     } catch (error) {
       logger.error(`Failed to update folder title for ${providerId}`, error);
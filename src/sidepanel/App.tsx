@@ -1,13 +1,23 @@
-import { Box, CssBaseline, Fade, Tab, Tabs, ThemeProvider } from "@mui/material";
+import { Badge, Box, CssBaseline, Fade, Tab, Tabs, ThemeProvider } from "@mui/material";
 import { useEffect, useId, useMemo, useState } from "react";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { useTheme } from "@/hooks/useTheme";
+import { StorageManager } from "@/services/storage";
 import { createAppTheme } from "@/theme";
+import type { SidepanelTarget, SidepanelView } from "@/types";
+import browser from "@/utils/browser";
 import { Logger } from "@/utils/logger";
+import { ActivityView } from "./views/ActivityView";
+import { ConflictsView } from "./views/ConflictsView";
 import { ItemsView } from "./views/ItemsView";
 import { ProvidersView } from "./views/ProvidersView";
 import { SettingsView } from "./views/SettingsView";
 
+/**
+ * Views in tab order, for deep links
+ */
+const TAB_VIEWS: SidepanelView[] = ["providers", "items", "activity", "conflicts", "settings"];
+
 export default function App() {
   // Get theme mode from settings (respects auto/light/dark preference)
   const themeMode = useTheme();
@@ -16,11 +26,47 @@ export default function App() {
   const [currentTab, setCurrentTab] = useState(0);
   const tabIdBase = useId();
 
+  const [conflictCount, setConflictCount] = useState(0);
+  const [focusProviderId, setFocusProviderId] = useState<string>();
+
   // Initialize Logger on mount
   useEffect(() => {
     Logger.initialize();
   }, []);
 
+  // Follow deep links (e.g. from notifications) and keep the conflict badge current
+  useEffect(() => {
+    const storage = StorageManager.getInstance();
+
+    const openTarget = (target: SidepanelTarget | null) => {
+      if (!target) {
+        return;
+      }
+      setCurrentTab(Math.max(0, TAB_VIEWS.indexOf(target.view)));
+      setFocusProviderId(target.providerId);
+      void storage.setSidepanelTarget(null);
+    };
+
+    void storage.getSidepanelTarget().then(openTarget);
+    void storage.getConflicts().then((conflicts) => {
+      setConflictCount(Object.keys(conflicts).length);
+    });
+
+    const handleStorageChange = (changes: Record<string, { newValue?: unknown }>) => {
+      if (changes.sidepanelTarget) {
+        openTarget((changes.sidepanelTarget.newValue as SidepanelTarget) ?? null);
+      }
+      if (changes.conflicts) {
+        setConflictCount(Object.keys(changes.conflicts.newValue ?? {}).length);
+      }
+    };
+
+    browser.storage.onChanged.addListener(handleStorageChange);
+    return () => {
+      browser.storage.onChanged.removeListener(handleStorageChange);
+    };
+  }, []);
+
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setCurrentTab(newValue);
   };
@@ -43,10 +89,24 @@ export default function App() {
               />
               <Tab label="Items" id={`${tabIdBase}-tab-1`} aria-controls={`${tabIdBase}-panel-1`} />
               <Tab
-                label="Settings"
+                label="Activity"
                 id={`${tabIdBase}-tab-2`}
                 aria-controls={`${tabIdBase}-panel-2`}
               />
+              <Tab
+                label={
+                  <Badge badgeContent={conflictCount} color="warning">
+                    Conflicts
+                  </Badge>
+                }
+                id={`${tabIdBase}-tab-3`}
+                aria-controls={`${tabIdBase}-panel-3`}
+              />
+              <Tab
+                label="Settings"
+                id={`${tabIdBase}-tab-4`}
+                aria-controls={`${tabIdBase}-panel-4`}
+              />
             </Tabs>
           </Box>
 
@@ -66,7 +126,7 @@ export default function App() {
                 id={`${tabIdBase}-panel-0`}
                 aria-labelledby={`${tabIdBase}-tab-0`}
               >
-                <ProvidersView />
+                <ProvidersView providerId={focusProviderId} />
               </Box>
             </Fade>
             <Fade in={currentTab === 1} timeout={300} unmountOnExit>
@@ -83,6 +143,24 @@ export default function App() {
                 role="tabpanel"
                 id={`${tabIdBase}-panel-2`}
                 aria-labelledby={`${tabIdBase}-tab-2`}
+              >
+                <ActivityView />
+              </Box>
+            </Fade>
+            <Fade in={currentTab === 3} timeout={300} unmountOnExit>
+              <Box
+                role="tabpanel"
+                id={`${tabIdBase}-panel-3`}
+                aria-labelledby={`${tabIdBase}-tab-3`}
+              >
+                <ConflictsView providerId={focusProviderId} />
+              </Box>
+            </Fade>
+            <Fade in={currentTab === 4} timeout={300} unmountOnExit>
+              <Box
+                role="tabpanel"
+                id={`${tabIdBase}-panel-4`}
+                aria-labelledby={`${tabIdBase}-tab-4`}
               >
                 <SettingsView />
               </Box>
@@ -0,0 +1,303 @@
+import { Error as ErrorIcon, ExpandMore, Search } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Collapse,
+  FormControl,
+  IconButton,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useEffect, useMemo, useState } from "react";
+import { ProviderIcon } from "@/components/ProviderIcon";
+import { ItemsListSkeleton } from "@/components/Skeletons";
+import { ProviderRegistry } from "@/services/provider-registry";
+import { StorageManager } from "@/services/storage";
+import type { SyncJournalEntry, SyncJournalItem } from "@/types";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+
+const logger = new Logger("ActivityView");
+
+type StatusFilter = "all" | "changes" | "error";
+
+/**
+ * Flatten the per-provider journal into one list, newest first
+ */
+const flattenJournal = (journal: Record<string, SyncJournalEntry[]>): SyncJournalEntry[] =>
+  Object.values(journal)
+    .flat()
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+/**
+ * Whether an entry added, updated or removed anything
+ */
+const hasChanges = (entry: SyncJournalEntry): boolean =>
+  entry.added.length + entry.updated.length + entry.removed.length > 0;
+
+export function ActivityView() {
+  const [entries, setEntries] = useState<SyncJournalEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [providerFilter, setProviderFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Load the sync journal and keep it fresh while the tab is open
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setError(null);
+        const journal = await StorageManager.getInstance().getSyncJournal();
+        setEntries(flattenJournal(journal));
+      } catch (err) {
+        logger.error("Failed to load sync journal", err as Error);
+        setError(err instanceof Error ? err.message : "Failed to load activity");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void loadEntries();
+
+    const handleStorageChange = (changes: Record<string, { newValue?: unknown }>) => {
+      if (changes.syncJournal) {
+        setEntries(
+          flattenJournal(
+            (changes.syncJournal.newValue as Record<string, SyncJournalEntry[]>) || {},
+          ),
+        );
+      }
+    };
+
+    browser.storage.onChanged.addListener(handleStorageChange);
+    return () => {
+      browser.storage.onChanged.removeListener(handleStorageChange);
+    };
+  }, []);
+
+  const providerIds = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.providerId))).sort(),
+    [entries],
+  );
+
+  // Filter by provider, status and search query (folder name, item title or item ID)
+  const filteredEntries = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    const matchesItem = (item: SyncJournalItem) =>
+      item.title.toLowerCase().includes(query) || item.itemId.toLowerCase().includes(query);
+
+    return entries.filter((entry) => {
+      if (providerFilter !== "all" && entry.providerId !== providerFilter) return false;
+      if (statusFilter === "error" && entry.success) return false;
+      if (statusFilter === "changes" && !hasChanges(entry)) return false;
+      if (!query) return true;
+
+      return (
+        entry.liveFolderName.toLowerCase().includes(query) ||
+        entry.error?.toLowerCase().includes(query) ||
+        entry.added.some(matchesItem) ||
+        entry.updated.some(matchesItem) ||
+        entry.removed.some(matchesItem)
+      );
+    });
+  }, [entries, providerFilter, statusFilter, searchQuery]);
+
+  const getProviderName = (providerId: string): string =>
+    ProviderRegistry.getInstance().getProvider(providerId)?.metadata.name ?? providerId;
+
+  const toggleExpanded = (entryId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(entryId)) {
+        next.delete(entryId);
+      } else {
+        next.add(entryId);
+      }
+      return next;
+    });
+  };
+
+  const handleClear = async () => {
+    const result = await StorageManager.getInstance().clearSyncJournal(
+      providerFilter === "all" ? undefined : providerFilter,
+    );
+    if (!result.success) {
+      setError(result.error || "Failed to clear activity");
+    }
+  };
+
+  const renderItems = (label: string, items: SyncJournalItem[]) =>
+    items.length > 0 && (
+      <Box>
+        <Typography variant="caption" color="text.secondary" fontWeight={600}>
+          {label}
+        </Typography>
+        {items.map((item) => (
+          <Typography
+            key={`${label}-${item.itemId}`}
+            variant="body2"
+            sx={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+            title={item.itemId}
+          >
+            {item.title}
+          </Typography>
+        ))}
+      </Box>
+    );
+
+  // Render loading state
+  if (loading) {
+    return <ItemsListSkeleton />;
+  }
+
+  return (
+    <Stack spacing={2} sx={{ width: "100%", overflow: "hidden" }}>
+      <Box>
+        <Typography variant="h5" component="h1" gutterBottom>
+          Activity
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Recent syncs and the bookmarks they changed
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <TextField
+        fullWidth
+        placeholder="Search folders, items or errors..."
+        value={searchQuery}
+        onChange={(e) => setSearchQuery(e.target.value)}
+        size="small"
+        InputProps={{
+          startAdornment: (
+            <InputAdornment position="start">
+              <Search />
+            </InputAdornment>
+          ),
+        }}
+      />
+      <Box display="flex" gap={1}>
+        <FormControl size="small" fullWidth>
+          <InputLabel>Provider</InputLabel>
+          <Select
+            label="Provider"
+            value={providerFilter}
+            onChange={(e) => setProviderFilter(e.target.value)}
+          >
+            <MenuItem value="all">All providers</MenuItem>
+            {providerIds.map((providerId) => (
+              <MenuItem key={providerId} value={providerId}>
+                {getProviderName(providerId)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" fullWidth>
+          <InputLabel>Show</InputLabel>
+          <Select
+            label="Show"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          >
+            <MenuItem value="all">All syncs</MenuItem>
+            <MenuItem value="changes">With changes</MenuItem>
+            <MenuItem value="error">Failed</MenuItem>
+          </Select>
+        </FormControl>
+      </Box>
+
+      <Box display="flex" alignItems="center" justifyContent="space-between">
+        <Typography variant="body2" color="text.secondary">
+          {filteredEntries.length} {filteredEntries.length === 1 ? "sync" : "syncs"}
+        </Typography>
+        <Button size="small" onClick={handleClear} disabled={filteredEntries.length === 0}>
+          Clear
+        </Button>
+      </Box>
+
+      {/* Journal entries */}
+      {filteredEntries.length === 0 ? (
+        <Alert severity="info">
+          {entries.length === 0 ? "No syncs recorded yet" : "No syncs match your filters"}
+        </Alert>
+      ) : (
+        <Stack spacing={1}>
+          {filteredEntries.map((entry) => (
+            <Card key={entry.id} variant="outlined">
+              <CardContent sx={{ py: 1.5, px: 2, "&:last-child": { pb: 1.5 } }}>
+                <Box display="flex" alignItems="center" gap={1.5}>
+                  <ProviderIcon
+                    providerId={entry.providerId}
+                    sx={{ fontSize: 20, flexShrink: 0 }}
+                  />
+                  <Box flex={1} minWidth={0}>
+                    <Typography variant="body2" fontWeight={500} noWrap>
+                      {entry.liveFolderName}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {new Date(entry.timestamp).toLocaleString()} •{" "}
+                      {(entry.duration / 1000).toFixed(1)}s
+                    </Typography>
+                  </Box>
+                  {entry.success ? (
+                    <Stack direction="row" spacing={0.5}>
+                      <Chip size="small" label={`+${entry.added.length}`} color="success" />
+                      <Chip size="small" label={`~${entry.updated.length}`} color="info" />
+                      <Chip size="small" label={`-${entry.removed.length}`} color="error" />
+                    </Stack>
+                  ) : (
+                    <Chip size="small" icon={<ErrorIcon />} label="Failed" color="error" />
+                  )}
+                  {hasChanges(entry) && (
+                    <IconButton
+                      size="small"
+                      onClick={() => toggleExpanded(entry.id)}
+                      aria-label="Show changed items"
+                      sx={{
+                        transform: expanded.has(entry.id) ? "rotate(180deg)" : "none",
+                        transition: "transform 0.2s",
+                      }}
+                    >
+                      <ExpandMore fontSize="small" />
+                    </IconButton>
+                  )}
+                </Box>
+
+                {entry.error && (
+                  <Alert severity="error" sx={{ mt: 1, py: 0 }}>
+                    {entry.error}
+                  </Alert>
+                )}
+
+                <Collapse in={expanded.has(entry.id)} unmountOnExit>
+                  <Stack spacing={1} mt={1}>
+                    {renderItems("Added", entry.added)}
+                    {renderItems("Updated", entry.updated)}
+                    {renderItems("Removed", entry.removed)}
+                  </Stack>
+                </Collapse>
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,284 @@
+import { CallSplit, Cloud, Delete, Edit } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { useEffect, useMemo, useState } from "react";
+import { ProviderIcon } from "@/components/ProviderIcon";
+import { ItemsListSkeleton } from "@/components/Skeletons";
+import { ProviderRegistry } from "@/services/provider-registry";
+import { StorageManager } from "@/services/storage";
+import type { BookmarkItem, ConflictResolution, LiveFolder, StoredConflict } from "@/types";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+
+const logger = new Logger("ConflictsView");
+
+interface ConflictsViewProps {
+  /** Provider to show first, e.g. when opened from a conflict notification */
+  providerId?: string;
+}
+
+/**
+ * Short descriptions of the conflict types
+ */
+const CONFLICT_TYPE_LABELS: Record<string, string> = {
+  both_modified: "Edited on both sides",
+  url_mismatch: "Different URL",
+  metadata_conflict: "Renamed",
+};
+
+/**
+ * Unresolved conflicts, oldest first
+ */
+const sortConflicts = (conflicts: Record<string, StoredConflict>): StoredConflict[] =>
+  Object.values(conflicts).sort((a, b) => a.detectedAt - b.detectedAt);
+
+export function ConflictsView({ providerId }: ConflictsViewProps) {
+  const [conflicts, setConflicts] = useState<StoredConflict[]>([]);
+  const [liveFolders, setLiveFolders] = useState<Record<string, LiveFolder>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [providerFilter, setProviderFilter] = useState(providerId ?? "all");
+  const [resolving, setResolving] = useState<string | null>(null);
+
+  // Follow deep links while the view is open
+  useEffect(() => {
+    if (providerId) {
+      setProviderFilter(providerId);
+    }
+  }, [providerId]);
+
+  // Load conflicts and keep them fresh while the tab is open
+  useEffect(() => {
+    const loadConflicts = async () => {
+      try {
+        setError(null);
+        const storage = StorageManager.getInstance();
+        const [storedConflicts, storedLiveFolders] = await Promise.all([
+          storage.getConflicts(),
+          storage.getLiveFolders(),
+        ]);
+        setConflicts(sortConflicts(storedConflicts));
+        setLiveFolders(storedLiveFolders);
+      } catch (err) {
+        logger.error("Failed to load conflicts", err as Error);
+        setError(err instanceof Error ? err.message : "Failed to load conflicts");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    void loadConflicts();
+
+    const handleStorageChange = (changes: Record<string, { newValue?: unknown }>) => {
+      if (changes.conflicts) {
+        setConflicts(
+          sortConflicts((changes.conflicts.newValue as Record<string, StoredConflict>) || {}),
+        );
+      }
+    };
+
+    browser.storage.onChanged.addListener(handleStorageChange);
+    return () => {
+      browser.storage.onChanged.removeListener(handleStorageChange);
+    };
+  }, []);
+
+  const providerIds = useMemo(
+    () => Array.from(new Set(conflicts.map((conflict) => conflict.providerId))).sort(),
+    [conflicts],
+  );
+
+  const filteredConflicts = useMemo(
+    () =>
+      providerFilter === "all"
+        ? conflicts
+        : conflicts.filter((conflict) => conflict.providerId === providerFilter),
+    [conflicts, providerFilter],
+  );
+
+  const getProviderName = (id: string): string =>
+    ProviderRegistry.getInstance().getProvider(id)?.metadata.name ?? id;
+
+  const handleResolve = async (conflict: StoredConflict, action: ConflictResolution["action"]) => {
+    setResolving(conflict.id);
+    setError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "RESOLVE_CONFLICT",
+        conflictId: conflict.id,
+        action,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to resolve conflict");
+      }
+    } catch (err) {
+      logger.error(`Failed to resolve conflict ${conflict.id}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to resolve conflict");
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const renderVersion = (label: string, item: BookmarkItem, other: BookmarkItem) => (
+    <Box flex={1} minWidth={0}>
+      <Typography variant="caption" color="text.secondary" fontWeight={600}>
+        {label}
+      </Typography>
+      <Typography
+        variant="body2"
+        fontWeight={item.title !== other.title ? 600 : 400}
+        sx={{ wordBreak: "break-word" }}
+      >
+        {item.title}
+      </Typography>
+      <Typography
+        variant="caption"
+        color={item.url !== other.url ? "warning.main" : "text.secondary"}
+        display="block"
+        noWrap
+        title={item.url}
+      >
+        {item.url}
+      </Typography>
+    </Box>
+  );
+
+  // Render loading state
+  if (loading) {
+    return <ItemsListSkeleton />;
+  }
+
+  return (
+    <Stack spacing={2} sx={{ width: "100%", overflow: "hidden" }}>
+      <Box>
+        <Typography variant="h5" component="h1" gutterBottom>
+          Conflicts
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          Synced bookmarks you edited that the provider would overwrite
+        </Typography>
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {providerIds.length > 1 && (
+        <FormControl size="small" fullWidth>
+          <InputLabel>Provider</InputLabel>
+          <Select
+            label="Provider"
+            value={providerFilter}
+            onChange={(e) => setProviderFilter(e.target.value)}
+          >
+            <MenuItem value="all">All providers</MenuItem>
+            {providerIds.map((id) => (
+              <MenuItem key={id} value={id}>
+                {getProviderName(id)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      )}
+
+      {filteredConflicts.length === 0 ? (
+        <Alert severity="success">
+          {conflicts.length === 0
+            ? 'No conflicts. Set a provider\'s Local Edits option to "Ask me" to review edits here.'
+            : "No conflicts for this provider"}
+        </Alert>
+      ) : (
+        <Stack spacing={1}>
+          {filteredConflicts.map((conflict) => (
+            <Card key={conflict.id} variant="outlined">
+              <CardContent sx={{ py: 1.5, px: 2, "&:last-child": { pb: 1.5 } }}>
+                <Box display="flex" alignItems="center" gap={1.5} mb={1}>
+                  <ProviderIcon
+                    providerId={conflict.providerId}
+                    sx={{ fontSize: 20, flexShrink: 0 }}
+                  />
+                  <Box flex={1} minWidth={0}>
+                    <Typography variant="body2" fontWeight={500} noWrap>
+                      {liveFolders[conflict.liveFolderId]?.name ??
+                        getProviderName(conflict.providerId)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary" display="block">
+                      {new Date(conflict.detectedAt).toLocaleString()}
+                    </Typography>
+                  </Box>
+                  <Chip
+                    size="small"
+                    label={CONFLICT_TYPE_LABELS[conflict.type] ?? conflict.type}
+                    color="warning"
+                  />
+                </Box>
+
+                <Box display="flex" gap={2}>
+                  {renderVersion("Your bookmark", conflict.local, conflict.remote)}
+                  {renderVersion("From provider", conflict.remote, conflict.local)}
+                </Box>
+
+                <Box display="flex" flexWrap="wrap" gap={1} mt={1.5}>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<Edit />}
+                    onClick={() => handleResolve(conflict, "keep_local")}
+                    disabled={resolving === conflict.id}
+                  >
+                    Keep Mine
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<Cloud />}
+                    onClick={() => handleResolve(conflict, "keep_remote")}
+                    disabled={resolving === conflict.id}
+                  >
+                    Keep Provider's
+                  </Button>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<CallSplit />}
+                    onClick={() => handleResolve(conflict, "keep_both")}
+                    disabled={resolving === conflict.id}
+                    title="Update the bookmark and save your version next to the live folder"
+                  >
+                    Keep Both
+                  </Button>
+                  <Button
+                    size="small"
+                    color="error"
+                    startIcon={<Delete />}
+                    onClick={() => handleResolve(conflict, "delete_both")}
+                    disabled={resolving === conflict.id}
+                    title="Remove the bookmark; the next sync adds it back if the item is still fetched"
+                  >
+                    Delete
+                  </Button>
+                </Box>
+              </CardContent>
+            </Card>
+          ))}
+        </Stack>
+      )}
+    </Stack>
+  );
+}
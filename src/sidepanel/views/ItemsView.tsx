@@ -1,12 +1,14 @@
-import { Launch, Search } from "@mui/icons-material";
+import { Launch, PushPin, PushPinOutlined, Search } from "@mui/icons-material";
 import {
   Alert,
   Box,
   Card,
   CardContent,
+  IconButton,
   InputAdornment,
   Stack,
   TextField,
+  Tooltip,
   Typography,
 } from "@mui/material";
 import { useEffect, useMemo, useState } from "react";
@@ -17,16 +19,22 @@ import { ProviderRegistry } from "@/services/provider-registry";
 import { StorageManager } from "@/services/storage";
 import browser from "@/utils/browser";
 import { Logger } from "@/utils/logger";
+import { withoutPinIndicator, withPinIndicator } from "@/utils/pin";
 
 const logger = new Logger("ItemsView");
 
 interface BookmarkItemDisplay {
   bookmarkId: string;
   itemId: string;
+  liveFolderId: string;
+  /** Whether the item has a sync record (only those can be pinned) */
+  synced: boolean;
+  pinned: boolean;
   title: string;
   url: string;
   providerId: string;
   providerName: string;
+  folderName: string;
   metadata?: {
     type?: string;
     state?: string;
@@ -53,23 +61,24 @@ export function ItemsView() {
         const registry = ProviderRegistry.getInstance();
         const bookmarkManager = BookmarkManager.getInstance();
 
-        // Get all provider data
-        const providersData = await storage.getProviders();
+        // Get all live folders
+        const liveFolders = await storage.getLiveFolders();
         const bookmarksData = await storage.getAllBookmarkMetadata();
 
         const allItems: BookmarkItemDisplay[] = [];
 
-        // Process each provider
-        for (const [providerId, providerData] of Object.entries(providersData)) {
-          if (!providerData.folderId) continue;
+        // Process each live folder
+        for (const liveFolder of Object.values(liveFolders)) {
+          if (!liveFolder.folderId) continue;
 
+          const { providerId } = liveFolder;
           const provider = registry.getProvider(providerId);
           if (!provider) continue;
 
-          const providerBookmarks = bookmarksData[providerId] || {};
+          const providerBookmarks = bookmarksData[liveFolder.id] || {};
 
           // Get folder contents
-          const folderContents = await bookmarkManager.getFolderContents(providerData.folderId);
+          const folderContents = await bookmarkManager.getFolderContents(liveFolder.folderId);
 
           // Map bookmarks to display items
           for (const bookmark of folderContents) {
@@ -93,10 +102,14 @@ export function ItemsView() {
               allItems.push({
                 bookmarkId: bookmark.id,
                 itemId: metadataRecord?.itemId || bookmark.id,
+                liveFolderId: liveFolder.id,
+                synced: Boolean(metadataRecord),
+                pinned: metadataRecord?.pinned ?? false,
                 title: fullBookmark.title || "Untitled",
                 url: fullBookmark.url || "",
                 providerId,
                 providerName: provider.metadata.name,
+                folderName: liveFolder.name,
                 metadata: {
                   type: undefined, // TODO: Extract from bookmark metadata storage
                   state: undefined,
@@ -174,6 +187,7 @@ export function ItemsView() {
           item.title.toLowerCase().includes(query) ||
           item.url.toLowerCase().includes(query) ||
           item.providerName.toLowerCase().includes(query) ||
+          item.folderName.toLowerCase().includes(query) ||
           item.metadata?.type?.toLowerCase().includes(query) ||
           item.metadata?.state?.toLowerCase().includes(query) ||
           item.metadata?.repository?.toLowerCase().includes(query),
@@ -191,6 +205,39 @@ export function ItemsView() {
     chrome.tabs.create({ url });
   };
 
+  // Pin or unpin an item so sync keeps it after it drops out of the query
+  const handleTogglePin = async (item: BookmarkItemDisplay) => {
+    const pinned = !item.pinned;
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "SET_ITEM_PINNED",
+        liveFolderId: item.liveFolderId,
+        itemId: item.itemId,
+        pinned,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to update pin");
+      }
+
+      setItems((prev) =>
+        prev.map((i) =>
+          i.bookmarkId === item.bookmarkId
+            ? {
+                ...i,
+                pinned,
+                title: pinned ? withPinIndicator(i.title) : withoutPinIndicator(i.title),
+              }
+            : i,
+        ),
+      );
+    } catch (err) {
+      logger.error(`Failed to ${pinned ? "pin" : "unpin"} ${item.itemId}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to update pin");
+    }
+  };
+
   // Render loading state
   if (loading) {
     return <ItemsListSkeleton />;
@@ -290,10 +337,31 @@ export function ItemsView() {
                         display: "block",
                       }}
                     >
-                      {formatTimeAgo(new Date(item.lastUpdated))}
+                      {item.folderName} • {formatTimeAgo(new Date(item.lastUpdated))}
                     </Typography>
                   </Box>
 
+                  {/* Pin toggle */}
+                  {item.synced && (
+                    <Tooltip title={item.pinned ? "Unpin" : "Pin (keep after it drops out)"}>
+                      <IconButton
+                        size="small"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          void handleTogglePin(item);
+                        }}
+                        aria-label={item.pinned ? "Unpin item" : "Pin item"}
+                        color={item.pinned ? "primary" : "default"}
+                      >
+                        {item.pinned ? (
+                          <PushPin fontSize="small" />
+                        ) : (
+                          <PushPinOutlined fontSize="small" />
+                        )}
+                      </IconButton>
+                    </Tooltip>
+                  )}
+
                   {/* Open icon */}
                   <Launch
                     fontSize="small"
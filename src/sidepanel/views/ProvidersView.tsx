@@ -1,6 +1,7 @@
-import { Add, CheckCircle, ExpandMore, Settings, Sync, Warning } from "@mui/icons-material";
+import { Add, Archive, CheckCircle, MergeType, Sync, Undo, Warning } from "@mui/icons-material";
 import {
   Alert,
+  AlertTitle,
   Box,
   Button,
   Card,
@@ -8,17 +9,14 @@ import {
   CardContent,
   Checkbox,
   CircularProgress,
-  Collapse,
   Dialog,
   DialogActions,
   DialogContent,
   DialogContentText,
   DialogTitle,
-  Divider,
   FormControl,
   FormControlLabel,
   FormHelperText,
-  IconButton,
   InputLabel,
   MenuItem,
   Select,
@@ -32,51 +30,87 @@ import { useCallback, useEffect, useState } from "react";
 import { CollapsibleSection } from "@/components/CollapsibleSection";
 import { ProviderIcon } from "@/components/ProviderIcon";
 import { ProviderListSkeleton } from "@/components/Skeletons";
-import type { ProviderStatus } from "@/services/provider-registry";
+import { SyncPreviewDialog } from "@/components/SyncPreviewDialog";
 import { ProviderRegistry } from "@/services/provider-registry";
+import { type RateLimitStatus, rateLimiter } from "@/services/rate-limiter";
 import { StorageManager } from "@/services/storage";
-import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
-import type {
-  FolderTitleFormatOptions,
-  ProviderConfig,
-  TitleFormatOptions,
-} from "@/types/provider";
+import type { SyncPreview, SyncResult } from "@/services/sync-engine";
+import type { ConflictStrategy, DeviceAuthorization, RateLimitState } from "@/types";
+import { DEFAULT_ARCHIVE_OPTIONS } from "@/types";
+import type { ArchiveOptions, LiveFolder } from "@/types/provider";
 import browser from "@/utils/browser";
 import { Logger } from "@/utils/logger";
 import { useAuthentication } from "../hooks/useAuthentication";
+import { GitHubSettings } from "./providers/GitHubSettings";
+import { GitLabSettings } from "./providers/GitLabSettings";
+import { JiraSettings } from "./providers/JiraSettings";
+import { LiveFolderEditor } from "./providers/LiveFolderEditor";
+import { RestSettings } from "./providers/RestSettings";
+import {
+  type BookmarkFolder,
+  type LiveFolderData,
+  type ProviderData,
+  type ProviderSettingsProps,
+  toLiveFolderData,
+} from "./providers/types";
 
 const logger = new Logger("ProvidersView");
 
-interface ProviderData {
-  id: string;
-  name: string;
-  description: string;
-  enabled: boolean;
-  authenticated: boolean;
-  folderId?: string;
-  sortOrder?: "alphabetical" | "created" | "updated";
-  filters?: {
-    createdByMe?: boolean;
-    reviewRequests?: boolean;
-    assignedToMe?: boolean;
-  };
-  titleFormat?: TitleFormatOptions;
-  folderTitleFormat?: FolderTitleFormatOptions;
-  lastSync?: number;
-  status: ProviderStatus;
-}
+/**
+ * Live folders of a provider, oldest first
+ */
+const getProviderLiveFolders = (
+  liveFolders: Record<string, LiveFolder>,
+  providerId: string,
+): LiveFolderData[] =>
+  Object.values(liveFolders)
+    .filter((liveFolder) => liveFolder.providerId === providerId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map(toLiveFolderData);
 
-interface BookmarkFolder {
-  id: string;
-  title: string;
-}
+/**
+ * Describe a provider's API quota for display
+ */
+const formatRateLimit = (status: RateLimitStatus): string =>
+  status.isLimited
+    ? `Rate limited · resumes in ${Math.max(1, Math.ceil(status.resetIn / 60000))} min`
+    : `API quota: ${status.remaining} of ${status.limit} requests left`;
+
+/**
+ * Current rate limit status of each provider with persisted limiter state
+ * Mirrors the background's limiter state into this context first
+ */
+const getRateLimitStatuses = (
+  rateLimits: Record<string, RateLimitState>,
+): Record<string, RateLimitStatus> => {
+  rateLimiter.restoreState(rateLimits);
+  return Object.fromEntries(
+    Object.keys(rateLimits).map((providerId) => [providerId, rateLimiter.getStatus(providerId)]),
+  );
+};
 
 /**
  * Section types for collapsible sections
  */
-type SectionType = "titleFormat" | "folderDisplay" | "filters";
+type SectionType = "archive" | "conflicts";
 
-export function ProvidersView() {
+/**
+ * Conflict strategies offered for locally edited bookmarks
+ */
+const CONFLICT_STRATEGY_LABELS: Record<ConflictStrategy, string> = {
+  remote_wins: "Overwrite with the latest from the provider",
+  local_wins: "Keep my edits",
+  newest_wins: "Keep whichever changed last",
+  merge: "Merge (newer title, provider URL)",
+  manual: "Ask me",
+};
+
+interface ProvidersViewProps {
+  /** Provider to show, e.g. when opened from a notification to reconnect */
+  providerId?: string;
+}
+
+export function ProvidersView({ providerId: focusProviderId }: ProvidersViewProps) {
   const [providers, setProviders] = useState<ProviderData[]>([]);
   const [folders, setFolders] = useState<BookmarkFolder[]>([]);
   const [loading, setLoading] = useState(true);
@@ -85,14 +119,16 @@ export function ProvidersView() {
   const [expandedSettings, setExpandedSettings] = useState<Set<string>>(new Set());
   // Section expansion state: Record<providerId, Set<sectionType>>
   const [expandedSections, setExpandedSections] = useState<Record<string, Set<SectionType>>>({});
-  const [githubPAT, setGithubPAT] = useState<string>("");
-  const [jiraBaseUrl, setJiraBaseUrl] = useState<string>("");
-  const [jiraEmail, setJiraEmail] = useState<string>("");
-  const [jiraApiToken, setJiraApiToken] = useState<string>("");
+  const [deviceAuth, setDeviceAuth] = useState<Record<string, DeviceAuthorization>>({});
   const [createFolderDialogOpen, setCreateFolderDialogOpen] = useState(false);
+  // Dry-run preview of a live folder sync
+  const [previewLiveFolder, setPreviewLiveFolder] = useState<LiveFolderData | null>(null);
+  const [syncPreview, setSyncPreview] = useState<SyncPreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
   const [newFolderName, setNewFolderName] = useState("");
   const [creatingFolder, setCreatingFolder] = useState(false);
-  const [folderCreationProviderId, setFolderCreationProviderId] = useState<string | null>(null);
+  const [folderCreationLiveFolderId, setFolderCreationLiveFolderId] = useState<string | null>(null);
   const { authenticating, error: authError, authenticate, clearError } = useAuthentication();
 
   // Fetch bookmark folders (with alphabetical sorting)
@@ -139,6 +175,10 @@ export function ProvidersView() {
         // Get storage data
         const storage = StorageManager.getInstance();
         const providersData = await storage.getProviders();
+        const liveFoldersData = await storage.getLiveFolders();
+        const syncUndo = await storage.getSyncUndo();
+        const rateLimits = getRateLimitStatuses(await storage.getRateLimits());
+        setDeviceAuth(await storage.getDeviceAuthorizations());
 
         // Build provider list
         const allProviders = registry.getAllProviders();
@@ -152,13 +192,12 @@ export function ProvidersView() {
             description: provider.metadata.description,
             enabled: providerData?.config?.enabled ?? false,
             authenticated: status?.authenticated ?? false,
-            folderId: providerData?.folderId,
-            sortOrder: providerData?.config?.sortOrder ?? "alphabetical",
-            filters: providerData?.config?.filters ?? {},
-            titleFormat: providerData?.config?.titleFormat ?? DEFAULT_TITLE_FORMAT,
-            folderTitleFormat:
-              providerData?.config?.folderTitleFormat ?? DEFAULT_FOLDER_TITLE_FORMAT,
+            liveFolders: getProviderLiveFolders(liveFoldersData, provider.metadata.id),
             lastSync: providerData?.lastSync,
+            canUndo: Boolean(syncUndo[provider.metadata.id]),
+            archive: { ...DEFAULT_ARCHIVE_OPTIONS, ...providerData?.config?.archive },
+            conflictStrategy: providerData?.config?.conflictStrategy ?? "remote_wins",
+            rateLimit: rateLimits[provider.metadata.id],
             status: status || {
               id: provider.metadata.id,
               initialized: false,
@@ -203,15 +242,91 @@ export function ProvidersView() {
               ...provider,
               enabled: providerData?.config?.enabled ?? provider.enabled,
               authenticated: status?.authenticated ?? provider.authenticated,
-              folderId: providerData?.folderId ?? provider.folderId,
-              sortOrder: providerData?.config?.sortOrder ?? provider.sortOrder,
-              filters: providerData?.config?.filters ?? provider.filters,
               lastSync: providerData?.lastSync ?? provider.lastSync,
+              archive: { ...DEFAULT_ARCHIVE_OPTIONS, ...providerData?.config?.archive },
+              conflictStrategy: providerData?.config?.conflictStrategy ?? "remote_wins",
               status: status || provider.status,
             };
           }),
         );
       }
+
+      if (areaName === "local" && changes.syncUndo) {
+        const syncUndo = (changes.syncUndo.newValue ?? {}) as Record<string, unknown>;
+        setProviders((prev) =>
+          prev.map((provider) => ({ ...provider, canUndo: Boolean(syncUndo[provider.id]) })),
+        );
+      }
+
+      if (areaName === "local" && changes.rateLimits?.newValue) {
+        const rateLimits = getRateLimitStatuses(
+          changes.rateLimits.newValue as Record<string, RateLimitState>,
+        );
+        setProviders((prev) =>
+          prev.map((provider) => ({
+            ...provider,
+            rateLimit: rateLimits[provider.id] ?? provider.rateLimit,
+          })),
+        );
+      }
+
+      if (areaName === "local" && changes.deviceAuth) {
+        const previous = (changes.deviceAuth.oldValue ?? {}) as Record<string, DeviceAuthorization>;
+        const current = (changes.deviceAuth.newValue ?? {}) as Record<string, DeviceAuthorization>;
+        setDeviceAuth(current);
+
+        // A pending sign-in that disappears has ended, perhaps approved; pick up any new token
+        const registry = ProviderRegistry.getInstance();
+        for (const authorization of Object.values(previous)) {
+          const { providerId } = authorization;
+          if (authorization.status !== "pending" || current[providerId]) {
+            continue;
+          }
+          void registry.refreshProviderStatus(providerId).then(() => {
+            const status = registry.getProviderStatus(providerId);
+            setProviders((prev) =>
+              prev.map((provider) =>
+                provider.id === providerId
+                  ? {
+                      ...provider,
+                      authenticated: status?.authenticated ?? provider.authenticated,
+                      status: status || provider.status,
+                    }
+                  : provider,
+              ),
+            );
+          });
+        }
+      }
+
+      // Credentials rejected during a background sync, or reconnected elsewhere
+      if (areaName === "local" && changes.auth) {
+        const registry = ProviderRegistry.getInstance();
+        void registry.refreshAllStatuses().then(() => {
+          setProviders((prev) =>
+            prev.map((provider) => {
+              const status = registry.getProviderStatus(provider.id);
+              return {
+                ...provider,
+                authenticated: status?.authenticated ?? provider.authenticated,
+                status: status || provider.status,
+              };
+            }),
+          );
+        });
+      }
+
+      if (areaName === "local" && changes.liveFolders?.newValue) {
+        logger.info("Live folders changed in storage, updating provider state...");
+
+        const liveFoldersData = changes.liveFolders.newValue as Record<string, LiveFolder>;
+        setProviders((prev) =>
+          prev.map((provider) => ({
+            ...provider,
+            liveFolders: getProviderLiveFolders(liveFoldersData, provider.id),
+          })),
+        );
+      }
     };
 
     chrome.storage.onChanged.addListener(handleStorageChange);
@@ -221,6 +336,17 @@ export function ProvidersView() {
     };
   }, [fetchFolders]);
 
+  // Follow deep links: open the provider's settings and bring it into view
+  useEffect(() => {
+    if (!focusProviderId || loading) {
+      return;
+    }
+    setExpandedSettings((prev) => new Set(prev).add(focusProviderId));
+    document
+      .getElementById(`provider-${focusProviderId}`)
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [focusProviderId, loading]);
+
   // Toggle provider enabled state
   const handleToggleEnabled = async (providerId: string, enabled: boolean) => {
     try {
@@ -251,8 +377,8 @@ export function ProvidersView() {
     }
   };
 
-  // Update provider folder
-  const handleFolderChange = async (providerId: string, folderId: string) => {
+  // Update "Recently closed" archive options while preserving ALL other config fields
+  const handleArchiveChange = async (providerId: string, updates: Partial<ArchiveOptions>) => {
     try {
       const storage = StorageManager.getInstance();
       const providerData = await storage.getProvider(providerId);
@@ -261,174 +387,104 @@ export function ProvidersView() {
         throw new Error(`Provider ${providerId} not found`);
       }
 
-      // Update folderId while preserving ALL other fields
-      const updatedData = {
+      const archive = { ...DEFAULT_ARCHIVE_OPTIONS, ...providerData.config.archive, ...updates };
+      await storage.saveProvider(providerId, {
         ...providerData,
-        folderId,
-      };
-
-      await storage.saveProvider(providerId, updatedData);
+        config: { ...providerData.config, archive },
+      });
 
-      setProviders((prev) => prev.map((p) => (p.id === providerId ? { ...p, folderId } : p)));
+      setProviders((prev) => prev.map((p) => (p.id === providerId ? { ...p, archive } : p)));
 
-      logger.info(`Provider ${providerId} folder updated to ${folderId}`);
+      logger.info(`Archive options updated for ${providerId}`, updates);
     } catch (err) {
-      logger.error(`Failed to update folder for ${providerId}`, err as Error);
-      setError(err instanceof Error ? err.message : "Failed to update folder");
+      logger.error(`Failed to update archive options for ${providerId}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to update archive options");
     }
   };
 
-  // Update provider sort order
-  const handleSortOrderChange = async (
-    providerId: string,
-    sortOrder: "alphabetical" | "created" | "updated",
-  ) => {
-    try {
-      const storage = StorageManager.getInstance();
-      const providerData = await storage.getProvider(providerId);
-
-      if (!providerData) {
-        throw new Error(`Provider ${providerId} not found`);
-      }
+  // Persist changes to a live folder and mirror them in local state
+  const updateLiveFolder = async (
+    liveFolderId: string,
+    getUpdates: (liveFolder: LiveFolder) => Partial<LiveFolder>,
+  ): Promise<void> => {
+    const storage = StorageManager.getInstance();
+    const liveFolder = await storage.getLiveFolder(liveFolderId);
 
-      // Update sortOrder while preserving ALL other fields
-      const updatedData = {
-        ...providerData,
-        config: {
-          ...providerData.config,
-          sortOrder,
-        },
-      };
-
-      await storage.saveProvider(providerId, updatedData);
-
-      logger.info(`Provider ${providerId} sort order updated to ${sortOrder}`);
-    } catch (err) {
-      logger.error(`Failed to update sort order for ${providerId}`, err as Error);
-      setError(err instanceof Error ? err.message : "Failed to update sort order");
+    if (!liveFolder) {
+      throw new Error(`Live folder ${liveFolderId} not found`);
     }
-  };
 
-  // Update provider filters
-  const handleFilterChange = async (providerId: string, filterKey: string, value: boolean) => {
-    try {
-      const storage = StorageManager.getInstance();
-      const providerData = await storage.getProvider(providerId);
-
-      if (!providerData) {
-        throw new Error(`Provider ${providerId} not found`);
-      }
-
-      // Update filter while preserving ALL other fields
-      const updatedData = {
-        ...providerData,
-        config: {
-          ...providerData.config,
-          filters: {
-            ...(providerData.config?.filters || {}),
-            [filterKey]: value,
-          },
-        },
-      };
+    // Update fields while preserving ALL other fields
+    const updatedLiveFolder = { ...liveFolder, ...getUpdates(liveFolder) };
+    const result = await storage.saveLiveFolder(updatedLiveFolder);
 
-      await storage.saveProvider(providerId, updatedData);
-
-      logger.info(`Provider ${providerId} filter ${filterKey} updated to ${value}`);
-    } catch (err) {
-      logger.error(`Failed to update filter for ${providerId}`, err as Error);
-      setError(err instanceof Error ? err.message : "Failed to update filter");
+    if (!result.success) {
+      throw new Error(result.error || "Failed to save live folder");
     }
+
+    setProviders((prev) =>
+      prev.map((p) =>
+        p.id === liveFolder.providerId
+          ? {
+              ...p,
+              liveFolders: p.liveFolders.map((f) =>
+                f.id === liveFolderId ? toLiveFolderData(updatedLiveFolder) : f,
+              ),
+            }
+          : p,
+      ),
+    );
   };
 
-  // Handle title format changes
-  const handleTitleFormatChange = async (
-    providerId: string,
-    updates: Partial<TitleFormatOptions>,
-  ) => {
+  // Add a live folder to a provider
+  const handleAddLiveFolder = async (providerId: string) => {
     try {
       const storage = StorageManager.getInstance();
-      const providerData = await storage.getProvider(providerId);
+      const existing = await storage.getLiveFoldersForProvider(providerId);
+      const result = await storage.createLiveFolder(providerId, {
+        name: existing.length === 0 ? "Default" : `Live Folder ${existing.length + 1}`,
+      });
 
-      if (!providerData) {
-        throw new Error(`Provider ${providerId} not found`);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to create live folder");
       }
 
-      // Get current title format or use defaults
-      const currentTitleFormat = providerData.config?.titleFormat ?? DEFAULT_TITLE_FORMAT;
-
-      // Merge updates with current title format
-      const updatedTitleFormat = {
-        ...currentTitleFormat,
-        ...updates,
-      };
-
-      // Update provider data with new title format
-      const updatedData = {
-        ...providerData,
-        config: {
-          ...providerData.config,
-          titleFormat: updatedTitleFormat,
-        },
-      };
-
-      await storage.saveProvider(providerId, updatedData);
-
-      // Update local state
+      const liveFolder = toLiveFolderData(result.data);
       setProviders((prev) =>
-        prev.map((p) => (p.id === providerId ? { ...p, titleFormat: updatedTitleFormat } : p)),
+        prev.map((p) =>
+          p.id === providerId ? { ...p, liveFolders: [...p.liveFolders, liveFolder] } : p,
+        ),
       );
 
-      logger.info(`Provider ${providerId} title format updated`, { updates });
+      logger.info(`Live folder added for provider ${providerId}`, { id: liveFolder.id });
     } catch (err) {
-      logger.error(`Failed to update title format for ${providerId}`, err as Error);
-      setError(err instanceof Error ? err.message : "Failed to update title format");
+      logger.error(`Failed to add live folder for ${providerId}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to add live folder");
     }
   };
 
-  const handleFolderTitleFormatChange = async (
-    providerId: string,
-    updates: Partial<FolderTitleFormatOptions>,
-  ) => {
+  // Remove a live folder (the bookmark folder itself is kept)
+  const handleDeleteLiveFolder = async (liveFolder: LiveFolderData) => {
     try {
       const storage = StorageManager.getInstance();
-      const providerData = await storage.getProvider(providerId);
+      const result = await storage.deleteLiveFolder(liveFolder.id);
 
-      if (!providerData) {
-        throw new Error(`Provider ${providerId} not found`);
+      if (!result.success) {
+        throw new Error(result.error || "Failed to delete live folder");
       }
 
-      // Get current folder title format or use defaults
-      const currentFolderTitleFormat =
-        providerData.config?.folderTitleFormat ?? DEFAULT_FOLDER_TITLE_FORMAT;
-
-      // Merge updates with current folder title format
-      const updatedFolderTitleFormat = {
-        ...currentFolderTitleFormat,
-        ...updates,
-      };
-
-      // Update provider data with new folder title format
-      const updatedData = {
-        ...providerData,
-        config: {
-          ...providerData.config,
-          folderTitleFormat: updatedFolderTitleFormat,
-        },
-      };
-
-      await storage.saveProvider(providerId, updatedData);
-
-      // Update local state
       setProviders((prev) =>
         prev.map((p) =>
-          p.id === providerId ? { ...p, folderTitleFormat: updatedFolderTitleFormat } : p,
+          p.id === liveFolder.providerId
+            ? { ...p, liveFolders: p.liveFolders.filter((f) => f.id !== liveFolder.id) }
+            : p,
         ),
       );
 
-      logger.info(`Provider ${providerId} folder title format updated`, { updates });
+      logger.info(`Live folder ${liveFolder.id} removed`);
     } catch (err) {
-      logger.error(`Failed to update folder title format for ${providerId}`, err as Error);
-      setError(err instanceof Error ? err.message : "Failed to update folder title format");
+      logger.error(`Failed to delete live folder ${liveFolder.id}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to delete live folder");
     }
   };
 
@@ -450,10 +506,10 @@ export function ProvidersView() {
 
       logger.info(`Provider ${providerId} synced successfully`);
 
-      // Refresh provider data - only update lastSync, preserve existing folderId
+      // Refresh provider data - sync only changes lastSync and live folder status
       const storage = StorageManager.getInstance();
-      const providersData = await storage.getProviders();
-      const providerData = providersData[providerId];
+      const providerData = await storage.getProvider(providerId);
+      const liveFoldersData = await storage.getLiveFolders();
 
       setProviders((prev) =>
         prev.map((p) =>
@@ -461,7 +517,7 @@ export function ProvidersView() {
             ? {
                 ...p,
                 lastSync: providerData?.lastSync,
-                // Keep existing folderId - sync doesn't change it
+                liveFolders: getProviderLiveFolders(liveFoldersData, providerId),
               }
             : p,
         ),
@@ -478,6 +534,130 @@ export function ProvidersView() {
     }
   };
 
+  // Undo the last sync of a provider; the background also pauses the provider
+  const handleUndoLastSync = async (providerId: string) => {
+    try {
+      setSyncing((prev) => new Set(prev).add(providerId));
+      setError(null);
+      logger.info(`Undoing last sync for provider ${providerId}`);
+
+      const response = await chrome.runtime.sendMessage({
+        type: "UNDO_LAST_SYNC",
+        providerId,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Undo failed");
+      }
+
+      await ProviderRegistry.getInstance().refreshProviderStatus(providerId);
+      setProviders((prev) =>
+        prev.map((p) => (p.id === providerId ? { ...p, enabled: false, canUndo: false } : p)),
+      );
+
+      logger.info(`Last sync undone for provider ${providerId}`);
+    } catch (err) {
+      logger.error(`Failed to undo last sync for ${providerId}`, err as Error);
+      setError(err instanceof Error ? err.message : "Undo failed");
+    } finally {
+      setSyncing((prev) => {
+        const next = new Set(prev);
+        next.delete(providerId);
+        return next;
+      });
+    }
+  };
+
+  // Sync a single live folder
+  // Preview what syncing a live folder would change, without touching bookmarks
+  const handlePreviewLiveFolder = async (liveFolder: LiveFolderData) => {
+    try {
+      setPreviewLiveFolder(liveFolder);
+      setSyncPreview(null);
+      setPreviewError(null);
+      setPreviewLoading(true);
+
+      const response = await chrome.runtime.sendMessage({
+        type: "PREVIEW_SYNC",
+        liveFolderId: liveFolder.id,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Preview failed");
+      }
+
+      const [result] = response.results as SyncResult[];
+      if (!result?.success || !result.preview) {
+        throw new Error(result?.error || "Preview failed");
+      }
+
+      setSyncPreview(result.preview);
+    } catch (err) {
+      logger.error(`Failed to preview live folder ${liveFolder.id}`, err as Error);
+      setPreviewError(err instanceof Error ? err.message : "Preview failed");
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  // Apply a previewed sync by running it for real
+  const handleApplyPreview = async () => {
+    if (!previewLiveFolder) {
+      return;
+    }
+
+    await handleSyncLiveFolder(previewLiveFolder);
+    handleClosePreview();
+  };
+
+  const handleClosePreview = () => {
+    setPreviewLiveFolder(null);
+    setSyncPreview(null);
+    setPreviewError(null);
+  };
+
+  const handleSyncLiveFolder = async (liveFolder: LiveFolderData) => {
+    try {
+      setSyncing((prev) => new Set(prev).add(liveFolder.id));
+      setError(null);
+      logger.info(`Syncing live folder ${liveFolder.id}`);
+
+      const response = await chrome.runtime.sendMessage({
+        type: "SYNC_LIVE_FOLDER",
+        liveFolderId: liveFolder.id,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Sync failed");
+      }
+
+      const storage = StorageManager.getInstance();
+      const providerData = await storage.getProvider(liveFolder.providerId);
+      const liveFoldersData = await storage.getLiveFolders();
+
+      setProviders((prev) =>
+        prev.map((p) =>
+          p.id === liveFolder.providerId
+            ? {
+                ...p,
+                lastSync: providerData?.lastSync,
+                liveFolders: getProviderLiveFolders(liveFoldersData, p.id),
+              }
+            : p,
+        ),
+      );
+    } catch (err) {
+      logger.error(`Failed to sync live folder ${liveFolder.id}`, err as Error);
+      setError(err instanceof Error ? err.message : "Sync failed");
+    } finally {
+      setSyncing((prev) => {
+        const next = new Set(prev);
+        next.delete(liveFolder.id);
+        return next;
+      });
+    }
+  };
+
   // Toggle settings expansion
   const handleToggleSettings = (providerId: string) => {
     setExpandedSettings((prev) => {
@@ -510,132 +690,44 @@ export function ProvidersView() {
     });
   };
 
-  // Helper: Count enabled title format options
-  const countTitleFormatOptions = (config: ProviderConfig): number => {
-    const options = config.titleFormat || DEFAULT_TITLE_FORMAT;
-    let count = 0;
-    if (options.includeStatus) count++;
-    if (options.includeCreator) count++;
-    if (options.includeAssignee) count++;
-    if (options.includeAge) count++;
-    if (options.includePriority) count++;
-    if (options.includeReviewStatus) count++;
-    return count;
-  };
-
-  // Helper: Generate title format preview text
-  const getTitleFormatPreview = (config: ProviderConfig): string => {
-    const count = countTitleFormatOptions(config);
-    return count === 0 ? "No options enabled" : `${count} option${count === 1 ? "" : "s"} enabled`;
-  };
-
-  // Helper: Generate folder display preview text
-  const getFolderDisplayPreview = (config: ProviderConfig): string => {
-    const folderFormat = config.folderTitleFormat || DEFAULT_FOLDER_TITLE_FORMAT;
-    if (!folderFormat.enabled) {
-      return "Static folder names";
-    }
-
-    const parts: string[] = [];
-    if (folderFormat.includeReviewCount) parts.push("review count");
-    if (folderFormat.includeTotal) parts.push("total count");
-
-    return parts.length > 0 ? `Showing ${parts.join(" • ")}` : "Dynamic titles enabled";
-  };
-
-  // Save GitHub PAT
-  const handleSaveGitHubPAT = async () => {
+  // Update how locally edited bookmarks are handled while preserving ALL other config fields
+  const handleConflictStrategyChange = async (
+    providerId: string,
+    conflictStrategy: ConflictStrategy,
+  ) => {
     try {
-      if (!githubPAT.trim()) {
-        setError("Please enter a valid GitHub Personal Access Token");
-        return;
-      }
-
       const storage = StorageManager.getInstance();
-      const providerData = await storage.getProvider("github");
+      const providerData = await storage.getProvider(providerId);
 
       if (!providerData) {
-        // Provider not found - this shouldn't happen if ProviderRegistry initialized properly
-        setError("GitHub provider not initialized. Please reload the extension and try again.");
-        return;
+        throw new Error(`Provider ${providerId} not found`);
       }
 
-      // Add PAT to config - preserve ALL existing fields while updating the PAT
-      // Provider-specific config field (not in base ProviderConfig type)
-      const updatedConfig = {
-        ...providerData.config,
-        personalAccessToken: githubPAT,
-      };
-
-      const updatedData = {
+      await storage.saveProvider(providerId, {
         ...providerData,
-        config: updatedConfig as ProviderConfig,
-      };
-
-      await storage.saveProvider("github", updatedData);
+        config: { ...providerData.config, conflictStrategy },
+      });
 
-      logger.info("GitHub PAT saved successfully");
-      setGithubPAT(""); // Clear input after saving
+      setProviders((prev) =>
+        prev.map((p) => (p.id === providerId ? { ...p, conflictStrategy } : p)),
+      );
 
-      // Show success message (could be improved with a success Alert)
-      setError(null);
+      logger.info(`Conflict strategy for ${providerId} set to ${conflictStrategy}`);
     } catch (err) {
-      logger.error("Failed to save GitHub PAT", err as Error);
-      setError(err instanceof Error ? err.message : "Failed to save token");
+      logger.error(`Failed to update conflict strategy for ${providerId}`, err as Error);
+      setError(err instanceof Error ? err.message : "Failed to update conflict strategy");
     }
   };
 
-  // Save Jira API Token configuration
-  const handleSaveJiraConfig = async () => {
-    try {
-      if (!jiraBaseUrl.trim() || !jiraEmail.trim() || !jiraApiToken.trim()) {
-        setError("Please fill in all Jira configuration fields");
-        return;
-      }
-
-      // Validate URL format
-      try {
-        new URL(jiraBaseUrl);
-      } catch {
-        setError("Please enter a valid Jira URL (e.g., https://yourcompany.atlassian.net)");
-        return;
-      }
-
-      const storage = StorageManager.getInstance();
-      const providerData = await storage.getProvider("jira");
-
-      if (!providerData) {
-        setError("Jira provider not initialized. Please reload the extension and try again.");
-        return;
-      }
-
-      // Add Jira config - preserve ALL existing fields
-      const updatedConfig = {
-        ...providerData.config,
-        baseUrl: jiraBaseUrl,
-        username: jiraEmail,
-        apiToken: jiraApiToken,
-        authType: "api-token",
-        instanceType: "cloud",
-      };
-
-      const updatedData = {
-        ...providerData,
-        config: updatedConfig as ProviderConfig,
-      };
-
-      await storage.saveProvider("jira", updatedData);
-
-      logger.info("Jira configuration saved successfully");
-      setJiraBaseUrl("");
-      setJiraEmail("");
-      setJiraApiToken("");
-
-      setError(null);
-    } catch (err) {
-      logger.error("Failed to save Jira configuration", err as Error);
-      setError(err instanceof Error ? err.message : "Failed to save configuration");
+  // Helper: Generate archive preview text
+  const getArchivePreview = (archive: ArchiveOptions): string => {
+    if (!archive.enabled) {
+      return "Removed items are deleted";
     }
+
+    return archive.retention === "count"
+      ? `Keeping the last ${archive.maxItems} in "${archive.folderName}"`
+      : `Keeping ${archive.maxDays} days in "${archive.folderName}"`;
   };
 
   // Create a new bookmark folder
@@ -692,10 +784,10 @@ export function ProvidersView() {
       // Refresh folder list
       await fetchFolders();
 
-      // Auto-select the newly created folder for the provider that initiated the dialog
-      if (folderCreationProviderId) {
-        await handleFolderChange(folderCreationProviderId, newFolder.id);
-        logger.info(`Auto-selected new folder for provider ${folderCreationProviderId}`, {
+      // Auto-select the newly created folder for the live folder that initiated the dialog
+      if (folderCreationLiveFolderId) {
+        await updateLiveFolder(folderCreationLiveFolderId, () => ({ folderId: newFolder.id }));
+        logger.info(`Auto-selected new folder for live folder ${folderCreationLiveFolderId}`, {
           folderId: newFolder.id,
         });
       }
@@ -703,7 +795,7 @@ export function ProvidersView() {
       // Close dialog and reset state
       setCreateFolderDialogOpen(false);
       setNewFolderName("");
-      setFolderCreationProviderId(null);
+      setFolderCreationLiveFolderId(null);
     } catch (err) {
       logger.error("Failed to create folder", err as Error);
       setError(err instanceof Error ? err.message : "Failed to create folder");
@@ -760,13 +852,9 @@ export function ProvidersView() {
     try {
       logger.info(`Disconnecting provider ${providerId}`);
 
-      // Clear authentication via auth manager
-      const authManager = (await import("@/services/auth-manager")).authManager;
-      await authManager.revokeAuth(providerId);
-
-      // Refresh provider status
+      // Let the provider clear its own credentials (e.g. the REST provider forgets its auth header)
       const registry = ProviderRegistry.getInstance();
-      await registry.refreshProviderStatus(providerId);
+      await registry.revokeProviderAuth(providerId);
       const status = registry.getProviderStatus(providerId);
 
       // Update local state
@@ -775,7 +863,8 @@ export function ProvidersView() {
           if (p.id === providerId) {
             return {
               ...p,
-              authenticated: false,
+              // Feeds and public REST endpoints stay connected without credentials
+              authenticated: status?.authenticated ?? false,
               enabled: false, // Disable when disconnected
               status: status || p.status,
             };
@@ -828,10 +917,20 @@ export function ProvidersView() {
         <Stack spacing={2}>
           {providers.map((provider) => {
             const isSyncing = syncing.has(provider.id);
-            const canSync = provider.enabled && provider.authenticated && provider.folderId;
+            const canSync =
+              provider.enabled &&
+              provider.authenticated &&
+              provider.liveFolders.some((liveFolder) => liveFolder.enabled && liveFolder.folderId);
+            const settingsProps: ProviderSettingsProps = {
+              provider,
+              expanded: expandedSettings.has(provider.id),
+              onToggle: () => handleToggleSettings(provider.id),
+              onDisconnect: handleDisconnect,
+              onError: setError,
+            };
 
             return (
-              <Card key={provider.id} variant="outlined">
+              <Card key={provider.id} id={`provider-${provider.id}`} variant="outlined">
                 <CardContent>
                   <Box display="flex" alignItems="center" gap={2} mb={2}>
                     <ProviderIcon providerId={provider.id} />
@@ -860,549 +959,195 @@ export function ProvidersView() {
                       <>
                         <Warning color="warning" fontSize="small" />
                         <Typography variant="body2" color="warning.main">
-                          Not connected
+                          {provider.status.needsReauth
+                            ? "Sign-in expired or was revoked — reconnect to resume syncing"
+                            : "Not connected"}
                         </Typography>
                       </>
                     )}
+                    {provider.rateLimit && (
+                      <Typography
+                        variant="caption"
+                        color={provider.rateLimit.isLimited ? "warning.main" : "text.secondary"}
+                        sx={{ ml: "auto" }}
+                      >
+                        {formatRateLimit(provider.rateLimit)}
+                      </Typography>
+                    )}
                   </Box>
-                  {/* Folder selection */}
+                  {provider.authenticated && !!provider.status.missingPermissions?.length && (
+                    <Alert severity="warning" sx={{ mb: 2 }}>
+                      <AlertTitle>Missing permissions</AlertTitle>
+                      These credentials can't see everything needed to sync, so folders may stay
+                      empty. Grant the following and reconnect:
+                      <Box component="ul" sx={{ my: 0.5, pl: 2.5 }}>
+                        {provider.status.missingPermissions.map((permission) => (
+                          <li key={permission}>{permission}</li>
+                        ))}
+                      </Box>
+                    </Alert>
+                  )}
+                  {provider.authenticated && !!provider.status.unverifiedPermissions?.length && (
+                    <Alert severity="info" sx={{ mb: 2 }}>
+                      Couldn't verify {provider.status.unverifiedPermissions.join(", ")} because
+                      these credentials can only see public repositories.
+                    </Alert>
+                  )}
+                  {/* Live folders */}
                   {provider.authenticated && (
-                    <FormControl fullWidth size="small" sx={{ mb: 2 }}>
-                      <InputLabel>Bookmark Folder</InputLabel>
-                      <Select
-                        value={provider.folderId || ""}
-                        label="Bookmark Folder"
-                        onChange={(e) => handleFolderChange(provider.id, e.target.value)}
-                        disabled={!provider.enabled}
-                        onOpen={fetchFolders} // Refresh folders when dropdown opens
-                      >
-                        <MenuItem
-                          value=""
-                          onClick={() => {
-                            setFolderCreationProviderId(provider.id);
+                    <Stack spacing={2} sx={{ mb: 2 }}>
+                      {provider.liveFolders.map((liveFolder) => (
+                        <LiveFolderEditor
+                          key={liveFolder.id}
+                          provider={provider}
+                          liveFolder={liveFolder}
+                          folders={folders}
+                          syncing={syncing.has(liveFolder.id)}
+                          onUpdate={updateLiveFolder}
+                          onPreview={handlePreviewLiveFolder}
+                          onSync={handleSyncLiveFolder}
+                          onDelete={handleDeleteLiveFolder}
+                          onRefreshFolders={fetchFolders}
+                          onCreateFolder={(liveFolderId) => {
+                            setFolderCreationLiveFolderId(liveFolderId);
                             setCreateFolderDialogOpen(true);
                           }}
-                          sx={{
-                            borderBottom: "1px solid",
-                            borderColor: "divider",
-                            color: "primary.main",
-                            fontWeight: 500,
-                          }}
-                        >
-                          <Add fontSize="small" sx={{ mr: 1 }} />
-                          Create New Folder...
-                        </MenuItem>
-                        <MenuItem value="" disabled>
-                          <em>Select a folder...</em>
-                        </MenuItem>
-                        {folders.map((folder) => (
-                          <MenuItem key={folder.id} value={folder.id}>
-                            {folder.title}
-                          </MenuItem>
-                        ))}
-                      </Select>
-                    </FormControl>
-                  )}
-                  {/* Sort order selection */}
-                  {provider.authenticated && provider.folderId && (
-                    <FormControl fullWidth size="small" sx={{ mb: 2 }}>
-                      <InputLabel>Sort Bookmarks By</InputLabel>
-                      <Select
-                        value={provider.sortOrder || "alphabetical"}
-                        label="Sort Bookmarks By"
-                        onChange={(e) =>
-                          handleSortOrderChange(
-                            provider.id,
-                            e.target.value as "alphabetical" | "created" | "updated",
-                          )
-                        }
+                          onError={setError}
+                        />
+                      ))}
+                      <Button
+                        size="small"
+                        startIcon={<Add />}
+                        onClick={() => handleAddLiveFolder(provider.id)}
                         disabled={!provider.enabled}
+                        sx={{ alignSelf: "flex-start" }}
                       >
-                        <MenuItem value="alphabetical">Alphabetical (A-Z)</MenuItem>
-                        <MenuItem value="created">Creation Date (Oldest First)</MenuItem>
-                        <MenuItem value="updated">Last Updated (Newest First)</MenuItem>
-                      </Select>
-                    </FormControl>
-                  )}
-                  {/* Filter options */}
-                  {provider.authenticated && provider.folderId && (
-                    <Box sx={{ mb: 2 }}>
-                      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                        Filter Items
-                      </Typography>
-                      <Stack spacing={0.5}>
-                        {provider.id === "github" && (
-                          <>
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.filters?.createdByMe ?? true}
-                                  onChange={(e) =>
-                                    handleFilterChange(provider.id, "createdByMe", e.target.checked)
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label="Created by me"
-                            />
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.filters?.reviewRequests ?? true}
-                                  onChange={(e) =>
-                                    handleFilterChange(
-                                      provider.id,
-                                      "reviewRequests",
-                                      e.target.checked,
-                                    )
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label="Review requests"
-                            />
-                          </>
-                        )}
-                        {provider.id === "jira" && (
-                          <>
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.filters?.createdByMe ?? true}
-                                  onChange={(e) =>
-                                    handleFilterChange(provider.id, "createdByMe", e.target.checked)
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label="Created by me"
-                            />
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.filters?.assignedToMe ?? true}
-                                  onChange={(e) =>
-                                    handleFilterChange(
-                                      provider.id,
-                                      "assignedToMe",
-                                      e.target.checked,
-                                    )
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label="Assigned to me"
-                            />
-                          </>
-                        )}
-                      </Stack>
-                    </Box>
-                  )}
-                  {/* Title Format Options */}
-                  {provider.authenticated && provider.folderId && provider.titleFormat && (
-                    <Box sx={{ mb: 2 }}>
+                        Add Live Folder
+                      </Button>
+
+                      {/* "Recently closed" archive */}
                       <CollapsibleSection
-                        title="Bookmark Title Formatting"
-                        subtitle={getTitleFormatPreview(provider)}
-                        icon={<Settings fontSize="small" />}
-                        expanded={(expandedSections[provider.id] || new Set()).has("titleFormat")}
-                        onToggle={() => handleToggleSection(provider.id, "titleFormat")}
-                        badge={countTitleFormatOptions(provider)}
+                        title="Recently Closed"
+                        subtitle={getArchivePreview(provider.archive)}
+                        icon={<Archive fontSize="small" />}
+                        expanded={(expandedSections[provider.id] || new Set()).has("archive")}
+                        onToggle={() => handleToggleSection(provider.id, "archive")}
                         disabled={!provider.enabled}
                       >
                         <Stack spacing={2}>
-                          {/* Status indicator */}
                           <Box>
                             <FormControlLabel
                               control={
                                 <Checkbox
-                                  checked={provider.titleFormat.includeStatus}
+                                  checked={provider.archive.enabled}
                                   onChange={(e) =>
-                                    handleTitleFormatChange(provider.id, {
-                                      includeStatus: e.target.checked,
-                                    })
+                                    handleArchiveChange(provider.id, { enabled: e.target.checked })
                                   }
                                   disabled={!provider.enabled}
                                   size="small"
                                 />
                               }
                               label={
-                                <Box>
-                                  <Typography variant="body2">
-                                    Status indicator{" "}
-                                    <Typography
-                                      component="span"
-                                      variant="caption"
-                                      color="text.secondary"
-                                    >
-                                      {provider.titleFormat.includeEmojis
-                                        ? "(🟢 🟡 🔴 ⚫)"
-                                        : "([OPEN] [DRAFT] [CLOSED])"}
-                                    </Typography>
-                                  </Typography>
-                                </Box>
+                                <Typography variant="body2">
+                                  Move removed items to a subfolder
+                                </Typography>
                               }
                             />
                             <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                              {provider.id === "github"
-                                ? "Shows PR state: open & ready (🟢), draft (🟡), conflicts/blocked (🔴), merged (⚫), or closed (🔴)"
-                                : "Shows issue type: bug (🐛), story (📖), task (✅), epic (📚), improvement (⚡), or subtask (📝)"}
+                              Merged PRs and closed issues stay reachable for a while instead of
+                              being deleted
                             </FormHelperText>
                           </Box>
-
-                          {/* Review status (GitHub only) */}
-                          {provider.id === "github" && (
-                            <Box>
-                              <FormControlLabel
-                                control={
-                                  <Checkbox
-                                    checked={provider.titleFormat.includeReviewStatus}
-                                    onChange={(e) =>
-                                      handleTitleFormatChange(provider.id, {
-                                        includeReviewStatus: e.target.checked,
-                                      })
-                                    }
-                                    disabled={!provider.enabled}
-                                    size="small"
-                                  />
-                                }
-                                label={
-                                  <Box>
-                                    <Typography variant="body2">
-                                      Review status{" "}
-                                      <Typography
-                                        component="span"
-                                        variant="caption"
-                                        color="text.secondary"
-                                      >
-                                        {provider.titleFormat.includeEmojis
-                                          ? "(✅ no reviews, 👁️ pending)"
-                                          : "([2 REVIEWS])"}
-                                      </Typography>
-                                    </Typography>
-                                  </Box>
-                                }
-                              />
-                              <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                                Shows whether reviewers are requested: checkmark when none
-                                requested, eye icon with count when pending
-                              </FormHelperText>
-                            </Box>
-                          )}
-
-                          {/* Priority (Jira only) */}
-                          {provider.id === "jira" && (
-                            <Box>
-                              <FormControlLabel
-                                control={
-                                  <Checkbox
-                                    checked={provider.titleFormat.includePriority}
-                                    onChange={(e) =>
-                                      handleTitleFormatChange(provider.id, {
-                                        includePriority: e.target.checked,
-                                      })
-                                    }
-                                    disabled={!provider.enabled}
-                                    size="small"
-                                  />
-                                }
-                                label={
-                                  <Box>
-                                    <Typography variant="body2">
-                                      Priority{" "}
-                                      <Typography
-                                        component="span"
-                                        variant="caption"
-                                        color="text.secondary"
-                                      >
-                                        {provider.titleFormat.includeEmojis
-                                          ? "(🔴 High, 🟡 Medium, 🟢 Low)"
-                                          : "([P1] [P2] [P3])"}
-                                      </Typography>
-                                    </Typography>
-                                  </Box>
-                                }
-                              />
-                              <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                                Shows the issue's priority level: highest (🔴), high (🟠), medium
-                                (🟡), low (🟢), or lowest (🔵)
-                              </FormHelperText>
-                            </Box>
-                          )}
-
-                          {/* Creator */}
-                          <Box>
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.titleFormat.includeCreator}
-                                  onChange={(e) =>
-                                    handleTitleFormatChange(provider.id, {
-                                      includeCreator: e.target.checked,
-                                    })
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label={
-                                <Box>
-                                  <Typography variant="body2">
-                                    Creator{" "}
-                                    <Typography
-                                      component="span"
-                                      variant="caption"
-                                      color="text.secondary"
-                                    >
-                                      (@username)
-                                    </Typography>
-                                  </Typography>
-                                </Box>
+                          <TextField
+                            size="small"
+                            label="Subfolder Name"
+                            defaultValue={provider.archive.folderName}
+                            onBlur={(e) => {
+                              const folderName = e.target.value.trim();
+                              if (folderName && folderName !== provider.archive.folderName) {
+                                handleArchiveChange(provider.id, { folderName });
                               }
-                            />
-                            <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                              {provider.id === "github"
-                                ? "Shows who created the PR (@username:). For PRs with assignees different from the creator, also shows assignee (→@username)"
-                                : "Shows who created the issue (@username:)"}
-                            </FormHelperText>
-                          </Box>
-
-                          {/* Assignee (Jira only) */}
-                          {provider.id === "jira" && (
-                            <Box>
-                              <FormControlLabel
-                                control={
-                                  <Checkbox
-                                    checked={provider.titleFormat.includeAssignee}
-                                    onChange={(e) =>
-                                      handleTitleFormatChange(provider.id, {
-                                        includeAssignee: e.target.checked,
-                                      })
-                                    }
-                                    disabled={!provider.enabled}
-                                    size="small"
-                                  />
-                                }
-                                label={
-                                  <Box>
-                                    <Typography variant="body2">
-                                      Assignee{" "}
-                                      <Typography
-                                        component="span"
-                                        variant="caption"
-                                        color="text.secondary"
-                                      >
-                                        (→@username if different from creator)
-                                      </Typography>
-                                    </Typography>
-                                  </Box>
+                            }}
+                            disabled={!provider.enabled || !provider.archive.enabled}
+                          />
+                          <Box display="flex" gap={1}>
+                            <FormControl size="small" sx={{ flex: 1 }}>
+                              <InputLabel>Keep</InputLabel>
+                              <Select
+                                label="Keep"
+                                value={provider.archive.retention}
+                                onChange={(e) =>
+                                  handleArchiveChange(provider.id, {
+                                    retention: e.target.value as ArchiveOptions["retention"],
+                                  })
                                 }
-                              />
-                              <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                                Shows who the issue is assigned to (→@username). Only displayed when
-                                assignee differs from creator, or shows "→@unassigned" if no one is
-                                assigned
-                              </FormHelperText>
-                            </Box>
-                          )}
-
-                          {/* Age */}
-                          <Box>
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.titleFormat.includeAge}
-                                  onChange={(e) =>
-                                    handleTitleFormatChange(provider.id, {
-                                      includeAge: e.target.checked,
-                                    })
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label={
-                                <Box>
-                                  <Typography variant="body2">
-                                    Age{" "}
-                                    <Typography
-                                      component="span"
-                                      variant="caption"
-                                      color="text.secondary"
-                                    >
-                                      {provider.titleFormat.includeEmojis
-                                        ? "(⏰ 10d for items 7+ days old)"
-                                        : "([10d] days since created)"}
-                                    </Typography>
-                                  </Typography>
-                                </Box>
-                              }
-                            />
-                            <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                              Shows how many days since the item was created. Clock emoji (⏰)
-                              appears for items 7+ days old when emojis enabled
-                            </FormHelperText>
-                          </Box>
-
-                          {/* Emoji toggle */}
-                          <Divider sx={{ my: 1 }} />
-                          <Box>
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.titleFormat.includeEmojis}
-                                  onChange={(e) =>
-                                    handleTitleFormatChange(provider.id, {
-                                      includeEmojis: e.target.checked,
-                                    })
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label={
-                                <Box>
-                                  <Typography variant="body2">
-                                    Use emojis instead of text labels
-                                  </Typography>
-                                </Box>
+                                disabled={!provider.enabled || !provider.archive.enabled}
+                              >
+                                <MenuItem value="count">Most recent items</MenuItem>
+                                <MenuItem value="days">Items from the last days</MenuItem>
+                              </Select>
+                            </FormControl>
+                            <TextField
+                              size="small"
+                              type="number"
+                              label={provider.archive.retention === "count" ? "Items" : "Days"}
+                              value={
+                                provider.archive.retention === "count"
+                                  ? provider.archive.maxItems
+                                  : provider.archive.maxDays
                               }
+                              onChange={(e) => {
+                                const value = Math.max(1, Number.parseInt(e.target.value, 10) || 1);
+                                handleArchiveChange(
+                                  provider.id,
+                                  provider.archive.retention === "count"
+                                    ? { maxItems: value }
+                                    : { maxDays: value },
+                                );
+                              }}
+                              inputProps={{ min: 1, max: 500 }}
+                              disabled={!provider.enabled || !provider.archive.enabled}
+                              sx={{ width: 100 }}
                             />
-                            <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                              When enabled, uses visual icons (🟢 ✅ @user:) instead of text labels
-                              ([OPEN] [NO REVIEWS] @user:)
-                            </FormHelperText>
                           </Box>
                         </Stack>
                       </CollapsibleSection>
-                    </Box>
-                  )}
 
-                  {/* Folder Display Options */}
-                  {provider.authenticated && provider.folderId && provider.folderTitleFormat && (
-                    <Box sx={{ mb: 2 }}>
+                      {/* Bookmarks renamed or re-pointed in the browser */}
                       <CollapsibleSection
-                        title="Folder Display Options"
-                        subtitle={getFolderDisplayPreview(provider)}
-                        icon={<Settings fontSize="small" />}
-                        expanded={(expandedSections[provider.id] || new Set()).has("folderDisplay")}
-                        onToggle={() => handleToggleSection(provider.id, "folderDisplay")}
+                        title="Local Edits"
+                        subtitle={CONFLICT_STRATEGY_LABELS[provider.conflictStrategy]}
+                        icon={<MergeType fontSize="small" />}
+                        expanded={(expandedSections[provider.id] || new Set()).has("conflicts")}
+                        onToggle={() => handleToggleSection(provider.id, "conflicts")}
                         disabled={!provider.enabled}
                       >
-                        <Stack spacing={2}>
-                          {/* Enable dynamic folder titles */}
-                          <Box>
-                            <FormControlLabel
-                              control={
-                                <Checkbox
-                                  checked={provider.folderTitleFormat.enabled}
-                                  onChange={(e) =>
-                                    handleFolderTitleFormatChange(provider.id, {
-                                      enabled: e.target.checked,
-                                    })
-                                  }
-                                  disabled={!provider.enabled}
-                                  size="small"
-                                />
-                              }
-                              label={
-                                <Box>
-                                  <Typography variant="body2">
-                                    Update folder name with live counts
-                                  </Typography>
-                                </Box>
-                              }
-                            />
-                            <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                              Automatically updates the bookmark folder name to show current
-                              statistics
-                            </FormHelperText>
-                          </Box>
-
-                          {/* Conditional options (only when enabled) */}
-                          {provider.folderTitleFormat.enabled && (
-                            <>
-                              {/* Total count */}
-                              <Box sx={{ ml: 2 }}>
-                                <FormControlLabel
-                                  control={
-                                    <Checkbox
-                                      checked={provider.folderTitleFormat.includeTotal}
-                                      onChange={(e) =>
-                                        handleFolderTitleFormatChange(provider.id, {
-                                          includeTotal: e.target.checked,
-                                        })
-                                      }
-                                      disabled={!provider.enabled}
-                                      size="small"
-                                    />
-                                  }
-                                  label={
-                                    <Box>
-                                      <Typography variant="body2">
-                                        Total item count{" "}
-                                        <Typography
-                                          component="span"
-                                          variant="caption"
-                                          color="text.secondary"
-                                        >
-                                          (24 total)
-                                        </Typography>
-                                      </Typography>
-                                    </Box>
-                                  }
-                                />
-                                <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                                  Shows the total number of items in the folder
-                                </FormHelperText>
-                              </Box>
-
-                              {/* Review count (GitHub only) */}
-                              {provider.id === "github" && (
-                                <Box sx={{ ml: 2 }}>
-                                  <FormControlLabel
-                                    control={
-                                      <Checkbox
-                                        checked={provider.folderTitleFormat.includeReviewCount}
-                                        onChange={(e) =>
-                                          handleFolderTitleFormatChange(provider.id, {
-                                            includeReviewCount: e.target.checked,
-                                          })
-                                        }
-                                        disabled={!provider.enabled}
-                                        size="small"
-                                      />
-                                    }
-                                    label={
-                                      <Box>
-                                        <Typography variant="body2">
-                                          Items awaiting your review{" "}
-                                          <Typography
-                                            component="span"
-                                            variant="caption"
-                                            color="text.secondary"
-                                          >
-                                            (3 review)
-                                          </Typography>
-                                        </Typography>
-                                      </Box>
-                                    }
-                                  />
-                                  <FormHelperText sx={{ mt: 0, ml: 4 }}>
-                                    Shows how many PRs are waiting for your review (where you're
-                                    explicitly requested as a reviewer)
-                                  </FormHelperText>
-                                </Box>
-                              )}
-                            </>
-                          )}
-                        </Stack>
+                        <FormControl size="small" fullWidth>
+                          <InputLabel>When I edit a synced bookmark</InputLabel>
+                          <Select
+                            label="When I edit a synced bookmark"
+                            value={provider.conflictStrategy}
+                            onChange={(e) =>
+                              handleConflictStrategyChange(
+                                provider.id,
+                                e.target.value as ConflictStrategy,
+                              )
+                            }
+                            disabled={!provider.enabled}
+                          >
+                            {Object.entries(CONFLICT_STRATEGY_LABELS).map(([value, label]) => (
+                              <MenuItem key={value} value={value}>
+                                {label}
+                              </MenuItem>
+                            ))}
+                          </Select>
+                          <FormHelperText>
+                            Applies when a bookmark's title or URL no longer matches what was last
+                            synced
+                          </FormHelperText>
+                        </FormControl>
                       </CollapsibleSection>
-                    </Box>
+                    </Stack>
                   )}
 
                   {/* Last sync info */}
@@ -1413,193 +1158,14 @@ export function ProvidersView() {
                   )}
                   {/* Provider-specific settings */}
                   {provider.id === "github" && (
-                    <Box mt={2}>
-                      <Box display="flex" alignItems="center" gap={1} mb={1}>
-                        <IconButton
-                          size="small"
-                          onClick={() => handleToggleSettings(provider.id)}
-                          sx={{
-                            transform: expandedSettings.has(provider.id)
-                              ? "rotate(180deg)"
-                              : "rotate(0deg)",
-                            transition: "transform 0.3s",
-                          }}
-                        >
-                          <ExpandMore />
-                        </IconButton>
-                        <Typography variant="body2" color="text.secondary">
-                          {provider.authenticated ? "Token Management" : "Advanced Settings"}
-                        </Typography>
-                      </Box>
-
-                      <Collapse in={expandedSettings.has(provider.id)}>
-                        <Stack spacing={2} mt={1}>
-                          {!provider.authenticated && (
-                            <Alert severity="info" sx={{ fontSize: "0.875rem" }}>
-                              Enter a GitHub Personal Access Token (classic) with
-                              <strong> repo</strong>, <strong>read:user</strong>, and{" "}
-                              <strong>read:org</strong> scopes.{" "}
-                              <a
-                                href="https://github.com/settings/tokens"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                              >
-                                Create one here
-                              </a>
-                              .
-                            </Alert>
-                          )}
-                          {provider.authenticated && (
-                            <Alert severity="success" sx={{ fontSize: "0.875rem" }}>
-                              Token is active. To update or replace your token, enter a new one
-                              below and save.
-                            </Alert>
-                          )}
-                          <TextField
-                            fullWidth
-                            size="small"
-                            type="password"
-                            label="Personal Access Token"
-                            placeholder="ghp_..."
-                            value={githubPAT}
-                            onChange={(e) => setGithubPAT(e.target.value)}
-                            helperText={
-                              provider.authenticated
-                                ? "Enter a new token to update the existing one"
-                                : "This token will be stored securely in your browser"
-                            }
-                          />
-                          <Box display="flex" gap={1}>
-                            <Button
-                              variant="outlined"
-                              size="small"
-                              onClick={handleSaveGitHubPAT}
-                              disabled={!githubPAT.trim()}
-                              startIcon={<Settings />}
-                              sx={{ flex: 1 }}
-                            >
-                              Save Token
-                            </Button>
-                            {provider.authenticated && (
-                              <Button
-                                variant="outlined"
-                                size="small"
-                                color="error"
-                                onClick={() => handleDisconnect(provider.id)}
-                                sx={{ flex: 1 }}
-                              >
-                                Disconnect
-                              </Button>
-                            )}
-                          </Box>
-                        </Stack>
-                      </Collapse>
-                    </Box>
-                  )}
-                  {/* Jira API Token Configuration */}
-                  {provider.id === "jira" && (
-                    <Box mt={2}>
-                      <Box display="flex" alignItems="center" gap={1} mb={1}>
-                        <IconButton
-                          size="small"
-                          onClick={() => handleToggleSettings(provider.id)}
-                          sx={{
-                            transform: expandedSettings.has(provider.id)
-                              ? "rotate(180deg)"
-                              : "rotate(0deg)",
-                            transition: "transform 0.3s",
-                          }}
-                        >
-                          <ExpandMore />
-                        </IconButton>
-                        <Typography variant="body2" color="text.secondary">
-                          {provider.authenticated ? "Token Management" : "API Token Configuration"}
-                        </Typography>
-                      </Box>
-
-                      <Collapse in={expandedSettings.has(provider.id)}>
-                        <Stack spacing={2} mt={1}>
-                          {provider.authenticated ? (
-                            <Alert severity="success" sx={{ fontSize: "0.875rem" }}>
-                              Your Jira API token is active. You can update it below or disconnect
-                              to enter new credentials.
-                            </Alert>
-                          ) : (
-                            <Alert severity="info" sx={{ fontSize: "0.875rem" }}>
-                              Enter your Jira Cloud details. You can create an API token at{" "}
-                              <a
-                                href="https://id.atlassian.com/manage-profile/security/api-tokens"
-                                target="_blank"
-                                rel="noopener noreferrer"
-                              >
-                                Atlassian Account Security
-                              </a>
-                              .
-                            </Alert>
-                          )}
-                          <TextField
-                            fullWidth
-                            size="small"
-                            type="url"
-                            label="Jira Base URL"
-                            placeholder="https://yourcompany.atlassian.net"
-                            value={jiraBaseUrl}
-                            onChange={(e) => setJiraBaseUrl(e.target.value)}
-                            helperText="Your Jira Cloud instance URL"
-                          />
-                          <TextField
-                            fullWidth
-                            size="small"
-                            type="email"
-                            label="Email Address"
-                            placeholder="you@company.com"
-                            value={jiraEmail}
-                            onChange={(e) => setJiraEmail(e.target.value)}
-                            helperText="Your Jira account email"
-                          />
-                          <TextField
-                            fullWidth
-                            size="small"
-                            type="password"
-                            label="API Token"
-                            placeholder="Your Jira API token"
-                            value={jiraApiToken}
-                            onChange={(e) => setJiraApiToken(e.target.value)}
-                            helperText={
-                              provider.authenticated
-                                ? "Update your token here or disconnect to clear"
-                                : "This token will be stored securely in your browser"
-                            }
-                          />
-                          <Box display="flex" gap={1}>
-                            <Button
-                              variant="outlined"
-                              size="small"
-                              onClick={handleSaveJiraConfig}
-                              disabled={
-                                !jiraBaseUrl.trim() || !jiraEmail.trim() || !jiraApiToken.trim()
-                              }
-                              startIcon={<Settings />}
-                            >
-                              {provider.authenticated
-                                ? "Update Configuration"
-                                : "Save Configuration"}
-                            </Button>
-                            {provider.authenticated && (
-                              <Button
-                                variant="outlined"
-                                size="small"
-                                color="error"
-                                onClick={() => handleDisconnect(provider.id)}
-                              >
-                                Disconnect
-                              </Button>
-                            )}
-                          </Box>
-                        </Stack>
-                      </Collapse>
-                    </Box>
+                    <GitHubSettings
+                      {...settingsProps}
+                      deviceAuthorization={deviceAuth[provider.id]}
+                    />
                   )}
+                  {provider.id === "rest" && <RestSettings {...settingsProps} />}
+                  {provider.id === "gitlab" && <GitLabSettings {...settingsProps} />}
+                  {provider.id === "jira" && <JiraSettings {...settingsProps} />}
                 </CardContent>
 
                 <CardActions>
@@ -1621,7 +1187,7 @@ export function ProvidersView() {
                         !canSync
                           ? !provider.enabled
                             ? "Enable provider to sync"
-                            : !provider.folderId
+                            : !provider.liveFolders.some((f) => f.enabled && f.folderId)
                               ? "Select a bookmark folder first"
                               : "Provider not ready"
                           : ""
@@ -1640,6 +1206,20 @@ export function ProvidersView() {
                       </span>
                     </Tooltip>
                   )}
+                  {provider.authenticated && provider.canUndo && (
+                    <Tooltip title="Revert the last sync and pause this provider until you re-enable it">
+                      <span>
+                        <Button
+                          size="small"
+                          startIcon={<Undo />}
+                          onClick={() => handleUndoLastSync(provider.id)}
+                          disabled={isSyncing}
+                        >
+                          Undo Last Sync
+                        </Button>
+                      </span>
+                    </Tooltip>
+                  )}
                 </CardActions>
               </Card>
             );
@@ -1653,7 +1233,7 @@ export function ProvidersView() {
         onClose={() => {
           setCreateFolderDialogOpen(false);
           setNewFolderName("");
-          setFolderCreationProviderId(null);
+          setFolderCreationLiveFolderId(null);
           setError(null);
         }}
         maxWidth="sm"
@@ -1685,7 +1265,7 @@ export function ProvidersView() {
             onClick={() => {
               setCreateFolderDialogOpen(false);
               setNewFolderName("");
-              setFolderCreationProviderId(null);
+              setFolderCreationLiveFolderId(null);
               setError(null);
             }}
             disabled={creatingFolder}
@@ -1702,6 +1282,17 @@ export function ProvidersView() {
           </Button>
         </DialogActions>
       </Dialog>
+
+      {/* Sync Preview Dialog */}
+      <SyncPreviewDialog
+        open={previewLiveFolder !== null}
+        preview={syncPreview}
+        loading={previewLoading}
+        applying={previewLiveFolder !== null && syncing.has(previewLiveFolder.id)}
+        error={previewError}
+        onApply={handleApplyPreview}
+        onClose={handleClosePreview}
+      />
     </Stack>
   );
 }
@@ -1,4 +1,4 @@
-import { Refresh, Save } from "@mui/icons-material";
+import { Lock, Refresh, Save } from "@mui/icons-material";
 import {
   Alert,
   Box,
@@ -38,6 +38,18 @@ const logger = new Logger("SettingsView");
 const msToMinutes = (ms: number) => Math.round(ms / 60000);
 const minutesToMs = (minutes: number) => minutes * 60000;
 
+/** Shortest passphrase accepted for the passphrase lock */
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/** Auto-lock choices in minutes (0 = never) */
+const AUTO_LOCK_OPTIONS = [
+  { value: 5, label: "After 5 minutes" },
+  { value: 15, label: "After 15 minutes" },
+  { value: 30, label: "After 30 minutes" },
+  { value: 60, label: "After 1 hour" },
+  { value: 0, label: "Never (only when the browser closes)" },
+];
+
 export function SettingsView() {
   const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
   const [loading, setLoading] = useState(true);
@@ -47,6 +59,10 @@ export function SettingsView() {
   const [showNotificationHelp, setShowNotificationHelp] = useState(false);
   const [showResetDialog, setShowResetDialog] = useState(false);
   const [resetting, setResetting] = useState(false);
+  const [lockEnabled, setLockEnabled] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [lockBusy, setLockBusy] = useState(false);
 
   // Load settings on mount
   useEffect(() => {
@@ -58,6 +74,7 @@ export function SettingsView() {
         const storage = StorageManager.getInstance();
         const currentSettings = await storage.getSettings();
         setSettings(currentSettings);
+        setLockEnabled((await storage.getPassphraseLock()) !== null);
 
         logger.info("Settings loaded successfully");
       } catch (err) {
@@ -145,6 +162,50 @@ export function SettingsView() {
     setSettings((prev) => ({ ...prev, syncInterval: minutesToMs(minutes) }));
   };
 
+  // Turn the passphrase lock on or off; both re-encrypt all stored credentials
+  const handlePassphraseLockChange = async (enable: boolean) => {
+    try {
+      setLockBusy(true);
+      setError(null);
+
+      const storage = StorageManager.getInstance();
+      const result = enable
+        ? await storage.enablePassphraseLock(passphrase)
+        : await storage.disablePassphraseLock(passphrase);
+
+      if (!result.success) {
+        throw new Error(result.error || "Failed to update passphrase lock");
+      }
+
+      setLockEnabled(enable);
+      setPassphrase("");
+      setConfirmPassphrase("");
+      setSuccessMessage(enable ? "Passphrase lock enabled" : "Passphrase lock disabled");
+      setTimeout(() => setSuccessMessage(null), 3000);
+      logger.info(`Passphrase lock ${enable ? "enabled" : "disabled"}`);
+    } catch (err) {
+      logger.error("Failed to update passphrase lock", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to update passphrase lock");
+    } finally {
+      setLockBusy(false);
+    }
+  };
+
+  // Lock credentials now via background
+  const handleLockNow = async () => {
+    try {
+      const response = await chrome.runtime.sendMessage({ type: "LOCK_CREDENTIALS" });
+      if (!response.success) {
+        throw new Error(response.error || "Failed to lock");
+      }
+      setSuccessMessage("Credentials locked. Unlock them in the popup.");
+      setTimeout(() => setSuccessMessage(null), 3000);
+    } catch (err) {
+      logger.error("Failed to lock credentials", err as Error);
+      setError(err instanceof Error ? err.message : "Failed to lock credentials");
+    }
+  };
+
   // Reset extension to initial state
   const handleResetExtension = async () => {
     try {
@@ -251,7 +312,7 @@ export function SettingsView() {
               sx={{ mt: 1 }}
             />
             <Typography variant="caption" color="text.secondary">
-              Maximum number of items to sync per provider
+              Maximum number of items to sync into each live folder
             </Typography>
           </FormControl>
         </CardContent>
@@ -353,6 +414,107 @@ export function SettingsView() {
         </CardContent>
       </Card>
 
+      {/* Security Settings */}
+      <Card variant="outlined">
+        <CardContent>
+          <Typography variant="h6" gutterBottom>
+            Security
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Encrypt tokens with a passphrase. While locked, syncing pauses until you unlock in the
+            popup. Useful on shared or managed machines.
+          </Typography>
+
+          {lockEnabled ? (
+            <Stack spacing={2}>
+              <FormControl fullWidth>
+                <FormLabel>Auto-lock</FormLabel>
+                <Select
+                  value={settings.autoLockMinutes}
+                  onChange={(e) =>
+                    setSettings((prev) => ({
+                      ...prev,
+                      autoLockMinutes: Number(e.target.value),
+                    }))
+                  }
+                  size="small"
+                  sx={{ mt: 1 }}
+                >
+                  {AUTO_LOCK_OPTIONS.map((option) => (
+                    <MenuItem key={option.value} value={option.value}>
+                      {option.label}
+                    </MenuItem>
+                  ))}
+                </Select>
+                <Typography variant="caption" color="text.secondary" sx={{ mt: 1 }}>
+                  Lock again when you have been away from the computer this long
+                </Typography>
+              </FormControl>
+
+              <Box>
+                <Button variant="outlined" startIcon={<Lock />} onClick={handleLockNow}>
+                  Lock Now
+                </Button>
+              </Box>
+
+              <Stack direction="row" spacing={1}>
+                <TextField
+                  type="password"
+                  size="small"
+                  label="Current passphrase"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  fullWidth
+                />
+                <Button
+                  color="error"
+                  onClick={() => handlePassphraseLockChange(false)}
+                  disabled={lockBusy || !passphrase}
+                  sx={{ flexShrink: 0 }}
+                >
+                  {lockBusy ? "Disabling..." : "Disable Lock"}
+                </Button>
+              </Stack>
+            </Stack>
+          ) : (
+            <Stack spacing={2}>
+              <TextField
+                type="password"
+                size="small"
+                label="Passphrase"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                helperText={`At least ${MIN_PASSPHRASE_LENGTH} characters. It can't be recovered; if you forget it, reconnect your providers.`}
+                fullWidth
+              />
+              <TextField
+                type="password"
+                size="small"
+                label="Confirm passphrase"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                error={confirmPassphrase.length > 0 && confirmPassphrase !== passphrase}
+                fullWidth
+              />
+              <Box>
+                <Button
+                  variant="outlined"
+                  startIcon={<Lock />}
+                  onClick={() => handlePassphraseLockChange(true)}
+                  disabled={
+                    lockBusy ||
+                    passphrase.length < MIN_PASSPHRASE_LENGTH ||
+                    passphrase !== confirmPassphrase
+                  }
+                >
+                  {lockBusy ? "Enabling..." : "Enable Passphrase Lock"}
+                </Button>
+              </Box>
+            </Stack>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Advanced Settings */}
       <Card variant="outlined">
         <CardContent>
@@ -0,0 +1,99 @@
+import { Button, CircularProgress, TextField } from "@mui/material";
+import { useState } from "react";
+import type { FeedProvider } from "@/providers/feed/feed-provider";
+import { ProviderRegistry } from "@/services/provider-registry";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+import type { LiveFolderFiltersProps } from "./types";
+
+const logger = new Logger("FeedSourceFields");
+
+/**
+ * Feed Source Fields
+ * The feed a live folder reads
+ */
+export function FeedSourceFields({ liveFolder, disabled, onUpdate }: LiveFolderFiltersProps) {
+  const [feedUrlDraft, setFeedUrlDraft] = useState<string | undefined>(undefined);
+  const [feedUrlError, setFeedUrlError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  // Validate the feed URL by loading the feed, then save it
+  const handleSaveFeedUrl = async () => {
+    if (feedUrlDraft === undefined) {
+      return;
+    }
+
+    try {
+      setValidating(true);
+      setFeedUrlError(null);
+
+      const feedUrl = feedUrlDraft.trim();
+      let origin: string;
+      try {
+        origin = new URL(feedUrl).origin;
+      } catch {
+        throw new Error("Please enter a valid feed URL (e.g., https://example.com/feed.xml)");
+      }
+
+      // Feeds can live on any host, so access is granted per origin
+      const granted = await browser.permissions.request({ origins: [`${origin}/*`] });
+      if (!granted) {
+        throw new Error(`Permission to access ${origin} is required to read this feed`);
+      }
+
+      const provider = ProviderRegistry.getInstance().getProvider("feed") as
+        | FeedProvider
+        | undefined;
+      if (!provider) {
+        throw new Error("Feed provider not initialized. Please reload the extension.");
+      }
+
+      // Feeds that can't be loaded are shown inline and nothing is saved
+      await provider.validateFeed(feedUrl);
+
+      await onUpdate(liveFolder.id, (current) => ({
+        filters: {
+          ...(current.filters || {}),
+          feedUrl,
+        },
+      }));
+
+      setFeedUrlDraft(undefined);
+      logger.info(`Live folder ${liveFolder.id} feed URL saved`);
+    } catch (err) {
+      logger.error(`Failed to save feed URL for ${liveFolder.id}`, err as Error);
+      setFeedUrlError(err instanceof Error ? err.message : "Failed to load feed");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  return (
+    <>
+      <TextField
+        fullWidth
+        size="small"
+        type="url"
+        label="Feed URL"
+        placeholder="https://example.com/feed.xml"
+        value={feedUrlDraft ?? liveFolder.filters.feedUrl ?? ""}
+        onChange={(e) => setFeedUrlDraft(e.target.value)}
+        error={!!feedUrlError}
+        helperText={
+          feedUrlError || "An RSS 2.0 or Atom feed, such as release notes, a status page or a blog"
+        }
+        disabled={disabled}
+      />
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={handleSaveFeedUrl}
+        disabled={disabled || !feedUrlDraft?.trim() || validating}
+        startIcon={validating ? <CircularProgress size={16} /> : undefined}
+        sx={{ alignSelf: "flex-start" }}
+      >
+        {validating ? "Validating..." : "Validate & Save Feed"}
+      </Button>
+    </>
+  );
+}
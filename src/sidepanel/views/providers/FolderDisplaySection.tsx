@@ -0,0 +1,151 @@
+import { Settings } from "@mui/icons-material";
+import { Box, Checkbox, FormControlLabel, FormHelperText, Stack, Typography } from "@mui/material";
+import { CollapsibleSection } from "@/components/CollapsibleSection";
+import type { FolderTitleFormatOptions } from "@/types/provider";
+
+export interface FolderDisplaySectionProps {
+  /** Provider of the live folder; the review count only shows where the provider supports it */
+  providerId: string;
+  folderTitleFormat: FolderTitleFormatOptions;
+  disabled: boolean;
+  expanded: boolean;
+  onToggle: () => void;
+  onChange: (updates: Partial<FolderTitleFormatOptions>) => void;
+}
+
+/**
+ * Describe the folder title options for the collapsed section
+ */
+const getFolderDisplayPreview = (folderFormat: FolderTitleFormatOptions): string => {
+  if (!folderFormat.enabled) {
+    return "Static folder names";
+  }
+
+  const parts: string[] = [];
+  if (folderFormat.includeReviewCount) parts.push("review count");
+  if (folderFormat.includeTotal) parts.push("total count");
+
+  return parts.length > 0 ? `Showing ${parts.join(" • ")}` : "Dynamic titles enabled";
+};
+
+/**
+ * Folder Display Section
+ * Whether a live folder's bookmark folder name shows live counts
+ */
+export function FolderDisplaySection({
+  providerId,
+  folderTitleFormat,
+  disabled,
+  expanded,
+  onToggle,
+  onChange,
+}: FolderDisplaySectionProps) {
+  return (
+    <CollapsibleSection
+      title="Folder Display Options"
+      subtitle={getFolderDisplayPreview(folderTitleFormat)}
+      icon={<Settings fontSize="small" />}
+      expanded={expanded}
+      onToggle={onToggle}
+      disabled={disabled}
+    >
+      <Stack spacing={2}>
+        {/* Enable dynamic folder titles */}
+        <Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={folderTitleFormat.enabled}
+                onChange={(e) =>
+                  onChange({
+                    enabled: e.target.checked,
+                  })
+                }
+                disabled={disabled}
+                size="small"
+              />
+            }
+            label={
+              <Box>
+                <Typography variant="body2">Update folder name with live counts</Typography>
+              </Box>
+            }
+          />
+          <FormHelperText sx={{ mt: 0, ml: 4 }}>
+            Automatically updates the bookmark folder name to show current statistics
+          </FormHelperText>
+        </Box>
+
+        {/* Conditional options (only when enabled) */}
+        {folderTitleFormat.enabled && (
+          <>
+            {/* Total count */}
+            <Box sx={{ ml: 2 }}>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={folderTitleFormat.includeTotal}
+                    onChange={(e) =>
+                      onChange({
+                        includeTotal: e.target.checked,
+                      })
+                    }
+                    disabled={disabled}
+                    size="small"
+                  />
+                }
+                label={
+                  <Box>
+                    <Typography variant="body2">
+                      Total item count{" "}
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        (24 total)
+                      </Typography>
+                    </Typography>
+                  </Box>
+                }
+              />
+              <FormHelperText sx={{ mt: 0, ml: 4 }}>
+                Shows the total number of items in the folder
+              </FormHelperText>
+            </Box>
+
+            {/* Review count (GitHub and GitLab) */}
+            {(providerId === "github" || providerId === "gitlab") && (
+              <Box sx={{ ml: 2 }}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={folderTitleFormat.includeReviewCount}
+                      onChange={(e) =>
+                        onChange({
+                          includeReviewCount: e.target.checked,
+                        })
+                      }
+                      disabled={disabled}
+                      size="small"
+                    />
+                  }
+                  label={
+                    <Box>
+                      <Typography variant="body2">
+                        Items awaiting your review{" "}
+                        <Typography component="span" variant="caption" color="text.secondary">
+                          (3 review)
+                        </Typography>
+                      </Typography>
+                    </Box>
+                  }
+                />
+                <FormHelperText sx={{ mt: 0, ml: 4 }}>
+                  Shows how many PRs are waiting for your review (where you're explicitly requested
+                  as a reviewer)
+                </FormHelperText>
+              </Box>
+            )}
+          </>
+        )}
+      </Stack>
+    </CollapsibleSection>
+  );
+}
@@ -0,0 +1,124 @@
+import { Button, Checkbox, CircularProgress, FormControlLabel, TextField } from "@mui/material";
+import { useState } from "react";
+import type { GitHubProvider } from "@/providers/github/github-provider";
+import { ProviderRegistry } from "@/services/provider-registry";
+import { Logger } from "@/utils/logger";
+import type { LiveFolderFiltersProps } from "./types";
+
+const logger = new Logger("GitHubFilterFields");
+
+/**
+ * GitHub Filter Fields
+ * Which pull requests a live folder includes, plus custom search queries
+ */
+export function GitHubFilterFields({
+  liveFolder,
+  disabled,
+  onUpdate,
+  onFilterChange,
+}: LiveFolderFiltersProps) {
+  // Custom search queries being edited (one query per line)
+  const [queryDraft, setQueryDraft] = useState<string | undefined>(undefined);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  // Validate and save the custom search queries
+  const handleSaveQueries = async () => {
+    if (queryDraft === undefined) {
+      return;
+    }
+
+    const queries = queryDraft
+      .split("\n")
+      .map((query) => query.trim())
+      .filter(Boolean);
+
+    try {
+      setValidating(true);
+      setQueryError(null);
+
+      const provider = ProviderRegistry.getInstance().getProvider("github") as
+        | GitHubProvider
+        | undefined;
+      if (!provider) {
+        throw new Error("GitHub provider not initialized. Please reload the extension.");
+      }
+
+      // Validate every query before saving so a typo never breaks the sync
+      for (const query of queries) {
+        await provider.validateSearchQuery(query);
+      }
+
+      await onUpdate(liveFolder.id, (current) => ({
+        filters: {
+          ...(current.filters || {}),
+          customQueries: queries,
+        },
+      }));
+
+      setQueryDraft(undefined);
+      logger.info(`Live folder ${liveFolder.id} custom queries saved`, { count: queries.length });
+    } catch (err) {
+      logger.error(`Failed to save custom queries for ${liveFolder.id}`, err as Error);
+      setQueryError(err instanceof Error ? err.message : "Failed to validate query");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  return (
+    <>
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.createdByMe ?? true}
+            onChange={(e) => onFilterChange("createdByMe", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Created by me"
+      />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.reviewRequests ?? true}
+            onChange={(e) => onFilterChange("reviewRequests", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Review requests"
+      />
+      <TextField
+        fullWidth
+        multiline
+        minRows={2}
+        size="small"
+        label="Custom Search Queries"
+        placeholder={
+          "team-review-requested:my-org/my-team is:open\ninvolves:@me label:bug is:issue is:open"
+        }
+        value={queryDraft ?? (liveFolder.filters.customQueries ?? []).join("\n")}
+        onChange={(e) => setQueryDraft(e.target.value)}
+        error={!!queryError}
+        helperText={
+          queryError ||
+          "One GitHub search query per line. @me is replaced with your username. Add is:pr or is:issue to limit results."
+        }
+        disabled={disabled}
+        sx={{ mt: 1 }}
+      />
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={handleSaveQueries}
+        disabled={disabled || queryDraft === undefined || validating}
+        startIcon={validating ? <CircularProgress size={16} /> : undefined}
+        sx={{ alignSelf: "flex-start" }}
+      >
+        {validating ? "Validating..." : "Validate & Save Queries"}
+      </Button>
+    </>
+  );
+}
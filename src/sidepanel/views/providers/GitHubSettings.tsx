@@ -0,0 +1,345 @@
+import { DevicesOther, OpenInNew, Settings } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Divider,
+  Stack,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+import { StorageManager } from "@/services/storage";
+import type { DeviceAuthorization } from "@/types";
+import type { ProviderConfig } from "@/types/provider";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+import { ProviderSettingsPanel } from "./ProviderSettingsPanel";
+import type { ProviderSettingsProps } from "./types";
+
+const logger = new Logger("GitHubSettings");
+
+export interface GitHubSettingsProps extends ProviderSettingsProps {
+  /** Device flow sign-in in progress or failed, if any */
+  deviceAuthorization?: DeviceAuthorization;
+}
+
+/**
+ * GitHub Settings
+ * Personal access token, Enterprise server and device flow sign-in
+ */
+export function GitHubSettings({
+  provider,
+  expanded,
+  onToggle,
+  onDisconnect,
+  onError,
+  deviceAuthorization,
+}: GitHubSettingsProps) {
+  const [githubPAT, setGithubPAT] = useState<string>("");
+  const [githubBaseUrl, setGithubBaseUrl] = useState<string>("");
+  const [githubClientId, setGithubClientId] = useState<string>("");
+  const [deviceAuthStarting, setDeviceAuthStarting] = useState(false);
+
+  // Save GitHub PAT
+  const handleSaveGitHubPAT = async () => {
+    try {
+      if (!githubPAT.trim()) {
+        onError("Please enter a valid GitHub Personal Access Token");
+        return;
+      }
+
+      const storage = StorageManager.getInstance();
+      const providerData = await storage.getProvider("github");
+
+      if (!providerData) {
+        // Provider not found - this shouldn't happen if ProviderRegistry initialized properly
+        onError("GitHub provider not initialized. Please reload the extension and try again.");
+        return;
+      }
+
+      // Add PAT to config - preserve ALL existing fields while updating the PAT
+      // Provider-specific config field (not in base ProviderConfig type)
+      const updatedConfig = {
+        ...providerData.config,
+        personalAccessToken: githubPAT,
+      };
+
+      const updatedData = {
+        ...providerData,
+        config: updatedConfig as ProviderConfig,
+      };
+
+      await storage.saveProvider("github", updatedData);
+
+      logger.info("GitHub PAT saved successfully");
+      setGithubPAT(""); // Clear input after saving
+
+      // Show success message (could be improved with a success Alert)
+      onError(null);
+    } catch (err) {
+      logger.error("Failed to save GitHub PAT", err as Error);
+      onError(err instanceof Error ? err.message : "Failed to save token");
+    }
+  };
+
+  // Save the GitHub Enterprise Server URL and its OAuth app
+  const handleSaveGitHubServer = async () => {
+    try {
+      // Empty URL means github.com
+      const baseUrl = githubBaseUrl.trim() || "https://github.com";
+      let origin: string;
+      try {
+        origin = new URL(baseUrl).origin;
+      } catch {
+        onError(
+          "Please enter a valid GitHub Enterprise URL (e.g., https://github.yourcompany.com)",
+        );
+        return;
+      }
+
+      // Enterprise servers aren't covered by the manifest host permissions
+      if (origin !== "https://github.com") {
+        const granted = await browser.permissions.request({ origins: [`${origin}/*`] });
+        if (!granted) {
+          onError(`Permission to access ${origin} is required to sync from this GitHub server`);
+          return;
+        }
+      }
+
+      const storage = StorageManager.getInstance();
+      const providerData = await storage.getProvider("github");
+
+      if (!providerData) {
+        onError("GitHub provider not initialized. Please reload the extension and try again.");
+        return;
+      }
+
+      // Provider-specific config fields (not in base ProviderConfig type)
+      const updatedConfig = {
+        ...providerData.config,
+        baseUrl: origin === "https://github.com" ? undefined : origin,
+        oauthClientId: githubClientId.trim() || undefined,
+      };
+
+      await storage.saveProvider("github", {
+        ...providerData,
+        config: updatedConfig as ProviderConfig,
+      });
+
+      logger.info("GitHub server saved successfully", { origin });
+      setGithubBaseUrl("");
+      setGithubClientId("");
+      onError(null);
+    } catch (err) {
+      logger.error("Failed to save GitHub server", err as Error);
+      onError(err instanceof Error ? err.message : "Failed to save server");
+    }
+  };
+
+  // Start a device flow sign-in; the background polls until the code is approved
+  const handleStartDeviceAuth = async () => {
+    setDeviceAuthStarting(true);
+    onError(null);
+
+    try {
+      const response = await chrome.runtime.sendMessage({
+        type: "START_DEVICE_AUTH",
+        providerId: provider.id,
+      });
+
+      if (!response.success) {
+        throw new Error(response.error || "Failed to start sign-in");
+      }
+
+      // The storage listener in ProvidersView picks up the new authorization
+    } catch (err) {
+      logger.error(`Failed to start device sign-in for ${provider.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to start sign-in");
+    } finally {
+      setDeviceAuthStarting(false);
+    }
+  };
+
+  // Cancel a pending device flow sign-in, or dismiss a failed one
+  const handleCancelDeviceAuth = async () => {
+    try {
+      await chrome.runtime.sendMessage({ type: "CANCEL_DEVICE_AUTH", providerId: provider.id });
+      await StorageManager.getInstance().deleteDeviceAuthorization(provider.id);
+    } catch (err) {
+      logger.error(`Failed to cancel device sign-in for ${provider.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to cancel sign-in");
+    }
+  };
+
+  // Device flow sign-in: a button, the code to enter while pending, or why it failed
+  const renderDeviceAuth = () => {
+    const authorization = deviceAuthorization;
+    const pending = authorization?.status === "pending" && authorization.expiresAt > Date.now();
+
+    if (pending) {
+      return (
+        <Stack spacing={1}>
+          <Typography variant="body2" color="text.secondary">
+            Enter this code on GitHub to sign in:
+          </Typography>
+          <Box display="flex" alignItems="center" gap={1.5}>
+            <Typography
+              variant="h6"
+              component="code"
+              sx={{ fontFamily: "monospace", letterSpacing: 2, userSelect: "all" }}
+            >
+              {authorization.userCode}
+            </Typography>
+            <CircularProgress size={16} />
+          </Box>
+          <Box display="flex" gap={1}>
+            <Button
+              variant="contained"
+              size="small"
+              href={authorization.verificationUri}
+              target="_blank"
+              rel="noopener noreferrer"
+              startIcon={<OpenInNew />}
+              sx={{ flex: 1 }}
+            >
+              Open GitHub
+            </Button>
+            <Button
+              variant="outlined"
+              size="small"
+              onClick={() => handleCancelDeviceAuth()}
+              sx={{ flex: 1 }}
+            >
+              Cancel
+            </Button>
+          </Box>
+          <Typography variant="caption" color="text.secondary">
+            Waiting for approval. The code expires at{" "}
+            {new Date(authorization.expiresAt).toLocaleTimeString()}.
+          </Typography>
+        </Stack>
+      );
+    }
+
+    return (
+      <Stack spacing={1}>
+        {authorization && (
+          <Alert severity="warning" onClose={() => handleCancelDeviceAuth()}>
+            {authorization.status === "pending" ? "The code expired" : authorization.error}
+          </Alert>
+        )}
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={() => handleStartDeviceAuth()}
+          disabled={deviceAuthStarting}
+          startIcon={<DevicesOther />}
+        >
+          {deviceAuthStarting ? "Requesting code..." : "Sign in with a code"}
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          For GitHub Enterprise setups that block the usual sign-in redirect.
+        </Typography>
+      </Stack>
+    );
+  };
+
+  return (
+    <ProviderSettingsPanel
+      title={provider.authenticated ? "Token Management" : "Advanced Settings"}
+      expanded={expanded}
+      onToggle={onToggle}
+    >
+      {!provider.authenticated && (
+        <Alert severity="info" sx={{ fontSize: "0.875rem" }}>
+          Enter a GitHub Personal Access Token (classic) with
+          <strong> repo</strong>, <strong>read:user</strong>, and <strong>read:org</strong> scopes.{" "}
+          <a href="https://github.com/settings/tokens" target="_blank" rel="noopener noreferrer">
+            Create one here
+          </a>
+          .
+        </Alert>
+      )}
+      {provider.authenticated && (
+        <Alert severity="success" sx={{ fontSize: "0.875rem" }}>
+          Token is active. To update or replace your token, enter a new one below and save.
+        </Alert>
+      )}
+      <TextField
+        fullWidth
+        size="small"
+        type="url"
+        label="GitHub Enterprise Server URL"
+        placeholder="https://github.com"
+        value={githubBaseUrl}
+        onChange={(e) => setGithubBaseUrl(e.target.value)}
+        helperText="Leave empty for github.com, or enter your Enterprise server URL"
+      />
+      <TextField
+        fullWidth
+        size="small"
+        label="OAuth App Client ID"
+        value={githubClientId}
+        onChange={(e) => setGithubClientId(e.target.value)}
+        helperText="For signing in with a code on an Enterprise server: an OAuth app registered there, with device flow enabled"
+      />
+      <Button
+        variant="outlined"
+        size="small"
+        onClick={handleSaveGitHubServer}
+        startIcon={<Settings />}
+      >
+        Save Server
+      </Button>
+      <TextField
+        fullWidth
+        size="small"
+        type="password"
+        label="Personal Access Token"
+        placeholder="ghp_..."
+        value={githubPAT}
+        onChange={(e) => setGithubPAT(e.target.value)}
+        helperText={
+          provider.authenticated
+            ? "Enter a new token to update the existing one"
+            : "This token will be stored securely in your browser"
+        }
+      />
+      <Box display="flex" gap={1}>
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={handleSaveGitHubPAT}
+          disabled={!githubPAT.trim()}
+          startIcon={<Settings />}
+          sx={{ flex: 1 }}
+        >
+          Save Token
+        </Button>
+        {provider.authenticated && (
+          <Button
+            variant="outlined"
+            size="small"
+            color="error"
+            onClick={() => onDisconnect(provider.id)}
+            sx={{ flex: 1 }}
+          >
+            Disconnect
+          </Button>
+        )}
+      </Box>
+      {!provider.authenticated && (
+        <>
+          <Divider>
+            <Typography variant="caption" color="text.secondary">
+              or
+            </Typography>
+          </Divider>
+          {renderDeviceAuth()}
+        </>
+      )}
+    </ProviderSettingsPanel>
+  );
+}
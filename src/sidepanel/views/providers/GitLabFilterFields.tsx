@@ -0,0 +1,50 @@
+import { Checkbox, FormControlLabel } from "@mui/material";
+import type { LiveFolderFiltersProps } from "./types";
+
+/**
+ * GitLab Filter Fields
+ * Which merge requests a live folder includes
+ */
+export function GitLabFilterFields({
+  liveFolder,
+  disabled,
+  onFilterChange,
+}: LiveFolderFiltersProps) {
+  return (
+    <>
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.createdByMe ?? true}
+            onChange={(e) => onFilterChange("createdByMe", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Created by me"
+      />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.reviewRequests ?? true}
+            onChange={(e) => onFilterChange("reviewRequests", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Review requests"
+      />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.assignedToMe ?? true}
+            onChange={(e) => onFilterChange("assignedToMe", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Assigned to me"
+      />
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+import { Settings } from "@mui/icons-material";
+import { Alert, Box, Button, TextField } from "@mui/material";
+import { useState } from "react";
+import { StorageManager } from "@/services/storage";
+import type { ProviderConfig } from "@/types/provider";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+import { ProviderSettingsPanel } from "./ProviderSettingsPanel";
+import type { ProviderSettingsProps } from "./types";
+
+const logger = new Logger("GitLabSettings");
+
+/**
+ * GitLab Settings
+ * Personal access token and self-hosted instance URL
+ */
+export function GitLabSettings({
+  provider,
+  expanded,
+  onToggle,
+  onDisconnect,
+  onError,
+}: ProviderSettingsProps) {
+  const [gitlabBaseUrl, setGitlabBaseUrl] = useState<string>("");
+  const [gitlabPAT, setGitlabPAT] = useState<string>("");
+
+  // Save GitLab base URL and PAT
+  const handleSaveGitLabConfig = async () => {
+    try {
+      if (!gitlabPAT.trim()) {
+        onError("Please enter a valid GitLab Personal Access Token");
+        return;
+      }
+
+      // Empty base URL means gitlab.com
+      const baseUrl = gitlabBaseUrl.trim() || "https://gitlab.com";
+      let origin: string;
+      try {
+        origin = new URL(baseUrl).origin;
+      } catch {
+        onError("Please enter a valid GitLab URL (e.g., https://gitlab.yourcompany.com)");
+        return;
+      }
+
+      // Self-hosted instances aren't covered by the manifest host permissions
+      if (origin !== "https://gitlab.com") {
+        const granted = await browser.permissions.request({ origins: [`${origin}/*`] });
+        if (!granted) {
+          onError(`Permission to access ${origin} is required to sync from this GitLab instance`);
+          return;
+        }
+      }
+
+      const storage = StorageManager.getInstance();
+      const providerData = await storage.getProvider("gitlab");
+
+      if (!providerData) {
+        onError("GitLab provider not initialized. Please reload the extension and try again.");
+        return;
+      }
+
+      // Add GitLab config - preserve ALL existing fields
+      const updatedConfig = {
+        ...providerData.config,
+        baseUrl,
+        personalAccessToken: gitlabPAT,
+      };
+
+      const updatedData = {
+        ...providerData,
+        config: updatedConfig as ProviderConfig,
+      };
+
+      await storage.saveProvider("gitlab", updatedData);
+
+      logger.info("GitLab configuration saved successfully", { baseUrl });
+      setGitlabBaseUrl("");
+      setGitlabPAT("");
+
+      onError(null);
+    } catch (err) {
+      logger.error("Failed to save GitLab configuration", err as Error);
+      onError(err instanceof Error ? err.message : "Failed to save configuration");
+    }
+  };
+
+  return (
+    <ProviderSettingsPanel
+      title={provider.authenticated ? "Token Management" : "Token Configuration"}
+      expanded={expanded}
+      onToggle={onToggle}
+    >
+      {provider.authenticated ? (
+        <Alert severity="success" sx={{ fontSize: "0.875rem" }}>
+          Token is active. To update or replace your token, enter a new one below and save.
+        </Alert>
+      ) : (
+        <Alert severity="info" sx={{ fontSize: "0.875rem" }}>
+          Enter a GitLab Personal Access Token with the <strong>read_api</strong> scope. On
+          gitlab.com you can{" "}
+          <a
+            href="https://gitlab.com/-/user_settings/personal_access_tokens"
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            create one here
+          </a>
+          .
+        </Alert>
+      )}
+      <TextField
+        fullWidth
+        size="small"
+        type="url"
+        label="GitLab Base URL"
+        placeholder="https://gitlab.com"
+        value={gitlabBaseUrl}
+        onChange={(e) => setGitlabBaseUrl(e.target.value)}
+        helperText="Leave empty for gitlab.com, or enter your self-hosted instance URL"
+      />
+      <TextField
+        fullWidth
+        size="small"
+        type="password"
+        label="Personal Access Token"
+        placeholder="glpat-..."
+        value={gitlabPAT}
+        onChange={(e) => setGitlabPAT(e.target.value)}
+        helperText={
+          provider.authenticated
+            ? "Enter a new token to update the existing one"
+            : "This token will be stored securely in your browser"
+        }
+      />
+      <Box display="flex" gap={1}>
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={handleSaveGitLabConfig}
+          disabled={!gitlabPAT.trim()}
+          startIcon={<Settings />}
+          sx={{ flex: 1 }}
+        >
+          Save Token
+        </Button>
+        {provider.authenticated && (
+          <Button
+            variant="outlined"
+            size="small"
+            color="error"
+            onClick={() => onDisconnect(provider.id)}
+            sx={{ flex: 1 }}
+          >
+            Disconnect
+          </Button>
+        )}
+      </Box>
+    </ProviderSettingsPanel>
+  );
+}
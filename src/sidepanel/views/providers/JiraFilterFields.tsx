@@ -0,0 +1,144 @@
+import { Button, Checkbox, CircularProgress, FormControlLabel, TextField } from "@mui/material";
+import { useState } from "react";
+import type { JiraProvider } from "@/providers/jira/jira-provider";
+import { ProviderRegistry } from "@/services/provider-registry";
+import { Logger } from "@/utils/logger";
+import type { LiveFolderFiltersProps } from "./types";
+
+const logger = new Logger("JiraFilterFields");
+
+/**
+ * Jira Filter Fields
+ * Which issues a live folder includes, or a custom JQL query / saved filter instead
+ */
+export function JiraFilterFields({
+  liveFolder,
+  disabled,
+  onUpdate,
+  onFilterChange,
+}: LiveFolderFiltersProps) {
+  // Custom JQL / saved filter ID being edited
+  const [queryDraft, setQueryDraft] = useState<{
+    customJql: string;
+    savedFilterId: string;
+  } | null>(null);
+  const [queryError, setQueryError] = useState<string | null>(null);
+  const [validating, setValidating] = useState(false);
+
+  // Update the custom JQL / saved filter draft
+  const handleQueryDraftChange = (field: "customJql" | "savedFilterId", value: string) => {
+    setQueryDraft((prev) => ({
+      customJql: prev?.customJql ?? liveFolder.filters.customJql ?? "",
+      savedFilterId: prev?.savedFilterId ?? liveFolder.filters.savedFilterId ?? "",
+      [field]: value,
+    }));
+  };
+
+  // Validate custom JQL / saved filter ID against Jira, then save it
+  const handleSaveQuery = async () => {
+    if (!queryDraft) {
+      return;
+    }
+
+    const customJql = queryDraft.customJql.trim();
+    const savedFilterId = queryDraft.savedFilterId.trim();
+
+    try {
+      setValidating(true);
+      setQueryError(null);
+
+      if (customJql && savedFilterId) {
+        throw new Error("Enter either a JQL query or a saved filter ID, not both");
+      }
+
+      const provider = ProviderRegistry.getInstance().getProvider("jira") as
+        | JiraProvider
+        | undefined;
+      if (!provider) {
+        throw new Error("Jira provider not initialized. Please reload the extension.");
+      }
+
+      // Parse errors are shown inline and nothing is saved
+      await provider.validateJql({ customJql, savedFilterId });
+
+      await onUpdate(liveFolder.id, (current) => ({
+        filters: {
+          ...(current.filters || {}),
+          customJql: customJql || undefined,
+          savedFilterId: savedFilterId || undefined,
+        },
+      }));
+
+      setQueryDraft(null);
+      logger.info(`Live folder ${liveFolder.id} JQL saved`);
+    } catch (err) {
+      logger.error(`Failed to save JQL for ${liveFolder.id}`, err as Error);
+      setQueryError(err instanceof Error ? err.message : "Failed to validate JQL");
+    } finally {
+      setValidating(false);
+    }
+  };
+
+  return (
+    <>
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.createdByMe ?? true}
+            onChange={(e) => onFilterChange("createdByMe", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Created by me"
+      />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={liveFolder.filters?.assignedToMe ?? true}
+            onChange={(e) => onFilterChange("assignedToMe", e.target.checked)}
+            disabled={disabled}
+            size="small"
+          />
+        }
+        label="Assigned to me"
+      />
+      <TextField
+        fullWidth
+        multiline
+        minRows={2}
+        size="small"
+        label="Custom JQL"
+        placeholder="watcher = currentUser() AND resolution = Unresolved"
+        value={queryDraft?.customJql ?? liveFolder.filters.customJql ?? ""}
+        onChange={(e) => handleQueryDraftChange("customJql", e.target.value)}
+        disabled={disabled}
+        sx={{ mt: 1 }}
+      />
+      <TextField
+        fullWidth
+        size="small"
+        label="Saved Filter ID"
+        placeholder="10042"
+        value={queryDraft?.savedFilterId ?? liveFolder.filters.savedFilterId ?? ""}
+        onChange={(e) => handleQueryDraftChange("savedFilterId", e.target.value)}
+        error={!!queryError}
+        helperText={
+          queryError ||
+          "A custom JQL query or saved filter replaces the checkboxes above. Leave both empty to use them."
+        }
+        disabled={disabled}
+      />
+      <Button
+        size="small"
+        variant="outlined"
+        onClick={handleSaveQuery}
+        disabled={disabled || !queryDraft || validating}
+        startIcon={validating ? <CircularProgress size={16} /> : undefined}
+        sx={{ alignSelf: "flex-start" }}
+      >
+        {validating ? "Validating..." : "Validate & Save Query"}
+      </Button>
+    </>
+  );
+}
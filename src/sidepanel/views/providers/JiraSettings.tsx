@@ -0,0 +1,161 @@
+import { Settings } from "@mui/icons-material";
+import { Alert, Box, Button, TextField } from "@mui/material";
+import { useState } from "react";
+import { StorageManager } from "@/services/storage";
+import type { ProviderConfig } from "@/types/provider";
+import { Logger } from "@/utils/logger";
+import { ProviderSettingsPanel } from "./ProviderSettingsPanel";
+import type { ProviderSettingsProps } from "./types";
+
+const logger = new Logger("JiraSettings");
+
+/**
+ * Jira Settings
+ * Jira Cloud URL, account email and API token
+ */
+export function JiraSettings({
+  provider,
+  expanded,
+  onToggle,
+  onDisconnect,
+  onError,
+}: ProviderSettingsProps) {
+  const [jiraBaseUrl, setJiraBaseUrl] = useState<string>("");
+  const [jiraEmail, setJiraEmail] = useState<string>("");
+  const [jiraApiToken, setJiraApiToken] = useState<string>("");
+
+  // Save Jira API Token configuration
+  const handleSaveJiraConfig = async () => {
+    try {
+      if (!jiraBaseUrl.trim() || !jiraEmail.trim() || !jiraApiToken.trim()) {
+        onError("Please fill in all Jira configuration fields");
+        return;
+      }
+
+      // Validate URL format
+      try {
+        new URL(jiraBaseUrl);
+      } catch {
+        onError("Please enter a valid Jira URL (e.g., https://yourcompany.atlassian.net)");
+        return;
+      }
+
+      const storage = StorageManager.getInstance();
+      const providerData = await storage.getProvider("jira");
+
+      if (!providerData) {
+        onError("Jira provider not initialized. Please reload the extension and try again.");
+        return;
+      }
+
+      // Add Jira config - preserve ALL existing fields
+      const updatedConfig = {
+        ...providerData.config,
+        baseUrl: jiraBaseUrl,
+        username: jiraEmail,
+        apiToken: jiraApiToken,
+        authType: "api-token",
+        instanceType: "cloud",
+      };
+
+      const updatedData = {
+        ...providerData,
+        config: updatedConfig as ProviderConfig,
+      };
+
+      await storage.saveProvider("jira", updatedData);
+
+      logger.info("Jira configuration saved successfully");
+      setJiraBaseUrl("");
+      setJiraEmail("");
+      setJiraApiToken("");
+
+      onError(null);
+    } catch (err) {
+      logger.error("Failed to save Jira configuration", err as Error);
+      onError(err instanceof Error ? err.message : "Failed to save configuration");
+    }
+  };
+
+  return (
+    <ProviderSettingsPanel
+      title={provider.authenticated ? "Token Management" : "API Token Configuration"}
+      expanded={expanded}
+      onToggle={onToggle}
+    >
+      {provider.authenticated ? (
+        <Alert severity="success" sx={{ fontSize: "0.875rem" }}>
+          Your Jira API token is active. You can update it below or disconnect to enter new
+          credentials.
+        </Alert>
+      ) : (
+        <Alert severity="info" sx={{ fontSize: "0.875rem" }}>
+          Enter your Jira Cloud details. You can create an API token at{" "}
+          <a
+            href="https://id.atlassian.com/manage-profile/security/api-tokens"
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            Atlassian Account Security
+          </a>
+          .
+        </Alert>
+      )}
+      <TextField
+        fullWidth
+        size="small"
+        type="url"
+        label="Jira Base URL"
+        placeholder="https://yourcompany.atlassian.net"
+        value={jiraBaseUrl}
+        onChange={(e) => setJiraBaseUrl(e.target.value)}
+        helperText="Your Jira Cloud instance URL"
+      />
+      <TextField
+        fullWidth
+        size="small"
+        type="email"
+        label="Email Address"
+        placeholder="you@company.com"
+        value={jiraEmail}
+        onChange={(e) => setJiraEmail(e.target.value)}
+        helperText="Your Jira account email"
+      />
+      <TextField
+        fullWidth
+        size="small"
+        type="password"
+        label="API Token"
+        placeholder="Your Jira API token"
+        value={jiraApiToken}
+        onChange={(e) => setJiraApiToken(e.target.value)}
+        helperText={
+          provider.authenticated
+            ? "Update your token here or disconnect to clear"
+            : "This token will be stored securely in your browser"
+        }
+      />
+      <Box display="flex" gap={1}>
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={handleSaveJiraConfig}
+          disabled={!jiraBaseUrl.trim() || !jiraEmail.trim() || !jiraApiToken.trim()}
+          startIcon={<Settings />}
+        >
+          {provider.authenticated ? "Update Configuration" : "Save Configuration"}
+        </Button>
+        {provider.authenticated && (
+          <Button
+            variant="outlined"
+            size="small"
+            color="error"
+            onClick={() => onDisconnect(provider.id)}
+          >
+            Disconnect
+          </Button>
+        )}
+      </Box>
+    </ProviderSettingsPanel>
+  );
+}
@@ -0,0 +1,354 @@
+import { Add, Delete, Preview, Sync } from "@mui/icons-material";
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Switch,
+  TextField,
+  Tooltip,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
+import type {
+  BookmarkSortOrder,
+  FolderTitleFormatOptions,
+  TitleFormatOptions,
+} from "@/types/provider";
+import { Logger } from "@/utils/logger";
+import { FeedSourceFields } from "./FeedSourceFields";
+import { FolderDisplaySection } from "./FolderDisplaySection";
+import { GitHubFilterFields } from "./GitHubFilterFields";
+import { GitLabFilterFields } from "./GitLabFilterFields";
+import { JiraFilterFields } from "./JiraFilterFields";
+import { RestSourceFields } from "./RestSourceFields";
+import { TitleFormatSection } from "./TitleFormatSection";
+import type {
+  BookmarkFolder,
+  LiveFolderData,
+  LiveFolderFiltersProps,
+  ProviderData,
+  UpdateLiveFolder,
+} from "./types";
+
+const logger = new Logger("LiveFolderEditor");
+
+/**
+ * Section types for collapsible sections
+ */
+type SectionType = "titleFormat" | "folderDisplay";
+
+export interface LiveFolderEditorProps {
+  provider: ProviderData;
+  liveFolder: LiveFolderData;
+  /** Bookmark folders to choose from */
+  folders: BookmarkFolder[];
+  /** Whether this live folder is syncing */
+  syncing: boolean;
+  onUpdate: UpdateLiveFolder;
+  onPreview: (liveFolder: LiveFolderData) => void;
+  onSync: (liveFolder: LiveFolderData) => void;
+  onDelete: (liveFolder: LiveFolderData) => void;
+  /** Reload bookmark folders (when the folder list opens) */
+  onRefreshFolders: () => void;
+  /** Create a bookmark folder for this live folder */
+  onCreateFolder: (liveFolderId: string) => void;
+  /** Show an error for the whole view */
+  onError: (message: string) => void;
+}
+
+/**
+ * Live Folder Editor
+ * One live folder of a provider: its bookmark folder, filters or source, and formatting
+ */
+export function LiveFolderEditor({
+  provider,
+  liveFolder,
+  folders,
+  syncing,
+  onUpdate,
+  onPreview,
+  onSync,
+  onDelete,
+  onRefreshFolders,
+  onCreateFolder,
+  onError,
+}: LiveFolderEditorProps) {
+  const [expandedSections, setExpandedSections] = useState<Set<SectionType>>(new Set());
+  const disabled = !provider.enabled;
+
+  // Toggle collapsible section expansion
+  const handleToggleSection = (section: SectionType) => {
+    setExpandedSections((prev) => {
+      const next = new Set(prev);
+      if (next.has(section)) {
+        next.delete(section);
+      } else {
+        next.add(section);
+      }
+      return next;
+    });
+  };
+
+  // Rename the live folder
+  const handleRename = async (name: string) => {
+    if (!name.trim()) {
+      return;
+    }
+
+    try {
+      await onUpdate(liveFolder.id, () => ({ name: name.trim() }));
+      logger.info(`Live folder ${liveFolder.id} renamed to ${name.trim()}`);
+    } catch (err) {
+      logger.error(`Failed to rename live folder ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to rename live folder");
+    }
+  };
+
+  // Pause or resume the live folder
+  const handleToggleEnabled = async (enabled: boolean) => {
+    try {
+      await onUpdate(liveFolder.id, () => ({ enabled }));
+      logger.info(`Live folder ${liveFolder.id} ${enabled ? "enabled" : "disabled"}`);
+    } catch (err) {
+      logger.error(`Failed to toggle live folder ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to update live folder");
+    }
+  };
+
+  // Update the bookmark folder
+  const handleFolderChange = async (folderId: string) => {
+    try {
+      await onUpdate(liveFolder.id, () => ({ folderId }));
+      logger.info(`Live folder ${liveFolder.id} folder updated to ${folderId}`);
+    } catch (err) {
+      logger.error(`Failed to update folder for ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to update folder");
+    }
+  };
+
+  // Update the sort order
+  const handleSortOrderChange = async (sortOrder: BookmarkSortOrder) => {
+    try {
+      await onUpdate(liveFolder.id, () => ({ sortOrder }));
+      logger.info(`Live folder ${liveFolder.id} sort order updated to ${sortOrder}`);
+    } catch (err) {
+      logger.error(`Failed to update sort order for ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to update sort order");
+    }
+  };
+
+  // Turn a checkbox filter on or off
+  const handleFilterChange = async (filterKey: string, value: boolean) => {
+    try {
+      await onUpdate(liveFolder.id, (current) => ({
+        filters: {
+          ...(current.filters || {}),
+          [filterKey]: value,
+        },
+      }));
+      logger.info(`Live folder ${liveFolder.id} filter ${filterKey} updated to ${value}`);
+    } catch (err) {
+      logger.error(`Failed to update filter for ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to update filter");
+    }
+  };
+
+  // Handle title format changes
+  const handleTitleFormatChange = async (updates: Partial<TitleFormatOptions>) => {
+    try {
+      // Merge updates with current title format (or defaults)
+      await onUpdate(liveFolder.id, (current) => ({
+        titleFormat: {
+          ...(current.titleFormat ?? DEFAULT_TITLE_FORMAT),
+          ...updates,
+        },
+      }));
+      logger.info(`Live folder ${liveFolder.id} title format updated`, { updates });
+    } catch (err) {
+      logger.error(`Failed to update title format for ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to update title format");
+    }
+  };
+
+  const handleFolderTitleFormatChange = async (updates: Partial<FolderTitleFormatOptions>) => {
+    try {
+      // Merge updates with current folder title format (or defaults)
+      await onUpdate(liveFolder.id, (current) => ({
+        folderTitleFormat: {
+          ...(current.folderTitleFormat ?? DEFAULT_FOLDER_TITLE_FORMAT),
+          ...updates,
+        },
+      }));
+      logger.info(`Live folder ${liveFolder.id} folder title format updated`, { updates });
+    } catch (err) {
+      logger.error(`Failed to update folder title format for ${liveFolder.id}`, err as Error);
+      onError(err instanceof Error ? err.message : "Failed to update folder title format");
+    }
+  };
+
+  const filtersProps: LiveFolderFiltersProps = {
+    liveFolder,
+    disabled,
+    onUpdate,
+    onFilterChange: handleFilterChange,
+  };
+
+  return (
+    <Box sx={{ border: 1, borderColor: "divider", borderRadius: 1, p: 2 }}>
+      <Box display="flex" alignItems="center" gap={1} mb={2}>
+        <TextField
+          size="small"
+          label="Live Folder Name"
+          defaultValue={liveFolder.name}
+          onBlur={(e) => handleRename(e.target.value)}
+          disabled={disabled}
+          sx={{ flex: 1 }}
+        />
+        <Tooltip title={liveFolder.enabled ? "Pause syncing" : "Resume syncing"}>
+          <Switch
+            size="small"
+            checked={liveFolder.enabled}
+            onChange={(e) => handleToggleEnabled(e.target.checked)}
+            disabled={disabled}
+          />
+        </Tooltip>
+        <Tooltip title="Preview sync">
+          <span>
+            <IconButton
+              size="small"
+              onClick={() => onPreview(liveFolder)}
+              disabled={disabled || !liveFolder.folderId || syncing}
+            >
+              <Preview fontSize="small" />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Sync this folder">
+          <span>
+            <IconButton
+              size="small"
+              onClick={() => onSync(liveFolder)}
+              disabled={disabled || !liveFolder.enabled || !liveFolder.folderId || syncing}
+            >
+              {syncing ? <CircularProgress size={16} /> : <Sync fontSize="small" />}
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Remove live folder (bookmarks are kept)">
+          <IconButton size="small" onClick={() => onDelete(liveFolder)}>
+            <Delete fontSize="small" />
+          </IconButton>
+        </Tooltip>
+      </Box>
+      {/* Folder selection */}
+      <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+        <InputLabel>Bookmark Folder</InputLabel>
+        <Select
+          value={liveFolder.folderId || ""}
+          label="Bookmark Folder"
+          onChange={(e) => handleFolderChange(e.target.value)}
+          disabled={disabled}
+          onOpen={onRefreshFolders} // Refresh folders when dropdown opens
+        >
+          <MenuItem
+            value=""
+            onClick={() => onCreateFolder(liveFolder.id)}
+            sx={{
+              borderBottom: "1px solid",
+              borderColor: "divider",
+              color: "primary.main",
+              fontWeight: 500,
+            }}
+          >
+            <Add fontSize="small" sx={{ mr: 1 }} />
+            Create New Folder...
+          </MenuItem>
+          <MenuItem value="" disabled>
+            <em>Select a folder...</em>
+          </MenuItem>
+          {folders.map((folder) => (
+            <MenuItem key={folder.id} value={folder.id}>
+              {folder.title}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+      {/* Sort order selection */}
+      {liveFolder.folderId && (
+        <FormControl fullWidth size="small" sx={{ mb: 2 }}>
+          <InputLabel>Sort Bookmarks By</InputLabel>
+          <Select
+            value={liveFolder.sortOrder || "alphabetical"}
+            label="Sort Bookmarks By"
+            onChange={(e) => handleSortOrderChange(e.target.value as BookmarkSortOrder)}
+            disabled={disabled}
+          >
+            <MenuItem value="alphabetical">Alphabetical (A-Z)</MenuItem>
+            <MenuItem value="created">Creation Date (Oldest First)</MenuItem>
+            <MenuItem value="updated">Last Updated (Newest First)</MenuItem>
+          </Select>
+        </FormControl>
+      )}
+      {/* Filter options */}
+      {liveFolder.folderId && (
+        <Box sx={{ mb: 2 }}>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+            {provider.id === "feed" || provider.id === "rest" ? "Source" : "Filter Items"}
+          </Typography>
+          <Stack spacing={0.5}>
+            {provider.id === "github" && <GitHubFilterFields {...filtersProps} />}
+            {provider.id === "gitlab" && <GitLabFilterFields {...filtersProps} />}
+            {provider.id === "jira" && <JiraFilterFields {...filtersProps} />}
+            {provider.id === "feed" && <FeedSourceFields {...filtersProps} />}
+            {provider.id === "rest" && <RestSourceFields {...filtersProps} />}
+          </Stack>
+        </Box>
+      )}
+      {/* Title Format Options */}
+      {liveFolder.folderId && (
+        <Box sx={{ mb: 2 }}>
+          <TitleFormatSection
+            providerId={provider.id}
+            titleFormat={liveFolder.titleFormat}
+            disabled={disabled}
+            expanded={expandedSections.has("titleFormat")}
+            onToggle={() => handleToggleSection("titleFormat")}
+            onChange={handleTitleFormatChange}
+          />
+        </Box>
+      )}
+
+      {/* Folder Display Options */}
+      {liveFolder.folderId && (
+        <Box sx={{ mb: 2 }}>
+          <FolderDisplaySection
+            providerId={provider.id}
+            folderTitleFormat={liveFolder.folderTitleFormat}
+            disabled={disabled}
+            expanded={expandedSections.has("folderDisplay")}
+            onToggle={() => handleToggleSection("folderDisplay")}
+            onChange={handleFolderTitleFormatChange}
+          />
+        </Box>
+      )}
+
+      {/* Last sync status */}
+      {liveFolder.lastSyncStatus === "error" && liveFolder.lastError ? (
+        <Alert severity="error">{liveFolder.lastError}</Alert>
+      ) : (
+        liveFolder.lastSync && (
+          <Typography variant="caption" color="text.secondary">
+            Last synced: {new Date(liveFolder.lastSync).toLocaleString()}
+          </Typography>
+        )
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,48 @@
+import { ExpandMore } from "@mui/icons-material";
+import { Box, Collapse, IconButton, Stack, Typography } from "@mui/material";
+import type React from "react";
+
+export interface ProviderSettingsPanelProps {
+  /** Panel title (always visible) */
+  title: string;
+  expanded: boolean;
+  onToggle: () => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Provider Settings Panel
+ * Expandable panel below a provider card holding its credentials and server settings
+ */
+export function ProviderSettingsPanel({
+  title,
+  expanded,
+  onToggle,
+  children,
+}: ProviderSettingsPanelProps) {
+  return (
+    <Box mt={2}>
+      <Box display="flex" alignItems="center" gap={1} mb={1}>
+        <IconButton
+          size="small"
+          onClick={onToggle}
+          sx={{
+            transform: expanded ? "rotate(180deg)" : "rotate(0deg)",
+            transition: "transform 0.3s",
+          }}
+        >
+          <ExpandMore />
+        </IconButton>
+        <Typography variant="body2" color="text.secondary">
+          {title}
+        </Typography>
+      </Box>
+
+      <Collapse in={expanded}>
+        <Stack spacing={2} mt={1}>
+          {children}
+        </Stack>
+      </Collapse>
+    </Box>
+  );
+}
@@ -0,0 +1,145 @@
+import { Settings } from "@mui/icons-material";
+import { Alert, Box, Button, TextField } from "@mui/material";
+import { useEffect, useState } from "react";
+import type { RestProviderConfig } from "@/providers/rest/rest-provider";
+import { StorageManager } from "@/services/storage";
+import { Logger } from "@/utils/logger";
+import { ProviderSettingsPanel } from "./ProviderSettingsPanel";
+import type { ProviderSettingsProps } from "./types";
+
+const logger = new Logger("RestSettings");
+
+/**
+ * Editable custom REST auth header (the value is never pre-filled)
+ */
+interface RestAuthFormState {
+  authHeaderName: string;
+  authHeaderValue: string;
+}
+
+const DEFAULT_REST_AUTH_FORM: RestAuthFormState = {
+  authHeaderName: "Authorization",
+  authHeaderValue: "",
+};
+
+/**
+ * Custom REST Settings
+ * The auth header sent with every live folder's request
+ */
+export function RestSettings({
+  provider,
+  expanded,
+  onToggle,
+  onDisconnect,
+  onError,
+}: ProviderSettingsProps) {
+  const [restAuthForm, setRestAuthForm] = useState<RestAuthFormState>(DEFAULT_REST_AUTH_FORM);
+
+  // Pre-fill the saved auth header name so it can be edited in place
+  useEffect(() => {
+    const loadAuthHeaderName = async () => {
+      try {
+        const providerData = await StorageManager.getInstance().getProvider("rest");
+        const restConfig = providerData?.config as RestProviderConfig | undefined;
+        if (restConfig?.authHeaderName) {
+          setRestAuthForm({ authHeaderName: restConfig.authHeaderName, authHeaderValue: "" });
+        }
+      } catch (err) {
+        logger.error("Failed to load custom REST auth header", err as Error);
+      }
+    };
+
+    loadAuthHeaderName();
+  }, []);
+
+  // Save the custom REST auth header, keeping the stored value if left empty
+  const handleSaveRestAuth = async () => {
+    try {
+      const storage = StorageManager.getInstance();
+      const providerData = await storage.getProvider("rest");
+
+      if (!providerData) {
+        onError("Custom REST provider not initialized. Please reload the extension.");
+        return;
+      }
+
+      const storedConfig = providerData.config as RestProviderConfig;
+      const config: RestProviderConfig = {
+        ...storedConfig,
+        authHeaderName: restAuthForm.authHeaderName.trim() || undefined,
+        authHeaderValue: restAuthForm.authHeaderValue || storedConfig.authHeaderValue,
+      };
+
+      await storage.saveProvider("rest", {
+        ...providerData,
+        config,
+      });
+
+      logger.info("Custom REST auth header saved successfully");
+      setRestAuthForm((prev) => ({ ...prev, authHeaderValue: "" }));
+      onError(null);
+    } catch (err) {
+      logger.error("Failed to save custom REST auth header", err as Error);
+      onError(err instanceof Error ? err.message : "Failed to save auth header");
+    }
+  };
+
+  return (
+    <ProviderSettingsPanel title="Auth Header" expanded={expanded} onToggle={onToggle}>
+      <Alert severity="info" sx={{ fontSize: "0.875rem" }}>
+        Sent with every live folder's request. Each live folder sets its own endpoint and field
+        mappings below.
+      </Alert>
+      <Box display="flex" gap={1}>
+        <TextField
+          size="small"
+          label="Auth Header"
+          placeholder="Authorization"
+          value={restAuthForm.authHeaderName}
+          onChange={(e) =>
+            setRestAuthForm((prev) => ({
+              ...prev,
+              authHeaderName: e.target.value,
+            }))
+          }
+          sx={{ flex: 1 }}
+        />
+        <TextField
+          size="small"
+          type="password"
+          label="Header Value"
+          placeholder="Bearer ..."
+          helperText="Leave empty to keep the saved value"
+          value={restAuthForm.authHeaderValue}
+          onChange={(e) =>
+            setRestAuthForm((prev) => ({
+              ...prev,
+              authHeaderValue: e.target.value,
+            }))
+          }
+          sx={{ flex: 2 }}
+        />
+      </Box>
+      <Box display="flex" gap={1}>
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={handleSaveRestAuth}
+          startIcon={<Settings />}
+          sx={{ flex: 1 }}
+        >
+          Save
+        </Button>
+        <Button
+          variant="outlined"
+          size="small"
+          color="error"
+          onClick={() => onDisconnect(provider.id)}
+          sx={{ flex: 1 }}
+        >
+          Remove
+        </Button>
+      </Box>
+    </ProviderSettingsPanel>
+  );
+}
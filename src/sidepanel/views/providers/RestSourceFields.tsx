@@ -0,0 +1,210 @@
+import { Sync } from "@mui/icons-material";
+import { Alert, Box, Button, CircularProgress, TextField, Typography } from "@mui/material";
+import { useState } from "react";
+import { DEFAULT_REST_FIELD_MAPPINGS, type RestProvider } from "@/providers/rest/rest-provider";
+import { ProviderRegistry } from "@/services/provider-registry";
+import type { BookmarkItem } from "@/types";
+import type { RestFieldMappings } from "@/types/provider";
+import browser from "@/utils/browser";
+import { Logger } from "@/utils/logger";
+import type { LiveFolderData, LiveFolderFiltersProps } from "./types";
+
+const logger = new Logger("RestSourceFields");
+
+/**
+ * Editable custom REST endpoint and mappings of a live folder
+ */
+interface RestSourceFormState {
+  endpoint: string;
+  itemsPath: string;
+  fieldMappings: RestFieldMappings;
+}
+
+/**
+ * Form state for a live folder's saved REST endpoint and mappings
+ */
+const toRestSourceForm = (liveFolder: LiveFolderData): RestSourceFormState => ({
+  endpoint: liveFolder.filters.endpoint ?? "",
+  itemsPath: liveFolder.filters.itemsPath || "$",
+  fieldMappings: { ...DEFAULT_REST_FIELD_MAPPINGS, ...liveFolder.filters.fieldMappings },
+});
+
+/**
+ * Labels for custom REST field mappings
+ */
+const REST_FIELD_LABELS: Array<{ key: keyof RestFieldMappings; label: string; required: boolean }> =
+  [
+    { key: "id", label: "ID", required: true },
+    { key: "title", label: "Title", required: true },
+    { key: "url", label: "URL", required: true },
+    { key: "updatedAt", label: "Updated At", required: false },
+    { key: "state", label: "State", required: false },
+    { key: "labels", label: "Labels", required: false },
+  ];
+
+/**
+ * Custom REST Source Fields
+ * The endpoint a live folder calls and how its items map to bookmarks
+ */
+export function RestSourceFields({ liveFolder, disabled, onUpdate }: LiveFolderFiltersProps) {
+  const [draft, setDraft] = useState<RestSourceFormState | null>(null);
+  const [preview, setPreview] = useState<BookmarkItem[] | null>(null);
+  const [requestError, setRequestError] = useState<string | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  const form = draft ?? toRestSourceForm(liveFolder);
+
+  // Update the endpoint/mappings draft
+  const handleDraftChange = (updates: Partial<RestSourceFormState>) => {
+    setDraft({ ...form, ...updates });
+  };
+
+  // Run the request, optionally saving the endpoint and mappings once it succeeds
+  const runRequest = async (save: boolean) => {
+    try {
+      setTesting(true);
+      setRequestError(null);
+      setPreview(null);
+
+      let origin: string;
+      try {
+        origin = new URL(form.endpoint.trim()).origin;
+      } catch {
+        throw new Error(
+          "Please enter a valid endpoint URL (e.g., https://tools.example.com/api/items)",
+        );
+      }
+
+      // Custom endpoints can live on any host, so access is granted per origin
+      const granted = await browser.permissions.request({ origins: [`${origin}/*`] });
+      if (!granted) {
+        throw new Error(`Permission to access ${origin} is required to call this endpoint`);
+      }
+
+      const provider = ProviderRegistry.getInstance().getProvider("rest") as
+        | RestProvider
+        | undefined;
+      if (!provider) {
+        throw new Error("Custom REST provider not initialized. Please reload the extension.");
+      }
+
+      const source = {
+        endpoint: form.endpoint.trim(),
+        itemsPath: form.itemsPath.trim() || "$",
+        fieldMappings: form.fieldMappings,
+      };
+
+      // Requests that fail are shown inline and nothing is saved
+      const items = await provider.testRequest(source, liveFolder.titleFormat);
+      setPreview(items);
+      logger.info(`Live folder ${liveFolder.id} custom REST request succeeded`, {
+        count: items.length,
+      });
+
+      if (save) {
+        await onUpdate(liveFolder.id, (current) => ({
+          filters: { ...(current.filters || {}), ...source },
+        }));
+        setDraft(null);
+        logger.info(`Live folder ${liveFolder.id} custom REST endpoint saved`);
+      }
+    } catch (err) {
+      logger.error(`Custom REST request failed for ${liveFolder.id}`, err as Error);
+      setRequestError(err instanceof Error ? err.message : "Test request failed");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  return (
+    <>
+      <TextField
+        fullWidth
+        size="small"
+        type="url"
+        label="Endpoint URL"
+        placeholder="https://tools.example.com/api/items"
+        value={form.endpoint}
+        onChange={(e) => handleDraftChange({ endpoint: e.target.value })}
+        helperText="Any endpoint that returns JSON. Paths use a JSONPath-like syntax such as $.data.items, fields.summary or labels[*].name."
+        disabled={disabled}
+      />
+      <TextField
+        fullWidth
+        size="small"
+        label="Items Path"
+        placeholder="$"
+        value={form.itemsPath}
+        onChange={(e) => handleDraftChange({ itemsPath: e.target.value })}
+        helperText='Path to the array of items, or "$" if the response is the array'
+        disabled={disabled}
+        sx={{ mt: 1 }}
+      />
+      <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+        Field Mappings
+      </Typography>
+      <Box display="grid" gridTemplateColumns="1fr 1fr" gap={1}>
+        {REST_FIELD_LABELS.map(({ key, label, required }) => (
+          <TextField
+            key={key}
+            size="small"
+            label={label}
+            required={required}
+            value={form.fieldMappings[key] ?? ""}
+            onChange={(e) =>
+              handleDraftChange({
+                fieldMappings: { ...form.fieldMappings, [key]: e.target.value },
+              })
+            }
+            disabled={disabled}
+          />
+        ))}
+      </Box>
+      {requestError && (
+        <Alert severity="error" sx={{ fontSize: "0.875rem" }}>
+          {requestError}
+        </Alert>
+      )}
+      {preview && (
+        <Alert severity={preview.length > 0 ? "success" : "warning"} sx={{ fontSize: "0.875rem" }}>
+          {preview.length === 0
+            ? "Request succeeded but no items could be mapped. Check the items path and required fields."
+            : `Mapped ${preview.length} item${preview.length === 1 ? "" : "s"}:`}
+          {preview.slice(0, 5).map((item) => (
+            <Typography
+              key={item.id}
+              variant="caption"
+              component="div"
+              sx={{
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {item.title} — {item.url}
+            </Typography>
+          ))}
+        </Alert>
+      )}
+      <Box display="flex" gap={1}>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => runRequest(false)}
+          disabled={disabled || testing}
+          startIcon={testing ? <CircularProgress size={16} /> : <Sync />}
+        >
+          Test Request
+        </Button>
+        <Button
+          size="small"
+          variant="outlined"
+          onClick={() => runRequest(true)}
+          disabled={disabled || !draft || testing}
+        >
+          Test & Save
+        </Button>
+      </Box>
+    </>
+  );
+}
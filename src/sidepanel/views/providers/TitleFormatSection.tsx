@@ -0,0 +1,379 @@
+import { Settings } from "@mui/icons-material";
+import {
+  Box,
+  Checkbox,
+  Divider,
+  FormControlLabel,
+  FormHelperText,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { CollapsibleSection } from "@/components/CollapsibleSection";
+import type { TitleFormatOptions } from "@/types/provider";
+
+export interface TitleFormatSectionProps {
+  /** Provider of the live folder; options only show where the provider supports them */
+  providerId: string;
+  titleFormat: TitleFormatOptions;
+  disabled: boolean;
+  expanded: boolean;
+  onToggle: () => void;
+  onChange: (updates: Partial<TitleFormatOptions>) => void;
+}
+
+/**
+ * Count enabled title format options
+ */
+const countTitleFormatOptions = (options: TitleFormatOptions): number => {
+  let count = 0;
+  if (options.includeStatus) count++;
+  if (options.includeCreator) count++;
+  if (options.includeAssignee) count++;
+  if (options.includeAge) count++;
+  if (options.includePriority) count++;
+  if (options.includeReviewStatus) count++;
+  if (options.includeCIStatus) count++;
+  if (options.includeUnresolvedThreads) count++;
+  return count;
+};
+
+/**
+ * Title Format Section
+ * How a live folder's bookmark titles are built
+ */
+export function TitleFormatSection({
+  providerId,
+  titleFormat,
+  disabled,
+  expanded,
+  onToggle,
+  onChange,
+}: TitleFormatSectionProps) {
+  const count = countTitleFormatOptions(titleFormat);
+
+  return (
+    <CollapsibleSection
+      title="Bookmark Title Formatting"
+      subtitle={
+        count === 0 ? "No options enabled" : `${count} option${count === 1 ? "" : "s"} enabled`
+      }
+      icon={<Settings fontSize="small" />}
+      expanded={expanded}
+      onToggle={onToggle}
+      badge={count}
+      disabled={disabled}
+    >
+      <Stack spacing={2}>
+        {/* Status indicator (feeds have no item state) */}
+        {providerId !== "feed" && (
+          <Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={titleFormat.includeStatus}
+                  onChange={(e) =>
+                    onChange({
+                      includeStatus: e.target.checked,
+                    })
+                  }
+                  disabled={disabled}
+                  size="small"
+                />
+              }
+              label={
+                <Box>
+                  <Typography variant="body2">
+                    Status indicator{" "}
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      {titleFormat.includeEmojis ? "(🟢 🟡 🔴 ⚫)" : "([OPEN] [DRAFT] [CLOSED])"}
+                    </Typography>
+                  </Typography>
+                </Box>
+              }
+            />
+            <FormHelperText sx={{ mt: 0, ml: 4 }}>
+              {providerId === "github"
+                ? "Shows PR state: open & ready (🟢), draft (🟡), conflicts/blocked (🔴), merged (⚫), or closed (🔴)"
+                : providerId === "rest"
+                  ? "Shows the mapped state field as-is (e.g., [OPEN])"
+                  : providerId === "gitlab"
+                    ? "Shows MR state: open & ready (🟢), draft (🟡), conflicts/failed pipeline (🔴), pipeline running (⏳), merged (⚫), or closed (🔴)"
+                    : "Shows issue type: bug (🐛), story (📖), task (✅), epic (📚), improvement (⚡), or subtask (📝)"}
+            </FormHelperText>
+          </Box>
+        )}
+
+        {/* Review status (GitHub and GitLab) */}
+        {(providerId === "github" || providerId === "gitlab") && (
+          <Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={titleFormat.includeReviewStatus}
+                  onChange={(e) =>
+                    onChange({
+                      includeReviewStatus: e.target.checked,
+                    })
+                  }
+                  disabled={disabled}
+                  size="small"
+                />
+              }
+              label={
+                <Box>
+                  <Typography variant="body2">
+                    Review status{" "}
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      {titleFormat.includeEmojis
+                        ? "(👍 approved, 👁️ pending, ✅ no reviews)"
+                        : "([2 APPROVED] [2 REVIEWS])"}
+                    </Typography>
+                  </Typography>
+                </Box>
+              }
+            />
+            <FormHelperText sx={{ mt: 0, ml: 4 }}>
+              {providerId === "github"
+                ? "Shows the review decision: approved (👍), changes requested (✋), reviewers pending (👁️), or none requested (✅)"
+                : "Shows whether reviewers are requested: checkmark when none requested, eye icon with count when pending"}
+            </FormHelperText>
+          </Box>
+        )}
+
+        {/* CI status and review threads (GitHub only) */}
+        {providerId === "github" && (
+          <>
+            <Box>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={titleFormat.includeCIStatus ?? false}
+                    onChange={(e) =>
+                      onChange({
+                        includeCIStatus: e.target.checked,
+                      })
+                    }
+                    disabled={disabled}
+                    size="small"
+                  />
+                }
+                label={
+                  <Box>
+                    <Typography variant="body2">
+                      CI status{" "}
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        {titleFormat.includeEmojis ? "(✔️ ❌ ⏳)" : "([CI PASSED] [CI FAILED])"}
+                      </Typography>
+                    </Typography>
+                  </Box>
+                }
+              />
+              <FormHelperText sx={{ mt: 0, ml: 4 }}>
+                Shows the combined check result for the latest commit: passing (✔️), failing (❌), or
+                running (⏳)
+              </FormHelperText>
+            </Box>
+            <Box>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={titleFormat.includeUnresolvedThreads ?? false}
+                    onChange={(e) =>
+                      onChange({
+                        includeUnresolvedThreads: e.target.checked,
+                      })
+                    }
+                    disabled={disabled}
+                    size="small"
+                  />
+                }
+                label={
+                  <Box>
+                    <Typography variant="body2">
+                      Unresolved threads{" "}
+                      <Typography component="span" variant="caption" color="text.secondary">
+                        {titleFormat.includeEmojis ? "(💬3)" : "([3 THREADS])"}
+                      </Typography>
+                    </Typography>
+                  </Box>
+                }
+              />
+              <FormHelperText sx={{ mt: 0, ml: 4 }}>
+                Shows how many review conversations are still open
+              </FormHelperText>
+            </Box>
+          </>
+        )}
+
+        {/* Priority (Jira only) */}
+        {providerId === "jira" && (
+          <Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={titleFormat.includePriority}
+                  onChange={(e) =>
+                    onChange({
+                      includePriority: e.target.checked,
+                    })
+                  }
+                  disabled={disabled}
+                  size="small"
+                />
+              }
+              label={
+                <Box>
+                  <Typography variant="body2">
+                    Priority{" "}
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      {titleFormat.includeEmojis
+                        ? "(🔴 High, 🟡 Medium, 🟢 Low)"
+                        : "([P1] [P2] [P3])"}
+                    </Typography>
+                  </Typography>
+                </Box>
+              }
+            />
+            <FormHelperText sx={{ mt: 0, ml: 4 }}>
+              Shows the issue's priority level: highest (🔴), high (🟠), medium (🟡), low (🟢), or
+              lowest (🔵)
+            </FormHelperText>
+          </Box>
+        )}
+
+        {/* Creator */}
+        <Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={titleFormat.includeCreator}
+                onChange={(e) =>
+                  onChange({
+                    includeCreator: e.target.checked,
+                  })
+                }
+                disabled={disabled}
+                size="small"
+              />
+            }
+            label={
+              <Box>
+                <Typography variant="body2">
+                  Creator{" "}
+                  <Typography component="span" variant="caption" color="text.secondary">
+                    (@username)
+                  </Typography>
+                </Typography>
+              </Box>
+            }
+          />
+          <FormHelperText sx={{ mt: 0, ml: 4 }}>
+            {providerId === "github" || providerId === "gitlab"
+              ? "Shows who created the PR (@username:). For PRs with assignees different from the creator, also shows assignee (→@username)"
+              : providerId === "feed"
+                ? "Shows the entry's author (Author:)"
+                : providerId === "rest"
+                  ? "Not available for custom REST items"
+                  : "Shows who created the issue (@username:)"}
+          </FormHelperText>
+        </Box>
+
+        {/* Assignee (Jira only) */}
+        {providerId === "jira" && (
+          <Box>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={titleFormat.includeAssignee}
+                  onChange={(e) =>
+                    onChange({
+                      includeAssignee: e.target.checked,
+                    })
+                  }
+                  disabled={disabled}
+                  size="small"
+                />
+              }
+              label={
+                <Box>
+                  <Typography variant="body2">
+                    Assignee{" "}
+                    <Typography component="span" variant="caption" color="text.secondary">
+                      (→@username if different from creator)
+                    </Typography>
+                  </Typography>
+                </Box>
+              }
+            />
+            <FormHelperText sx={{ mt: 0, ml: 4 }}>
+              Shows who the issue is assigned to (→@username). Only displayed when assignee differs
+              from creator, or shows "→@unassigned" if no one is assigned
+            </FormHelperText>
+          </Box>
+        )}
+
+        {/* Age */}
+        <Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={titleFormat.includeAge}
+                onChange={(e) =>
+                  onChange({
+                    includeAge: e.target.checked,
+                  })
+                }
+                disabled={disabled}
+                size="small"
+              />
+            }
+            label={
+              <Box>
+                <Typography variant="body2">
+                  Age{" "}
+                  <Typography component="span" variant="caption" color="text.secondary">
+                    {titleFormat.includeEmojis
+                      ? "(⏰ 10d for items 7+ days old)"
+                      : "([10d] days since created)"}
+                  </Typography>
+                </Typography>
+              </Box>
+            }
+          />
+          <FormHelperText sx={{ mt: 0, ml: 4 }}>
+            Shows how many days since the item was created. Clock emoji (⏰) appears for items 7+
+            days old when emojis enabled
+          </FormHelperText>
+        </Box>
+
+        {/* Emoji toggle */}
+        <Divider sx={{ my: 1 }} />
+        <Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={titleFormat.includeEmojis}
+                onChange={(e) =>
+                  onChange({
+                    includeEmojis: e.target.checked,
+                  })
+                }
+                disabled={disabled}
+                size="small"
+              />
+            }
+            label={
+              <Box>
+                <Typography variant="body2">Use emojis instead of text labels</Typography>
+              </Box>
+            }
+          />
+          <FormHelperText sx={{ mt: 0, ml: 4 }}>
+            When enabled, uses visual icons (🟢 ✅ @user:) instead of text labels ([OPEN] [NO
+            REVIEWS] @user:)
+          </FormHelperText>
+        </Box>
+      </Stack>
+    </CollapsibleSection>
+  );
+}
@@ -0,0 +1,104 @@
+/**
+ * Providers View Types
+ * Shared by the providers view and its provider settings and live folder components
+ */
+
+import type { ProviderStatus } from "@/services/provider-registry";
+import type { RateLimitStatus } from "@/services/rate-limiter";
+import type { ConflictStrategy } from "@/types";
+import { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "@/types";
+import type {
+  ArchiveOptions,
+  BookmarkSortOrder,
+  FolderTitleFormatOptions,
+  LiveFolder,
+  RestFieldMappings,
+  TitleFormatOptions,
+} from "@/types/provider";
+
+export interface ProviderData {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  authenticated: boolean;
+  liveFolders: LiveFolderData[];
+  lastSync?: number;
+  /** Whether the last sync can be undone */
+  canUndo: boolean;
+  archive: ArchiveOptions;
+  /** How synced bookmarks edited locally are handled */
+  conflictStrategy: ConflictStrategy;
+  /** API quota, once the provider has made requests */
+  rateLimit?: RateLimitStatus;
+  status: ProviderStatus;
+}
+
+/**
+ * Live folder with display defaults applied
+ */
+export interface LiveFolderData extends Omit<LiveFolder, "filters"> {
+  sortOrder: BookmarkSortOrder;
+  filters: {
+    createdByMe?: boolean;
+    reviewRequests?: boolean;
+    assignedToMe?: boolean;
+    customQueries?: string[];
+    customJql?: string;
+    savedFilterId?: string;
+    feedUrl?: string;
+    endpoint?: string;
+    itemsPath?: string;
+    fieldMappings?: RestFieldMappings;
+  };
+  titleFormat: TitleFormatOptions;
+  folderTitleFormat: FolderTitleFormatOptions;
+}
+
+/**
+ * Apply defaults to a stored live folder for display
+ */
+export const toLiveFolderData = (liveFolder: LiveFolder): LiveFolderData => ({
+  ...liveFolder,
+  sortOrder: liveFolder.sortOrder ?? "alphabetical",
+  filters: liveFolder.filters ?? {},
+  titleFormat: liveFolder.titleFormat ?? DEFAULT_TITLE_FORMAT,
+  folderTitleFormat: liveFolder.folderTitleFormat ?? DEFAULT_FOLDER_TITLE_FORMAT,
+});
+
+export interface BookmarkFolder {
+  id: string;
+  title: string;
+}
+
+/**
+ * Persist changes to a live folder and mirror them in the view
+ */
+export type UpdateLiveFolder = (
+  liveFolderId: string,
+  getUpdates: (liveFolder: LiveFolder) => Partial<LiveFolder>,
+) => Promise<void>;
+
+/**
+ * Props of a provider's settings panel (credentials and server)
+ */
+export interface ProviderSettingsProps {
+  provider: ProviderData;
+  /** Whether the panel is expanded */
+  expanded: boolean;
+  onToggle: () => void;
+  onDisconnect: (providerId: string) => Promise<void>;
+  /** Show an error for the whole view (null clears it) */
+  onError: (message: string | null) => void;
+}
+
+/**
+ * Props of a provider's filter fields for one live folder
+ */
+export interface LiveFolderFiltersProps {
+  liveFolder: LiveFolderData;
+  disabled: boolean;
+  onUpdate: UpdateLiveFolder;
+  /** Turn a checkbox filter on or off */
+  onFilterChange: (filterKey: string, value: boolean) => void;
+}
@@ -15,6 +15,12 @@ export interface MockStorage {
     remove: ReturnType<typeof vi.fn>;
     clear: ReturnType<typeof vi.fn>;
   };
+  session: {
+    get: ReturnType<typeof vi.fn>;
+    set: ReturnType<typeof vi.fn>;
+    remove: ReturnType<typeof vi.fn>;
+    clear: ReturnType<typeof vi.fn>;
+  };
 }
 
 export interface MockRuntime {
@@ -66,6 +72,7 @@ export interface MockNotifications {
 
 export function createBrowserMocks(): Partial<Browser> {
   const storageData: Record<string, unknown> = {};
+  const sessionData: Record<string, unknown> = {};
 
   const storage: MockStorage = {
     data: storageData,
@@ -133,6 +140,36 @@ export function createBrowserMocks(): Partial<Browser> {
         return Promise.resolve();
       }),
     },
+    session: {
+      get: vi.fn((keys?: string | string[] | null) => {
+        if (!keys) return Promise.resolve(sessionData);
+        const keyArray = Array.isArray(keys) ? keys : [keys];
+        const result: Record<string, unknown> = {};
+        for (const key of keyArray) {
+          if (key in sessionData) {
+            result[key] = sessionData[key];
+          }
+        }
+        return Promise.resolve(result);
+      }),
+      set: vi.fn((items: Record<string, unknown>) => {
+        Object.assign(sessionData, items);
+        return Promise.resolve();
+      }),
+      remove: vi.fn((keys: string | string[]) => {
+        const keyArray = Array.isArray(keys) ? keys : [keys];
+        for (const key of keyArray) {
+          delete sessionData[key];
+        }
+        return Promise.resolve();
+      }),
+      clear: vi.fn(() => {
+        for (const key of Object.keys(sessionData)) {
+          delete sessionData[key];
+        }
+        return Promise.resolve();
+      }),
+    },
   };
 
   const runtime: MockRuntime = {
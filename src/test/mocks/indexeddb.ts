@@ -0,0 +1,102 @@
+/**
+ * In-memory IndexedDB mock
+ *
+ * jsdom has no IndexedDB. This covers what the crypto service uses: opening a
+ * database (with an upgrade on first open), and get/add on an object store
+ * within a transaction. Callbacks fire asynchronously, as in browsers.
+ */
+
+type Store = Map<IDBValidKey, unknown>;
+
+interface MockRequest<T> {
+  result?: T;
+  error: DOMException | null;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+  onupgradeneeded?: (() => void) | null;
+}
+
+/**
+ * Create a mock transaction over a database's stores
+ * Completes once every request made in it has succeeded.
+ */
+function createTransaction(stores: Map<string, Store>) {
+  let pending = 0;
+
+  const transaction = {
+    error: null,
+    oncomplete: null as (() => void) | null,
+    onerror: null as (() => void) | null,
+    objectStore: (name: string) => {
+      const store = stores.get(name);
+      if (!store) {
+        throw new DOMException(`No object store named ${name}`, "NotFoundError");
+      }
+
+      const request = <T>(run: () => T): MockRequest<T> => {
+        const req: MockRequest<T> = { error: null, onsuccess: null, onerror: null };
+        pending++;
+        queueMicrotask(() => {
+          req.result = run();
+          req.onsuccess?.();
+          if (--pending === 0) {
+            queueMicrotask(() => transaction.oncomplete?.());
+          }
+        });
+        return req;
+      };
+
+      return {
+        get: (key: IDBValidKey) => request(() => store.get(key)),
+        add: (value: unknown, key: IDBValidKey) =>
+          request(() => {
+            store.set(key, value);
+            return key;
+          }),
+      };
+    },
+  };
+
+  return transaction;
+}
+
+/**
+ * Create a mock IndexedDB factory with its own databases
+ */
+export function createIndexedDBMock(): IDBFactory {
+  const databases = new Map<string, Map<string, Store>>();
+
+  const open = (name: string) => {
+    const request: MockRequest<unknown> = {
+      error: null,
+      onsuccess: null,
+      onerror: null,
+      onupgradeneeded: null,
+    };
+
+    queueMicrotask(() => {
+      let stores = databases.get(name);
+      const isNew = !stores;
+      if (!stores) {
+        stores = new Map();
+        databases.set(name, stores);
+      }
+
+      const dbStores = stores;
+      request.result = {
+        createObjectStore: (storeName: string) => dbStores.set(storeName, new Map()),
+        transaction: () => createTransaction(dbStores),
+        close: () => {},
+      };
+
+      if (isNew) {
+        request.onupgradeneeded?.();
+      }
+      request.onsuccess?.();
+    });
+
+    return request;
+  };
+
+  return { open } as unknown as IDBFactory;
+}
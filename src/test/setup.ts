@@ -2,6 +2,7 @@ import "@testing-library/jest-dom";
 import { afterEach, vi } from "vitest";
 import type { Browser } from "webextension-polyfill";
 import { createBrowserMocks } from "./mocks/browser";
+import { createIndexedDBMock } from "./mocks/indexeddb";
 
 // Set up browser API mocks
 const browserMocks = createBrowserMocks();
@@ -14,7 +15,11 @@ declare global {
 globalThis.browser = browserMocks;
 (globalThis as unknown as { chrome: Partial<Browser> }).chrome = browserMocks;
 
-// Mock window.crypto for CSRF token generation
+// jsdom has no IndexedDB, where the credential encryption key is kept
+globalThis.indexedDB = createIndexedDBMock();
+
+// Mock window.crypto for CSRF token generation, keeping the real Web Crypto for encryption
+const { subtle } = globalThis.crypto;
 Object.defineProperty(globalThis, "crypto", {
   value: {
     getRandomValues: (arr: Uint8Array) => {
@@ -30,7 +35,7 @@ Object.defineProperty(globalThis, "crypto", {
         return v.toString(16);
       });
     },
-    subtle: {} as SubtleCrypto,
+    subtle,
   },
 });
 
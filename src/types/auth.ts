@@ -13,8 +13,12 @@ export interface OAuthConfig {
   tokenUrl: string;
   /** Client ID */
   clientId: string;
-  /** Client secret (if using confidential client) */
+  /** Client secret (only for confidential clients; public clients rely on PKCE) */
   clientSecret?: string;
+  /** Send a PKCE (S256) code challenge (default true; disable for servers that reject it) */
+  pkce?: boolean;
+  /** Device authorization endpoint, for the device flow (RFC 8628) */
+  deviceCodeUrl?: string;
   /** Redirect URI */
   redirectUri: string;
   /** Required scopes */
@@ -55,6 +59,24 @@ export interface AuthState {
   lastAuth?: number;
   /** Last token refresh timestamp */
   lastRefresh?: number;
+  /** Credentials were rejected (e.g. a revoked token); syncing stops until the user reconnects */
+  needsReauth?: boolean;
+  /** Required permissions the credentials lack, checked after authentication */
+  missingPermissions?: string[];
+  /** Required permissions that couldn't be checked either way */
+  unverifiedPermissions?: string[];
+}
+
+/**
+ * What credentials were found to have access to
+ */
+export interface PermissionCheck {
+  /** Granted scopes or permissions (stored in AuthTokens.scopes) */
+  scopes: string[];
+  /** Required permissions that are missing, as shown to the user */
+  missing: string[];
+  /** Required permissions that couldn't be checked either way */
+  unverified?: string[];
 }
 
 /**
@@ -105,6 +127,57 @@ export interface OAuthTokenResponse {
   scope?: string;
 }
 
+/**
+ * OAuth device authorization response
+ */
+export interface OAuthDeviceCodeResponse {
+  /** Code we poll the token endpoint with */
+  device_code: string;
+  /** Code the user enters on the verification page */
+  user_code: string;
+  /** Page where the user enters the code */
+  verification_uri: string;
+  /** Seconds until the codes expire */
+  expires_in: number;
+  /** Minimum seconds between polls */
+  interval?: number;
+}
+
+/**
+ * OAuth error response (also returned while polling in the device flow)
+ */
+export interface OAuthErrorResponse {
+  /** Error code, e.g. "authorization_pending" or "slow_down" */
+  error: string;
+  /** Error description */
+  error_description?: string;
+  /** New minimum seconds between polls (with "slow_down") */
+  interval?: number;
+}
+
+/**
+ * Device flow sign-in in progress
+ * Shown in the sidepanel while the background polls for the token.
+ */
+export interface DeviceAuthorization {
+  /** Provider ID */
+  providerId: string;
+  /** Code the user enters on the verification page */
+  userCode: string;
+  /** Page where the user enters the code */
+  verificationUri: string;
+  /** When the code expires (milliseconds since epoch) */
+  expiresAt: number;
+  /** Current polling interval in milliseconds */
+  interval: number;
+  /** Polling state; failed sign-ins are kept so the sidepanel can show why */
+  status: "pending" | "denied" | "error";
+  /** Error message when failed */
+  error?: string;
+  /** Code the token endpoint is polled with; only kept while pending */
+  deviceCode?: string;
+}
+
 /**
  * Authentication error types
  */
@@ -144,7 +217,7 @@ export interface AuthError {
  */
 export interface AuthEvent {
   /** Event type */
-  type: "auth_success" | "auth_failure" | "token_refresh" | "auth_revoked";
+  type: "auth_success" | "auth_failure" | "token_refresh" | "auth_revoked" | "reauth_required";
   /** Provider ID */
   providerId: string;
   /** Event timestamp */
@@ -61,8 +61,12 @@ export interface BookmarkRecord {
   providerId: string;
   /** Last update timestamp (when synced locally) */
   lastUpdated: number;
-  /** Hash of the bookmark data for change detection */
+  /** Hash of the item's title and URL as last synced, for change detection */
   hash?: string;
+  /** Hash of the bookmark when a conflict resolution kept it different from the item */
+  localHash?: string;
+  /** Keep the bookmark even when the item is no longer fetched */
+  pinned?: boolean;
   /** Original creation timestamp from provider */
   createdAt?: number;
   /** Original update timestamp from provider */
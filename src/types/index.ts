@@ -10,9 +10,13 @@ export type {
   AuthState,
   AuthTokens,
   AuthUser,
+  DeviceAuthorization,
   OAuthCodeResponse,
   OAuthConfig,
+  OAuthDeviceCodeResponse,
+  OAuthErrorResponse,
   OAuthTokenResponse,
+  PermissionCheck,
 } from "./auth";
 export { AuthErrorType } from "./auth";
 // Bookmark types
@@ -30,33 +34,64 @@ export type {
 } from "./bookmark";
 // Provider types
 export type {
+  ArchiveOptions,
+  ArchiveRetention,
   AuthResult,
+  BookmarkSortOrder,
+  FeedFilters,
   FolderTitleFormatOptions,
+  JiraFilters,
+  LiveFolder,
   Provider,
   ProviderConfig,
   ProviderFactory,
+  ProviderFilters,
   ProviderMetadata,
   ProviderRegistryEntry,
   ProviderStatus,
+  RestFieldMappings,
+  RestFilters,
   TitleFormatOptions,
   TitleFormatStyle,
   UserInfo,
 } from "./provider";
-export { DEFAULT_FOLDER_TITLE_FORMAT, DEFAULT_TITLE_FORMAT } from "./provider";
+export {
+  DEFAULT_ARCHIVE_OPTIONS,
+  DEFAULT_FOLDER_TITLE_FORMAT,
+  DEFAULT_TITLE_FORMAT,
+} from "./provider";
 
 // Storage types
 export type {
   BookmarkMetadataStorage,
   ExtensionSettings,
+  LiveFolderArchive,
+  LiveFolderStorage,
   Migration,
   MigrationFunction,
+  PassphraseLock,
   ProviderStorageData,
+  RateLimitState,
+  SidepanelTarget,
+  SidepanelView,
   StorageArea,
   StorageChange,
   StorageChanges,
   StorageOperationResult,
   StorageSchema,
   StorageStats,
+  StoredConflict,
+  SyncJournalEntry,
+  SyncJournalItem,
+  SyncUndoDeletedBookmark,
+  SyncUndoFolder,
+  SyncUndoSnapshot,
+  SyncUndoUpdatedBookmark,
 } from "./storage";
 
-export { DEFAULT_SETTINGS, SCHEMA_VERSION, StorageKeys } from "./storage";
+export {
+  DEFAULT_SETTINGS,
+  MAX_SYNC_JOURNAL_ENTRIES,
+  SCHEMA_VERSION,
+  StorageKeys,
+} from "./storage";
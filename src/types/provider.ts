@@ -3,7 +3,8 @@
  * Core interfaces for external service integrations
  */
 
-import type { BookmarkItem } from "./bookmark";
+import type { DeviceAuthorization } from "./auth";
+import type { BookmarkItem, ConflictStrategy } from "./bookmark";
 
 /**
  * Bookmark sort order options
@@ -18,6 +19,20 @@ export interface GitHubFilters {
   createdByMe?: boolean;
   /** Include PRs where I'm requested for review */
   reviewRequests?: boolean;
+  /** Raw GitHub search queries (`@me` is replaced with the signed-in user) */
+  customQueries?: string[];
+}
+
+/**
+ * GitLab-specific filter options
+ */
+export interface GitLabFilters {
+  /** Include merge requests created by me */
+  createdByMe?: boolean;
+  /** Include merge requests where I'm a reviewer */
+  reviewRequests?: boolean;
+  /** Include merge requests assigned to me */
+  assignedToMe?: boolean;
 }
 
 /**
@@ -28,12 +43,54 @@ export interface JiraFilters {
   createdByMe?: boolean;
   /** Include issues assigned to me */
   assignedToMe?: boolean;
+  /** Raw JQL query (replaces the created/assigned filters when set) */
+  customJql?: string;
+  /** Saved Jira filter ID (used when no custom JQL is set) */
+  savedFilterId?: string;
+}
+
+/**
+ * Feed-specific filter options
+ */
+export interface FeedFilters {
+  /** RSS or Atom feed the live folder reads */
+  feedUrl?: string;
+}
+
+/**
+ * Path expressions used to read custom REST item fields (relative to each item)
+ */
+export interface RestFieldMappings {
+  id: string;
+  title: string;
+  url: string;
+  updatedAt?: string;
+  state?: string;
+  labels?: string;
+}
+
+/**
+ * Custom REST filter options
+ * The auth header stays in the provider config, with the other credentials.
+ */
+export interface RestFilters {
+  /** Endpoint returning JSON */
+  endpoint?: string;
+  /** Path to the item array in the response ("$" when the response is the array) */
+  itemsPath?: string;
+  /** Field mappings for each item */
+  fieldMappings?: RestFieldMappings;
 }
 
 /**
  * Provider-specific filter options
  */
-export type ProviderFilters = GitHubFilters | JiraFilters;
+export type ProviderFilters =
+  | GitHubFilters
+  | GitLabFilters
+  | JiraFilters
+  | FeedFilters
+  | RestFilters;
 
 /**
  * Title format style options
@@ -56,6 +113,10 @@ export interface TitleFormatOptions {
   includeAge: boolean;
   /** Include review status (GitHub PRs) */
   includeReviewStatus: boolean;
+  /** Include CI check status (GitHub PRs) */
+  includeCIStatus?: boolean;
+  /** Include unresolved review thread count (GitHub PRs) */
+  includeUnresolvedThreads?: boolean;
   /** Include item creator/author */
   includeCreator: boolean;
   /** Overall format style */
@@ -84,6 +145,8 @@ export const DEFAULT_TITLE_FORMAT: TitleFormatOptions = {
   includePriority: false,
   includeAge: false,
   includeReviewStatus: true,
+  includeCIStatus: false,
+  includeUnresolvedThreads: false,
   includeCreator: false,
   format: "compact",
 };
@@ -97,6 +160,38 @@ export const DEFAULT_FOLDER_TITLE_FORMAT: FolderTitleFormatOptions = {
   includeReviewCount: true,
 };
 
+/**
+ * How archived bookmarks are pruned
+ */
+export type ArchiveRetention = "count" | "days";
+
+/**
+ * "Recently closed" archive options
+ */
+export interface ArchiveOptions {
+  /** Move removed items into an archive subfolder instead of deleting them */
+  enabled: boolean;
+  /** Name of the archive subfolder */
+  folderName: string;
+  /** Whether to keep a number of items or items younger than a number of days */
+  retention: ArchiveRetention;
+  /** Number of archived items to keep (count retention) */
+  maxItems: number;
+  /** Days to keep archived items (days retention) */
+  maxDays: number;
+}
+
+/**
+ * Default archive options
+ */
+export const DEFAULT_ARCHIVE_OPTIONS: ArchiveOptions = {
+  enabled: false,
+  folderName: "Recently closed",
+  retention: "count",
+  maxItems: 20,
+  maxDays: 7,
+};
+
 /**
  * Provider configuration
  */
@@ -115,10 +210,48 @@ export interface ProviderConfig {
   titleFormat?: TitleFormatOptions;
   /** Folder title formatting options */
   folderTitleFormat?: FolderTitleFormatOptions;
+  /** "Recently closed" archive options for all live folders of the provider */
+  archive?: ArchiveOptions;
+  /** How to handle synced bookmarks that were edited locally (default "remote_wins") */
+  conflictStrategy?: ConflictStrategy;
   /** Provider-specific configuration */
   settings?: Record<string, unknown>;
 }
 
+/**
+ * Live folder
+ * A bookmark folder synced from a provider with its own filters, sort order and formatting.
+ * A provider can back any number of live folders (e.g. "My PRs" and "Team reviews").
+ */
+export interface LiveFolder {
+  /** Unique live folder ID */
+  id: string;
+  /** Provider that supplies the items */
+  providerId: string;
+  /** Display name */
+  name: string;
+  /** Bookmark folder ID where items will be synced */
+  folderId?: string;
+  /** Whether this folder is synced */
+  enabled: boolean;
+  /** Sort order for bookmarks */
+  sortOrder?: BookmarkSortOrder;
+  /** Provider-specific filters */
+  filters?: ProviderFilters;
+  /** Title formatting options */
+  titleFormat?: TitleFormatOptions;
+  /** Folder title formatting options */
+  folderTitleFormat?: FolderTitleFormatOptions;
+  /** Last sync timestamp */
+  lastSync?: number;
+  /** Last sync status */
+  lastSyncStatus?: "success" | "error";
+  /** Last error message */
+  lastError?: string;
+  /** Creation timestamp */
+  createdAt: number;
+}
+
 /**
  * Provider metadata
  */
@@ -188,6 +321,15 @@ export interface Provider {
    */
   authenticate(): Promise<AuthResult>;
 
+  /**
+   * Authenticate with the OAuth device flow, for providers that support it
+   * @param onAuthorization - Receives the code the user enters on the verification page
+   * @returns Authentication result, once the user approves or the code expires
+   */
+  authenticateWithDeviceFlow?(
+    onAuthorization: (authorization: DeviceAuthorization) => void,
+  ): Promise<AuthResult>;
+
   /**
    * Check if the user is authenticated
    */
@@ -210,17 +352,19 @@ export interface Provider {
 
   /**
    * Fetch items from the external service
+   * @param folder - Live folder whose filters and title format apply (defaults to provider config)
    * @returns Array of bookmark items
    */
-  fetchItems(): Promise<BookmarkItem[]>;
+  fetchItems(folder?: LiveFolder): Promise<BookmarkItem[]>;
 
   /**
    * Format folder title with dynamic statistics
    * @param baseName - Base folder name (e.g., "GitHub Pull Requests")
    * @param items - Array of items to calculate statistics from
+   * @param folder - Live folder whose folder title format applies (defaults to provider config)
    * @returns Formatted folder title
    */
-  formatFolderTitle(baseName: string, items: BookmarkItem[]): Promise<string>;
+  formatFolderTitle(baseName: string, items: BookmarkItem[], folder?: LiveFolder): Promise<string>;
 
   /**
    * Get provider configuration
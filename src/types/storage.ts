@@ -3,9 +3,9 @@
  * Types for local storage schema and operations
  */
 
-import type { AuthState } from "./auth";
-import type { BookmarkRecord } from "./bookmark";
-import type { ProviderConfig } from "./provider";
+import type { AuthState, DeviceAuthorization } from "./auth";
+import type { BookmarkItem, BookmarkRecord } from "./bookmark";
+import type { LiveFolder, ProviderConfig } from "./provider";
 
 /**
  * Global extension settings
@@ -25,6 +25,8 @@ export interface ExtensionSettings {
   debugMode: boolean;
   /** Maximum number of items per provider */
   maxItemsPerProvider: number;
+  /** Minutes of inactivity before the passphrase lock engages again (0 = never) */
+  autoLockMinutes: number;
 }
 
 /**
@@ -33,9 +35,12 @@ export interface ExtensionSettings {
 export interface ProviderStorageData {
   /** Provider configuration */
   config: ProviderConfig;
-  /** Bookmark folder ID */
+  /**
+   * Bookmark folder ID
+   * @deprecated Folders now belong to live folders; only read by the v2 migration
+   */
   folderId?: string;
-  /** Last sync timestamp */
+  /** Last sync timestamp (any live folder) */
   lastSync?: number;
   /** Last sync status */
   lastSyncStatus?: "success" | "error";
@@ -51,6 +56,208 @@ export interface BookmarkMetadataStorage {
   [itemId: string]: BookmarkRecord;
 }
 
+/**
+ * Live folder storage
+ */
+export interface LiveFolderStorage {
+  /** Map of live folder ID to live folder */
+  [liveFolderId: string]: LiveFolder;
+}
+
+/**
+ * "Recently closed" archive subfolder of a live folder
+ */
+export interface LiveFolderArchive {
+  /** Bookmark folder ID of the archive subfolder */
+  folderId: string;
+  /** When each archived bookmark was moved into the archive, keyed by bookmark ID */
+  archivedAt: {
+    [bookmarkId: string]: number;
+  };
+}
+
+/**
+ * Item touched by a sync, as recorded in the sync journal
+ */
+export interface SyncJournalItem {
+  /** External item ID (bookmark ID for bookmarks that were never linked to an item) */
+  itemId: string;
+  /** Bookmark title at the time of the sync */
+  title: string;
+}
+
+/**
+ * Sync journal entry for one live folder sync
+ */
+export interface SyncJournalEntry {
+  /** Unique entry ID */
+  id: string;
+  /** Provider ID */
+  providerId: string;
+  /** Live folder ID */
+  liveFolderId: string;
+  /** Live folder name at the time of the sync */
+  liveFolderName: string;
+  /** Sync start timestamp */
+  timestamp: number;
+  /** Sync duration in milliseconds */
+  duration: number;
+  /** Whether the sync succeeded */
+  success: boolean;
+  /** Error message (if failed) */
+  error?: string;
+  /** Items whose bookmarks were created */
+  added: SyncJournalItem[];
+  /** Items whose bookmarks were updated */
+  updated: SyncJournalItem[];
+  /** Items whose bookmarks were removed */
+  removed: SyncJournalItem[];
+}
+
+/**
+ * Bookmark removed by a sync, with enough detail to recreate it
+ */
+export interface SyncUndoDeletedBookmark {
+  /** Bookmark ID (still valid when the bookmark was archived) */
+  bookmarkId: string;
+  /** Whether the bookmark was moved to the archive instead of deleted */
+  archived?: boolean;
+  /** Linked item ID (if the bookmark was created by a sync) */
+  itemId?: string;
+  /** Bookmark title */
+  title: string;
+  /** Bookmark URL */
+  url: string;
+  /** Position in the folder before the sync */
+  index: number;
+}
+
+/**
+ * Bookmark updated by a sync, with its previous title and URL
+ */
+export interface SyncUndoUpdatedBookmark {
+  /** Bookmark ID */
+  bookmarkId: string;
+  /** Title before the sync */
+  title: string;
+  /** URL before the sync */
+  url: string;
+}
+
+/**
+ * Changes the last sync made to one live folder
+ */
+export interface SyncUndoFolder {
+  /** Live folder ID */
+  liveFolderId: string;
+  /** Live folder name at the time of the sync */
+  liveFolderName: string;
+  /** Bookmark folder ID */
+  folderId: string;
+  /** Bookmark folder title before the sync */
+  folderTitle: string;
+  /** Sync timestamp */
+  timestamp: number;
+  /** IDs of bookmarks created by the sync */
+  added: string[];
+  /** Bookmarks updated by the sync */
+  updated: SyncUndoUpdatedBookmark[];
+  /** Bookmarks removed by the sync */
+  deleted: SyncUndoDeletedBookmark[];
+  /** Bookmark metadata before the sync */
+  records: BookmarkMetadataStorage;
+}
+
+/**
+ * Everything needed to revert the last sync of a provider
+ */
+export interface SyncUndoSnapshot {
+  /** Provider ID */
+  providerId: string;
+  /** Timestamp of the most recent sync with changes */
+  timestamp: number;
+  /** Last changes per live folder, keyed by live folder ID */
+  folders: {
+    [liveFolderId: string]: SyncUndoFolder;
+  };
+}
+
+/**
+ * Conflict between a locally edited bookmark and its fetched item, awaiting the user
+ */
+export interface StoredConflict {
+  /** Conflict ID */
+  id: string;
+  /** Conflict type (see ConflictType) */
+  type: string;
+  /** Provider ID */
+  providerId: string;
+  /** Live folder the bookmark belongs to */
+  liveFolderId: string;
+  /** Browser bookmark ID */
+  bookmarkId: string;
+  /** The bookmark as edited locally */
+  local: BookmarkItem;
+  /** The item as fetched from the provider */
+  remote: BookmarkItem;
+  /** Detection timestamp */
+  detectedAt: number;
+}
+
+/**
+ * Sidepanel views that can be opened directly
+ */
+export type SidepanelView = "providers" | "items" | "activity" | "conflicts" | "settings";
+
+/**
+ * View the sidepanel should show when it opens, e.g. after a notification click
+ */
+export interface SidepanelTarget {
+  view: SidepanelView;
+  /** Provider to focus in the view */
+  providerId?: string;
+}
+
+/**
+ * Opt-in passphrase lock for stored credentials
+ * Holds no secret: the key is derived from the passphrase with PBKDF2 on unlock.
+ */
+export interface PassphraseLock {
+  /** PBKDF2 salt (base64) */
+  salt: string;
+  /** PBKDF2 iteration count */
+  iterations: number;
+  /** Known value encrypted with the derived key, to check passphrases */
+  verifier: string;
+}
+
+/**
+ * Persisted rate limiter state of a provider
+ * Restored after service worker restarts so quotas and server-imposed waits survive
+ */
+export interface RateLimitState {
+  /** Local limit (requests per window) */
+  maxRequests: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Limiting strategy (see RateLimitStrategy) */
+  strategy: string;
+  /** Token bucket state */
+  tokenBucket?: {
+    tokens: number;
+    lastRefill: number;
+  };
+  /** Request timestamps in the current sliding window */
+  requestLog?: number[];
+  /** Fixed window counter */
+  fixedWindow?: {
+    count: number;
+    windowStart: number;
+  };
+  /** Timestamp until which the server asked us to stop sending requests */
+  blockedUntil?: number;
+}
+
 /**
  * Complete storage schema
  */
@@ -65,9 +272,39 @@ export interface StorageSchema {
   auth: {
     [providerId: string]: AuthState;
   };
-  /** Bookmark metadata keyed by provider ID */
+  /** Live folders keyed by live folder ID */
+  liveFolders: LiveFolderStorage;
+  /** Bookmark metadata keyed by live folder ID */
   bookmarks: {
-    [providerId: string]: BookmarkMetadataStorage;
+    [liveFolderId: string]: BookmarkMetadataStorage;
+  };
+  /** Archive subfolders keyed by live folder ID */
+  archives: {
+    [liveFolderId: string]: LiveFolderArchive;
+  };
+  /** Sync journal keyed by provider ID (newest first, bounded) */
+  syncJournal: {
+    [providerId: string]: SyncJournalEntry[];
+  };
+  /** Undo snapshots of the last sync, keyed by provider ID */
+  syncUndo: {
+    [providerId: string]: SyncUndoSnapshot;
+  };
+  /** Unresolved conflicts keyed by conflict ID */
+  conflicts: {
+    [conflictId: string]: StoredConflict;
+  };
+  /** Rate limiter state keyed by provider ID */
+  rateLimits: {
+    [providerId: string]: RateLimitState;
+  };
+  /** Pending deep link into the sidepanel, cleared once shown */
+  sidepanelTarget?: SidepanelTarget;
+  /** Passphrase lock, when enabled */
+  passphraseLock?: PassphraseLock;
+  /** Device flow sign-ins in progress, keyed by provider ID */
+  deviceAuth?: {
+    [providerId: string]: DeviceAuthorization;
   };
   /** Installation timestamp */
   installedAt: number;
@@ -86,12 +323,18 @@ export const DEFAULT_SETTINGS: ExtensionSettings = {
   theme: "auto",
   debugMode: false,
   maxItemsPerProvider: 100,
+  autoLockMinutes: 15,
 };
 
 /**
  * Current schema version
  */
-export const SCHEMA_VERSION = 1;
+export const SCHEMA_VERSION = 3;
+
+/**
+ * Maximum number of sync journal entries kept per provider
+ */
+export const MAX_SYNC_JOURNAL_ENTRIES = 100;
 
 /**
  * Storage keys (for type-safe storage access)
@@ -101,6 +344,15 @@ export const StorageKeys = {
   PROVIDERS: "providers",
   AUTH: "auth",
   BOOKMARKS: "bookmarks",
+  LIVE_FOLDERS: "liveFolders",
+  ARCHIVES: "archives",
+  SYNC_JOURNAL: "syncJournal",
+  SYNC_UNDO: "syncUndo",
+  RATE_LIMITS: "rateLimits",
+  CONFLICTS: "conflicts",
+  SIDEPANEL_TARGET: "sidepanelTarget",
+  PASSPHRASE_LOCK: "passphraseLock",
+  DEVICE_AUTH: "deviceAuth",
   INSTALLED_AT: "installedAt",
   SCHEMA_VERSION: "schemaVersion",
 } as const;
@@ -172,7 +424,9 @@ export interface StorageStats {
   providerCount: number;
   /** Total number of bookmarks */
   totalBookmarks: number;
-  /** Bookmarks by provider */
+  /** Number of live folders */
+  liveFolderCount: number;
+  /** Bookmarks by provider (summed across its live folders) */
   bookmarksByProvider: {
     [providerId: string]: number;
   };
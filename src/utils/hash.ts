@@ -0,0 +1,23 @@
+/**
+ * Content Hashing
+ * Fast, non-cryptographic hashes used for change detection
+ */
+
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Hash the parts of an item that end up in the browser bookmark (title and URL)
+ * Uses 32-bit FNV-1a; a collision only means a change goes unnoticed until the next edit
+ */
+export function hashBookmarkContent(content: { title?: string; url?: string }): string {
+  const input = JSON.stringify([content.title ?? "", content.url ?? ""]);
+  let hash = FNV_OFFSET_BASIS;
+
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
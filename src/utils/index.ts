@@ -3,4 +3,6 @@
  */
 
 export { browser } from "./browser";
+export { hashBookmarkContent } from "./hash";
 export { createLogger, type LogEntry, Logger, LogLevel, logger } from "./logger";
+export { PIN_INDICATOR, withoutPinIndicator, withPinIndicator } from "./pin";
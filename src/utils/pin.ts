@@ -0,0 +1,22 @@
+/**
+ * Pinned Items
+ * Title indicator for bookmarks that are kept even after they drop out of a query
+ */
+
+export const PIN_INDICATOR = "📌";
+
+const PIN_PREFIX = `${PIN_INDICATOR} `;
+
+/**
+ * Prefix a title with the pin indicator (idempotent)
+ */
+export function withPinIndicator(title: string): string {
+  return title.startsWith(PIN_PREFIX) ? title : `${PIN_PREFIX}${title}`;
+}
+
+/**
+ * Remove the pin indicator from a title
+ */
+export function withoutPinIndicator(title: string): string {
+  return title.startsWith(PIN_PREFIX) ? title.slice(PIN_PREFIX.length) : title;
+}